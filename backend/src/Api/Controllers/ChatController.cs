@@ -3,7 +3,9 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.SignalR;
 using OnlineCommunities.Api.Extensions;
 using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Application.Interfaces;
 using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
 using OnlineCommunities.Core.Interfaces;
 
 namespace OnlineCommunities.Api.Controllers;
@@ -17,30 +19,99 @@ namespace OnlineCommunities.Api.Controllers;
 [Authorize]
 public class ChatController : ControllerBase
 {
+    // Keep in sync with utils/attachments.ts in the frontend
+    private const long MaxAttachmentSize = 25 * 1024 * 1024;
+    private const int UploadChunkSize = 1024 * 1024;
+    private const int MaxFileNameLength = 255;
+
+    private static readonly HashSet<string> AllowedAttachmentTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "image/png",
+        "image/jpeg",
+        "image/gif",
+        "image/webp",
+        "application/pdf",
+        "text/plain",
+        "text/csv",
+        "application/zip",
+        "application/msword",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "application/vnd.ms-excel",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "application/vnd.ms-powerpoint",
+        "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+    };
+
+    private const int MaxInviteCandidates = 20;
+
+    // Shown as avatars under a message that has replies
+    private const int MaxLatestRepliers = 3;
+
     private readonly IChatRoomRepository _chatRoomRepository;
     private readonly IChatMessageRepository _chatMessageRepository;
+    private readonly IChatRoomInvitationRepository _invitationRepository;
+    private readonly IChatRoomBanRepository _banRepository;
+    private readonly IMessageReportRepository _reportRepository;
+    private readonly IChatModerationService _moderationService;
+    private readonly IUserRepository _userRepository;
+    private readonly ITenantRepository _tenantRepository;
+    private readonly IAttachmentStorage _attachmentStorage;
+    private readonly IPresenceTracker _presenceTracker;
     private readonly IHubContext<ChatHub> _hubContext;
     private readonly ILogger<ChatController> _logger;
 
     public ChatController(
         IChatRoomRepository chatRoomRepository,
         IChatMessageRepository chatMessageRepository,
+        IChatRoomInvitationRepository invitationRepository,
+        IChatRoomBanRepository banRepository,
+        IMessageReportRepository reportRepository,
+        IChatModerationService moderationService,
+        IUserRepository userRepository,
+        ITenantRepository tenantRepository,
+        IAttachmentStorage attachmentStorage,
+        IPresenceTracker presenceTracker,
         IHubContext<ChatHub> hubContext,
         ILogger<ChatController> logger)
     {
         _chatRoomRepository = chatRoomRepository;
         _chatMessageRepository = chatMessageRepository;
+        _invitationRepository = invitationRepository;
+        _banRepository = banRepository;
+        _reportRepository = reportRepository;
+        _moderationService = moderationService;
+        _userRepository = userRepository;
+        _tenantRepository = tenantRepository;
+        _attachmentStorage = attachmentStorage;
+        _presenceTracker = presenceTracker;
         _hubContext = hubContext;
         _logger = logger;
     }
 
     /// <summary>
-    /// Get all public chat rooms.
+    /// Get all public chat rooms, of the given tenant or else the request's tenant (see TenantContextMiddleware).
+    /// Without a tenant, lists the rooms outside any tenant and those of the caller's tenants.
     /// </summary>
     [HttpGet("rooms")]
     public async Task<IActionResult> GetPublicRooms([FromQuery] Guid? tenantId = null)
     {
-        var rooms = await _chatRoomRepository.GetPublicChatRoomsAsync(tenantId);
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        tenantId ??= HttpContext.GetTenantId();
+
+        // A tenant's rooms are listed to that tenant's members only
+        if (tenantId.HasValue && !await _userRepository.IsMemberOfTenantAsync(userId.Value, tenantId.Value))
+        {
+            return Forbid();
+        }
+
+        var rooms = (await _chatRoomRepository.GetPublicChatRoomsAsync(userId.Value, tenantId)).ToList();
+        var tenantNames = await GetTenantNamesAsync(rooms);
 
         return Ok(rooms.Select(r => new
         {
@@ -49,6 +120,7 @@ public class ChatController : ControllerBase
             r.Description,
             r.IsPublic,
             r.TenantId,
+            TenantName = r.TenantId.HasValue ? tenantNames.GetValueOrDefault(r.TenantId.Value) : null,
             r.MaxParticipants,
             MemberCount = r.Members.Count,
             r.CreatedAt
@@ -56,10 +128,10 @@ public class ChatController : ControllerBase
     }
 
     /// <summary>
-    /// Get all chat rooms the current user is a member of.
+    /// Get all chat rooms the current user is a member of, in the given tenant or else the request's tenant.
     /// </summary>
     [HttpGet("my-rooms")]
-    public async Task<IActionResult> GetMyRooms()
+    public async Task<IActionResult> GetMyRooms([FromQuery] Guid? tenantId = null)
     {
         var userId = User.GetUserId();
 
@@ -68,7 +140,8 @@ public class ChatController : ControllerBase
             return Unauthorized();
         }
 
-        var rooms = await _chatRoomRepository.GetUserChatRoomsAsync(userId.Value);
+        var rooms = (await _chatRoomRepository.GetUserChatRoomsAsync(userId.Value, tenantId ?? HttpContext.GetTenantId())).ToList();
+        var tenantNames = await GetTenantNamesAsync(rooms);
 
         return Ok(rooms.Select(r => new
         {
@@ -77,7 +150,18 @@ public class ChatController : ControllerBase
             r.Description,
             r.IsPublic,
             r.TenantId,
+            TenantName = r.TenantId.HasValue ? tenantNames.GetValueOrDefault(r.TenantId.Value) : null,
             MemberCount = r.Members.Count,
+            r.IsDirect,
+            // Direct rooms are shown by who is in them
+            Participants = r.IsDirect
+                ? r.Members.Select(m => new
+                {
+                    m.UserId,
+                    m.User.Email,
+                    DisplayName = $"{m.User.FirstName} {m.User.LastName}".Trim()
+                })
+                : null,
             r.CreatedAt
         }));
     }
@@ -105,27 +189,47 @@ public class ChatController : ControllerBase
         // Check if user is a member or if the room is public
         var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
 
-        if (!isMember && !room.IsPublic)
+        // Outside the room, only public rooms of the user's own tenants are visible, as with joining
+        // (the member list has emails). Tenant staff may open the settings of any room of their tenant
+        var canView = isMember ||
+            (room.IsPublic &&
+             (!room.TenantId.HasValue || await _userRepository.IsMemberOfTenantAsync(userId.Value, room.TenantId.Value)));
+
+        if (!canView &&
+            !await _moderationService.HasTenantPermissionAsync(userId.Value, room.TenantId, TenantPermissions.ManageRooms) &&
+            !await _moderationService.HasTenantPermissionAsync(userId.Value, room.TenantId, TenantPermissions.ManageMembers))
         {
             return Forbid();
         }
 
+        // Only moderators see the size of the review queue
+        int? openReportCount = await _moderationService.CanModerateAsync(room, userId.Value)
+            ? await _reportRepository.CountOpenForRoomAsync(roomId)
+            : null;
+
         return Ok(new
         {
             room.Id,
             room.Name,
             room.Description,
             room.IsPublic,
+            room.IsActive,
             room.TenantId,
             room.MaxParticipants,
+            room.SlowModeSeconds,
+            room.IsDirect,
             Members = room.Members.Select(m => new
             {
                 m.UserId,
+                m.User.Email,
+                DisplayName = $"{m.User.FirstName} {m.User.LastName}".Trim(),
                 m.Role,
                 m.JoinedAt,
-                m.IsMuted
+                m.IsMuted,
+                m.MutedUntil
             }),
             IsMember = isMember,
+            OpenReportCount = openReportCount,
             room.CreatedAt
         });
     }
@@ -148,13 +252,21 @@ public class ChatController : ControllerBase
             return BadRequest(new { message = "Room name is required" });
         }
 
+        // Rooms are created in the active tenant unless another one is given
+        var tenantId = request.TenantId ?? HttpContext.GetTenantId();
+
+        if (tenantId.HasValue && !await _moderationService.HasTenantPermissionAsync(userId.Value, tenantId, TenantPermissions.CreateRooms))
+        {
+            return Forbid();
+        }
+
         var chatRoom = new ChatRoom
         {
             Id = Guid.NewGuid(),
             Name = request.Name,
             Description = request.Description,
             IsPublic = request.IsPublic ?? true,
-            TenantId = request.TenantId,
+            TenantId = tenantId,
             MaxParticipants = request.MaxParticipants,
             CreatedAt = DateTime.UtcNow,
             CreatedBy = userId.Value.ToString()
@@ -208,6 +320,22 @@ public class ChatController : ControllerBase
             return BadRequest(new { message = "Cannot join private rooms without invitation" });
         }
 
+        if (!room.IsActive)
+        {
+            return BadRequest(new { message = "This chat room has been archived" });
+        }
+
+        // A tenant's rooms are open to that tenant's members only
+        if (room.TenantId.HasValue && !await _userRepository.IsMemberOfTenantAsync(userId.Value, room.TenantId.Value))
+        {
+            return Forbid();
+        }
+
+        if (await _banRepository.IsBannedAsync(roomId, userId.Value))
+        {
+            return BadRequest(new { message = "You have been banned from this chat room" });
+        }
+
         // Check if already a member
         var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
 
@@ -258,6 +386,7 @@ public class ChatController : ControllerBase
         }
 
         await _chatRoomRepository.RemoveMemberAsync(roomId, userId.Value);
+        await _hubContext.Groups.RemoveUserFromRoomGroupsAsync(_presenceTracker, userId.Value, roomId);
 
         _logger.LogInformation("User {UserId} left chat room {RoomId}", userId, roomId);
 
@@ -265,13 +394,11 @@ public class ChatController : ControllerBase
     }
 
     /// <summary>
-    /// Get messages from a chat room with pagination.
+    /// Update a chat room's name, description and participant limit.
+    /// Room admins, and tenant members with the rooms.manage permission.
     /// </summary>
-    [HttpGet("rooms/{roomId}/messages")]
-    public async Task<IActionResult> GetMessages(
-        Guid roomId,
-        [FromQuery] int skip = 0,
-        [FromQuery] int take = 50)
+    [HttpPut("rooms/{roomId}")]
+    public async Task<IActionResult> UpdateRoom(Guid roomId, [FromBody] UpdateChatRoomRequest request)
     {
         var userId = User.GetUserId();
 
@@ -280,44 +407,204 @@ public class ChatController : ControllerBase
             return Unauthorized();
         }
 
-        // Check if user is a member
-        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
 
-        if (!isMember)
+        if (room == null)
         {
-            var room = await _chatRoomRepository.GetByIdAsync(roomId);
-            if (room == null || !room.IsPublic)
-            {
-                return Forbid();
-            }
+            return NotFound(new { message = "Chat room not found" });
         }
 
-        if (take > 100)
+        if (GetMemberRole(room, userId.Value) != "admin" &&
+            !await _moderationService.HasTenantPermissionAsync(userId.Value, room.TenantId, TenantPermissions.ManageRooms))
         {
-            take = 100; // Limit max messages per request
+            return Forbid();
         }
 
-        var messages = await _chatMessageRepository.GetMessagesAsync(roomId, skip, take);
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return BadRequest(new { message = "Room name is required" });
+        }
 
-        return Ok(messages.Select(m => new
+        if (request.MaxParticipants.HasValue && request.MaxParticipants.Value < room.Members.Count)
         {
-            m.Id,
-            m.ChatRoomId,
-            m.UserId,
-            m.Content,
-            m.MessageType,
-            m.ParentMessageId,
-            m.IsEdited,
-            m.IsDeleted,
-            m.CreatedAt
+            return BadRequest(new { message = $"The room already has {room.Members.Count} members" });
+        }
+
+        room.Name = request.Name.Trim();
+        room.Description = string.IsNullOrWhiteSpace(request.Description) ? null : request.Description.Trim();
+        room.MaxParticipants = request.MaxParticipants;
+        room.ModifiedBy = userId.Value.ToString();
+
+        await _chatRoomRepository.UpdateAsync(room);
+
+        _logger.LogInformation("User {UserId} updated chat room {RoomId}", userId, roomId);
+
+        await BroadcastRoomUpdatedAsync(room);
+
+        return Ok(new
+        {
+            room.Id,
+            room.Name,
+            room.Description,
+            room.IsPublic,
+            room.IsActive,
+            room.TenantId,
+            room.MaxParticipants
+        });
+    }
+
+    /// <summary>
+    /// Archive a chat room. It disappears from room lists and no longer accepts messages,
+    /// but its history stays readable to members. Room admins, and tenant members with rooms.manage.
+    /// </summary>
+    [HttpPost("rooms/{roomId}/archive")]
+    public async Task<IActionResult> ArchiveRoom(Guid roomId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (GetMemberRole(room, userId.Value) != "admin" &&
+            !await _moderationService.HasTenantPermissionAsync(userId.Value, room.TenantId, TenantPermissions.ManageRooms))
+        {
+            return Forbid();
+        }
+
+        if (!room.IsActive)
+        {
+            return BadRequest(new { message = "This chat room is already archived" });
+        }
+
+        room.IsActive = false;
+        room.ModifiedBy = userId.Value.ToString();
+
+        await _chatRoomRepository.UpdateAsync(room);
+
+        _logger.LogInformation("User {UserId} archived chat room {RoomId}", userId, roomId);
+
+        await BroadcastRoomUpdatedAsync(room);
+
+        return Ok(new { message = "Chat room archived" });
+    }
+
+    /// <summary>
+    /// Remove (kick) a member from a chat room. Anyone who can moderate the room may
+    /// (see IChatModerationService), but only members with a lower role than theirs, and nobody themselves.
+    /// Logged in the room's moderation log. The user can rejoin unless they are also banned.
+    /// </summary>
+    [HttpDelete("rooms/{roomId}/members/{memberId}")]
+    public async Task<IActionResult> RemoveMember(Guid roomId, Guid memberId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        if (memberId == userId.Value)
+        {
+            return BadRequest(new { message = "Use leave to remove yourself from a room" });
+        }
+
+        var memberRole = GetMemberRole(room, memberId);
+
+        if (memberRole == null)
+        {
+            return NotFound(new { message = "This user is not a member of the room" });
+        }
+
+        if (!await _moderationService.CanModerateMemberAsync(room, userId.Value, memberId))
+        {
+            return BadRequest(new { message = "You can only remove members with a lower role than yours" });
+        }
+
+        await _chatRoomRepository.RemoveMemberAsync(roomId, memberId);
+        await _moderationService.RecordAsync(roomId, userId.Value, ModerationAction.Kick, targetUserId: memberId);
+        await _hubContext.Groups.RemoveUserFromRoomGroupsAsync(_presenceTracker, memberId, roomId);
+
+        _logger.LogInformation("User {UserId} removed {MemberId} from chat room {RoomId}", userId, memberId, roomId);
+
+        var notification = new
+        {
+            UserId = memberId,
+            ChatRoomId = roomId,
+            RemovedBy = userId.Value,
+            Timestamp = DateTime.UtcNow
+        };
+
+        // The removed user hears it on their personal group too, so every open tab drops the room
+        await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("MemberRemoved", notification);
+        await _hubContext.Clients.Group($"User_{memberId}").SendAsync("MemberRemoved", notification);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Find people to invite: users who share a room with the caller and are not yet members.
+    /// </summary>
+    [HttpGet("rooms/{roomId}/invite-candidates")]
+    public async Task<IActionResult> GetInviteCandidates(Guid roomId, [FromQuery] string? search = null)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        // Direct message participants look people up to start a larger group conversation
+        var role = GetMemberRole(room, userId.Value);
+
+        if (room.IsDirect ? role == null : !CanInvite(role))
+        {
+            return Forbid();
+        }
+
+        var users = await _chatRoomRepository.GetInviteCandidatesAsync(roomId, userId.Value, search, MaxInviteCandidates);
+
+        return Ok(users.Select(u => new
+        {
+            UserId = u.Id,
+            u.Email,
+            DisplayName = $"{u.FirstName} {u.LastName}".Trim()
         }));
     }
 
     /// <summary>
-    /// Get unread message count for a chat room.
+    /// Get the pending invitations of a chat room. Room admins and moderators only.
     /// </summary>
-    [HttpGet("rooms/{roomId}/unread-count")]
-    public async Task<IActionResult> GetUnreadCount(Guid roomId)
+    [HttpGet("rooms/{roomId}/invitations")]
+    public async Task<IActionResult> GetRoomInvitations(Guid roomId)
     {
         var userId = User.GetUserId();
 
@@ -326,19 +613,720 @@ public class ChatController : ControllerBase
             return Unauthorized();
         }
 
-        var count = await _chatMessageRepository.GetUnreadCountAsync(roomId, userId.Value);
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
 
-        return Ok(new { roomId, unreadCount = count });
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!CanInvite(GetMemberRole(room, userId.Value)))
+        {
+            return Forbid();
+        }
+
+        var invitations = await _invitationRepository.GetPendingForRoomAsync(roomId);
+
+        return Ok(invitations.Select(ToInvitationResponse));
     }
-}
 
-// DTOs
-public class CreateChatRoomRequest
-{
-    public string Name { get; set; } = string.Empty;
-    public string? Description { get; set; }
-    public bool? IsPublic { get; set; } = true;
-    public Guid? TenantId { get; set; }
-    public int? MaxParticipants { get; set; }
-}
+    /// <summary>
+    /// Invite a user to a chat room by user ID or email. Room admins and moderators only.
+    /// The invited user is notified live and becomes a member once they accept.
+    /// </summary>
+    [HttpPost("rooms/{roomId}/invitations")]
+    public async Task<IActionResult> InviteToRoom(Guid roomId, [FromBody] InviteToChatRoomRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!CanInvite(GetMemberRole(room, userId.Value)))
+        {
+            return Forbid();
+        }
+
+        if (!room.IsActive)
+        {
+            return BadRequest(new { message = "This chat room has been archived" });
+        }
+
+        var invitee = request.UserId.HasValue
+            ? await _userRepository.GetByIdAsync(request.UserId.Value)
+            : !string.IsNullOrWhiteSpace(request.Email)
+                ? await _userRepository.GetByEmailAsync(request.Email.Trim())
+                : null;
+
+        if (invitee == null || !invitee.IsActive)
+        {
+            return NotFound(new { message = "No user found with that email" });
+        }
+
+        if (GetMemberRole(room, invitee.Id) != null)
+        {
+            return BadRequest(new { message = "This user is already a member of the room" });
+        }
+
+        if (room.TenantId.HasValue && !await _userRepository.IsMemberOfTenantAsync(invitee.Id, room.TenantId.Value))
+        {
+            return BadRequest(new { message = "This user is not a member of the room's community" });
+        }
+
+        if (await _banRepository.IsBannedAsync(roomId, invitee.Id))
+        {
+            return BadRequest(new { message = "This user has been banned from the room" });
+        }
+
+        if (await _invitationRepository.GetPendingAsync(roomId, invitee.Id) != null)
+        {
+            return Conflict(new { message = "This user has already been invited" });
+        }
+
+        var invitation = await _invitationRepository.AddAsync(new ChatRoomInvitation
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = roomId,
+            InvitedUserId = invitee.Id,
+            InvitedById = userId.Value,
+            CreatedAt = DateTime.UtcNow,
+            CreatedBy = userId.Value.ToString()
+        });
 
+        // Reload for the navigation properties the response needs
+        invitation = (await _invitationRepository.GetByIdAsync(invitation.Id))!;
+        var response = ToInvitationResponse(invitation);
+
+        _logger.LogInformation(
+            "User {UserId} invited {InviteeId} to chat room {RoomId}",
+            userId, invitee.Id, roomId);
+
+        await _hubContext.Clients.Group($"User_{invitee.Id}").SendAsync("InvitationReceived", response);
+
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Revoke a pending invitation. Room admins and moderators only.
+    /// </summary>
+    [HttpDelete("rooms/{roomId}/invitations/{invitationId}")]
+    public async Task<IActionResult> RevokeInvitation(Guid roomId, Guid invitationId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!CanInvite(GetMemberRole(room, userId.Value)))
+        {
+            return Forbid();
+        }
+
+        var invitation = await _invitationRepository.GetByIdAsync(invitationId);
+
+        if (invitation == null || invitation.ChatRoomId != roomId || invitation.Status != ChatRoomInvitation.Pending)
+        {
+            return NotFound(new { message = "Invitation not found" });
+        }
+
+        await RespondToInvitationAsync(invitation, ChatRoomInvitation.Revoked, userId.Value);
+
+        await _hubContext.Clients.Group($"User_{invitation.InvitedUserId}").SendAsync("InvitationRevoked", new
+        {
+            InvitationId = invitation.Id,
+            invitation.ChatRoomId
+        });
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Get the current user's pending invitations.
+    /// </summary>
+    [HttpGet("invitations")]
+    public async Task<IActionResult> GetMyInvitations()
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var invitations = await _invitationRepository.GetPendingForUserAsync(userId.Value);
+
+        return Ok(invitations.Select(ToInvitationResponse));
+    }
+
+    /// <summary>
+    /// Accept an invitation and join the chat room.
+    /// </summary>
+    [HttpPost("invitations/{invitationId}/accept")]
+    public async Task<IActionResult> AcceptInvitation(Guid invitationId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var invitation = await _invitationRepository.GetByIdAsync(invitationId);
+
+        if (invitation == null || invitation.InvitedUserId != userId.Value || invitation.Status != ChatRoomInvitation.Pending)
+        {
+            return NotFound(new { message = "Invitation not found" });
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(invitation.ChatRoomId);
+
+        if (room == null || !room.IsActive)
+        {
+            return BadRequest(new { message = "This chat room has been archived" });
+        }
+
+        if (await _banRepository.IsBannedAsync(room.Id, userId.Value))
+        {
+            return BadRequest(new { message = "You have been banned from this chat room" });
+        }
+
+        if (room.MaxParticipants.HasValue && room.Members.Count >= room.MaxParticipants.Value)
+        {
+            return BadRequest(new { message = "Chat room is full" });
+        }
+
+        // Someone may have added the user another way in the meantime
+        if (GetMemberRole(room, userId.Value) == null)
+        {
+            await _chatRoomRepository.AddMemberAsync(room.Id, userId.Value);
+        }
+
+        await RespondToInvitationAsync(invitation, ChatRoomInvitation.Accepted, userId.Value);
+
+        _logger.LogInformation("User {UserId} accepted an invitation to chat room {RoomId}", userId, room.Id);
+
+        await _hubContext.Clients.Group($"ChatRoom_{room.Id}").SendAsync("UserJoinedRoom", new
+        {
+            UserId = userId,
+            ChatRoomId = room.Id,
+            Timestamp = DateTime.UtcNow
+        });
+
+        return Ok(new { message = "Successfully joined the chat room", ChatRoomId = room.Id });
+    }
+
+    /// <summary>
+    /// Decline an invitation.
+    /// </summary>
+    [HttpPost("invitations/{invitationId}/decline")]
+    public async Task<IActionResult> DeclineInvitation(Guid invitationId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var invitation = await _invitationRepository.GetByIdAsync(invitationId);
+
+        if (invitation == null || invitation.InvitedUserId != userId.Value || invitation.Status != ChatRoomInvitation.Pending)
+        {
+            return NotFound(new { message = "Invitation not found" });
+        }
+
+        await RespondToInvitationAsync(invitation, ChatRoomInvitation.Declined, userId.Value);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Get messages from a chat room with pagination.
+    /// </summary>
+    [HttpGet("rooms/{roomId}/messages")]
+    public async Task<IActionResult> GetMessages(
+        Guid roomId,
+        [FromQuery] int skip = 0,
+        [FromQuery] int take = 50)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        // Check if user is a member
+        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
+
+        if (!isMember)
+        {
+            var room = await _chatRoomRepository.GetByIdAsync(roomId);
+            if (room == null || !room.IsPublic)
+            {
+                return Forbid();
+            }
+        }
+
+        if (take > 100)
+        {
+            take = 100; // Limit max messages per request
+        }
+
+        var messages = (await _chatMessageRepository.GetMessagesAsync(roomId, skip, take)).ToList();
+        var threads = await _chatMessageRepository.GetThreadSummariesAsync(messages.Select(m => m.Id), MaxLatestRepliers);
+
+        return Ok(messages.Select(m =>
+        {
+            var thread = threads.GetValueOrDefault(m.Id);
+
+            return new
+            {
+                m.Id,
+                m.ChatRoomId,
+                m.UserId,
+                UserEmail = m.User.Email,
+                Content = m.IsDeleted ? string.Empty : m.Content,
+                m.MessageType,
+                m.ParentMessageId,
+                m.IsEdited,
+                EditedAt = m.IsEdited ? m.ModifiedAt : null,
+                m.IsDeleted,
+                m.CreatedAt,
+                Reactions = m.GetReactions(),
+                Attachment = m.IsDeleted ? null : m.GetAttachment(),
+                ReplyCount = thread?.ReplyCount ?? 0,
+                LastReplyAt = thread?.LastReplyAt,
+                LatestRepliers = thread?.LatestRepliers ?? Array.Empty<string>()
+            };
+        }));
+    }
+
+    /// <summary>
+    /// Get replies in a message thread with pagination (newest first).
+    /// </summary>
+    [HttpGet("rooms/{roomId}/messages/{messageId}/replies")]
+    public async Task<IActionResult> GetReplies(
+        Guid roomId,
+        Guid messageId,
+        [FromQuery] int skip = 0,
+        [FromQuery] int take = 50)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
+
+        if (!isMember)
+        {
+            var room = await _chatRoomRepository.GetByIdAsync(roomId);
+            if (room == null || !room.IsPublic)
+            {
+                return Forbid();
+            }
+        }
+
+        var parent = await _chatMessageRepository.GetByIdAsync(messageId);
+
+        if (parent == null || parent.ChatRoomId != roomId)
+        {
+            return NotFound();
+        }
+
+        if (take > 100)
+        {
+            take = 100;
+        }
+
+        var replies = await _chatMessageRepository.GetRepliesAsync(messageId, skip, take);
+
+        return Ok(replies.Select(m => new
+        {
+            m.Id,
+            m.ChatRoomId,
+            m.UserId,
+            UserEmail = m.User.Email,
+            Content = m.IsDeleted ? string.Empty : m.Content,
+            m.MessageType,
+            m.ParentMessageId,
+            m.IsEdited,
+            EditedAt = m.IsEdited ? m.ModifiedAt : null,
+            m.IsDeleted,
+            m.CreatedAt,
+            Reactions = m.GetReactions(),
+            Attachment = m.IsDeleted ? null : m.GetAttachment()
+        }));
+    }
+
+    /// <summary>
+    /// Get the previous versions of an edited message, oldest first.
+    /// </summary>
+    [HttpGet("rooms/{roomId}/messages/{messageId}/history")]
+    public async Task<IActionResult> GetEditHistory(Guid roomId, Guid messageId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
+
+        if (!isMember)
+        {
+            var room = await _chatRoomRepository.GetByIdAsync(roomId);
+            if (room == null || !room.IsPublic)
+            {
+                return Forbid();
+            }
+        }
+
+        var message = await _chatMessageRepository.GetByIdAsync(messageId);
+
+        if (message == null || message.ChatRoomId != roomId || message.IsDeleted)
+        {
+            return NotFound();
+        }
+
+        return Ok(message.GetEditHistory());
+    }
+
+    /// <summary>
+    /// Start a chunked attachment upload to a chat room.
+    /// Upload the bytes with UploadAttachmentChunk, then call CompleteAttachmentUpload
+    /// and send the attachment with the hub's SendAttachment method.
+    /// </summary>
+    [HttpPost("rooms/{roomId}/attachments")]
+    public async Task<IActionResult> BeginAttachmentUpload(Guid roomId, [FromBody] BeginAttachmentUploadRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
+
+        if (!isMember)
+        {
+            return Forbid();
+        }
+
+        // Never trust a client-supplied path
+        var fileName = Path.GetFileName(request.FileName ?? string.Empty).Trim();
+
+        if (string.IsNullOrEmpty(fileName) || fileName.Length > MaxFileNameLength)
+        {
+            return BadRequest(new { message = "A file name of up to 255 characters is required" });
+        }
+
+        if (request.Size <= 0 || request.Size > MaxAttachmentSize)
+        {
+            return BadRequest(new { message = $"Files must be between 1 byte and {MaxAttachmentSize / (1024 * 1024)} MB" });
+        }
+
+        if (string.IsNullOrEmpty(request.ContentType) || !AllowedAttachmentTypes.Contains(request.ContentType))
+        {
+            return BadRequest(new { message = "This file type is not supported" });
+        }
+
+        var isImage = request.ContentType.StartsWith("image/", StringComparison.OrdinalIgnoreCase);
+        var hasDimensions = isImage && request.Width > 0 && request.Height > 0;
+
+        var upload = await _attachmentStorage.BeginUploadAsync(
+            roomId,
+            userId.Value,
+            fileName,
+            request.ContentType.ToLowerInvariant(),
+            request.Size,
+            hasDimensions ? request.Width : null,
+            hasDimensions ? request.Height : null,
+            HttpContext.RequestAborted);
+
+        return Ok(new { UploadId = upload.Id, ChunkSize = UploadChunkSize });
+    }
+
+    /// <summary>
+    /// Append the next chunk of an upload. The request body is the raw bytes;
+    /// offset must equal the number of bytes received so far.
+    /// Uploads expire if they are not completed and sent in time (see AttachmentStorageOptions).
+    /// </summary>
+    [HttpPut("rooms/{roomId}/attachments/{attachmentId}/chunks")]
+    [RequestSizeLimit(UploadChunkSize)]
+    public async Task<IActionResult> UploadAttachmentChunk(Guid roomId, Guid attachmentId, [FromQuery] long offset)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        // Checked on every chunk: a member who is removed mid-upload cannot finish it
+        if (!await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var upload = await _attachmentStorage.GetAsync(attachmentId, HttpContext.RequestAborted);
+
+        if (upload == null || upload.ChatRoomId != roomId || upload.UploadedBy != userId.Value)
+        {
+            return NotFound(new { message = "Upload not found" });
+        }
+
+        try
+        {
+            upload = await _attachmentStorage.AppendChunkAsync(attachmentId, offset, Request.Body, HttpContext.RequestAborted);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(new { message = ex.Message, upload.ReceivedBytes });
+        }
+
+        return Ok(new { upload.ReceivedBytes });
+    }
+
+    /// <summary>
+    /// Finish an upload once every chunk has been received.
+    /// </summary>
+    [HttpPost("rooms/{roomId}/attachments/{attachmentId}/complete")]
+    public async Task<IActionResult> CompleteAttachmentUpload(Guid roomId, Guid attachmentId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        if (!await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var upload = await _attachmentStorage.GetAsync(attachmentId, HttpContext.RequestAborted);
+
+        if (upload == null || upload.ChatRoomId != roomId || upload.UploadedBy != userId.Value)
+        {
+            return NotFound(new { message = "Upload not found" });
+        }
+
+        try
+        {
+            upload = await _attachmentStorage.CompleteUploadAsync(attachmentId, HttpContext.RequestAborted);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(new { message = ex.Message, upload.ReceivedBytes });
+        }
+
+        return Ok(new ChatMessageAttachment(
+            upload.Id,
+            upload.FileName,
+            upload.ContentType,
+            upload.Size,
+            upload.Width,
+            upload.Height));
+    }
+
+    /// <summary>
+    /// Cancel an upload that has not been sent. Sent attachments are deleted with their message.
+    /// </summary>
+    [HttpDelete("rooms/{roomId}/attachments/{attachmentId}")]
+    public async Task<IActionResult> CancelAttachmentUpload(Guid roomId, Guid attachmentId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var upload = await _attachmentStorage.GetAsync(attachmentId);
+
+        if (upload == null || upload.ChatRoomId != roomId || upload.UploadedBy != userId.Value)
+        {
+            return NotFound(new { message = "Upload not found" });
+        }
+
+        if (upload.MessageId.HasValue)
+        {
+            return Conflict(new { message = "This attachment has already been sent" });
+        }
+
+        await _attachmentStorage.DeleteAsync(attachmentId);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Download an attachment sent in a chat room.
+    /// </summary>
+    [HttpGet("rooms/{roomId}/attachments/{attachmentId}")]
+    public async Task<IActionResult> GetAttachment(Guid roomId, Guid attachmentId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value);
+
+        if (!isMember)
+        {
+            var room = await _chatRoomRepository.GetByIdAsync(roomId);
+            if (room == null || !room.IsPublic)
+            {
+                return Forbid();
+            }
+        }
+
+        var attachment = await _attachmentStorage.GetAsync(attachmentId, HttpContext.RequestAborted);
+        var content = attachment != null && attachment.ChatRoomId == roomId
+            ? await _attachmentStorage.OpenReadAsync(attachmentId, HttpContext.RequestAborted)
+            : null;
+
+        if (attachment == null || content == null)
+        {
+            return NotFound();
+        }
+
+        // Uploaded content must never be interpreted as anything but its declared type
+        Response.Headers["X-Content-Type-Options"] = "nosniff";
+
+        return File(content, attachment.ContentType, attachment.FileName, enableRangeProcessing: true);
+    }
+
+    /// <summary>
+    /// Get unread message count for a chat room.
+    /// </summary>
+    [HttpGet("rooms/{roomId}/unread-count")]
+    public async Task<IActionResult> GetUnreadCount(Guid roomId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var count = await _chatMessageRepository.GetUnreadCountAsync(roomId, userId.Value);
+
+        return Ok(new { roomId, unreadCount = count });
+    }
+
+    private static string? GetMemberRole(ChatRoom room, Guid userId)
+    {
+        return room.Members.FirstOrDefault(m => m.UserId == userId)?.Role;
+    }
+
+    private static bool CanInvite(string? role)
+    {
+        return role == "admin" || role == "moderator";
+    }
+
+    /// <summary>
+    /// Names of the tenants the rooms belong to, so room lists can label them.
+    /// </summary>
+    private Task<IReadOnlyDictionary<Guid, string>> GetTenantNamesAsync(IEnumerable<ChatRoom> rooms)
+    {
+        return _tenantRepository.GetNamesAsync(rooms.Where(r => r.TenantId.HasValue).Select(r => r.TenantId!.Value));
+    }
+
+    private async Task RespondToInvitationAsync(ChatRoomInvitation invitation, string status, Guid userId)
+    {
+        invitation.Status = status;
+        invitation.RespondedAt = DateTime.UtcNow;
+        invitation.ModifiedBy = userId.ToString();
+
+        await _invitationRepository.UpdateAsync(invitation);
+    }
+
+    private Task BroadcastRoomUpdatedAsync(ChatRoom room)
+    {
+        return _hubContext.Clients.Group($"ChatRoom_{room.Id}").SendAsync("RoomUpdated", new
+        {
+            ChatRoomId = room.Id,
+            room.Name,
+            room.Description,
+            room.MaxParticipants,
+            room.IsActive,
+            Timestamp = DateTime.UtcNow
+        });
+    }
+
+    private static object ToInvitationResponse(ChatRoomInvitation invitation)
+    {
+        return new
+        {
+            invitation.Id,
+            invitation.ChatRoomId,
+            ChatRoomName = invitation.ChatRoom.Name,
+            invitation.InvitedUserId,
+            InvitedUserEmail = invitation.InvitedUser.Email,
+            invitation.InvitedById,
+            InvitedByEmail = invitation.InvitedBy.Email,
+            invitation.Status,
+            invitation.CreatedAt
+        };
+    }
+}
+
+// DTOs
+public class CreateChatRoomRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public bool? IsPublic { get; set; } = true;
+    public Guid? TenantId { get; set; }
+    public int? MaxParticipants { get; set; }
+}
+
+public class BeginAttachmentUploadRequest
+{
+    public string? FileName { get; set; }
+    public string? ContentType { get; set; }
+    public long Size { get; set; }
+    public int? Width { get; set; }
+    public int? Height { get; set; }
+}
+
+public class UpdateChatRoomRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public int? MaxParticipants { get; set; }
+}
+
+public class InviteToChatRoomRequest
+{
+    public Guid? UserId { get; set; }
+    public string? Email { get; set; }
+}
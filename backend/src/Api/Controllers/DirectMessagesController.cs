@@ -0,0 +1,186 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Api.Controllers;
+
+/// <summary>
+/// REST API controller for direct messages: one-to-one and small group conversations.
+/// A direct conversation is a private ChatRoom with IsDirect set, so messages go through
+/// ChatHub like in any other room.
+/// </summary>
+[ApiController]
+[Route("api/chat/direct")]
+[Authorize]
+public class DirectMessagesController : ControllerBase
+{
+    // Including the user who starts the conversation
+    private const int MaxParticipants = 10;
+
+    private readonly IChatRoomRepository _chatRoomRepository;
+    private readonly IChatRoomBanRepository _banRepository;
+    private readonly IUserRepository _userRepository;
+    private readonly IHubContext<ChatHub> _hubContext;
+    private readonly ILogger<DirectMessagesController> _logger;
+
+    public DirectMessagesController(
+        IChatRoomRepository chatRoomRepository,
+        IChatRoomBanRepository banRepository,
+        IUserRepository userRepository,
+        IHubContext<ChatHub> hubContext,
+        ILogger<DirectMessagesController> logger)
+    {
+        _chatRoomRepository = chatRoomRepository;
+        _banRepository = banRepository;
+        _userRepository = userRepository;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Start a direct conversation with one or more users, in the given tenant or else the
+    /// request's tenant. Without a tenant, only people who share a room with the caller can be
+    /// messaged. Returns the existing conversation with exactly these people if there is one,
+    /// rejoining the caller if they had left it (unless banned from it); others who left are not
+    /// added back. An archived conversation is left as it is and a new one started instead.
+    /// </summary>
+    [HttpPost]
+    public async Task<IActionResult> StartDirectMessage([FromBody] StartDirectMessageRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var participantIds = request.UserIds
+            .Append(userId.Value)
+            .Distinct()
+            .OrderBy(id => id)
+            .ToList();
+
+        if (participantIds.Count < 2)
+        {
+            return BadRequest(new { message = "Pick at least one person to message" });
+        }
+
+        if (participantIds.Count > MaxParticipants)
+        {
+            return BadRequest(new { message = $"Group conversations are limited to {MaxParticipants} people" });
+        }
+
+        var tenantId = request.TenantId ?? HttpContext.GetTenantId();
+
+        foreach (var participantId in participantIds)
+        {
+            var participant = await _userRepository.GetByIdAsync(participantId);
+
+            if (participant == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            if (tenantId.HasValue && !await _userRepository.IsMemberOfTenantAsync(participantId, tenantId.Value))
+            {
+                return BadRequest(new { message = $"{participant.Email} is not a member of this community" });
+            }
+
+            if (!tenantId.HasValue && participantId != userId.Value &&
+                !await _chatRoomRepository.SharesChatRoomAsync(userId.Value, participantId))
+            {
+                return BadRequest(new { message = "You can only message people you share a room with" });
+            }
+        }
+
+        var directKey = string.Join(",", participantIds);
+        var room = await _chatRoomRepository.GetDirectChatRoomAsync(directKey, tenantId);
+        var created = false;
+
+        // The archived room gives up its key so the new conversation can take it
+        if (room != null && !room.IsActive)
+        {
+            room.DirectKey = null;
+            await _chatRoomRepository.UpdateAsync(room);
+            room = null;
+        }
+
+        if (room == null)
+        {
+            var newRoom = new ChatRoom
+            {
+                Id = Guid.NewGuid(),
+                // Not shown: clients name direct rooms after their participants
+                Name = "Direct message",
+                IsPublic = false,
+                IsDirect = true,
+                DirectKey = directKey,
+                TenantId = tenantId,
+                CreatedAt = DateTime.UtcNow,
+                CreatedBy = userId.Value.ToString()
+            };
+
+            try
+            {
+                room = await _chatRoomRepository.AddAsync(newRoom);
+                created = true;
+            }
+            catch (DbUpdateException)
+            {
+                // Someone started the same conversation at the same time (unique TenantId, DirectKey)
+                room = await _chatRoomRepository.GetDirectChatRoomAsync(directKey, tenantId);
+
+                if (room == null)
+                {
+                    throw;
+                }
+            }
+        }
+
+        if (!created && !room.Members.Any(m => m.UserId == userId.Value) &&
+            await _banRepository.IsBannedAsync(room.Id, userId.Value))
+        {
+            return BadRequest(new { message = "You have been banned from this conversation" });
+        }
+
+        // A new room gets everyone; an existing one only takes back the caller, not others who left
+        var memberIds = created
+            ? participantIds
+            : room.Members.Select(m => m.UserId).Append(userId.Value).Distinct().ToList();
+
+        var addedIds = memberIds
+            .Where(id => !room.Members.Any(m => m.UserId == id))
+            .ToList();
+
+        foreach (var participantId in addedIds)
+        {
+            await _chatRoomRepository.AddMemberAsync(room.Id, participantId);
+        }
+
+        if (addedIds.Count > 0)
+        {
+            _logger.LogInformation(
+                "User {UserId} {Action} direct room {RoomId} with {Count} participants",
+                userId.Value, created ? "started" : "reopened", room.Id, participantIds.Count);
+
+            // Everyone's room list picks up the conversation, including the starter's other tabs
+            await _hubContext.Clients
+                .Groups(memberIds.Select(id => $"User_{id}").ToList())
+                .SendAsync("DirectRoomStarted", new { ChatRoomId = room.Id, StartedBy = userId.Value });
+        }
+
+        return Ok(new { room.Id, Created = created });
+    }
+}
+
+public class StartDirectMessageRequest
+{
+    // The other participants; the current user is always included
+    public List<Guid> UserIds { get; set; } = new();
+    public Guid? TenantId { get; set; }
+}
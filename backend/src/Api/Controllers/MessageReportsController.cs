@@ -0,0 +1,259 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
+using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Application.Interfaces;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Api.Controllers;
+
+/// <summary>
+/// REST API controller for message reports: members report messages, moderators review
+/// the room's open reports. Deleting a reported message (ChatHub.DeleteMessage) resolves
+/// its reports as removed; sanctions go through ModerationController first.
+/// </summary>
+[ApiController]
+[Route("api/chat/rooms/{roomId}")]
+[Authorize]
+public class MessageReportsController : ControllerBase
+{
+    private const int MaxNoteLength = 500;
+
+    private readonly IChatRoomRepository _chatRoomRepository;
+    private readonly IChatMessageRepository _chatMessageRepository;
+    private readonly IMessageReportRepository _reportRepository;
+    private readonly IChatModerationService _moderationService;
+    private readonly IHubContext<ChatHub> _hubContext;
+    private readonly ILogger<MessageReportsController> _logger;
+
+    public MessageReportsController(
+        IChatRoomRepository chatRoomRepository,
+        IChatMessageRepository chatMessageRepository,
+        IMessageReportRepository reportRepository,
+        IChatModerationService moderationService,
+        IHubContext<ChatHub> hubContext,
+        ILogger<MessageReportsController> logger)
+    {
+        _chatRoomRepository = chatRoomRepository;
+        _chatMessageRepository = chatMessageRepository;
+        _reportRepository = reportRepository;
+        _moderationService = moderationService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Report someone else's message to the room's moderators.
+    /// </summary>
+    [HttpPost("messages/{messageId}/reports")]
+    public async Task<IActionResult> ReportMessage(Guid roomId, Guid messageId, [FromBody] ReportMessageRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        if (!await _chatRoomRepository.IsUserMemberAsync(roomId, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var message = await _chatMessageRepository.GetByIdAsync(messageId);
+
+        if (message == null || message.ChatRoomId != roomId || message.IsDeleted)
+        {
+            return NotFound(new { message = "Message not found" });
+        }
+
+        if (message.UserId == userId.Value)
+        {
+            return BadRequest(new { message = "You cannot report your own message" });
+        }
+
+        if (!MessageReport.Reasons.Contains(request.Reason))
+        {
+            return BadRequest(new { message = "Pick a reason for the report" });
+        }
+
+        var note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim();
+
+        if (note?.Length > MaxNoteLength)
+        {
+            return BadRequest(new { message = $"Notes are limited to {MaxNoteLength} characters" });
+        }
+
+        if (await _reportRepository.HasOpenReportAsync(messageId, userId.Value))
+        {
+            return Conflict(new { message = "You have already reported this message" });
+        }
+
+        var report = await _reportRepository.AddAsync(new MessageReport
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = roomId,
+            MessageId = messageId,
+            ReporterId = userId.Value,
+            Reason = request.Reason,
+            Note = note,
+            Status = MessageReport.Open,
+            CreatedAt = DateTime.UtcNow,
+            CreatedBy = userId.Value.ToString()
+        });
+
+        _logger.LogInformation(
+            "User {UserId} reported message {MessageId} in chat room {ChatRoomId} for {Reason}",
+            userId.Value, messageId, roomId, request.Reason);
+
+        await NotifyReportsChangedAsync(roomId);
+
+        return Ok(new { report.Id });
+    }
+
+    /// <summary>
+    /// Get the room's open reports grouped by message, oldest first. NewerMessageCount is the
+    /// skip for GET messages that reaches the message (or a reply's thread parent) for context.
+    /// </summary>
+    [HttpGet("reports")]
+    public async Task<IActionResult> GetReports(Guid roomId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetByIdAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var reports = await _reportRepository.GetOpenForRoomAsync(roomId);
+
+        var groups = reports.GroupBy(r => r.MessageId).ToList();
+
+        // Replies are reached through their thread's parent, which is what GET messages pages over
+        var newerCounts = await _chatMessageRepository.CountNewerMessagesAsync(
+            roomId,
+            groups.Select(g => g.First().Message.ParentMessageId ?? g.Key));
+
+        return Ok(groups.Select(group =>
+        {
+            var message = group.First().Message;
+
+            return new
+            {
+                MessageId = message.Id,
+                message.ParentMessageId,
+                AuthorId = message.UserId,
+                AuthorEmail = message.User.Email,
+                Content = message.IsDeleted ? string.Empty : message.Content,
+                message.IsDeleted,
+                MessageCreatedAt = message.CreatedAt,
+                NewerMessageCount = newerCounts.GetValueOrDefault(message.ParentMessageId ?? message.Id),
+                Reports = group.Select(r => new
+                {
+                    r.Id,
+                    r.ReporterId,
+                    ReporterEmail = r.Reporter.Email,
+                    r.Reason,
+                    r.Note,
+                    r.CreatedAt
+                })
+            };
+        }));
+    }
+
+    /// <summary>
+    /// Close every open report on a message as dismissed, or as sanctioned after the author
+    /// was muted or banned. To remove the message, delete it instead.
+    /// </summary>
+    [HttpPost("reports/{messageId}/resolve")]
+    public async Task<IActionResult> ResolveReports(Guid roomId, Guid messageId, [FromBody] ResolveReportsRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetByIdAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        if (request.Resolution != MessageReport.Dismissed && request.Resolution != MessageReport.Sanctioned)
+        {
+            return BadRequest(new { message = "Reports are resolved as dismissed or sanctioned" });
+        }
+
+        var message = await _chatMessageRepository.GetByIdAsync(messageId);
+
+        if (message == null || message.ChatRoomId != roomId)
+        {
+            return NotFound(new { message = "Message not found" });
+        }
+
+        var resolved = await _reportRepository.ResolveForMessageAsync(messageId, request.Resolution, userId.Value);
+
+        if (resolved == 0)
+        {
+            return NotFound(new { message = "This message has no open reports" });
+        }
+
+        _logger.LogInformation(
+            "Moderator {UserId} resolved {Count} reports on message {MessageId} as {Resolution}",
+            userId.Value, resolved, messageId, request.Resolution);
+
+        await NotifyReportsChangedAsync(roomId);
+
+        return NoContent();
+    }
+
+    // Sent to each room admin and moderator; tenant staff refresh the queue when they open it
+    private async Task NotifyReportsChangedAsync(Guid roomId)
+    {
+        var moderatorIds = await _moderationService.GetModeratorIdsAsync(roomId);
+
+        if (moderatorIds.Count == 0)
+        {
+            return;
+        }
+
+        var openCount = await _reportRepository.CountOpenForRoomAsync(roomId);
+
+        await _hubContext.Clients
+            .Groups(moderatorIds.Select(id => $"User_{id}").ToList())
+            .SendAsync("ReportsChanged", new { ChatRoomId = roomId, OpenCount = openCount });
+    }
+}
+
+public class ReportMessageRequest
+{
+    public string Reason { get; set; } = string.Empty;
+    public string? Note { get; set; }
+}
+
+public class ResolveReportsRequest
+{
+    public string Resolution { get; set; } = string.Empty;
+}
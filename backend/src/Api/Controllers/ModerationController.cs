@@ -0,0 +1,516 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
+using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Application.Interfaces;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Api.Controllers;
+
+/// <summary>
+/// REST API controller for moderating a chat room: mutes, bans, slow mode and the audit log.
+/// Removing (kicking) a member is ChatController.RemoveMember; deleting a message is ChatHub.DeleteMessage.
+/// Only users who can moderate the room may call these (see IChatModerationService).
+/// </summary>
+[ApiController]
+[Route("api/chat/rooms/{roomId}")]
+[Authorize]
+public class ModerationController : ControllerBase
+{
+    // Keep in sync with MUTE_DURATIONS and SLOW_MODE_OPTIONS in the frontend utils/moderation.ts
+    private const int MaxMuteMinutes = 7 * 24 * 60;
+    private const int MaxSlowModeSeconds = 60 * 60;
+    private const int MaxLogPageSize = 100;
+    private const int MaxReasonLength = 500;
+
+    private readonly IChatRoomRepository _chatRoomRepository;
+    private readonly IChatRoomBanRepository _banRepository;
+    private readonly IChatRoomInvitationRepository _invitationRepository;
+    private readonly IModerationActionRepository _moderationActionRepository;
+    private readonly IUserRepository _userRepository;
+    private readonly IChatModerationService _moderationService;
+    private readonly IPresenceTracker _presenceTracker;
+    private readonly IHubContext<ChatHub> _hubContext;
+
+    public ModerationController(
+        IChatRoomRepository chatRoomRepository,
+        IChatRoomBanRepository banRepository,
+        IChatRoomInvitationRepository invitationRepository,
+        IModerationActionRepository moderationActionRepository,
+        IUserRepository userRepository,
+        IChatModerationService moderationService,
+        IPresenceTracker presenceTracker,
+        IHubContext<ChatHub> hubContext)
+    {
+        _chatRoomRepository = chatRoomRepository;
+        _banRepository = banRepository;
+        _invitationRepository = invitationRepository;
+        _moderationActionRepository = moderationActionRepository;
+        _userRepository = userRepository;
+        _moderationService = moderationService;
+        _presenceTracker = presenceTracker;
+        _hubContext = hubContext;
+    }
+
+    /// <summary>
+    /// Mute a member for a while: they stay in the room but cannot send messages.
+    /// Muting someone who is already muted replaces the end time.
+    /// </summary>
+    [HttpPost("mutes")]
+    public async Task<IActionResult> MuteMember(Guid roomId, [FromBody] MuteMemberRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        if (request.DurationMinutes < 1 || request.DurationMinutes > MaxMuteMinutes)
+        {
+            return BadRequest(new { message = $"Mutes last between 1 minute and {MaxMuteMinutes / (24 * 60)} days" });
+        }
+
+        var reason = string.IsNullOrWhiteSpace(request.Reason) ? null : request.Reason.Trim();
+
+        if (reason?.Length > MaxReasonLength)
+        {
+            return BadRequest(new { message = $"Reasons are limited to {MaxReasonLength} characters" });
+        }
+
+        var targetError = await ValidateTargetAsync(room, userId.Value, request.UserId);
+
+        if (targetError != null)
+        {
+            return targetError;
+        }
+
+        var mutedUntil = DateTime.UtcNow.AddMinutes(request.DurationMinutes);
+
+        await _chatRoomRepository.SetMutedUntilAsync(roomId, request.UserId, mutedUntil);
+        await _moderationService.RecordAsync(
+            roomId,
+            userId.Value,
+            ModerationAction.Mute,
+            targetUserId: request.UserId,
+            durationSeconds: request.DurationMinutes * 60,
+            reason: reason);
+
+        var notification = new
+        {
+            ChatRoomId = roomId,
+            UserId = request.UserId,
+            MutedUntil = mutedUntil,
+            MutedBy = userId.Value
+        };
+
+        await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("MemberMuted", notification);
+        await _hubContext.Clients.Group($"User_{request.UserId}").SendAsync("MemberMuted", notification);
+
+        return Ok(new { request.UserId, MutedUntil = mutedUntil });
+    }
+
+    /// <summary>
+    /// Lift a member's mute before it runs out.
+    /// </summary>
+    [HttpDelete("mutes/{memberId}")]
+    public async Task<IActionResult> UnmuteMember(Guid roomId, Guid memberId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var member = room.Members.FirstOrDefault(m => m.UserId == memberId);
+
+        if (member == null)
+        {
+            return NotFound(new { message = "This user is not a member of the room" });
+        }
+
+        if (!(member.MutedUntil > DateTime.UtcNow))
+        {
+            return BadRequest(new { message = "This user is not muted" });
+        }
+
+        await _chatRoomRepository.SetMutedUntilAsync(roomId, memberId, null);
+        await _moderationService.RecordAsync(roomId, userId.Value, ModerationAction.Unmute, targetUserId: memberId);
+
+        var notification = new { ChatRoomId = roomId, UserId = memberId };
+
+        await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("MemberUnmuted", notification);
+        await _hubContext.Clients.Group($"User_{memberId}").SendAsync("MemberUnmuted", notification);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Get the users banned from a room.
+    /// </summary>
+    [HttpGet("bans")]
+    public async Task<IActionResult> GetBans(Guid roomId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetByIdAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var bans = await _banRepository.GetForRoomAsync(roomId);
+
+        return Ok(bans.Select(b => new
+        {
+            b.UserId,
+            UserEmail = b.User.Email,
+            UserDisplayName = $"{b.User.FirstName} {b.User.LastName}".Trim(),
+            b.BannedById,
+            BannedByEmail = b.BannedBy.Email,
+            b.Reason,
+            b.CreatedAt
+        }));
+    }
+
+    /// <summary>
+    /// Ban a user from a room: removes them if they are a member, revokes any pending
+    /// invitation, and keeps them from joining again until they are unbanned.
+    /// </summary>
+    [HttpPost("bans")]
+    public async Task<IActionResult> BanMember(Guid roomId, [FromBody] BanMemberRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        if (request.UserId == userId.Value)
+        {
+            return BadRequest(new { message = "You cannot ban yourself" });
+        }
+
+        var reason = string.IsNullOrWhiteSpace(request.Reason) ? null : request.Reason.Trim();
+
+        if (reason?.Length > MaxReasonLength)
+        {
+            return BadRequest(new { message = $"Reasons are limited to {MaxReasonLength} characters" });
+        }
+
+        // Former members and people who never joined can be banned too
+        var target = await _userRepository.GetByIdAsync(request.UserId);
+
+        if (target == null)
+        {
+            return NotFound(new { message = "User not found" });
+        }
+
+        if (!await _moderationService.CanModerateMemberAsync(room, userId.Value, request.UserId))
+        {
+            return BadRequest(new { message = "You can only ban people with a lower role than yours" });
+        }
+
+        if (await _banRepository.IsBannedAsync(roomId, request.UserId))
+        {
+            return Conflict(new { message = "This user is already banned" });
+        }
+
+        var wasMember = GetMemberRole(room, request.UserId) != null;
+
+        await _banRepository.AddAsync(new ChatRoomBan
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = roomId,
+            UserId = request.UserId,
+            BannedById = userId.Value,
+            Reason = reason,
+            CreatedAt = DateTime.UtcNow,
+            CreatedBy = userId.Value.ToString()
+        });
+
+        if (wasMember)
+        {
+            await _chatRoomRepository.RemoveMemberAsync(roomId, request.UserId);
+            await _hubContext.Groups.RemoveUserFromRoomGroupsAsync(_presenceTracker, request.UserId, roomId);
+        }
+
+        var invitation = await _invitationRepository.GetPendingAsync(roomId, request.UserId);
+
+        if (invitation != null)
+        {
+            invitation.Status = ChatRoomInvitation.Revoked;
+            invitation.RespondedAt = DateTime.UtcNow;
+            await _invitationRepository.UpdateAsync(invitation);
+
+            await _hubContext.Clients.Group($"User_{request.UserId}").SendAsync("InvitationRevoked", new
+            {
+                InvitationId = invitation.Id,
+                ChatRoomId = roomId
+            });
+        }
+
+        await _moderationService.RecordAsync(
+            roomId,
+            userId.Value,
+            ModerationAction.Ban,
+            targetUserId: request.UserId,
+            reason: reason);
+
+        var notification = new
+        {
+            ChatRoomId = roomId,
+            UserId = request.UserId,
+            BannedBy = userId.Value,
+            Timestamp = DateTime.UtcNow
+        };
+
+        // MemberRemoved first, so clients drop the room the same way as after a kick
+        if (wasMember)
+        {
+            var removed = new { notification.UserId, notification.ChatRoomId, RemovedBy = userId.Value, notification.Timestamp };
+            await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("MemberRemoved", removed);
+            await _hubContext.Clients.Group($"User_{request.UserId}").SendAsync("MemberRemoved", removed);
+        }
+
+        await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("MemberBanned", notification);
+        await _hubContext.Clients.Group($"User_{request.UserId}").SendAsync("MemberBanned", notification);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Lift a ban. The user is not added back; they can join or be invited again.
+    /// </summary>
+    [HttpDelete("bans/{bannedUserId}")]
+    public async Task<IActionResult> UnbanMember(Guid roomId, Guid bannedUserId)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetByIdAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var ban = await _banRepository.GetAsync(roomId, bannedUserId);
+
+        if (ban == null)
+        {
+            return NotFound(new { message = "This user is not banned" });
+        }
+
+        await _banRepository.DeleteAsync(ban.Id);
+        await _moderationService.RecordAsync(roomId, userId.Value, ModerationAction.Unban, targetUserId: bannedUserId);
+
+        await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("MemberUnbanned", new
+        {
+            ChatRoomId = roomId,
+            UserId = bannedUserId
+        });
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Turn slow mode on (seconds between each member's messages) or off (0).
+    /// </summary>
+    [HttpPut("slow-mode")]
+    public async Task<IActionResult> SetSlowMode(Guid roomId, [FromBody] SetSlowModeRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetByIdAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        if (request.Seconds < 0 || request.Seconds > MaxSlowModeSeconds)
+        {
+            return BadRequest(new { message = $"Slow mode is between 0 (off) and {MaxSlowModeSeconds} seconds" });
+        }
+
+        if (room.SlowModeSeconds == request.Seconds)
+        {
+            return Ok(new { room.SlowModeSeconds });
+        }
+
+        room.SlowModeSeconds = request.Seconds;
+        room.ModifiedBy = userId.Value.ToString();
+
+        await _chatRoomRepository.UpdateAsync(room);
+        await _moderationService.RecordAsync(roomId, userId.Value, ModerationAction.SlowMode, durationSeconds: request.Seconds);
+
+        await _hubContext.Clients.Group($"ChatRoom_{roomId}").SendAsync("SlowModeChanged", new
+        {
+            ChatRoomId = roomId,
+            request.Seconds,
+            ChangedBy = userId.Value
+        });
+
+        return Ok(new { room.SlowModeSeconds });
+    }
+
+    /// <summary>
+    /// Get the room's moderation log, newest first. Page back with the createdAt of the oldest entry.
+    /// </summary>
+    [HttpGet("moderation-log")]
+    public async Task<IActionResult> GetModerationLog(Guid roomId, [FromQuery] DateTime? before = null, [FromQuery] int take = 50)
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var room = await _chatRoomRepository.GetByIdAsync(roomId);
+
+        if (room == null)
+        {
+            return NotFound(new { message = "Chat room not found" });
+        }
+
+        if (!await _moderationService.CanModerateAsync(room, userId.Value))
+        {
+            return Forbid();
+        }
+
+        var entries = await _moderationActionRepository.GetForRoomAsync(roomId, before, Math.Clamp(take, 1, MaxLogPageSize));
+
+        return Ok(entries.Select(a => new
+        {
+            a.Id,
+            a.ChatRoomId,
+            a.Action,
+            a.ModeratorId,
+            ModeratorEmail = a.Moderator.Email,
+            a.TargetUserId,
+            TargetUserEmail = a.TargetUser?.Email,
+            a.TargetMessageId,
+            a.DurationSeconds,
+            a.Reason,
+            a.CreatedAt
+        }));
+    }
+
+    private static string? GetMemberRole(ChatRoom room, Guid userId)
+    {
+        return room.Members.FirstOrDefault(m => m.UserId == userId)?.Role;
+    }
+
+    // Mutes apply to current members with a lower role than the moderator's (see CanModerateMemberAsync)
+    private async Task<IActionResult?> ValidateTargetAsync(ChatRoom room, Guid moderatorId, Guid targetId)
+    {
+        if (targetId == moderatorId)
+        {
+            return BadRequest(new { message = "You cannot moderate yourself" });
+        }
+
+        var targetRole = GetMemberRole(room, targetId);
+
+        if (targetRole == null)
+        {
+            return NotFound(new { message = "This user is not a member of the room" });
+        }
+
+        if (!await _moderationService.CanModerateMemberAsync(room, moderatorId, targetId))
+        {
+            return BadRequest(new { message = "You can only moderate members with a lower role than yours" });
+        }
+
+        return null;
+    }
+}
+
+public class MuteMemberRequest
+{
+    public Guid UserId { get; set; }
+    public int DurationMinutes { get; set; }
+    public string? Reason { get; set; }
+}
+
+public class BanMemberRequest
+{
+    public Guid UserId { get; set; }
+    public string? Reason { get; set; }
+}
+
+public class SetSlowModeRequest
+{
+    public int Seconds { get; set; }
+}
@@ -0,0 +1,53 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Api.Controllers;
+
+/// <summary>
+/// REST API controller for the tenants (communities) the current user belongs to.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class TenantsController : ControllerBase
+{
+    private readonly ITenantMembershipRepository _membershipRepository;
+
+    public TenantsController(ITenantMembershipRepository membershipRepository)
+    {
+        _membershipRepository = membershipRepository;
+    }
+
+    /// <summary>
+    /// Get the active tenants the current user is an active member of, with their role
+    /// and any additional permissions in each (see TenantPermissions).
+    /// </summary>
+    [HttpGet("mine")]
+    public async Task<IActionResult> GetMyTenants()
+    {
+        var userId = User.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return Unauthorized();
+        }
+
+        var memberships = await _membershipRepository.GetByUserIdAsync(userId.Value);
+
+        return Ok(memberships
+            .Where(m => m.IsActive && m.Tenant.IsActive)
+            .OrderBy(m => m.Tenant.Name)
+            .Select(m => new
+            {
+                m.Tenant.Id,
+                m.Tenant.Name,
+                m.Tenant.Subdomain,
+                m.Tenant.LogoUrl,
+                Role = m.RoleName,
+                AdditionalPermissions = TenantPermissions.ParseAdditional(m.AdditionalPermissions)
+            }));
+    }
+}
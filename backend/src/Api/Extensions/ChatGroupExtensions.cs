@@ -0,0 +1,27 @@
+using Microsoft.AspNetCore.SignalR;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Api.Extensions;
+
+/// <summary>
+/// Extension methods for the chat hub's room groups (ChatRoom_{id} and RoomMembers_{id}).
+/// </summary>
+public static class ChatGroupExtensions
+{
+    /// <summary>
+    /// Removes every open connection of a user from a room's groups, so that someone who left,
+    /// was removed or was banned stops receiving the room's messages and presence in all their tabs.
+    /// </summary>
+    public static async Task RemoveUserFromRoomGroupsAsync(
+        this IGroupManager groups,
+        IPresenceTracker presenceTracker,
+        Guid userId,
+        Guid chatRoomId)
+    {
+        foreach (var connectionId in presenceTracker.GetConnectionIds(userId))
+        {
+            await groups.RemoveFromGroupAsync(connectionId, $"ChatRoom_{chatRoomId}");
+            await groups.RemoveFromGroupAsync(connectionId, $"RoomMembers_{chatRoomId}");
+        }
+    }
+}
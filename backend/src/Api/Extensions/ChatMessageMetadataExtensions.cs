@@ -0,0 +1,145 @@
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using OnlineCommunities.Core.Entities.Community;
+
+namespace OnlineCommunities.Api.Extensions;
+
+/// <summary>
+/// A previous version of an edited chat message and when it was replaced.
+/// </summary>
+public record ChatMessageEdit(string Content, DateTime EditedAt);
+
+/// <summary>
+/// The file attached to an image or file message. Width and height are set for images only.
+/// </summary>
+public record ChatMessageAttachment(
+    Guid Id,
+    string FileName,
+    string ContentType,
+    long Size,
+    int? Width,
+    int? Height);
+
+/// <summary>
+/// Extension methods for reading and writing the JSON stored in ChatMessage.Metadata.
+/// </summary>
+public static class ChatMessageMetadataExtensions
+{
+    private const string EditHistoryKey = "editHistory";
+    private const string ReactionsKey = "reactions";
+    private const string AttachmentKey = "attachment";
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    /// <summary>
+    /// Gets the previous versions of the message, oldest first.
+    /// </summary>
+    public static IReadOnlyList<ChatMessageEdit> GetEditHistory(this ChatMessage message)
+    {
+        var history = ReadMetadata(message)[EditHistoryKey];
+
+        return history?.Deserialize<List<ChatMessageEdit>>(JsonOptions) ?? new List<ChatMessageEdit>();
+    }
+
+    /// <summary>
+    /// Records the current content as a previous version before the message is edited.
+    /// </summary>
+    public static void RecordEdit(this ChatMessage message, DateTime editedAt)
+    {
+        var metadata = ReadMetadata(message);
+        var history = message.GetEditHistory().Append(new ChatMessageEdit(message.Content, editedAt));
+
+        metadata[EditHistoryKey] = JsonSerializer.SerializeToNode(history, JsonOptions);
+        message.Metadata = metadata.ToJsonString();
+    }
+
+    /// <summary>
+    /// Gets the reactions on the message: emoji to the IDs of the users who reacted, in the order they were added.
+    /// </summary>
+    public static IReadOnlyDictionary<string, List<Guid>> GetReactions(this ChatMessage message)
+    {
+        var reactions = ReadMetadata(message)[ReactionsKey];
+
+        return reactions?.Deserialize<Dictionary<string, List<Guid>>>(JsonOptions)
+            ?? new Dictionary<string, List<Guid>>();
+    }
+
+    /// <summary>
+    /// Adds the user's reaction. Returns false if the user had already reacted with that emoji.
+    /// </summary>
+    public static bool AddReaction(this ChatMessage message, string emoji, Guid userId)
+    {
+        var reactions = new Dictionary<string, List<Guid>>(message.GetReactions());
+
+        if (!reactions.TryGetValue(emoji, out var userIds))
+        {
+            userIds = new List<Guid>();
+            reactions[emoji] = userIds;
+        }
+
+        if (userIds.Contains(userId))
+        {
+            return false;
+        }
+
+        userIds.Add(userId);
+        WriteReactions(message, reactions);
+        return true;
+    }
+
+    /// <summary>
+    /// Removes the user's reaction. Returns false if the user had not reacted with that emoji.
+    /// </summary>
+    public static bool RemoveReaction(this ChatMessage message, string emoji, Guid userId)
+    {
+        var reactions = new Dictionary<string, List<Guid>>(message.GetReactions());
+
+        if (!reactions.TryGetValue(emoji, out var userIds) || !userIds.Remove(userId))
+        {
+            return false;
+        }
+
+        if (userIds.Count == 0)
+        {
+            reactions.Remove(emoji);
+        }
+
+        WriteReactions(message, reactions);
+        return true;
+    }
+
+    /// <summary>
+    /// Gets the attached file, or null for messages without one.
+    /// </summary>
+    public static ChatMessageAttachment? GetAttachment(this ChatMessage message)
+    {
+        return ReadMetadata(message)[AttachmentKey]?.Deserialize<ChatMessageAttachment>(JsonOptions);
+    }
+
+    /// <summary>
+    /// Attaches a file to the message.
+    /// </summary>
+    public static void SetAttachment(this ChatMessage message, ChatMessageAttachment attachment)
+    {
+        var metadata = ReadMetadata(message);
+        metadata[AttachmentKey] = JsonSerializer.SerializeToNode(attachment, JsonOptions);
+        message.Metadata = metadata.ToJsonString();
+    }
+
+    private static void WriteReactions(ChatMessage message, Dictionary<string, List<Guid>> reactions)
+    {
+        var metadata = ReadMetadata(message);
+        metadata[ReactionsKey] = JsonSerializer.SerializeToNode(reactions, JsonOptions);
+        message.Metadata = metadata.ToJsonString();
+    }
+
+    private static JsonObject ReadMetadata(ChatMessage message)
+    {
+        if (string.IsNullOrEmpty(message.Metadata))
+        {
+            return new JsonObject();
+        }
+
+        return JsonNode.Parse(message.Metadata) as JsonObject ?? new JsonObject();
+    }
+}
@@ -1,8 +1,10 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.SignalR;
 using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Application.Interfaces;
 using OnlineCommunities.Core.Interfaces;
 using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Enums;
 
 namespace OnlineCommunities.Api.Hubs;
 
@@ -13,17 +15,35 @@ namespace OnlineCommunities.Api.Hubs;
 [Authorize]
 public class ChatHub : Hub
 {
+    // An emoji can span several UTF-16 code units (skin tones, ZWJ sequences)
+    private const int MaxReactionLength = 16;
+    private const int MaxDistinctReactions = 20;
+    // Keep in sync with MAX_MESSAGE_LENGTH in the frontend chatService
+    private const int MaxMessageLength = 4000;
+
     private readonly IChatRoomRepository _chatRoomRepository;
     private readonly IChatMessageRepository _chatMessageRepository;
+    private readonly IChatModerationService _moderationService;
+    private readonly IMessageReportRepository _reportRepository;
+    private readonly IAttachmentStorage _attachmentStorage;
+    private readonly IPresenceTracker _presenceTracker;
     private readonly ILogger<ChatHub> _logger;
 
     public ChatHub(
         IChatRoomRepository chatRoomRepository,
         IChatMessageRepository chatMessageRepository,
+        IChatModerationService moderationService,
+        IMessageReportRepository reportRepository,
+        IAttachmentStorage attachmentStorage,
+        IPresenceTracker presenceTracker,
         ILogger<ChatHub> logger)
     {
         _chatRoomRepository = chatRoomRepository;
         _chatMessageRepository = chatMessageRepository;
+        _moderationService = moderationService;
+        _reportRepository = reportRepository;
+        _attachmentStorage = attachmentStorage;
+        _presenceTracker = presenceTracker;
         _logger = logger;
     }
 
@@ -48,6 +68,27 @@ public class ChatHub : Hub
                 UserId = userId.Value,
                 Timestamp = DateTime.UtcNow
             });
+
+            // Presence is shared with the members of every room the user belongs to,
+            // whether or not anyone is viewing it
+            var roomMembers = await _chatRoomRepository.GetUserChatRoomMemberIdsAsync(userId.Value);
+
+            foreach (var roomId in roomMembers.Keys)
+            {
+                await Groups.AddToGroupAsync(Context.ConnectionId, $"RoomMembers_{roomId}");
+            }
+
+            var status = _presenceTracker.Connect(userId.Value, Context.ConnectionId);
+
+            if (status.HasValue)
+            {
+                await BroadcastPresenceAsync(userId.Value, status.Value, roomMembers.Keys);
+            }
+
+            await Clients.Caller.SendAsync("PresenceSnapshot", new
+            {
+                Rooms = roomMembers.Select(room => ToPresenceSnapshot(room.Key, room.Value))
+            });
         }
 
         await base.OnConnectedAsync();
@@ -62,6 +103,14 @@ public class ChatHub : Hub
             _logger.LogInformation(
                 "User {UserId} disconnected from ChatHub (Connection: {ConnectionId})",
                 userId.Value, Context.ConnectionId);
+
+            var status = _presenceTracker.Disconnect(userId.Value, Context.ConnectionId);
+
+            if (status.HasValue)
+            {
+                var roomIds = await _chatRoomRepository.GetUserChatRoomIdsAsync(userId.Value);
+                await BroadcastPresenceAsync(userId.Value, status.Value, roomIds);
+            }
         }
 
         await base.OnDisconnectedAsync(exception);
@@ -89,9 +138,29 @@ public class ChatHub : Hub
             return;
         }
 
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(roomGuid);
+
+        // A connection made for a tenant (see TenantContextMiddleware) only joins that tenant's rooms
+        var tenantId = Context.GetHttpContext()?.GetTenantId();
+
+        if (room == null || (tenantId.HasValue && room.TenantId != tenantId))
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "This chat room belongs to another community" });
+            return;
+        }
+
         // Add connection to the chat room group
         await Groups.AddToGroupAsync(Context.ConnectionId, $"ChatRoom_{chatRoomId}");
 
+        // A room joined after connecting starts sharing presence now
+        await Groups.AddToGroupAsync(Context.ConnectionId, $"RoomMembers_{chatRoomId}");
+        await BroadcastPresenceAsync(userId.Value, _presenceTracker.GetStatus(userId.Value), new[] { roomGuid });
+
+        await Clients.Caller.SendAsync("PresenceSnapshot", new
+        {
+            Rooms = new[] { ToPresenceSnapshot(room.Id, room.Members.Select(m => m.UserId)) }
+        });
+
         _logger.LogInformation("User {UserId} joined chat room {ChatRoomId}", userId.Value, chatRoomId);
 
         // Notify the room that a user joined
@@ -125,6 +194,14 @@ public class ChatHub : Hub
         // Remove connection from the chat room group
         await Groups.RemoveFromGroupAsync(Context.ConnectionId, $"ChatRoom_{chatRoomId}");
 
+        // Someone who is no longer a member is dropped from the room on every connection,
+        // while a member's other tabs may still be viewing it
+        if (Guid.TryParse(chatRoomId, out var roomGuid)
+            && !await _chatRoomRepository.IsUserMemberAsync(roomGuid, userId.Value))
+        {
+            await Groups.RemoveUserFromRoomGroupsAsync(_presenceTracker, userId.Value, roomGuid);
+        }
+
         _logger.LogInformation("User {UserId} left chat room {ChatRoomId}", userId.Value, chatRoomId);
 
         // Notify the room that a user left
@@ -139,62 +216,497 @@ public class ChatHub : Hub
     /// <summary>
     /// Send a message to a chat room.
     /// Message is saved to database and broadcast to all room members.
+    /// The client-generated message ID is echoed back so the sender can reconcile optimistic messages.
+    /// When parentMessageId is set the message is a reply in that message's thread.
+    /// A refused message fails the invocation as well as raising Error.
     /// </summary>
-    public async Task SendMessage(string chatRoomId, string message)
+    public async Task SendMessage(string chatRoomId, string message, string? clientMessageId, string? parentMessageId)
     {
         var userId = Context.User?.GetUserId();
         var email = Context.User?.GetEmail();
 
         if (!userId.HasValue || !Guid.TryParse(chatRoomId, out var roomGuid))
         {
-            await Clients.Caller.SendAsync("Error", new { Message = "Invalid request" });
+            await RejectSendAsync(clientMessageId, "Invalid request");
             return;
         }
 
         if (string.IsNullOrWhiteSpace(message))
         {
-            await Clients.Caller.SendAsync("Error", new { Message = "Message cannot be empty" });
+            await RejectSendAsync(clientMessageId, "Message cannot be empty");
+            return;
+        }
+
+        if (message.Length > MaxMessageLength)
+        {
+            await RejectSendAsync(clientMessageId, $"Messages are limited to {MaxMessageLength} characters");
+            return;
+        }
+
+        await SaveAndBroadcastMessageAsync(chatRoomId, roomGuid, userId.Value, email, message, "text", null, clientMessageId, parentMessageId);
+    }
+
+    /// <summary>
+    /// Send an uploaded attachment to a chat room, with an optional caption.
+    /// The attachment must have been uploaded to the same room by the caller (see ChatController).
+    /// Images are sent as "image" messages, anything else as "file".
+    /// </summary>
+    public async Task SendAttachment(
+        string chatRoomId,
+        string attachmentId,
+        string? caption,
+        string? clientMessageId,
+        string? parentMessageId)
+    {
+        var userId = Context.User?.GetUserId();
+        var email = Context.User?.GetEmail();
+
+        if (!userId.HasValue || !Guid.TryParse(chatRoomId, out var roomGuid) || !Guid.TryParse(attachmentId, out var attachmentGuid))
+        {
+            await RejectSendAsync(clientMessageId, "Invalid request");
             return;
         }
 
+        caption = caption?.Trim() ?? string.Empty;
+
+        if (caption.Length > MaxMessageLength)
+        {
+            await RejectSendAsync(clientMessageId, $"Messages are limited to {MaxMessageLength} characters");
+            return;
+        }
+
+        var stored = await _attachmentStorage.GetAsync(attachmentGuid);
+
+        if (stored == null || !stored.IsComplete || stored.ChatRoomId != roomGuid || stored.UploadedBy != userId.Value)
+        {
+            await RejectSendAsync(clientMessageId, "Attachment not found");
+            return;
+        }
+
+        if (stored.MessageId.HasValue)
+        {
+            await RejectSendAsync(clientMessageId, "This attachment has already been sent");
+            return;
+        }
+
+        var attachment = new ChatMessageAttachment(
+            stored.Id,
+            stored.FileName,
+            stored.ContentType,
+            stored.Size,
+            stored.Width,
+            stored.Height);
+        var messageType = stored.ContentType.StartsWith("image/", StringComparison.OrdinalIgnoreCase) ? "image" : "file";
+
+        await SaveAndBroadcastMessageAsync(chatRoomId, roomGuid, userId.Value, email, caption, messageType, attachment, clientMessageId, parentMessageId);
+    }
+
+    private async Task SaveAndBroadcastMessageAsync(
+        string chatRoomId,
+        Guid roomGuid,
+        Guid userId,
+        string? email,
+        string content,
+        string messageType,
+        ChatMessageAttachment? attachment,
+        string? clientMessageId,
+        string? parentMessageId)
+    {
         // Check if user is a member
-        var isMember = await _chatRoomRepository.IsUserMemberAsync(roomGuid, userId.Value);
+        var member = await _chatRoomRepository.GetMemberAsync(roomGuid, userId);
 
-        if (!isMember)
+        if (member == null)
         {
-            await Clients.Caller.SendAsync("Error", new { Message = "You are not a member of this chat room" });
+            await RejectSendAsync(clientMessageId, "You are not a member of this chat room");
+            return;
+        }
+
+        // Archived rooms stay readable but take no new messages
+        var room = await _chatRoomRepository.GetByIdAsync(roomGuid);
+
+        if (room == null || !room.IsActive)
+        {
+            await RejectSendAsync(clientMessageId, "This chat room has been archived");
             return;
         }
 
+        if (member.MutedUntil > DateTime.UtcNow)
+        {
+            await RejectSendAsync(clientMessageId, "You have been muted in this chat room", roomGuid, mutedUntil: member.MutedUntil);
+            return;
+        }
+
+        if (room.SlowModeSeconds > 0 && member.Role != "admin" && member.Role != "moderator")
+        {
+            var lastMessageAt = await _chatMessageRepository.GetLastMessageAtAsync(roomGuid, userId);
+            var nextAllowedAt = lastMessageAt?.AddSeconds(room.SlowModeSeconds);
+
+            if (nextAllowedAt > DateTime.UtcNow)
+            {
+                await RejectSendAsync(
+                    clientMessageId,
+                    $"Slow mode is on: you can send one message every {room.SlowModeSeconds} seconds",
+                    roomGuid,
+                    retryAt: nextAllowedAt);
+                return;
+            }
+        }
+
+        Guid? parentGuid = null;
+
+        if (!string.IsNullOrEmpty(parentMessageId))
+        {
+            var parent = Guid.TryParse(parentMessageId, out var parsedParentId)
+                ? await _chatMessageRepository.GetByIdAsync(parsedParentId)
+                : null;
+
+            // Threads are one level deep: replies always hang off a top-level message
+            if (parent == null || parent.ChatRoomId != roomGuid || parent.IsDeleted || parent.ParentMessageId.HasValue)
+            {
+                await RejectSendAsync(clientMessageId, "Cannot reply to this message");
+                return;
+            }
+
+            parentGuid = parent.Id;
+        }
+
         // Create and save the message
         var chatMessage = new ChatMessage
         {
             Id = Guid.NewGuid(),
             ChatRoomId = roomGuid,
-            UserId = userId.Value,
-            Content = message,
-            MessageType = "text",
+            UserId = userId,
+            Content = content,
+            MessageType = messageType,
+            ParentMessageId = parentGuid,
             CreatedAt = DateTime.UtcNow,
-            CreatedBy = userId.Value.ToString()
+            CreatedBy = userId.ToString()
         };
 
+        if (attachment != null)
+        {
+            chatMessage.SetAttachment(attachment);
+        }
+
         await _chatMessageRepository.AddAsync(chatMessage);
 
+        if (attachment != null)
+        {
+            // Claims the upload only once the message exists, so it can be sent only once and is
+            // no longer cancellable. Losing the claim to a concurrent send withdraws this message
+            try
+            {
+                await _attachmentStorage.AttachToMessageAsync(attachment.Id, chatMessage.Id);
+            }
+            catch (InvalidOperationException ex)
+            {
+                await _chatMessageRepository.DeleteAsync(chatMessage.Id);
+                await RejectSendAsync(clientMessageId, ex.Message);
+                return;
+            }
+        }
+
         _logger.LogInformation(
-            "User {Email} sent message to chat room {ChatRoomId}",
-            email, chatRoomId);
+            "User {Email} sent {MessageType} message to chat room {ChatRoomId}",
+            email, messageType, chatRoomId);
 
         // Broadcast message to all users in the room
         await Clients.Group($"ChatRoom_{chatRoomId}").SendAsync("ReceiveMessage", new
         {
             Id = chatMessage.Id,
             ChatRoomId = chatRoomId,
-            UserId = userId.Value,
+            UserId = userId,
             UserEmail = email,
-            Content = message,
-            MessageType = "text",
+            Content = content,
+            MessageType = messageType,
+            Attachment = attachment,
             Timestamp = chatMessage.CreatedAt,
-            IsEdited = false
+            IsEdited = false,
+            ParentMessageId = parentGuid,
+            ClientMessageId = clientMessageId
+        });
+    }
+
+    /// <summary>
+    /// Tells the caller why a message was refused and fails the invocation, so the
+    /// client's outbox marks the message failed instead of waiting for its echo.
+    /// </summary>
+    private async Task RejectSendAsync(
+        string? clientMessageId,
+        string message,
+        Guid? chatRoomId = null,
+        DateTime? mutedUntil = null,
+        DateTime? retryAt = null)
+    {
+        await Clients.Caller.SendAsync("Error", new
+        {
+            Message = message,
+            ClientMessageId = clientMessageId,
+            ChatRoomId = chatRoomId,
+            MutedUntil = mutedUntil,
+            RetryAt = retryAt
+        });
+
+        throw new HubException(message);
+    }
+
+    // Muted members can read the room but not edit or react, as with sending
+    private Task SendMutedErrorAsync(ChatRoomMember member)
+    {
+        return Clients.Caller.SendAsync("Error", new
+        {
+            Message = "You have been muted in this chat room",
+            ChatRoomId = member.ChatRoomId,
+            MutedUntil = member.MutedUntil
+        });
+    }
+
+    /// <summary>
+    /// Edit one of the caller's own messages, while still a member of its room and not muted.
+    /// The previous content is kept in the message's edit history.
+    /// </summary>
+    public async Task EditMessage(string messageId, string content)
+    {
+        var userId = Context.User?.GetUserId();
+
+        if (!userId.HasValue || !Guid.TryParse(messageId, out var messageGuid))
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "Invalid request" });
+            return;
+        }
+
+        if (string.IsNullOrWhiteSpace(content))
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "Message cannot be empty" });
+            return;
+        }
+
+        if (content.Length > MaxMessageLength)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = $"Messages are limited to {MaxMessageLength} characters" });
+            return;
+        }
+
+        var chatMessage = await _chatMessageRepository.GetByIdAsync(messageGuid);
+
+        if (chatMessage == null || chatMessage.IsDeleted || chatMessage.UserId != userId.Value)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "You can only edit your own messages" });
+            return;
+        }
+
+        // Authors who left, were removed or were banned keep their messages as they are
+        var member = await _chatRoomRepository.GetMemberAsync(chatMessage.ChatRoomId, userId.Value);
+
+        if (member == null)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "You are not a member of this chat room" });
+            return;
+        }
+
+        if (member.MutedUntil > DateTime.UtcNow)
+        {
+            await SendMutedErrorAsync(member);
+            return;
+        }
+
+        var editedAt = DateTime.UtcNow;
+
+        // Sets IsEdited and ModifiedAt; re-applied if a reaction lands meanwhile
+        var edited = await _chatMessageRepository.EditAsync(chatMessage, message =>
+        {
+            if (message.IsDeleted || message.Content == content)
+            {
+                return false;
+            }
+
+            message.RecordEdit(editedAt);
+            message.Content = content;
+            message.ModifiedBy = userId.Value.ToString();
+            return true;
+        });
+
+        if (!edited)
+        {
+            return;
+        }
+
+        await Clients.Group($"ChatRoom_{chatMessage.ChatRoomId}").SendAsync("MessageEdited", new
+        {
+            Id = chatMessage.Id,
+            ChatRoomId = chatMessage.ChatRoomId,
+            chatMessage.ParentMessageId,
+            Content = content,
+            IsEdited = true,
+            EditedAt = chatMessage.ModifiedAt ?? editedAt
+        });
+    }
+
+    /// <summary>
+    /// Soft delete one of the caller's own messages while still a member of its room, or as a
+    /// moderator anyone's (see IChatModerationService.CanDeleteAnyMessageAsync). Moderators' deletions are logged.
+    /// </summary>
+    public async Task DeleteMessage(string messageId)
+    {
+        var userId = Context.User?.GetUserId();
+
+        if (!userId.HasValue || !Guid.TryParse(messageId, out var messageGuid))
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "Invalid request" });
+            return;
+        }
+
+        var chatMessage = await _chatMessageRepository.GetByIdAsync(messageGuid);
+
+        if (chatMessage == null || chatMessage.IsDeleted)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "Message not found" });
+            return;
+        }
+
+        var isModeration = chatMessage.UserId != userId.Value;
+
+        if (isModeration)
+        {
+            var room = await _chatRoomRepository.GetByIdAsync(chatMessage.ChatRoomId);
+
+            if (room == null || !await _moderationService.CanDeleteAnyMessageAsync(room, userId.Value))
+            {
+                await Clients.Caller.SendAsync("Error", new { Message = "You can only delete your own messages" });
+                return;
+            }
+        }
+        else if (!await _chatRoomRepository.IsUserMemberAsync(chatMessage.ChatRoomId, userId.Value))
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "You are not a member of this chat room" });
+            return;
+        }
+
+        await _chatMessageRepository.DeleteAsync(messageGuid);
+
+        if (isModeration)
+        {
+            await _moderationService.RecordAsync(
+                chatMessage.ChatRoomId,
+                userId.Value,
+                ModerationAction.DeleteMessage,
+                targetUserId: chatMessage.UserId,
+                targetMessageId: chatMessage.Id);
+        }
+
+        // The file goes with the message it was sent in
+        var attachment = chatMessage.GetAttachment();
+        if (attachment != null)
+        {
+            var stored = await _attachmentStorage.GetAsync(attachment.Id);
+
+            if (stored?.MessageId == chatMessage.Id)
+            {
+                await _attachmentStorage.DeleteAsync(attachment.Id);
+            }
+        }
+
+        _logger.LogInformation(
+            "User {UserId} deleted message {MessageId} in chat room {ChatRoomId}",
+            userId.Value, messageId, chatMessage.ChatRoomId);
+
+        await Clients.Group($"ChatRoom_{chatMessage.ChatRoomId}").SendAsync("MessageDeleted", new
+        {
+            Id = chatMessage.Id,
+            ChatRoomId = chatMessage.ChatRoomId,
+            chatMessage.ParentMessageId,
+            DeletedAt = DateTime.UtcNow
+        });
+
+        // A moderator's deletion settles the reports; an author deleting a reported message
+        // does not, so moderators still see what was reported
+        if (isModeration &&
+            await _reportRepository.ResolveForMessageAsync(chatMessage.Id, MessageReport.Removed, userId.Value) > 0)
+        {
+            var moderatorIds = await _moderationService.GetModeratorIdsAsync(chatMessage.ChatRoomId);
+            var openCount = await _reportRepository.CountOpenForRoomAsync(chatMessage.ChatRoomId);
+
+            await Clients.Groups(moderatorIds.Select(id => $"User_{id}").ToList()).SendAsync("ReportsChanged", new
+            {
+                ChatRoomId = chatMessage.ChatRoomId,
+                OpenCount = openCount
+            });
+        }
+    }
+
+    /// <summary>
+    /// React to a message with an emoji.
+    /// </summary>
+    public Task AddReaction(string messageId, string emoji) => ChangeReaction(messageId, emoji, add: true);
+
+    /// <summary>
+    /// Remove the caller's emoji reaction from a message.
+    /// </summary>
+    public Task RemoveReaction(string messageId, string emoji) => ChangeReaction(messageId, emoji, add: false);
+
+    private async Task ChangeReaction(string messageId, string emoji, bool add)
+    {
+        var userId = Context.User?.GetUserId();
+
+        if (!userId.HasValue || !Guid.TryParse(messageId, out var messageGuid) ||
+            string.IsNullOrWhiteSpace(emoji) || emoji.Length > MaxReactionLength)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "Invalid request" });
+            return;
+        }
+
+        var chatMessage = await _chatMessageRepository.GetByIdAsync(messageGuid);
+        var member = chatMessage == null ? null : await _chatRoomRepository.GetMemberAsync(chatMessage.ChatRoomId, userId.Value);
+
+        if (chatMessage == null || chatMessage.IsDeleted || member == null)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "You cannot react to this message" });
+            return;
+        }
+
+        if (member.MutedUntil > DateTime.UtcNow)
+        {
+            await SendMutedErrorAsync(member);
+            return;
+        }
+
+        if (add && !chatMessage.GetReactions().ContainsKey(emoji) &&
+            chatMessage.GetReactions().Count >= MaxDistinctReactions)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "This message has too many different reactions" });
+            return;
+        }
+
+        // Re-applied to the latest reactions if someone else changed the message meanwhile
+        var changed = await _chatMessageRepository.UpdateMetadataAsync(chatMessage, message =>
+        {
+            if (message.IsDeleted)
+            {
+                return false;
+            }
+
+            if (!add)
+            {
+                return message.RemoveReaction(emoji, userId.Value);
+            }
+
+            var reactions = message.GetReactions();
+            return (reactions.ContainsKey(emoji) || reactions.Count < MaxDistinctReactions) &&
+                message.AddReaction(emoji, userId.Value);
+        });
+
+        if (!changed)
+        {
+            return;
+        }
+
+        await Clients.Group($"ChatRoom_{chatMessage.ChatRoomId}").SendAsync(add ? "ReactionAdded" : "ReactionRemoved", new
+        {
+            MessageId = chatMessage.Id,
+            ChatRoomId = chatMessage.ChatRoomId,
+            chatMessage.ParentMessageId,
+            Emoji = emoji,
+            UserId = userId.Value
         });
     }
 
@@ -242,5 +754,56 @@ public class ChatHub : Hub
             "User {UserId} marked messages as read in chat room {ChatRoomId} up to message {MessageId}",
             userId.Value, chatRoomId, lastMessageId);
     }
-}
 
+    /// <summary>
+    /// Report whether the user is away on this connection (tab hidden or idle) or back online.
+    /// </summary>
+    public async Task SetPresence(string status)
+    {
+        var userId = Context.User?.GetUserId();
+
+        if (!userId.HasValue)
+        {
+            return;
+        }
+
+        if (!Enum.TryParse<PresenceStatus>(status, ignoreCase: true, out var reported) ||
+            reported == PresenceStatus.Offline)
+        {
+            await Clients.Caller.SendAsync("Error", new { Message = "Invalid request" });
+            return;
+        }
+
+        var changed = _presenceTracker.SetAway(userId.Value, Context.ConnectionId, reported == PresenceStatus.Away);
+
+        if (changed.HasValue)
+        {
+            var roomIds = await _chatRoomRepository.GetUserChatRoomIdsAsync(userId.Value);
+            await BroadcastPresenceAsync(userId.Value, changed.Value, roomIds);
+        }
+    }
+
+    private async Task BroadcastPresenceAsync(Guid userId, PresenceStatus status, IEnumerable<Guid> chatRoomIds)
+    {
+        foreach (var chatRoomId in chatRoomIds)
+        {
+            await Clients.Group($"RoomMembers_{chatRoomId}").SendAsync("PresenceChanged", new
+            {
+                UserId = userId,
+                ChatRoomId = chatRoomId,
+                Status = ToClientStatus(status),
+                Timestamp = DateTime.UtcNow
+            });
+        }
+    }
+
+    // The members of a room who are connected
+    private object ToPresenceSnapshot(Guid chatRoomId, IEnumerable<Guid> memberIds) => new
+    {
+        ChatRoomId = chatRoomId,
+        Users = _presenceTracker.GetConnectedUsers(memberIds)
+            .Select(user => new { UserId = user.Key, Status = ToClientStatus(user.Value) })
+    };
+
+    private static string ToClientStatus(PresenceStatus status) => status.ToString().ToLowerInvariant();
+}
@@ -0,0 +1,86 @@
+using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Api.Middleware;
+
+/// <summary>
+/// Resolves the tenant a request is made for and stores it with HttpContext.SetTenantId.
+/// In order of precedence:
+/// 1. The X-Tenant-Id header, sent by the SPA for the tenant picked in its switcher.
+/// 2. The tenantId query parameter, for SignalR connections (browsers cannot set headers on WebSockets).
+/// 3. The subdomain of the host, e.g. "acmecorp" for acmecorp.yoursaas.com or acmecorp.localhost.
+/// The resolved tenant says which tenant the request is scoped to, not that the user belongs to it;
+/// endpoints that need membership still check it.
+/// </summary>
+public class TenantContextMiddleware
+{
+    public const string TenantIdHeader = "X-Tenant-Id";
+    public const string TenantIdQueryParameter = "tenantId";
+
+    // Host labels that never name a tenant
+    private static readonly HashSet<string> ReservedSubdomains = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "www",
+        "api",
+        "app"
+    };
+
+    private readonly RequestDelegate _next;
+
+    public TenantContextMiddleware(RequestDelegate next)
+    {
+        _next = next;
+    }
+
+    public async Task InvokeAsync(HttpContext context, ITenantRepository tenantRepository)
+    {
+        var tenantId = ParseTenantId(context.Request.Headers[TenantIdHeader].ToString())
+            ?? ParseTenantId(context.Request.Query[TenantIdQueryParameter].ToString());
+
+        if (!tenantId.HasValue)
+        {
+            var subdomain = GetSubdomain(context.Request.Host.Host);
+
+            if (subdomain != null)
+            {
+                var tenant = await tenantRepository.GetBySubdomainAsync(subdomain);
+                tenantId = tenant?.Id;
+            }
+        }
+
+        if (tenantId.HasValue)
+        {
+            context.SetTenantId(tenantId.Value);
+        }
+
+        await _next(context);
+    }
+
+    private static Guid? ParseTenantId(string value)
+    {
+        return Guid.TryParse(value, out var tenantId) ? tenantId : null;
+    }
+
+    /// <summary>
+    /// The first label of the host when there is one in front of the site's own domain:
+    /// acmecorp.yoursaas.com and acmecorp.localhost have one, yoursaas.com and localhost do not.
+    /// </summary>
+    private static string? GetSubdomain(string host)
+    {
+        if (string.IsNullOrEmpty(host) || System.Net.IPAddress.TryParse(host, out _))
+        {
+            return null;
+        }
+
+        var labels = host.Split('.');
+        var isLocalhost = labels[^1].Equals("localhost", StringComparison.OrdinalIgnoreCase);
+        var minimumLabels = isLocalhost ? 2 : 3;
+
+        if (labels.Length < minimumLabels || ReservedSubdomains.Contains(labels[0]))
+        {
+            return null;
+        }
+
+        return labels[0].ToLowerInvariant();
+    }
+}
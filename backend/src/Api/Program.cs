@@ -6,7 +6,9 @@ using OnlineCommunities.Api.Authorization.Handlers;
 using OnlineCommunities.Api.Authorization.Requirements;
 using OnlineCommunities.Api.Extensions;
 using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Api.Middleware;
 using OnlineCommunities.Application.Interfaces;
+using OnlineCommunities.Application.Services.Community;
 using OnlineCommunities.Application.Services.Identity;
 using OnlineCommunities.Core.Interfaces;
 using OnlineCommunities.Infrastructure.Data;
@@ -15,6 +17,8 @@ using OnlineCommunities.Infrastructure.Messaging;
 using OnlineCommunities.Infrastructure.Integrations.Email;
 using OnlineCommunities.Infrastructure.Integrations.CDM;
 using OnlineCommunities.Infrastructure.Governance;
+using OnlineCommunities.Infrastructure.Storage;
+using OnlineCommunities.Infrastructure.Presence;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -95,12 +99,27 @@ builder.Services.AddScoped<IEntraUserSyncService, EntraUserSyncService>();
 // Role Management Service - Required by authorization handlers
 builder.Services.AddScoped<IRoleManagementService, RoleManagementService>();
 
+// Chat Moderation Service - Moderator checks and the audit log, shared by ChatHub and the controllers
+builder.Services.AddScoped<IChatModerationService, ChatModerationService>();
+
 // Repository implementations (required for authentication)
 builder.Services.AddScoped<IUserRepository, UserRepository>();
 builder.Services.AddScoped<ITenantMembershipRepository, TenantMembershipRepository>();
+builder.Services.AddScoped<ITenantRepository, TenantRepository>();
 builder.Services.AddScoped<IChatRoomRepository, ChatRoomRepository>();
+builder.Services.AddScoped<IChatRoomInvitationRepository, ChatRoomInvitationRepository>();
+builder.Services.AddScoped<IChatRoomBanRepository, ChatRoomBanRepository>();
+builder.Services.AddScoped<IModerationActionRepository, ModerationActionRepository>();
+builder.Services.AddScoped<IMessageReportRepository, MessageReportRepository>();
 builder.Services.AddScoped<IChatMessageRepository, ChatMessageRepository>();
 
+// Chat attachment storage (local disk; swap for blob storage in production)
+builder.Services.AddSingleton<IAttachmentStorage, LocalAttachmentStorage>();
+builder.Services.Configure<AttachmentStorageOptions>(builder.Configuration.GetSection(AttachmentStorageOptions.SectionName));
+
+// Chat presence (in memory; a single API instance only)
+builder.Services.AddSingleton<IPresenceTracker, InMemoryPresenceTracker>();
+
 // ============================================================================
 // INFRASTRUCTURE SERVICES
 // ============================================================================
@@ -195,8 +214,9 @@ app.UseCors();
 
 app.UseHttpsRedirection();
 
+app.UseMiddleware<TenantContextMiddleware>();         // Resolves tenant from request
+
 // TODO: Add custom middleware when implemented:
-// app.UseMiddleware<TenantContextMiddleware>();      // Resolves tenant from request
 // app.UseMiddleware<TokenBlacklistMiddleware>();     // Checks for revoked tokens
 // app.UseMiddleware<ExceptionHandlingMiddleware>();  // Global error handling
 
@@ -0,0 +1,52 @@
+using OnlineCommunities.Core.Entities.Community;
+
+namespace OnlineCommunities.Application.Interfaces;
+
+/// <summary>
+/// Service interface for chat room moderation: who may moderate a room, and its audit log.
+/// </summary>
+public interface IChatModerationService
+{
+    /// <summary>
+    /// Whether the user may mute, remove and ban members of the room and set its slow mode.
+    /// Room admins and moderators may, as may tenant members with the members.manage permission.
+    /// </summary>
+    Task<bool> CanModerateAsync(ChatRoom room, Guid userId);
+
+    /// <summary>
+    /// Whether the user may delete other people's messages in the room: anyone who can moderate it,
+    /// and tenant members with the messages.deleteAny permission.
+    /// </summary>
+    Task<bool> CanDeleteAnyMessageAsync(ChatRoom room, Guid userId);
+
+    /// <summary>
+    /// Whether a moderator of the room may mute, remove or ban the target: only when the target's room
+    /// role ranks below theirs (member, then moderator, then admin), unless they have the tenant's
+    /// members.manage permission. The room must be loaded with its members.
+    /// </summary>
+    Task<bool> CanModerateMemberAsync(ChatRoom room, Guid moderatorId, Guid targetId);
+
+    /// <summary>
+    /// Whether the user's membership in the tenant grants the permission (see TenantPermissions).
+    /// Never true without a tenant.
+    /// </summary>
+    Task<bool> HasTenantPermissionAsync(Guid userId, Guid? tenantId, string permission);
+
+    /// <summary>
+    /// The room's admins and moderators, who are sent live updates of its open report count.
+    /// </summary>
+    Task<IReadOnlyList<Guid>> GetModeratorIdsAsync(Guid chatRoomId);
+
+    /// <summary>
+    /// Adds an entry to the room's moderation log.
+    /// </summary>
+    /// <param name="action">One of the ModerationAction constants</param>
+    Task<ModerationAction> RecordAsync(
+        Guid chatRoomId,
+        Guid moderatorId,
+        string action,
+        Guid? targetUserId = null,
+        Guid? targetMessageId = null,
+        int? durationSeconds = null,
+        string? reason = null);
+}
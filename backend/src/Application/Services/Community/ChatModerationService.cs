@@ -0,0 +1,128 @@
+using Microsoft.Extensions.Logging;
+using OnlineCommunities.Application.Interfaces;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Application.Services.Community;
+
+/// <summary>
+/// Service for chat room moderation, shared by ChatHub and the REST controllers
+/// so that both apply the same rules.
+/// </summary>
+public class ChatModerationService : IChatModerationService
+{
+    private readonly IChatRoomRepository _chatRoomRepository;
+    private readonly ITenantMembershipRepository _membershipRepository;
+    private readonly IModerationActionRepository _moderationActionRepository;
+    private readonly ILogger<ChatModerationService> _logger;
+
+    public ChatModerationService(
+        IChatRoomRepository chatRoomRepository,
+        ITenantMembershipRepository membershipRepository,
+        IModerationActionRepository moderationActionRepository,
+        ILogger<ChatModerationService> logger)
+    {
+        _chatRoomRepository = chatRoomRepository;
+        _membershipRepository = membershipRepository;
+        _moderationActionRepository = moderationActionRepository;
+        _logger = logger;
+    }
+
+    public async Task<bool> CanModerateAsync(ChatRoom room, Guid userId)
+    {
+        var member = await _chatRoomRepository.GetMemberAsync(room.Id, userId);
+
+        if (member?.Role == "admin" || member?.Role == "moderator")
+        {
+            return true;
+        }
+
+        return await HasTenantPermissionAsync(userId, room.TenantId, TenantPermissions.ManageMembers);
+    }
+
+    public async Task<bool> CanDeleteAnyMessageAsync(ChatRoom room, Guid userId)
+    {
+        return await CanModerateAsync(room, userId) ||
+               await HasTenantPermissionAsync(userId, room.TenantId, TenantPermissions.DeleteAnyMessage);
+    }
+
+    public async Task<bool> CanModerateMemberAsync(ChatRoom room, Guid moderatorId, Guid targetId)
+    {
+        if (GetRoleRank(room, targetId) < GetRoleRank(room, moderatorId))
+        {
+            return true;
+        }
+
+        return await HasTenantPermissionAsync(moderatorId, room.TenantId, TenantPermissions.ManageMembers);
+    }
+
+    public async Task<bool> HasTenantPermissionAsync(Guid userId, Guid? tenantId, string permission)
+    {
+        if (!tenantId.HasValue)
+        {
+            return false;
+        }
+
+        var membership = await _membershipRepository.GetByUserAndTenantAsync(userId, tenantId.Value);
+        return TenantPermissions.Has(membership, permission);
+    }
+
+    public async Task<IReadOnlyList<Guid>> GetModeratorIdsAsync(Guid chatRoomId)
+    {
+        var room = await _chatRoomRepository.GetChatRoomWithMembersAsync(chatRoomId);
+
+        if (room == null)
+        {
+            return Array.Empty<Guid>();
+        }
+
+        return room.Members
+            .Where(m => m.Role == "admin" || m.Role == "moderator")
+            .Select(m => m.UserId)
+            .ToList();
+    }
+
+    public async Task<ModerationAction> RecordAsync(
+        Guid chatRoomId,
+        Guid moderatorId,
+        string action,
+        Guid? targetUserId = null,
+        Guid? targetMessageId = null,
+        int? durationSeconds = null,
+        string? reason = null)
+    {
+        var entry = new ModerationAction
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = chatRoomId,
+            ModeratorId = moderatorId,
+            Action = action,
+            TargetUserId = targetUserId,
+            TargetMessageId = targetMessageId,
+            DurationSeconds = durationSeconds,
+            Reason = string.IsNullOrWhiteSpace(reason) ? null : reason.Trim(),
+            CreatedAt = DateTime.UtcNow,
+            CreatedBy = moderatorId.ToString()
+        };
+
+        await _moderationActionRepository.AddAsync(entry);
+
+        _logger.LogInformation(
+            "Moderator {ModeratorId} took action {Action} in chat room {ChatRoomId} against user {TargetUserId}",
+            moderatorId, action, chatRoomId, targetUserId);
+
+        return entry;
+    }
+
+    // Non-members rank as members
+    private static int GetRoleRank(ChatRoom room, Guid userId)
+    {
+        return room.Members.FirstOrDefault(m => m.UserId == userId)?.Role switch
+        {
+            "admin" => 2,
+            "moderator" => 1,
+            _ => 0
+        };
+    }
+}
@@ -32,6 +32,24 @@ public class ChatRoom : BaseEntity
     /// Null means unlimited.
     /// </summary>
     public int? MaxParticipants { get; set; }
+
+    /// <summary>
+    /// Slow mode: how many seconds each member must wait between messages.
+    /// Zero turns it off; room admins and moderators are exempt.
+    /// </summary>
+    public int SlowModeSeconds { get; set; }
+
+    /// <summary>
+    /// Whether this is a direct message conversation between a fixed set of users,
+    /// rather than a named room. Direct rooms are private and have no admins.
+    /// </summary>
+    public bool IsDirect { get; set; }
+
+    /// <summary>
+    /// For direct rooms: the sorted participant IDs, so that starting a conversation
+    /// with the same people again finds this room. Null for other rooms.
+    /// </summary>
+    public string? DirectKey { get; set; }
     
     /// <summary>
     /// Navigation property: Messages in this chat room.
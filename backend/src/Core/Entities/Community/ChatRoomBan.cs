@@ -0,0 +1,46 @@
+using OnlineCommunities.Core.Entities.Common;
+using OnlineCommunities.Core.Entities.Identity;
+
+namespace OnlineCommunities.Core.Entities.Community;
+
+/// <summary>
+/// Keeps a user out of a chat room: they cannot join, be invited or accept
+/// an invitation until a moderator lifts the ban.
+/// </summary>
+public class ChatRoomBan : BaseEntity
+{
+    /// <summary>
+    /// The chat room ID.
+    /// </summary>
+    public Guid ChatRoomId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The chat room.
+    /// </summary>
+    public ChatRoom ChatRoom { get; set; } = null!;
+
+    /// <summary>
+    /// The banned user's ID.
+    /// </summary>
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The banned user.
+    /// </summary>
+    public User User { get; set; } = null!;
+
+    /// <summary>
+    /// The ID of the moderator who banned the user.
+    /// </summary>
+    public Guid BannedById { get; set; }
+
+    /// <summary>
+    /// Navigation property: The moderator who banned the user.
+    /// </summary>
+    public User BannedBy { get; set; } = null!;
+
+    /// <summary>
+    /// Optional reason shown to moderators.
+    /// </summary>
+    public string? Reason { get; set; }
+}
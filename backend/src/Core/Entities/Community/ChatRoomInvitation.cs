@@ -0,0 +1,56 @@
+using OnlineCommunities.Core.Entities.Common;
+using OnlineCommunities.Core.Entities.Identity;
+
+namespace OnlineCommunities.Core.Entities.Community;
+
+/// <summary>
+/// An invitation for a user to join a chat room, typically a private one.
+/// The user becomes a member only once they accept it.
+/// </summary>
+public class ChatRoomInvitation : BaseEntity
+{
+    public const string Pending = "pending";
+    public const string Accepted = "accepted";
+    public const string Declined = "declined";
+    public const string Revoked = "revoked";
+
+    /// <summary>
+    /// The chat room ID.
+    /// </summary>
+    public Guid ChatRoomId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The chat room.
+    /// </summary>
+    public ChatRoom ChatRoom { get; set; } = null!;
+
+    /// <summary>
+    /// The invited user's ID.
+    /// </summary>
+    public Guid InvitedUserId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The invited user.
+    /// </summary>
+    public User InvitedUser { get; set; } = null!;
+
+    /// <summary>
+    /// The ID of the member who sent the invitation.
+    /// </summary>
+    public Guid InvitedById { get; set; }
+
+    /// <summary>
+    /// Navigation property: The member who sent the invitation.
+    /// </summary>
+    public User InvitedBy { get; set; } = null!;
+
+    /// <summary>
+    /// Pending until the invited user accepts or declines, or a room admin revokes it.
+    /// </summary>
+    public string Status { get; set; } = Pending;
+
+    /// <summary>
+    /// When the invitation was accepted, declined or revoked.
+    /// </summary>
+    public DateTime? RespondedAt { get; set; }
+}
@@ -49,6 +49,11 @@ public class ChatRoomMember : BaseEntity
     /// Whether the user has muted notifications for this chat room.
     /// </summary>
     public bool IsMuted { get; set; }
+
+    /// <summary>
+    /// Set when a moderator mutes the user: they cannot send messages to the room until then.
+    /// </summary>
+    public DateTime? MutedUntil { get; set; }
     
     /// <summary>
     /// User's role in this chat room (admin, moderator, member).
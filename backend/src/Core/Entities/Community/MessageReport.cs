@@ -0,0 +1,85 @@
+using OnlineCommunities.Core.Entities.Common;
+using OnlineCommunities.Core.Entities.Identity;
+
+namespace OnlineCommunities.Core.Entities.Community;
+
+/// <summary>
+/// A member's report of a message, waiting in the room's review queue until a moderator resolves it.
+/// </summary>
+public class MessageReport : BaseEntity
+{
+    // Reason categories; keep in sync with REPORT_REASONS in the frontend utils/moderation.ts
+    public const string Spam = "spam";
+    public const string Harassment = "harassment";
+    public const string HateSpeech = "hate";
+    public const string Inappropriate = "inappropriate";
+    public const string OtherReason = "other";
+
+    public static readonly string[] Reasons = { Spam, Harassment, HateSpeech, Inappropriate, OtherReason };
+
+    // Statuses
+    public const string Open = "open";
+    public const string Dismissed = "dismissed";
+    public const string Removed = "removed";
+    public const string Sanctioned = "sanctioned";
+
+    /// <summary>
+    /// The chat room ID.
+    /// </summary>
+    public Guid ChatRoomId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The chat room.
+    /// </summary>
+    public ChatRoom ChatRoom { get; set; } = null!;
+
+    /// <summary>
+    /// The reported message's ID.
+    /// </summary>
+    public Guid MessageId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The reported message.
+    /// </summary>
+    public ChatMessage Message { get; set; } = null!;
+
+    /// <summary>
+    /// The ID of the member who reported the message.
+    /// </summary>
+    public Guid ReporterId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The member who reported the message.
+    /// </summary>
+    public User Reporter { get; set; } = null!;
+
+    /// <summary>
+    /// One of the reason categories above.
+    /// </summary>
+    public string Reason { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Optional note from the reporter.
+    /// </summary>
+    public string? Note { get; set; }
+
+    /// <summary>
+    /// Open until resolved: dismissed, removed (the message was deleted) or sanctioned.
+    /// </summary>
+    public string Status { get; set; } = Open;
+
+    /// <summary>
+    /// The ID of the moderator who resolved the report.
+    /// </summary>
+    public Guid? ResolvedById { get; set; }
+
+    /// <summary>
+    /// Navigation property: The moderator who resolved the report.
+    /// </summary>
+    public User? ResolvedBy { get; set; }
+
+    /// <summary>
+    /// When the report was resolved.
+    /// </summary>
+    public DateTime? ResolvedAt { get; set; }
+}
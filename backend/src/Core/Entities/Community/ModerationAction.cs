@@ -0,0 +1,68 @@
+using OnlineCommunities.Core.Entities.Common;
+using OnlineCommunities.Core.Entities.Identity;
+
+namespace OnlineCommunities.Core.Entities.Community;
+
+/// <summary>
+/// One entry in a chat room's moderation audit log.
+/// </summary>
+public class ModerationAction : BaseEntity
+{
+    public const string DeleteMessage = "deleteMessage";
+    public const string Mute = "mute";
+    public const string Unmute = "unmute";
+    public const string Kick = "kick";
+    public const string Ban = "ban";
+    public const string Unban = "unban";
+    public const string SlowMode = "slowMode";
+
+    /// <summary>
+    /// The chat room ID.
+    /// </summary>
+    public Guid ChatRoomId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The chat room.
+    /// </summary>
+    public ChatRoom ChatRoom { get; set; } = null!;
+
+    /// <summary>
+    /// The ID of the moderator who took the action.
+    /// </summary>
+    public Guid ModeratorId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The moderator who took the action.
+    /// </summary>
+    public User Moderator { get; set; } = null!;
+
+    /// <summary>
+    /// One of the action constants above.
+    /// </summary>
+    public string Action { get; set; } = string.Empty;
+
+    /// <summary>
+    /// The user the action was taken against; null for room-wide actions such as slow mode.
+    /// </summary>
+    public Guid? TargetUserId { get; set; }
+
+    /// <summary>
+    /// Navigation property: The user the action was taken against.
+    /// </summary>
+    public User? TargetUser { get; set; }
+
+    /// <summary>
+    /// The deleted message, for deleteMessage.
+    /// </summary>
+    public Guid? TargetMessageId { get; set; }
+
+    /// <summary>
+    /// The mute duration, or the slow mode interval (zero when turned off).
+    /// </summary>
+    public int? DurationSeconds { get; set; }
+
+    /// <summary>
+    /// Optional reason given by the moderator.
+    /// </summary>
+    public string? Reason { get; set; }
+}
@@ -0,0 +1,67 @@
+using System.Text.Json;
+
+namespace OnlineCommunities.Core.Entities.Identity;
+
+/// <summary>
+/// What a tenant role allows, plus any AdditionalPermissions granted to a membership.
+/// The React client mirrors this matrix in src/tenants/permissions.ts; keep the two in sync.
+/// </summary>
+public static class TenantPermissions
+{
+    public const string CreateRooms = "rooms.create";
+    public const string ManageRooms = "rooms.manage";
+    public const string ManageMembers = "members.manage";
+    public const string DeleteAnyMessage = "messages.deleteAny";
+
+    private static readonly string[] All = { CreateRooms, ManageRooms, ManageMembers, DeleteAnyMessage };
+
+    private static readonly Dictionary<string, string[]> RolePermissions = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["Admin"] = All,
+        ["Moderator"] = new[] { CreateRooms, ManageMembers, DeleteAnyMessage },
+        ["Member"] = Array.Empty<string>()
+    };
+
+    /// <summary>
+    /// Parses AdditionalPermissions (a JSON array of permission strings).
+    /// Malformed values and unknown permissions are ignored.
+    /// </summary>
+    public static IReadOnlyList<string> ParseAdditional(string? additionalPermissions)
+    {
+        if (string.IsNullOrWhiteSpace(additionalPermissions))
+        {
+            return Array.Empty<string>();
+        }
+
+        try
+        {
+            var permissions = JsonSerializer.Deserialize<string[]>(additionalPermissions) ?? Array.Empty<string>();
+            return permissions.Where(p => All.Contains(p)).Distinct().ToList();
+        }
+        catch (JsonException)
+        {
+            return Array.Empty<string>();
+        }
+    }
+
+    /// <summary>
+    /// The effective permissions of a membership; none when it is missing or inactive.
+    /// Unknown roles get the Member permissions.
+    /// </summary>
+    public static IReadOnlySet<string> For(TenantMembership? membership)
+    {
+        if (membership == null || !membership.IsActive)
+        {
+            return new HashSet<string>();
+        }
+
+        var permissions = RolePermissions.TryGetValue(membership.RoleName, out var rolePermissions)
+            ? new HashSet<string>(rolePermissions)
+            : new HashSet<string>();
+
+        permissions.UnionWith(ParseAdditional(membership.AdditionalPermissions));
+        return permissions;
+    }
+
+    public static bool Has(TenantMembership? membership, string permission) => For(membership).Contains(permission);
+}
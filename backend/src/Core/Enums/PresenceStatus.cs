@@ -0,0 +1,22 @@
+namespace OnlineCommunities.Core.Enums;
+
+/// <summary>
+/// Whether a user is currently connected to the chat hub, and at their device.
+/// </summary>
+public enum PresenceStatus
+{
+    /// <summary>
+    /// No open hub connection.
+    /// </summary>
+    Offline = 0,
+
+    /// <summary>
+    /// Connected, with at least one tab in use.
+    /// </summary>
+    Online = 1,
+
+    /// <summary>
+    /// Connected, but every tab is hidden or idle.
+    /// </summary>
+    Away = 2
+}
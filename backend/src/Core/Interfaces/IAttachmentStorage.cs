@@ -0,0 +1,75 @@
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// A chat attachment, either still being uploaded or complete.
+/// The attachment ID is the upload ID. MessageId is set once the attachment has been sent.
+/// </summary>
+public record StoredAttachment(
+    Guid Id,
+    Guid ChatRoomId,
+    Guid UploadedBy,
+    string FileName,
+    string ContentType,
+    long Size,
+    int? Width,
+    int? Height,
+    long ReceivedBytes,
+    bool IsComplete,
+    DateTime CreatedAt,
+    Guid? MessageId = null);
+
+/// <summary>
+/// Storage for chat attachments uploaded in sequential chunks.
+/// </summary>
+public interface IAttachmentStorage
+{
+    /// <summary>
+    /// Starts an upload. Chunks must then be appended in order.
+    /// Uploads that are not sent in time expire and are deleted.
+    /// </summary>
+    Task<StoredAttachment> BeginUploadAsync(
+        Guid chatRoomId,
+        Guid uploadedBy,
+        string fileName,
+        string contentType,
+        long size,
+        int? width,
+        int? height,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets an upload or attachment, or null if it does not exist.
+    /// </summary>
+    Task<StoredAttachment?> GetAsync(Guid attachmentId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Appends a chunk at the given offset, which must equal the bytes received so far.
+    /// Returns the updated upload.
+    /// </summary>
+    Task<StoredAttachment> AppendChunkAsync(
+        Guid attachmentId,
+        long offset,
+        Stream content,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Marks an upload complete once every byte has been received.
+    /// </summary>
+    Task<StoredAttachment> CompleteUploadAsync(Guid attachmentId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Binds a completed attachment to the message it is sent in. An attachment can be sent only once;
+    /// after that it can no longer be cancelled and is deleted with its message.
+    /// </summary>
+    Task<StoredAttachment> AttachToMessageAsync(Guid attachmentId, Guid messageId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Opens a completed attachment for reading, or returns null if it does not exist.
+    /// </summary>
+    Task<Stream?> OpenReadAsync(Guid attachmentId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Deletes an upload or attachment. Does nothing if it does not exist.
+    /// </summary>
+    Task DeleteAsync(Guid attachmentId, CancellationToken cancellationToken = default);
+}
@@ -2,16 +2,39 @@ using OnlineCommunities.Core.Entities.Community;
 
 namespace OnlineCommunities.Core.Interfaces;
 
+/// <summary>
+/// Reply statistics for one thread: how many replies it has, when the last one was sent
+/// and the emails of the most recent distinct repliers, newest first.
+/// </summary>
+public record ThreadSummary(
+    Guid ParentMessageId,
+    int ReplyCount,
+    DateTime LastReplyAt,
+    IReadOnlyList<string> LatestRepliers);
+
 /// <summary>
 /// Repository interface for ChatMessage entity operations.
 /// </summary>
 public interface IChatMessageRepository : IRepository<ChatMessage>
 {
     /// <summary>
-    /// Get messages for a chat room with pagination.
+    /// Get top-level messages for a chat room with pagination.
+    /// Thread replies are excluded; see <see cref="GetRepliesAsync"/>.
+    /// Deleted messages are included so clients can show them as tombstones.
     /// </summary>
     Task<IEnumerable<ChatMessage>> GetMessagesAsync(Guid chatRoomId, int skip = 0, int take = 50);
     
+    /// <summary>
+    /// Get replies in the thread started by a message, newest first (including deleted replies).
+    /// </summary>
+    Task<IEnumerable<ChatMessage>> GetRepliesAsync(Guid parentMessageId, int skip = 0, int take = 50);
+    
+    /// <summary>
+    /// Get reply counts and latest repliers for the threads started by the given messages,
+    /// keyed by parent message ID. Messages without replies are left out; deleted replies are not counted.
+    /// </summary>
+    Task<IReadOnlyDictionary<Guid, ThreadSummary>> GetThreadSummariesAsync(IEnumerable<Guid> parentMessageIds, int latestRepliers);
+    
     /// <summary>
     /// Get messages after a specific message ID (for real-time updates).
     /// </summary>
@@ -26,6 +49,31 @@ public interface IChatMessageRepository : IRepository<ChatMessage>
     /// Mark messages as read for a user.
     /// </summary>
     Task MarkAsReadAsync(Guid chatRoomId, Guid userId, Guid lastReadMessageId);
+
+    /// <summary>
+    /// Get when a user last sent a message to a chat room, deleted ones included (for slow mode).
+    /// </summary>
+    Task<DateTime?> GetLastMessageAtAsync(Guid chatRoomId, Guid userId);
+
+    /// <summary>
+    /// Count, for each of the given top-level messages, the room's top-level messages newer than it:
+    /// the skip that pages GetMessagesAsync to it. Keyed by message ID; unknown IDs are left out.
+    /// </summary>
+    Task<IReadOnlyDictionary<Guid, int>> CountNewerMessagesAsync(Guid chatRoomId, IEnumerable<Guid> messageIds);
+    
+    /// <summary>
+    /// Change a message's content and save it as edited. <paramref name="edit"/> returns false
+    /// when there is nothing to change. If someone else changed the message meanwhile (a reaction,
+    /// another edit), it is reloaded and <paramref name="edit"/> applied again.
+    /// Returns whether the message was saved.
+    /// </summary>
+    Task<bool> EditAsync(ChatMessage message, Func<ChatMessage, bool> edit);
+    
+    /// <summary>
+    /// Change a message's metadata (for example reactions) and save it without marking it as edited.
+    /// Conflicting changes are handled as in <see cref="EditAsync"/>.
+    /// </summary>
+    Task<bool> UpdateMetadataAsync(ChatMessage message, Func<ChatMessage, bool> update);
     
     /// <summary>
     /// Get a message with user information.
@@ -0,0 +1,24 @@
+using OnlineCommunities.Core.Entities.Community;
+
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// Repository interface for ChatRoomBan entity operations.
+/// </summary>
+public interface IChatRoomBanRepository : IRepository<ChatRoomBan>
+{
+    /// <summary>
+    /// Get the ban of a user from a room, if any.
+    /// </summary>
+    Task<ChatRoomBan?> GetAsync(Guid chatRoomId, Guid userId);
+
+    /// <summary>
+    /// Check if a user is banned from a room.
+    /// </summary>
+    Task<bool> IsBannedAsync(Guid chatRoomId, Guid userId);
+
+    /// <summary>
+    /// Get a room's bans, newest first, with the banned users and moderators.
+    /// </summary>
+    Task<IEnumerable<ChatRoomBan>> GetForRoomAsync(Guid chatRoomId);
+}
@@ -0,0 +1,24 @@
+using OnlineCommunities.Core.Entities.Community;
+
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// Repository interface for ChatRoomInvitation entity operations.
+/// </summary>
+public interface IChatRoomInvitationRepository : IRepository<ChatRoomInvitation>
+{
+    /// <summary>
+    /// Get a user's pending invitations to active rooms, newest first, with the room and inviter.
+    /// </summary>
+    Task<IEnumerable<ChatRoomInvitation>> GetPendingForUserAsync(Guid userId);
+
+    /// <summary>
+    /// Get a room's pending invitations, newest first, with the invited users.
+    /// </summary>
+    Task<IEnumerable<ChatRoomInvitation>> GetPendingForRoomAsync(Guid chatRoomId);
+
+    /// <summary>
+    /// Get the pending invitation of a user to a room, if any.
+    /// </summary>
+    Task<ChatRoomInvitation?> GetPendingAsync(Guid chatRoomId, Guid userId);
+}
@@ -1,4 +1,5 @@
 using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
 
 namespace OnlineCommunities.Core.Interfaces;
 
@@ -8,24 +9,56 @@ namespace OnlineCommunities.Core.Interfaces;
 public interface IChatRoomRepository : IRepository<ChatRoom>
 {
     /// <summary>
-    /// Get all public chat rooms, optionally filtered by tenant.
+    /// Get the public chat rooms a user may see: those of the given tenant, or without one the
+    /// rooms outside any tenant plus those of the tenants the user is a member of.
     /// </summary>
-    Task<IEnumerable<ChatRoom>> GetPublicChatRoomsAsync(Guid? tenantId = null);
+    Task<IEnumerable<ChatRoom>> GetPublicChatRoomsAsync(Guid userId, Guid? tenantId = null);
     
     /// <summary>
-    /// Get all chat rooms a user is a member of.
+    /// Get all chat rooms a user is a member of, optionally filtered by tenant.
     /// </summary>
-    Task<IEnumerable<ChatRoom>> GetUserChatRoomsAsync(Guid userId);
+    Task<IEnumerable<ChatRoom>> GetUserChatRoomsAsync(Guid userId, Guid? tenantId = null);
+
+    /// <summary>
+    /// Get the IDs of the active chat rooms a user is a member of, in any tenant (for presence).
+    /// </summary>
+    Task<IReadOnlyList<Guid>> GetUserChatRoomIdsAsync(Guid userId);
+
+    /// <summary>
+    /// Get the member user IDs of every active chat room a user is a member of, keyed by room ID
+    /// (for presence snapshots). Loads IDs only, not rooms or users.
+    /// </summary>
+    Task<IReadOnlyDictionary<Guid, List<Guid>>> GetUserChatRoomMemberIdsAsync(Guid userId);
     
     /// <summary>
     /// Get a chat room with its members.
     /// </summary>
     Task<ChatRoom?> GetChatRoomWithMembersAsync(Guid chatRoomId);
+
+    /// <summary>
+    /// Get the direct room of a set of participants (see ChatRoom.DirectKey) in a tenant, with members.
+    /// </summary>
+    Task<ChatRoom?> GetDirectChatRoomAsync(string directKey, Guid? tenantId);
     
     /// <summary>
     /// Check if a user is a member of a chat room.
     /// </summary>
     Task<bool> IsUserMemberAsync(Guid chatRoomId, Guid userId);
+
+    /// <summary>
+    /// Check if two users are both members of at least one chat room.
+    /// </summary>
+    Task<bool> SharesChatRoomAsync(Guid userId, Guid otherUserId);
+
+    /// <summary>
+    /// Get a user's membership in a chat room, if any.
+    /// </summary>
+    Task<ChatRoomMember?> GetMemberAsync(Guid chatRoomId, Guid userId);
+
+    /// <summary>
+    /// Mute a member until the given time, or unmute them with null.
+    /// </summary>
+    Task SetMutedUntilAsync(Guid chatRoomId, Guid userId, DateTime? mutedUntil);
     
     /// <summary>
     /// Add a user to a chat room.
@@ -36,5 +69,11 @@ public interface IChatRoomRepository : IRepository<ChatRoom>
     /// Remove a user from a chat room.
     /// </summary>
     Task RemoveMemberAsync(Guid chatRoomId, Guid userId);
+
+    /// <summary>
+    /// Find users who share a room with the given user but are not members of the chat room,
+    /// optionally matching a search on email or name.
+    /// </summary>
+    Task<IEnumerable<User>> GetInviteCandidatesAsync(Guid chatRoomId, Guid userId, string? search, int take);
 }
 
@@ -0,0 +1,29 @@
+using OnlineCommunities.Core.Entities.Community;
+
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// Repository interface for MessageReport entity operations.
+/// </summary>
+public interface IMessageReportRepository : IRepository<MessageReport>
+{
+    /// <summary>
+    /// Check if a user already has an open report on a message.
+    /// </summary>
+    Task<bool> HasOpenReportAsync(Guid messageId, Guid reporterId);
+
+    /// <summary>
+    /// Get a room's open reports, oldest first, with the reporters and the reported messages and their authors.
+    /// </summary>
+    Task<IEnumerable<MessageReport>> GetOpenForRoomAsync(Guid chatRoomId);
+
+    /// <summary>
+    /// Count a room's open reports.
+    /// </summary>
+    Task<int> CountOpenForRoomAsync(Guid chatRoomId);
+
+    /// <summary>
+    /// Resolve every open report on a message. Returns how many were resolved.
+    /// </summary>
+    Task<int> ResolveForMessageAsync(Guid messageId, string status, Guid resolvedById);
+}
@@ -0,0 +1,14 @@
+using OnlineCommunities.Core.Entities.Community;
+
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// Repository interface for the moderation audit log.
+/// </summary>
+public interface IModerationActionRepository : IRepository<ModerationAction>
+{
+    /// <summary>
+    /// Get a page of a room's moderation log, newest first, with the moderators and target users.
+    /// </summary>
+    Task<IEnumerable<ModerationAction>> GetForRoomAsync(Guid chatRoomId, DateTime? before, int take);
+}
@@ -0,0 +1,44 @@
+using OnlineCommunities.Core.Enums;
+
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// Tracks the chat hub connections of each user to derive their presence.
+/// A user is online while any connection is in use, away while all of them
+/// are idle, and offline once the last one closes.
+/// </summary>
+public interface IPresenceTracker
+{
+    /// <summary>
+    /// Records a new connection, which starts out in use.
+    /// Returns the user's new status, or null if it did not change.
+    /// </summary>
+    PresenceStatus? Connect(Guid userId, string connectionId);
+
+    /// <summary>
+    /// Forgets a closed connection.
+    /// Returns the user's new status, or null if it did not change.
+    /// </summary>
+    PresenceStatus? Disconnect(Guid userId, string connectionId);
+
+    /// <summary>
+    /// Records whether the user is away on one connection, as reported by the client.
+    /// Returns the user's new status, or null if it did not change.
+    /// </summary>
+    PresenceStatus? SetAway(Guid userId, string connectionId, bool isAway);
+
+    /// <summary>
+    /// Gets a user's current status.
+    /// </summary>
+    PresenceStatus GetStatus(Guid userId);
+
+    /// <summary>
+    /// Gets the status of each of the given users that is not offline.
+    /// </summary>
+    IReadOnlyDictionary<Guid, PresenceStatus> GetConnectedUsers(IEnumerable<Guid> userIds);
+
+    /// <summary>
+    /// Gets the IDs of a user's open connections.
+    /// </summary>
+    IReadOnlyList<string> GetConnectionIds(Guid userId);
+}
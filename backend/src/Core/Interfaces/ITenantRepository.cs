@@ -0,0 +1,19 @@
+using OnlineCommunities.Core.Entities.Tenants;
+
+namespace OnlineCommunities.Core.Interfaces;
+
+/// <summary>
+/// Repository interface for Tenant entity operations.
+/// </summary>
+public interface ITenantRepository : IRepository<Tenant>
+{
+    /// <summary>
+    /// Find an active tenant by its subdomain, e.g. "acmecorp" for acmecorp.yoursaas.com.
+    /// </summary>
+    Task<Tenant?> GetBySubdomainAsync(string subdomain);
+
+    /// <summary>
+    /// Get the names of the given tenants, keyed by tenant ID. Unknown IDs are left out.
+    /// </summary>
+    Task<IReadOnlyDictionary<Guid, string>> GetNamesAsync(IEnumerable<Guid> tenantIds);
+}
@@ -35,6 +35,10 @@ public class ApplicationDbContext : DbContext
     public DbSet<ChatRoom> ChatRooms { get; set; } = null!;
     public DbSet<ChatMessage> ChatMessages { get; set; } = null!;
     public DbSet<ChatRoomMember> ChatRoomMembers { get; set; } = null!;
+    public DbSet<ChatRoomInvitation> ChatRoomInvitations { get; set; } = null!;
+    public DbSet<ChatRoomBan> ChatRoomBans { get; set; } = null!;
+    public DbSet<ModerationAction> ModerationActions { get; set; } = null!;
+    public DbSet<MessageReport> MessageReports { get; set; } = null!;
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -151,9 +155,17 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.Description)
                 .HasMaxLength(1000);
 
+            entity.Property(e => e.DirectKey)
+                .HasMaxLength(400);
+
             // Indexes for performance
             entity.HasIndex(e => e.TenantId);
             entity.HasIndex(e => e.IsPublic);
+
+            // One direct room per set of participants and tenant
+            entity.HasIndex(e => new { e.TenantId, e.DirectKey })
+                .IsUnique()
+                .HasFilter("[DirectKey] IS NOT NULL");
         });
 
         // ====================================================================
@@ -172,8 +184,11 @@ public class ApplicationDbContext : DbContext
                 .IsRequired()
                 .HasMaxLength(50);
                 
+            // Reactions and edit history are read-modify-write updates of this JSON,
+            // so a save fails if someone else changed it since the message was loaded.
+            // Unbounded: the history keeps every previous version of the content
             entity.Property(e => e.Metadata)
-                .HasMaxLength(4000);
+                .IsConcurrencyToken();
 
             // Foreign key relationships
             entity.HasOne(e => e.ChatRoom)
@@ -223,5 +238,159 @@ public class ApplicationDbContext : DbContext
             entity.HasIndex(e => e.ChatRoomId);
             entity.HasIndex(e => e.UserId);
         });
+
+        // ====================================================================
+        // ChatRoomInvitation Entity Configuration
+        // ====================================================================
+
+        modelBuilder.Entity<ChatRoomInvitation>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Status)
+                .IsRequired()
+                .HasMaxLength(20)
+                .HasDefaultValue(ChatRoomInvitation.Pending);
+
+            // Foreign key relationships
+            entity.HasOne(e => e.ChatRoom)
+                .WithMany()
+                .HasForeignKey(e => e.ChatRoomId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.InvitedUser)
+                .WithMany()
+                .HasForeignKey(e => e.InvitedUserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // A second cascade path from Users is not allowed by SQL Server
+            entity.HasOne(e => e.InvitedBy)
+                .WithMany()
+                .HasForeignKey(e => e.InvitedById)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // Indexes for performance
+            entity.HasIndex(e => new { e.ChatRoomId, e.Status });
+            entity.HasIndex(e => new { e.InvitedUserId, e.Status });
+            entity.HasIndex(e => e.InvitedById);
+        });
+
+        // ====================================================================
+        // ChatRoomBan Entity Configuration
+        // ====================================================================
+
+        modelBuilder.Entity<ChatRoomBan>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Reason)
+                .HasMaxLength(500);
+
+            // Foreign key relationships
+            entity.HasOne(e => e.ChatRoom)
+                .WithMany()
+                .HasForeignKey(e => e.ChatRoomId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // A second cascade path from Users is not allowed by SQL Server
+            entity.HasOne(e => e.BannedBy)
+                .WithMany()
+                .HasForeignKey(e => e.BannedById)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // One ban per user and room
+            entity.HasIndex(e => new { e.ChatRoomId, e.UserId }).IsUnique();
+            entity.HasIndex(e => e.BannedById);
+        });
+
+        // ====================================================================
+        // ModerationAction Entity Configuration
+        // ====================================================================
+
+        modelBuilder.Entity<ModerationAction>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Action)
+                .IsRequired()
+                .HasMaxLength(20);
+
+            entity.Property(e => e.Reason)
+                .HasMaxLength(500);
+
+            // Foreign key relationships
+            entity.HasOne(e => e.ChatRoom)
+                .WithMany()
+                .HasForeignKey(e => e.ChatRoomId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // The log outlives users, so neither user reference cascades
+            entity.HasOne(e => e.Moderator)
+                .WithMany()
+                .HasForeignKey(e => e.ModeratorId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            entity.HasOne(e => e.TargetUser)
+                .WithMany()
+                .HasForeignKey(e => e.TargetUserId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // Indexes for performance
+            entity.HasIndex(e => new { e.ChatRoomId, e.CreatedAt });
+            entity.HasIndex(e => e.ModeratorId);
+            entity.HasIndex(e => e.TargetUserId);
+        });
+
+        // ====================================================================
+        // MessageReport Entity Configuration
+        // ====================================================================
+
+        modelBuilder.Entity<MessageReport>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Reason)
+                .IsRequired()
+                .HasMaxLength(20);
+
+            entity.Property(e => e.Note)
+                .HasMaxLength(500);
+
+            entity.Property(e => e.Status)
+                .IsRequired()
+                .HasMaxLength(20);
+
+            // Foreign key relationships
+            entity.HasOne(e => e.ChatRoom)
+                .WithMany()
+                .HasForeignKey(e => e.ChatRoomId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Messages already cascade from the room, so a second path is not allowed by SQL Server
+            entity.HasOne(e => e.Message)
+                .WithMany()
+                .HasForeignKey(e => e.MessageId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            entity.HasOne(e => e.Reporter)
+                .WithMany()
+                .HasForeignKey(e => e.ReporterId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            entity.HasOne(e => e.ResolvedBy)
+                .WithMany()
+                .HasForeignKey(e => e.ResolvedById)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // Indexes for performance
+            entity.HasIndex(e => new { e.ChatRoomId, e.Status });
+            entity.HasIndex(e => new { e.MessageId, e.Status });
+            entity.HasIndex(e => e.ReporterId);
+        });
     }
 }
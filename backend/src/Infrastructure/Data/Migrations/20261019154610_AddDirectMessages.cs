@@ -0,0 +1,51 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace OnlineCommunities.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddDirectMessages : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "DirectKey",
+                table: "ChatRooms",
+                type: "nvarchar(400)",
+                maxLength: 400,
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsDirect",
+                table: "ChatRooms",
+                type: "bit",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ChatRooms_TenantId_DirectKey",
+                table: "ChatRooms",
+                columns: new[] { "TenantId", "DirectKey" },
+                unique: true,
+                filter: "[DirectKey] IS NOT NULL");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_ChatRooms_TenantId_DirectKey",
+                table: "ChatRooms");
+
+            migrationBuilder.DropColumn(
+                name: "DirectKey",
+                table: "ChatRooms");
+
+            migrationBuilder.DropColumn(
+                name: "IsDirect",
+                table: "ChatRooms");
+        }
+    }
+}
@@ -0,0 +1,106 @@
+using OnlineCommunities.Core.Enums;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Infrastructure.Presence;
+
+/// <summary>
+/// Keeps presence in the memory of this server instance.
+/// Scaling out to several instances needs a shared store (e.g. Redis) instead.
+/// </summary>
+public class InMemoryPresenceTracker : IPresenceTracker
+{
+    // Connection ID => whether that connection is away, per user
+    private readonly Dictionary<Guid, Dictionary<string, bool>> _connections = new();
+    private readonly object _lock = new();
+
+    /// <inheritdoc />
+    public PresenceStatus? Connect(Guid userId, string connectionId)
+    {
+        return Update(userId, connections => connections[connectionId] = false);
+    }
+
+    /// <inheritdoc />
+    public PresenceStatus? Disconnect(Guid userId, string connectionId)
+    {
+        return Update(userId, connections => connections.Remove(connectionId));
+    }
+
+    /// <inheritdoc />
+    public PresenceStatus? SetAway(Guid userId, string connectionId, bool isAway)
+    {
+        return Update(userId, connections =>
+        {
+            if (connections.ContainsKey(connectionId))
+            {
+                connections[connectionId] = isAway;
+            }
+        });
+    }
+
+    /// <inheritdoc />
+    public PresenceStatus GetStatus(Guid userId)
+    {
+        lock (_lock)
+        {
+            return GetStatusLocked(userId);
+        }
+    }
+
+    /// <inheritdoc />
+    public IReadOnlyDictionary<Guid, PresenceStatus> GetConnectedUsers(IEnumerable<Guid> userIds)
+    {
+        lock (_lock)
+        {
+            return userIds
+                .Distinct()
+                .Select(userId => (UserId: userId, Status: GetStatusLocked(userId)))
+                .Where(user => user.Status != PresenceStatus.Offline)
+                .ToDictionary(user => user.UserId, user => user.Status);
+        }
+    }
+
+    /// <inheritdoc />
+    public IReadOnlyList<string> GetConnectionIds(Guid userId)
+    {
+        lock (_lock)
+        {
+            return _connections.TryGetValue(userId, out var connections)
+                ? connections.Keys.ToList()
+                : new List<string>();
+        }
+    }
+
+    private PresenceStatus? Update(Guid userId, Action<Dictionary<string, bool>> update)
+    {
+        lock (_lock)
+        {
+            var before = GetStatusLocked(userId);
+
+            if (!_connections.TryGetValue(userId, out var connections))
+            {
+                connections = new Dictionary<string, bool>();
+                _connections[userId] = connections;
+            }
+
+            update(connections);
+
+            if (connections.Count == 0)
+            {
+                _connections.Remove(userId);
+            }
+
+            var after = GetStatusLocked(userId);
+            return after == before ? null : after;
+        }
+    }
+
+    private PresenceStatus GetStatusLocked(Guid userId)
+    {
+        if (!_connections.TryGetValue(userId, out var connections) || connections.Count == 0)
+        {
+            return PresenceStatus.Offline;
+        }
+
+        return connections.Values.All(isAway => isAway) ? PresenceStatus.Away : PresenceStatus.Online;
+    }
+}
@@ -7,6 +7,9 @@ namespace OnlineCommunities.Infrastructure.Repositories;
 
 public class ChatMessageRepository : IChatMessageRepository
 {
+    // How often a change is applied to a message that others keep changing before giving up
+    private const int MaxSaveAttempts = 3;
+
     private readonly ApplicationDbContext _context;
 
     public ChatMessageRepository(ApplicationDbContext context)
@@ -45,14 +48,32 @@ public class ChatMessageRepository : IChatMessageRepository
         await _context.SaveChangesAsync();
     }
 
+    public async Task<bool> EditAsync(ChatMessage message, Func<ChatMessage, bool> edit)
+    {
+        return await SaveWithRetryAsync(message, m =>
+        {
+            if (!edit(m))
+            {
+                return false;
+            }
+
+            m.ModifiedAt = DateTime.UtcNow;
+            m.IsEdited = true;
+            return true;
+        });
+    }
+
     public async Task DeleteAsync(Guid id)
     {
         var message = await GetByIdAsync(id);
         if (message != null)
         {
-            message.IsDeleted = true;
-            message.ModifiedAt = DateTime.UtcNow;
-            await _context.SaveChangesAsync();
+            await SaveWithRetryAsync(message, m =>
+            {
+                m.IsDeleted = true;
+                m.ModifiedAt = DateTime.UtcNow;
+                return true;
+            });
         }
     }
 
@@ -65,13 +86,64 @@ public class ChatMessageRepository : IChatMessageRepository
     {
         return await _context.ChatMessages
             .Include(m => m.User)
-            .Where(m => m.ChatRoomId == chatRoomId && !m.IsDeleted)
+            .Where(m => m.ChatRoomId == chatRoomId && m.ParentMessageId == null)
+            .OrderByDescending(m => m.CreatedAt)
+            .Skip(skip)
+            .Take(take)
+            .ToListAsync();
+    }
+
+    public async Task<IEnumerable<ChatMessage>> GetRepliesAsync(Guid parentMessageId, int skip = 0, int take = 50)
+    {
+        return await _context.ChatMessages
+            .Include(m => m.User)
+            .Where(m => m.ParentMessageId == parentMessageId)
             .OrderByDescending(m => m.CreatedAt)
             .Skip(skip)
             .Take(take)
             .ToListAsync();
     }
 
+    public async Task<IReadOnlyDictionary<Guid, ThreadSummary>> GetThreadSummariesAsync(
+        IEnumerable<Guid> parentMessageIds,
+        int latestRepliers)
+    {
+        var ids = parentMessageIds.ToList();
+
+        if (ids.Count == 0)
+        {
+            return new Dictionary<Guid, ThreadSummary>();
+        }
+
+        var replies = _context.ChatMessages
+            .Where(m => m.ParentMessageId.HasValue && ids.Contains(m.ParentMessageId.Value) && !m.IsDeleted);
+
+        var totals = await replies
+            .GroupBy(m => m.ParentMessageId!.Value)
+            .Select(g => new { ParentMessageId = g.Key, ReplyCount = g.Count(), LastReplyAt = g.Max(m => m.CreatedAt) })
+            .ToListAsync();
+
+        // One row per thread and replier rather than per reply
+        var repliers = await replies
+            .GroupBy(m => new { ParentMessageId = m.ParentMessageId!.Value, m.User.Email })
+            .Select(g => new { g.Key.ParentMessageId, g.Key.Email, LastReplyAt = g.Max(m => m.CreatedAt) })
+            .ToListAsync();
+
+        var latestByThread = repliers
+            .GroupBy(r => r.ParentMessageId)
+            .ToDictionary(
+                g => g.Key,
+                g => (IReadOnlyList<string>)g.OrderByDescending(r => r.LastReplyAt).Take(latestRepliers).Select(r => r.Email).ToList());
+
+        return totals.ToDictionary(
+            t => t.ParentMessageId,
+            t => new ThreadSummary(
+                t.ParentMessageId,
+                t.ReplyCount,
+                t.LastReplyAt,
+                latestByThread.GetValueOrDefault(t.ParentMessageId) ?? Array.Empty<string>()));
+    }
+
     public async Task<IEnumerable<ChatMessage>> GetMessagesAfterAsync(Guid chatRoomId, Guid afterMessageId)
     {
         var afterMessage = await GetByIdAsync(afterMessageId);
@@ -125,6 +197,36 @@ public class ChatMessageRepository : IChatMessageRepository
         }
     }
 
+    public async Task<DateTime?> GetLastMessageAtAsync(Guid chatRoomId, Guid userId)
+    {
+        return await _context.ChatMessages
+            .Where(m => m.ChatRoomId == chatRoomId && m.UserId == userId)
+            .MaxAsync(m => (DateTime?)m.CreatedAt);
+    }
+
+    public async Task<IReadOnlyDictionary<Guid, int>> CountNewerMessagesAsync(Guid chatRoomId, IEnumerable<Guid> messageIds)
+    {
+        var ids = messageIds.Distinct().ToList();
+
+        if (ids.Count == 0)
+        {
+            return new Dictionary<Guid, int>();
+        }
+
+        var topLevel = _context.ChatMessages.Where(m => m.ChatRoomId == chatRoomId && m.ParentMessageId == null);
+
+        // One query: the count is a subquery per message
+        return await topLevel
+            .Where(m => ids.Contains(m.Id))
+            .Select(m => new { m.Id, NewerCount = topLevel.Count(n => n.CreatedAt > m.CreatedAt) })
+            .ToDictionaryAsync(m => m.Id, m => m.NewerCount);
+    }
+
+    public async Task<bool> UpdateMetadataAsync(ChatMessage message, Func<ChatMessage, bool> update)
+    {
+        return await SaveWithRetryAsync(message, update);
+    }
+
     public async Task<ChatMessage?> GetMessageWithUserAsync(Guid messageId)
     {
         return await _context.ChatMessages
@@ -132,5 +234,30 @@ public class ChatMessageRepository : IChatMessageRepository
             .Include(m => m.ChatRoom)
             .FirstOrDefaultAsync(m => m.Id == messageId);
     }
-}
 
+    /// <summary>
+    /// Applies a change to a tracked message and saves it. Metadata is a concurrency token, so the
+    /// save fails when someone else changed the message since it was loaded; it is then reloaded and
+    /// the change applied again. Returns false when <paramref name="apply"/> found nothing to change.
+    /// </summary>
+    private async Task<bool> SaveWithRetryAsync(ChatMessage message, Func<ChatMessage, bool> apply)
+    {
+        for (var attempt = 1; ; attempt++)
+        {
+            if (!apply(message))
+            {
+                return false;
+            }
+
+            try
+            {
+                await _context.SaveChangesAsync();
+                return true;
+            }
+            catch (DbUpdateConcurrencyException) when (attempt < MaxSaveAttempts)
+            {
+                await _context.Entry(message).ReloadAsync();
+            }
+        }
+    }
+}
@@ -0,0 +1,85 @@
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+using OnlineCommunities.Infrastructure.Data;
+
+namespace OnlineCommunities.Infrastructure.Repositories;
+
+/// <summary>
+/// Repository implementation for ChatRoomBan entity.
+/// </summary>
+public class ChatRoomBanRepository : IChatRoomBanRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public ChatRoomBanRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<ChatRoomBan?> GetByIdAsync(Guid id)
+    {
+        return await _context.ChatRoomBans
+            .Include(b => b.User)
+            .Include(b => b.BannedBy)
+            .FirstOrDefaultAsync(b => b.Id == id);
+    }
+
+    public async Task<IEnumerable<ChatRoomBan>> GetAllAsync()
+    {
+        return await _context.ChatRoomBans
+            .OrderByDescending(b => b.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<ChatRoomBan> AddAsync(ChatRoomBan entity)
+    {
+        _context.ChatRoomBans.Add(entity);
+        await _context.SaveChangesAsync();
+        return entity;
+    }
+
+    public async Task UpdateAsync(ChatRoomBan entity)
+    {
+        entity.ModifiedAt = DateTime.UtcNow;
+        _context.ChatRoomBans.Update(entity);
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task DeleteAsync(Guid id)
+    {
+        var ban = await _context.ChatRoomBans.FindAsync(id);
+        if (ban != null)
+        {
+            _context.ChatRoomBans.Remove(ban);
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    public async Task<bool> ExistsAsync(Guid id)
+    {
+        return await _context.ChatRoomBans.AnyAsync(b => b.Id == id);
+    }
+
+    public async Task<ChatRoomBan?> GetAsync(Guid chatRoomId, Guid userId)
+    {
+        return await _context.ChatRoomBans
+            .FirstOrDefaultAsync(b => b.ChatRoomId == chatRoomId && b.UserId == userId);
+    }
+
+    public async Task<bool> IsBannedAsync(Guid chatRoomId, Guid userId)
+    {
+        return await _context.ChatRoomBans
+            .AnyAsync(b => b.ChatRoomId == chatRoomId && b.UserId == userId);
+    }
+
+    public async Task<IEnumerable<ChatRoomBan>> GetForRoomAsync(Guid chatRoomId)
+    {
+        return await _context.ChatRoomBans
+            .Include(b => b.User)
+            .Include(b => b.BannedBy)
+            .Where(b => b.ChatRoomId == chatRoomId)
+            .OrderByDescending(b => b.CreatedAt)
+            .ToListAsync();
+    }
+}
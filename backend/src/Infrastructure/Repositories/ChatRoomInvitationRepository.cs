@@ -0,0 +1,93 @@
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+using OnlineCommunities.Infrastructure.Data;
+
+namespace OnlineCommunities.Infrastructure.Repositories;
+
+/// <summary>
+/// Repository implementation for ChatRoomInvitation entity.
+/// </summary>
+public class ChatRoomInvitationRepository : IChatRoomInvitationRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public ChatRoomInvitationRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<ChatRoomInvitation?> GetByIdAsync(Guid id)
+    {
+        return await _context.ChatRoomInvitations
+            .Include(i => i.ChatRoom)
+            .Include(i => i.InvitedUser)
+            .Include(i => i.InvitedBy)
+            .FirstOrDefaultAsync(i => i.Id == id);
+    }
+
+    public async Task<IEnumerable<ChatRoomInvitation>> GetAllAsync()
+    {
+        return await _context.ChatRoomInvitations
+            .OrderByDescending(i => i.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<ChatRoomInvitation> AddAsync(ChatRoomInvitation entity)
+    {
+        _context.ChatRoomInvitations.Add(entity);
+        await _context.SaveChangesAsync();
+        return entity;
+    }
+
+    public async Task UpdateAsync(ChatRoomInvitation entity)
+    {
+        entity.ModifiedAt = DateTime.UtcNow;
+        _context.ChatRoomInvitations.Update(entity);
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task DeleteAsync(Guid id)
+    {
+        var invitation = await _context.ChatRoomInvitations.FindAsync(id);
+        if (invitation != null)
+        {
+            _context.ChatRoomInvitations.Remove(invitation);
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    public async Task<bool> ExistsAsync(Guid id)
+    {
+        return await _context.ChatRoomInvitations.AnyAsync(i => i.Id == id);
+    }
+
+    public async Task<IEnumerable<ChatRoomInvitation>> GetPendingForUserAsync(Guid userId)
+    {
+        return await _context.ChatRoomInvitations
+            .Include(i => i.ChatRoom)
+            .Include(i => i.InvitedUser)
+            .Include(i => i.InvitedBy)
+            .Where(i => i.InvitedUserId == userId && i.Status == ChatRoomInvitation.Pending && i.ChatRoom.IsActive)
+            .OrderByDescending(i => i.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<IEnumerable<ChatRoomInvitation>> GetPendingForRoomAsync(Guid chatRoomId)
+    {
+        return await _context.ChatRoomInvitations
+            .Include(i => i.ChatRoom)
+            .Include(i => i.InvitedUser)
+            .Include(i => i.InvitedBy)
+            .Where(i => i.ChatRoomId == chatRoomId && i.Status == ChatRoomInvitation.Pending)
+            .OrderByDescending(i => i.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<ChatRoomInvitation?> GetPendingAsync(Guid chatRoomId, Guid userId)
+    {
+        return await _context.ChatRoomInvitations
+            .FirstOrDefaultAsync(i =>
+                i.ChatRoomId == chatRoomId && i.InvitedUserId == userId && i.Status == ChatRoomInvitation.Pending);
+    }
+}
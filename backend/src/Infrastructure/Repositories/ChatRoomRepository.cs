@@ -1,5 +1,6 @@
 using Microsoft.EntityFrameworkCore;
 using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
 using OnlineCommunities.Core.Interfaces;
 using OnlineCommunities.Infrastructure.Data;
 
@@ -33,7 +34,18 @@ public class ChatRoomRepository : IChatRoomRepository
     public async Task<ChatRoom> AddAsync(ChatRoom entity)
     {
         _context.ChatRooms.Add(entity);
-        await _context.SaveChangesAsync();
+
+        try
+        {
+            await _context.SaveChangesAsync();
+        }
+        catch (DbUpdateException)
+        {
+            // Later saves in this request must not try to insert the room again
+            _context.Entry(entity).State = EntityState.Detached;
+            throw;
+        }
+
         return entity;
     }
 
@@ -60,7 +72,7 @@ public class ChatRoomRepository : IChatRoomRepository
         return await _context.ChatRooms.AnyAsync(r => r.Id == id);
     }
 
-    public async Task<IEnumerable<ChatRoom>> GetPublicChatRoomsAsync(Guid? tenantId = null)
+    public async Task<IEnumerable<ChatRoom>> GetPublicChatRoomsAsync(Guid userId, Guid? tenantId = null)
     {
         var query = _context.ChatRooms
             .Include(r => r.Members)
@@ -70,21 +82,55 @@ public class ChatRoomRepository : IChatRoomRepository
         {
             query = query.Where(r => r.TenantId == tenantId);
         }
+        else
+        {
+            query = query.Where(r => r.TenantId == null ||
+                _context.TenantMemberships.Any(tm => tm.UserId == userId && tm.TenantId == r.TenantId));
+        }
 
         return await query
             .OrderByDescending(r => r.CreatedAt)
             .ToListAsync();
     }
 
-    public async Task<IEnumerable<ChatRoom>> GetUserChatRoomsAsync(Guid userId)
+    public async Task<IEnumerable<ChatRoom>> GetUserChatRoomsAsync(Guid userId, Guid? tenantId = null)
     {
-        return await _context.ChatRooms
+        // Members' users are loaded so that direct rooms can show their participants
+        var query = _context.ChatRooms
             .Include(r => r.Members)
-            .Where(r => r.Members.Any(m => m.UserId == userId) && r.IsActive)
+            .ThenInclude(m => m.User)
+            .Where(r => r.Members.Any(m => m.UserId == userId) && r.IsActive);
+
+        if (tenantId.HasValue)
+        {
+            query = query.Where(r => r.TenantId == tenantId);
+        }
+
+        return await query
             .OrderByDescending(r => r.CreatedAt)
             .ToListAsync();
     }
 
+    public async Task<IReadOnlyList<Guid>> GetUserChatRoomIdsAsync(Guid userId)
+    {
+        return await _context.ChatRoomMembers
+            .Where(m => m.UserId == userId && m.ChatRoom.IsActive)
+            .Select(m => m.ChatRoomId)
+            .ToListAsync();
+    }
+
+    public async Task<IReadOnlyDictionary<Guid, List<Guid>>> GetUserChatRoomMemberIdsAsync(Guid userId)
+    {
+        var members = await _context.ChatRoomMembers
+            .Where(m => m.ChatRoom.IsActive && m.ChatRoom.Members.Any(own => own.UserId == userId))
+            .Select(m => new { m.ChatRoomId, m.UserId })
+            .ToListAsync();
+
+        return members
+            .GroupBy(m => m.ChatRoomId)
+            .ToDictionary(g => g.Key, g => g.Select(m => m.UserId).ToList());
+    }
+
     public async Task<ChatRoom?> GetChatRoomWithMembersAsync(Guid chatRoomId)
     {
         return await _context.ChatRooms
@@ -93,12 +139,45 @@ public class ChatRoomRepository : IChatRoomRepository
             .FirstOrDefaultAsync(r => r.Id == chatRoomId);
     }
 
+    public async Task<ChatRoom?> GetDirectChatRoomAsync(string directKey, Guid? tenantId)
+    {
+        return await _context.ChatRooms
+            .Include(r => r.Members)
+            .ThenInclude(m => m.User)
+            .FirstOrDefaultAsync(r => r.DirectKey == directKey && r.TenantId == tenantId);
+    }
+
     public async Task<bool> IsUserMemberAsync(Guid chatRoomId, Guid userId)
     {
         return await _context.ChatRoomMembers
             .AnyAsync(m => m.ChatRoomId == chatRoomId && m.UserId == userId);
     }
 
+    public async Task<bool> SharesChatRoomAsync(Guid userId, Guid otherUserId)
+    {
+        return await _context.ChatRoomMembers
+            .Where(m => m.UserId == userId)
+            .AnyAsync(m => _context.ChatRoomMembers.Any(o => o.ChatRoomId == m.ChatRoomId && o.UserId == otherUserId));
+    }
+
+    public async Task<ChatRoomMember?> GetMemberAsync(Guid chatRoomId, Guid userId)
+    {
+        return await _context.ChatRoomMembers
+            .FirstOrDefaultAsync(m => m.ChatRoomId == chatRoomId && m.UserId == userId);
+    }
+
+    public async Task SetMutedUntilAsync(Guid chatRoomId, Guid userId, DateTime? mutedUntil)
+    {
+        var member = await GetMemberAsync(chatRoomId, userId);
+
+        if (member != null)
+        {
+            member.MutedUntil = mutedUntil;
+            member.ModifiedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+        }
+    }
+
     public async Task<ChatRoomMember> AddMemberAsync(Guid chatRoomId, Guid userId, string role = "member")
     {
         var member = new ChatRoomMember
@@ -127,5 +206,29 @@ public class ChatRoomRepository : IChatRoomRepository
             await _context.SaveChangesAsync();
         }
     }
-}
 
+    public async Task<IEnumerable<User>> GetInviteCandidatesAsync(Guid chatRoomId, Guid userId, string? search, int take)
+    {
+        var sharedRoomIds = _context.ChatRoomMembers
+            .Where(m => m.UserId == userId)
+            .Select(m => m.ChatRoomId);
+
+        var query = _context.ChatRoomMembers
+            .Where(m => sharedRoomIds.Contains(m.ChatRoomId) && m.UserId != userId)
+            .Select(m => m.User)
+            .Where(u => !_context.ChatRoomMembers.Any(m => m.ChatRoomId == chatRoomId && m.UserId == u.Id))
+            .Distinct();
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var term = search.Trim();
+            query = query.Where(u =>
+                u.Email.Contains(term) || u.FirstName.Contains(term) || u.LastName.Contains(term));
+        }
+
+        return await query
+            .OrderBy(u => u.Email)
+            .Take(take)
+            .ToListAsync();
+    }
+}
@@ -0,0 +1,105 @@
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+using OnlineCommunities.Infrastructure.Data;
+
+namespace OnlineCommunities.Infrastructure.Repositories;
+
+/// <summary>
+/// Repository implementation for MessageReport entity.
+/// </summary>
+public class MessageReportRepository : IMessageReportRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public MessageReportRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<MessageReport?> GetByIdAsync(Guid id)
+    {
+        return await _context.MessageReports
+            .Include(r => r.Reporter)
+            .FirstOrDefaultAsync(r => r.Id == id);
+    }
+
+    public async Task<IEnumerable<MessageReport>> GetAllAsync()
+    {
+        return await _context.MessageReports
+            .OrderByDescending(r => r.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<MessageReport> AddAsync(MessageReport entity)
+    {
+        _context.MessageReports.Add(entity);
+        await _context.SaveChangesAsync();
+        return entity;
+    }
+
+    public async Task UpdateAsync(MessageReport entity)
+    {
+        entity.ModifiedAt = DateTime.UtcNow;
+        _context.MessageReports.Update(entity);
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task DeleteAsync(Guid id)
+    {
+        var report = await _context.MessageReports.FindAsync(id);
+        if (report != null)
+        {
+            _context.MessageReports.Remove(report);
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    public async Task<bool> ExistsAsync(Guid id)
+    {
+        return await _context.MessageReports.AnyAsync(r => r.Id == id);
+    }
+
+    public async Task<bool> HasOpenReportAsync(Guid messageId, Guid reporterId)
+    {
+        return await _context.MessageReports
+            .AnyAsync(r => r.MessageId == messageId && r.ReporterId == reporterId && r.Status == MessageReport.Open);
+    }
+
+    public async Task<IEnumerable<MessageReport>> GetOpenForRoomAsync(Guid chatRoomId)
+    {
+        return await _context.MessageReports
+            .Include(r => r.Reporter)
+            .Include(r => r.Message)
+                .ThenInclude(m => m.User)
+            .Where(r => r.ChatRoomId == chatRoomId && r.Status == MessageReport.Open)
+            .OrderBy(r => r.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<int> CountOpenForRoomAsync(Guid chatRoomId)
+    {
+        return await _context.MessageReports
+            .CountAsync(r => r.ChatRoomId == chatRoomId && r.Status == MessageReport.Open);
+    }
+
+    public async Task<int> ResolveForMessageAsync(Guid messageId, string status, Guid resolvedById)
+    {
+        var reports = await _context.MessageReports
+            .Where(r => r.MessageId == messageId && r.Status == MessageReport.Open)
+            .ToListAsync();
+
+        var now = DateTime.UtcNow;
+
+        foreach (var report in reports)
+        {
+            report.Status = status;
+            report.ResolvedById = resolvedById;
+            report.ResolvedAt = now;
+            report.ModifiedAt = now;
+        }
+
+        await _context.SaveChangesAsync();
+        return reports.Count;
+    }
+}
@@ -0,0 +1,81 @@
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Interfaces;
+using OnlineCommunities.Infrastructure.Data;
+
+namespace OnlineCommunities.Infrastructure.Repositories;
+
+/// <summary>
+/// Repository implementation for the moderation audit log.
+/// </summary>
+public class ModerationActionRepository : IModerationActionRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public ModerationActionRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<ModerationAction?> GetByIdAsync(Guid id)
+    {
+        return await _context.ModerationActions
+            .Include(a => a.Moderator)
+            .Include(a => a.TargetUser)
+            .FirstOrDefaultAsync(a => a.Id == id);
+    }
+
+    public async Task<IEnumerable<ModerationAction>> GetAllAsync()
+    {
+        return await _context.ModerationActions
+            .OrderByDescending(a => a.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task<ModerationAction> AddAsync(ModerationAction entity)
+    {
+        _context.ModerationActions.Add(entity);
+        await _context.SaveChangesAsync();
+        return entity;
+    }
+
+    public async Task UpdateAsync(ModerationAction entity)
+    {
+        entity.ModifiedAt = DateTime.UtcNow;
+        _context.ModerationActions.Update(entity);
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task DeleteAsync(Guid id)
+    {
+        var action = await _context.ModerationActions.FindAsync(id);
+        if (action != null)
+        {
+            _context.ModerationActions.Remove(action);
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    public async Task<bool> ExistsAsync(Guid id)
+    {
+        return await _context.ModerationActions.AnyAsync(a => a.Id == id);
+    }
+
+    public async Task<IEnumerable<ModerationAction>> GetForRoomAsync(Guid chatRoomId, DateTime? before, int take)
+    {
+        var query = _context.ModerationActions
+            .Include(a => a.Moderator)
+            .Include(a => a.TargetUser)
+            .Where(a => a.ChatRoomId == chatRoomId);
+
+        if (before.HasValue)
+        {
+            query = query.Where(a => a.CreatedAt < before.Value);
+        }
+
+        return await query
+            .OrderByDescending(a => a.CreatedAt)
+            .Take(take)
+            .ToListAsync();
+    }
+}
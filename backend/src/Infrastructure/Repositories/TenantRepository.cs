@@ -0,0 +1,85 @@
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Core.Entities.Tenants;
+using OnlineCommunities.Core.Interfaces;
+using OnlineCommunities.Infrastructure.Data;
+
+namespace OnlineCommunities.Infrastructure.Repositories;
+
+/// <summary>
+/// Repository implementation for Tenant entity.
+/// </summary>
+public class TenantRepository : ITenantRepository
+{
+    private readonly ApplicationDbContext _context;
+
+    public TenantRepository(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<Tenant?> GetByIdAsync(Guid id)
+    {
+        return await _context.Tenants.FindAsync(id);
+    }
+
+    public async Task<IEnumerable<Tenant>> GetAllAsync()
+    {
+        return await _context.Tenants
+            .Where(t => t.IsActive)
+            .OrderBy(t => t.Name)
+            .ToListAsync();
+    }
+
+    public async Task<Tenant> AddAsync(Tenant entity)
+    {
+        _context.Tenants.Add(entity);
+        await _context.SaveChangesAsync();
+        return entity;
+    }
+
+    public async Task UpdateAsync(Tenant entity)
+    {
+        entity.ModifiedAt = DateTime.UtcNow;
+        _context.Tenants.Update(entity);
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task DeleteAsync(Guid id)
+    {
+        var tenant = await _context.Tenants.FindAsync(id);
+        if (tenant != null)
+        {
+            // Soft delete
+            tenant.IsActive = false;
+            tenant.ModifiedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    public async Task<bool> ExistsAsync(Guid id)
+    {
+        return await _context.Tenants.AnyAsync(t => t.Id == id);
+    }
+
+    public async Task<Tenant?> GetBySubdomainAsync(string subdomain)
+    {
+        var normalized = subdomain.ToLowerInvariant();
+
+        return await _context.Tenants
+            .FirstOrDefaultAsync(t => t.Subdomain == normalized && t.IsActive);
+    }
+
+    public async Task<IReadOnlyDictionary<Guid, string>> GetNamesAsync(IEnumerable<Guid> tenantIds)
+    {
+        var ids = tenantIds.Distinct().ToList();
+
+        if (ids.Count == 0)
+        {
+            return new Dictionary<Guid, string>();
+        }
+
+        return await _context.Tenants
+            .Where(t => ids.Contains(t.Id))
+            .ToDictionaryAsync(t => t.Id, t => t.Name);
+    }
+}
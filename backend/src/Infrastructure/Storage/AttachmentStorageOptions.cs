@@ -0,0 +1,26 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace OnlineCommunities.Infrastructure.Storage;
+
+/// <summary>
+/// Configuration options for chat attachment storage.
+/// </summary>
+public class AttachmentStorageOptions
+{
+    /// <summary>
+    /// The configuration section name for attachment storage options.
+    /// </summary>
+    public const string SectionName = "AttachmentStorage";
+
+    /// <summary>
+    /// The directory attachments are stored in. Relative paths are resolved against the working directory.
+    /// </summary>
+    [Required]
+    public string RootPath { get; set; } = "App_Data/attachments";
+
+    /// <summary>
+    /// How many hours an upload has to be completed and sent before it expires and is deleted.
+    /// </summary>
+    [Range(1, 720)]
+    public int UploadLifetimeHours { get; set; } = 24;
+}
@@ -0,0 +1,314 @@
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Infrastructure.Storage;
+
+/// <summary>
+/// Stores chat attachments on the local file system.
+/// Each attachment is a data file plus a JSON manifest describing it.
+/// Expired uploads are swept up when new uploads start, at most once per SweepInterval.
+/// </summary>
+public class LocalAttachmentStorage : IAttachmentStorage
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+    private static readonly TimeSpan SweepInterval = TimeSpan.FromHours(1);
+
+    private readonly string _rootPath;
+    private readonly TimeSpan _uploadLifetime;
+    private readonly ILogger<LocalAttachmentStorage> _logger;
+
+    // Manifests must not be updated concurrently (chunks, completion, sending, sweeping).
+    // Reads go without it: manifests are replaced by a rename, never rewritten in place
+    private readonly SemaphoreSlim _writeLock = new(1, 1);
+    private DateTime _lastSweepAt = DateTime.MinValue;
+
+    /// <summary>
+    /// Initializes a new instance of the LocalAttachmentStorage.
+    /// </summary>
+    /// <param name="options">Attachment storage configuration options.</param>
+    /// <param name="logger">Logger instance.</param>
+    public LocalAttachmentStorage(IOptions<AttachmentStorageOptions> options, ILogger<LocalAttachmentStorage> logger)
+    {
+        _rootPath = Path.GetFullPath(options.Value.RootPath);
+        _uploadLifetime = TimeSpan.FromHours(options.Value.UploadLifetimeHours);
+        _logger = logger;
+
+        Directory.CreateDirectory(_rootPath);
+    }
+
+    /// <inheritdoc />
+    public async Task<StoredAttachment> BeginUploadAsync(
+        Guid chatRoomId,
+        Guid uploadedBy,
+        string fileName,
+        string contentType,
+        long size,
+        int? width,
+        int? height,
+        CancellationToken cancellationToken = default)
+    {
+        await SweepExpiredUploadsAsync(cancellationToken);
+
+        var attachment = new StoredAttachment(
+            Guid.NewGuid(),
+            chatRoomId,
+            uploadedBy,
+            fileName,
+            contentType,
+            size,
+            width,
+            height,
+            ReceivedBytes: 0,
+            IsComplete: false,
+            CreatedAt: DateTime.UtcNow);
+
+        await File.WriteAllBytesAsync(DataPath(attachment.Id), Array.Empty<byte>(), cancellationToken);
+        await WriteManifestAsync(attachment, cancellationToken);
+
+        _logger.LogInformation(
+            "Started upload {AttachmentId} of {Size} bytes to chat room {ChatRoomId}",
+            attachment.Id, size, chatRoomId);
+
+        return attachment;
+    }
+
+    /// <inheritdoc />
+    public async Task<StoredAttachment?> GetAsync(Guid attachmentId, CancellationToken cancellationToken = default)
+    {
+        var manifestPath = ManifestPath(attachmentId);
+
+        if (!File.Exists(manifestPath))
+        {
+            return null;
+        }
+
+        await using var stream = File.OpenRead(manifestPath);
+        return await JsonSerializer.DeserializeAsync<StoredAttachment>(stream, JsonOptions, cancellationToken);
+    }
+
+    /// <inheritdoc />
+    public async Task<StoredAttachment> AppendChunkAsync(
+        Guid attachmentId,
+        long offset,
+        Stream content,
+        CancellationToken cancellationToken = default)
+    {
+        await _writeLock.WaitAsync(cancellationToken);
+
+        try
+        {
+            var attachment = await GetAsync(attachmentId, cancellationToken)
+                ?? throw new InvalidOperationException("Upload not found");
+
+            if (attachment.IsComplete)
+            {
+                throw new InvalidOperationException("Upload is already complete");
+            }
+
+            if (IsExpired(attachment))
+            {
+                throw new InvalidOperationException("Upload has expired");
+            }
+
+            if (offset != attachment.ReceivedBytes)
+            {
+                throw new InvalidOperationException($"Expected a chunk at offset {attachment.ReceivedBytes}");
+            }
+
+            long received;
+
+            await using (var data = new FileStream(DataPath(attachmentId), FileMode.Append, FileAccess.Write))
+            {
+                await content.CopyToAsync(data, cancellationToken);
+                received = data.Length;
+            }
+
+            if (received > attachment.Size)
+            {
+                // Roll back the chunk so the upload can continue from a valid offset
+                await using (var data = new FileStream(DataPath(attachmentId), FileMode.Open, FileAccess.Write))
+                {
+                    data.SetLength(attachment.ReceivedBytes);
+                }
+
+                throw new InvalidOperationException("Upload is larger than declared");
+            }
+
+            var updated = attachment with { ReceivedBytes = received };
+            await WriteManifestAsync(updated, cancellationToken);
+            return updated;
+        }
+        finally
+        {
+            _writeLock.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<StoredAttachment> CompleteUploadAsync(Guid attachmentId, CancellationToken cancellationToken = default)
+    {
+        await _writeLock.WaitAsync(cancellationToken);
+
+        try
+        {
+            var attachment = await GetAsync(attachmentId, cancellationToken)
+                ?? throw new InvalidOperationException("Upload not found");
+
+            if (attachment.MessageId.HasValue)
+            {
+                throw new InvalidOperationException("Attachment has already been sent");
+            }
+
+            if (IsExpired(attachment))
+            {
+                throw new InvalidOperationException("Upload has expired");
+            }
+
+            if (attachment.ReceivedBytes != attachment.Size)
+            {
+                throw new InvalidOperationException(
+                    $"Upload is incomplete: received {attachment.ReceivedBytes} of {attachment.Size} bytes");
+            }
+
+            var completed = attachment with { IsComplete = true };
+            await WriteManifestAsync(completed, cancellationToken);
+
+            _logger.LogInformation("Completed upload {AttachmentId}", attachmentId);
+
+            return completed;
+        }
+        finally
+        {
+            _writeLock.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<StoredAttachment> AttachToMessageAsync(
+        Guid attachmentId,
+        Guid messageId,
+        CancellationToken cancellationToken = default)
+    {
+        await _writeLock.WaitAsync(cancellationToken);
+
+        try
+        {
+            var attachment = await GetAsync(attachmentId, cancellationToken);
+
+            if (attachment == null || !attachment.IsComplete || IsExpired(attachment))
+            {
+                throw new InvalidOperationException("Attachment not found");
+            }
+
+            if (attachment.MessageId.HasValue)
+            {
+                throw new InvalidOperationException("Attachment has already been sent");
+            }
+
+            var sent = attachment with { MessageId = messageId };
+            await WriteManifestAsync(sent, cancellationToken);
+            return sent;
+        }
+        finally
+        {
+            _writeLock.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<Stream?> OpenReadAsync(Guid attachmentId, CancellationToken cancellationToken = default)
+    {
+        var attachment = await GetAsync(attachmentId, cancellationToken);
+
+        if (attachment == null || !attachment.IsComplete)
+        {
+            return null;
+        }
+
+        return new FileStream(DataPath(attachmentId), FileMode.Open, FileAccess.Read, FileShare.Read, 81920, useAsync: true);
+    }
+
+    /// <inheritdoc />
+    public Task DeleteAsync(Guid attachmentId, CancellationToken cancellationToken = default)
+    {
+        File.Delete(DataPath(attachmentId));
+        File.Delete(ManifestPath(attachmentId));
+
+        _logger.LogInformation("Deleted attachment {AttachmentId}", attachmentId);
+
+        return Task.CompletedTask;
+    }
+
+    /// <summary>
+    /// Deletes uploads that were not sent within the upload lifetime.
+    /// </summary>
+    private async Task SweepExpiredUploadsAsync(CancellationToken cancellationToken)
+    {
+        if (DateTime.UtcNow - _lastSweepAt < SweepInterval)
+        {
+            return;
+        }
+
+        await _writeLock.WaitAsync(cancellationToken);
+
+        try
+        {
+            // Another upload may have swept while this one waited for the lock
+            if (DateTime.UtcNow - _lastSweepAt < SweepInterval)
+            {
+                return;
+            }
+
+            _lastSweepAt = DateTime.UtcNow;
+
+            foreach (var manifestPath in Directory.EnumerateFiles(_rootPath, "*.json"))
+            {
+                if (!Guid.TryParseExact(Path.GetFileNameWithoutExtension(manifestPath), "N", out var attachmentId))
+                {
+                    continue;
+                }
+
+                var attachment = await GetAsync(attachmentId, cancellationToken);
+
+                if (attachment != null && IsExpired(attachment))
+                {
+                    await DeleteAsync(attachmentId, cancellationToken);
+                }
+            }
+        }
+        catch (IOException ex)
+        {
+            // Best effort: the next sweep tries again
+            _logger.LogWarning(ex, "Failed to sweep expired uploads");
+        }
+        finally
+        {
+            _writeLock.Release();
+        }
+    }
+
+    private bool IsExpired(StoredAttachment attachment) =>
+        !attachment.MessageId.HasValue && attachment.CreatedAt + _uploadLifetime < DateTime.UtcNow;
+
+    /// <summary>
+    /// Replaces the manifest in one step, so readers that do not take the lock never see it half written.
+    /// </summary>
+    private async Task WriteManifestAsync(StoredAttachment attachment, CancellationToken cancellationToken)
+    {
+        var manifestPath = ManifestPath(attachment.Id);
+        var tempPath = manifestPath + ".tmp";
+
+        await using (var stream = File.Create(tempPath))
+        {
+            await JsonSerializer.SerializeAsync(stream, attachment, JsonOptions, cancellationToken);
+        }
+
+        File.Move(tempPath, manifestPath, overwrite: true);
+    }
+
+    private string DataPath(Guid attachmentId) => Path.Combine(_rootPath, $"{attachmentId:N}.bin");
+
+    private string ManifestPath(Guid attachmentId) => Path.Combine(_rootPath, $"{attachmentId:N}.json");
+}
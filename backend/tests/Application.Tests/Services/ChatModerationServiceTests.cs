@@ -0,0 +1,207 @@
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+using OnlineCommunities.Application.Services.Community;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Interfaces;
+
+namespace OnlineCommunities.Application.Tests.Services;
+
+public class ChatModerationServiceTests
+{
+    private readonly Mock<IChatRoomRepository> _chatRoomRepositoryMock;
+    private readonly Mock<ITenantMembershipRepository> _membershipRepositoryMock;
+    private readonly Mock<IModerationActionRepository> _moderationActionRepositoryMock;
+    private readonly Mock<ILogger<ChatModerationService>> _loggerMock;
+    private readonly ChatModerationService _service;
+
+    public ChatModerationServiceTests()
+    {
+        _chatRoomRepositoryMock = new Mock<IChatRoomRepository>();
+        _membershipRepositoryMock = new Mock<ITenantMembershipRepository>();
+        _moderationActionRepositoryMock = new Mock<IModerationActionRepository>();
+        _loggerMock = new Mock<ILogger<ChatModerationService>>();
+        _service = new ChatModerationService(
+            _chatRoomRepositoryMock.Object,
+            _membershipRepositoryMock.Object,
+            _moderationActionRepositoryMock.Object,
+            _loggerMock.Object);
+    }
+
+    [Theory]
+    [InlineData("admin", "moderator", true)]
+    [InlineData("admin", "member", true)]
+    [InlineData("moderator", "member", true)]
+    [InlineData("moderator", null, true)]
+    [InlineData("admin", "admin", false)]
+    [InlineData("moderator", "moderator", false)]
+    [InlineData("moderator", "admin", false)]
+    [InlineData("member", "member", false)]
+    public async Task CanModerateMemberAsync_AllowsOnlyLowerRoles_WhenNotTenantStaff(
+        string moderatorRole, string? targetRole, bool expected)
+    {
+        // Arrange
+        var moderatorId = Guid.NewGuid();
+        var targetId = Guid.NewGuid();
+        var room = CreateTestRoom(Guid.NewGuid(), (moderatorId, moderatorRole), (targetId, targetRole));
+
+        _membershipRepositoryMock.Setup(x => x.GetByUserAndTenantAsync(moderatorId, room.TenantId!.Value))
+            .ReturnsAsync(CreateTestMembership(moderatorId, room.TenantId!.Value, "Member"));
+
+        // Act
+        var result = await _service.CanModerateMemberAsync(room, moderatorId, targetId);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData("Admin", true)]
+    [InlineData("Moderator", true)]
+    [InlineData("Member", false)]
+    public async Task CanModerateMemberAsync_LetsTenantStaffModerateRoomAdmins(string tenantRole, bool expected)
+    {
+        // Arrange
+        var moderatorId = Guid.NewGuid();
+        var targetId = Guid.NewGuid();
+        var tenantId = Guid.NewGuid();
+        var room = CreateTestRoom(tenantId, (targetId, "admin"));
+
+        _membershipRepositoryMock.Setup(x => x.GetByUserAndTenantAsync(moderatorId, tenantId))
+            .ReturnsAsync(CreateTestMembership(moderatorId, tenantId, tenantRole));
+
+        // Act
+        var result = await _service.CanModerateMemberAsync(room, moderatorId, targetId);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Fact]
+    public async Task CanModerateMemberAsync_ReturnsFalse_ForEqualRolesInRoomWithoutTenant()
+    {
+        // Arrange
+        var moderatorId = Guid.NewGuid();
+        var targetId = Guid.NewGuid();
+        var room = CreateTestRoom(null, (moderatorId, "moderator"), (targetId, "moderator"));
+
+        // Act
+        var result = await _service.CanModerateMemberAsync(room, moderatorId, targetId);
+
+        // Assert
+        result.Should().BeFalse();
+        _membershipRepositoryMock.Verify(
+            x => x.GetByUserAndTenantAsync(It.IsAny<Guid>(), It.IsAny<Guid>()), Times.Never);
+    }
+
+    [Theory]
+    [InlineData("admin", true)]
+    [InlineData("moderator", true)]
+    [InlineData("member", false)]
+    public async Task CanModerateAsync_AllowsRoomAdminsAndModerators(string role, bool expected)
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var room = CreateTestRoom(null, (userId, role));
+
+        _chatRoomRepositoryMock.Setup(x => x.GetMemberAsync(room.Id, userId))
+            .ReturnsAsync(room.Members.Single());
+
+        // Act
+        var result = await _service.CanModerateAsync(room, userId);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Fact]
+    public async Task CanModerateAsync_ReturnsTrue_ForTenantMemberWithManageMembersPermission()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var tenantId = Guid.NewGuid();
+        var room = CreateTestRoom(tenantId);
+        var membership = CreateTestMembership(userId, tenantId, "Member");
+        membership.AdditionalPermissions = $"[\"{TenantPermissions.ManageMembers}\"]";
+
+        _chatRoomRepositoryMock.Setup(x => x.GetMemberAsync(room.Id, userId))
+            .ReturnsAsync((ChatRoomMember?)null);
+        _membershipRepositoryMock.Setup(x => x.GetByUserAndTenantAsync(userId, tenantId))
+            .ReturnsAsync(membership);
+
+        // Act
+        var result = await _service.CanModerateAsync(room, userId);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task HasTenantPermissionAsync_ReturnsFalse_WithoutTenant()
+    {
+        // Act
+        var result = await _service.HasTenantPermissionAsync(Guid.NewGuid(), null, TenantPermissions.ManageMembers);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task HasTenantPermissionAsync_ReturnsFalse_WhenMembershipInactive()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var tenantId = Guid.NewGuid();
+        var membership = CreateTestMembership(userId, tenantId, "Admin");
+        membership.IsActive = false;
+
+        _membershipRepositoryMock.Setup(x => x.GetByUserAndTenantAsync(userId, tenantId))
+            .ReturnsAsync(membership);
+
+        // Act
+        var result = await _service.HasTenantPermissionAsync(userId, tenantId, TenantPermissions.ManageMembers);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    // A null role leaves the user out of the room
+    private static ChatRoom CreateTestRoom(Guid? tenantId, params (Guid UserId, string? Role)[] members)
+    {
+        var room = new ChatRoom
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Room",
+            TenantId = tenantId,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        foreach (var (userId, role) in members.Where(m => m.Role != null))
+        {
+            room.Members.Add(new ChatRoomMember
+            {
+                Id = Guid.NewGuid(),
+                ChatRoomId = room.Id,
+                UserId = userId,
+                Role = role!
+            });
+        }
+
+        return room;
+    }
+
+    private static TenantMembership CreateTestMembership(Guid userId, Guid tenantId, string roleName)
+    {
+        return new TenantMembership
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            TenantId = tenantId,
+            RoleName = roleName,
+            JoinedAt = DateTime.UtcNow,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+}
@@ -0,0 +1,127 @@
+using FluentAssertions;
+using OnlineCommunities.Core.Entities.Identity;
+
+namespace OnlineCommunities.Core.Tests.Entities;
+
+public class TenantPermissionsTests
+{
+    [Theory]
+    [InlineData("Admin", TenantPermissions.CreateRooms, true)]
+    [InlineData("Admin", TenantPermissions.ManageRooms, true)]
+    [InlineData("Admin", TenantPermissions.ManageMembers, true)]
+    [InlineData("Admin", TenantPermissions.DeleteAnyMessage, true)]
+    [InlineData("Moderator", TenantPermissions.CreateRooms, true)]
+    [InlineData("Moderator", TenantPermissions.ManageRooms, false)]
+    [InlineData("Moderator", TenantPermissions.ManageMembers, true)]
+    [InlineData("Moderator", TenantPermissions.DeleteAnyMessage, true)]
+    [InlineData("Member", TenantPermissions.CreateRooms, false)]
+    [InlineData("Member", TenantPermissions.ManageRooms, false)]
+    [InlineData("Member", TenantPermissions.ManageMembers, false)]
+    [InlineData("Member", TenantPermissions.DeleteAnyMessage, false)]
+    [InlineData("Guest", TenantPermissions.CreateRooms, false)]
+    [InlineData("Guest", TenantPermissions.ManageMembers, false)]
+    public void Has_FollowsRoleMatrix(string roleName, string permission, bool expected)
+    {
+        // Arrange
+        var membership = CreateTestMembership(roleName);
+
+        // Act
+        var result = TenantPermissions.Has(membership, permission);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData("admin")]
+    [InlineData("ADMIN")]
+    public void Has_MatchesRoleNames_IgnoringCase(string roleName)
+    {
+        // Arrange
+        var membership = CreateTestMembership(roleName);
+
+        // Act
+        var result = TenantPermissions.Has(membership, TenantPermissions.ManageRooms);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    [Fact]
+    public void For_AddsAdditionalPermissions_ToRolePermissions()
+    {
+        // Arrange
+        var membership = CreateTestMembership("Member");
+        membership.AdditionalPermissions = $"[\"{TenantPermissions.ManageRooms}\"]";
+
+        // Act
+        var result = TenantPermissions.For(membership);
+
+        // Assert
+        result.Should().BeEquivalentTo(new[] { TenantPermissions.ManageRooms });
+    }
+
+    [Fact]
+    public void For_ReturnsNoPermissions_WhenMembershipInactive()
+    {
+        // Arrange
+        var membership = CreateTestMembership("Admin");
+        membership.AdditionalPermissions = $"[\"{TenantPermissions.ManageRooms}\"]";
+        membership.IsActive = false;
+
+        // Act
+        var result = TenantPermissions.For(membership);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void For_ReturnsNoPermissions_WhenMembershipMissing()
+    {
+        // Act
+        var result = TenantPermissions.For(null);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("not json")]
+    [InlineData("{\"permission\":\"rooms.manage\"}")]
+    [InlineData("[\"rooms.delete\"]")]
+    public void ParseAdditional_IgnoresMalformedValuesAndUnknownPermissions(string? additionalPermissions)
+    {
+        // Act
+        var result = TenantPermissions.ParseAdditional(additionalPermissions);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void ParseAdditional_KeepsKnownPermissionsOnce()
+    {
+        // Act
+        var result = TenantPermissions.ParseAdditional(
+            $"[\"{TenantPermissions.CreateRooms}\", \"rooms.delete\", \"{TenantPermissions.CreateRooms}\"]");
+
+        // Assert
+        result.Should().Equal(TenantPermissions.CreateRooms);
+    }
+
+    private static TenantMembership CreateTestMembership(string roleName)
+    {
+        return new TenantMembership
+        {
+            Id = Guid.NewGuid(),
+            UserId = Guid.NewGuid(),
+            TenantId = Guid.NewGuid(),
+            RoleName = roleName,
+            JoinedAt = DateTime.UtcNow,
+            IsActive = true
+        };
+    }
+}
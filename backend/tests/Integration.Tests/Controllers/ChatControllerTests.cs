@@ -0,0 +1,206 @@
+using FluentAssertions;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.Logging;
+using Moq;
+using OnlineCommunities.Api.Controllers;
+using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Application.Interfaces;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Interfaces;
+using System.Security.Claims;
+
+namespace OnlineCommunities.Integration.Tests.Controllers;
+
+/// <summary>
+/// Who may see and join rooms, with the repositories mocked.
+/// </summary>
+public class ChatControllerTests
+{
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Mock<IChatRoomRepository> _chatRoomRepositoryMock = new();
+    private readonly Mock<IChatRoomBanRepository> _banRepositoryMock = new();
+    private readonly Mock<IChatModerationService> _moderationServiceMock = new();
+    private readonly Mock<IUserRepository> _userRepositoryMock = new();
+    private readonly Mock<ITenantRepository> _tenantRepositoryMock = new();
+    private readonly ChatController _controller;
+
+    public ChatControllerTests()
+    {
+        _controller = new ChatController(
+            _chatRoomRepositoryMock.Object,
+            Mock.Of<IChatMessageRepository>(),
+            Mock.Of<IChatRoomInvitationRepository>(),
+            _banRepositoryMock.Object,
+            Mock.Of<IMessageReportRepository>(),
+            _moderationServiceMock.Object,
+            _userRepositoryMock.Object,
+            _tenantRepositoryMock.Object,
+            Mock.Of<IAttachmentStorage>(),
+            Mock.Of<IPresenceTracker>(),
+            Mock.Of<IHubContext<ChatHub>>(),
+            Mock.Of<ILogger<ChatController>>())
+        {
+            ControllerContext = new ControllerContext
+            {
+                HttpContext = new DefaultHttpContext
+                {
+                    User = new ClaimsPrincipal(new ClaimsIdentity(new[] { new Claim("sub", _userId.ToString()) }, "TestAuth"))
+                }
+            }
+        };
+
+        _tenantRepositoryMock.Setup(x => x.GetNamesAsync(It.IsAny<IEnumerable<Guid>>()))
+            .ReturnsAsync(new Dictionary<Guid, string>());
+    }
+
+    [Fact]
+    public async Task GetPublicRooms_ListsRoomsVisibleToUser_WithoutTenant()
+    {
+        // Arrange
+        _chatRoomRepositoryMock.Setup(x => x.GetPublicChatRoomsAsync(_userId, null))
+            .ReturnsAsync(new[] { CreateTestRoom(null) });
+
+        // Act
+        var result = await _controller.GetPublicRooms();
+
+        // Assert
+        result.Should().BeOfType<OkObjectResult>();
+        _chatRoomRepositoryMock.Verify(x => x.GetPublicChatRoomsAsync(_userId, null), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetPublicRooms_ReturnsForbid_ForTenantUserIsNotMemberOf()
+    {
+        // Arrange
+        var tenantId = Guid.NewGuid();
+
+        _userRepositoryMock.Setup(x => x.IsMemberOfTenantAsync(_userId, tenantId))
+            .ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.GetPublicRooms(tenantId);
+
+        // Assert
+        result.Should().BeOfType<ForbidResult>();
+        _chatRoomRepositoryMock.Verify(
+            x => x.GetPublicChatRoomsAsync(It.IsAny<Guid>(), It.IsAny<Guid?>()), Times.Never);
+    }
+
+    [Theory]
+    [InlineData(true, true)]
+    [InlineData(false, false)]
+    public async Task GetRoom_ShowsPublicTenantRoom_OnlyToTenantMembers(bool isTenantMember, bool expectedVisible)
+    {
+        // Arrange
+        var room = CreateTestRoom(Guid.NewGuid());
+
+        SetUpRoom(room, isMember: false);
+        _userRepositoryMock.Setup(x => x.IsMemberOfTenantAsync(_userId, room.TenantId!.Value))
+            .ReturnsAsync(isTenantMember);
+
+        // Act
+        var result = await _controller.GetRoom(room.Id);
+
+        // Assert
+        if (expectedVisible)
+        {
+            result.Should().BeOfType<OkObjectResult>();
+        }
+        else
+        {
+            result.Should().BeOfType<ForbidResult>();
+        }
+    }
+
+    [Fact]
+    public async Task GetRoom_ShowsPrivateRoom_ToTenantStaffOutsideIt()
+    {
+        // Arrange
+        var room = CreateTestRoom(Guid.NewGuid(), isPublic: false);
+
+        SetUpRoom(room, isMember: false);
+        _moderationServiceMock.Setup(x => x.HasTenantPermissionAsync(_userId, room.TenantId, TenantPermissions.ManageMembers))
+            .ReturnsAsync(true);
+
+        // Act
+        var result = await _controller.GetRoom(room.Id);
+
+        // Assert
+        result.Should().BeOfType<OkObjectResult>();
+    }
+
+    [Fact]
+    public async Task GetRoom_ReturnsForbid_ForPrivateRoomOfNonMember()
+    {
+        // Arrange
+        var room = CreateTestRoom(null, isPublic: false);
+
+        SetUpRoom(room, isMember: false);
+
+        // Act
+        var result = await _controller.GetRoom(room.Id);
+
+        // Assert
+        result.Should().BeOfType<ForbidResult>();
+    }
+
+    [Fact]
+    public async Task JoinRoom_ReturnsForbid_ForNonTenantMember()
+    {
+        // Arrange
+        var room = CreateTestRoom(Guid.NewGuid());
+
+        SetUpRoom(room, isMember: false);
+        _userRepositoryMock.Setup(x => x.IsMemberOfTenantAsync(_userId, room.TenantId!.Value))
+            .ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.JoinRoom(room.Id);
+
+        // Assert
+        result.Should().BeOfType<ForbidResult>();
+        _chatRoomRepositoryMock.Verify(
+            x => x.AddMemberAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task JoinRoom_ReturnsBadRequest_WhenUserIsBanned()
+    {
+        // Arrange
+        var room = CreateTestRoom(null);
+
+        SetUpRoom(room, isMember: false);
+        _banRepositoryMock.Setup(x => x.IsBannedAsync(room.Id, _userId))
+            .ReturnsAsync(true);
+
+        // Act
+        var result = await _controller.JoinRoom(room.Id);
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _chatRoomRepositoryMock.Verify(
+            x => x.AddMemberAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>()), Times.Never);
+    }
+
+    private void SetUpRoom(ChatRoom room, bool isMember)
+    {
+        _chatRoomRepositoryMock.Setup(x => x.GetByIdAsync(room.Id)).ReturnsAsync(room);
+        _chatRoomRepositoryMock.Setup(x => x.GetChatRoomWithMembersAsync(room.Id)).ReturnsAsync(room);
+        _chatRoomRepositoryMock.Setup(x => x.IsUserMemberAsync(room.Id, _userId)).ReturnsAsync(isMember);
+    }
+
+    private static ChatRoom CreateTestRoom(Guid? tenantId, bool isPublic = true)
+    {
+        return new ChatRoom
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Room",
+            TenantId = tenantId,
+            IsPublic = isPublic,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+}
@@ -0,0 +1,189 @@
+using FluentAssertions;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.Logging;
+using Moq;
+using OnlineCommunities.Api.Controllers;
+using OnlineCommunities.Api.Hubs;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Interfaces;
+using System.Security.Claims;
+
+namespace OnlineCommunities.Integration.Tests.Controllers;
+
+/// <summary>
+/// Who may start or reopen a direct conversation, with the repositories mocked.
+/// </summary>
+public class DirectMessagesControllerTests
+{
+    private readonly Guid _userId = Guid.NewGuid();
+    private readonly Guid _otherUserId = Guid.NewGuid();
+    private readonly Mock<IChatRoomRepository> _chatRoomRepositoryMock = new();
+    private readonly Mock<IChatRoomBanRepository> _banRepositoryMock = new();
+    private readonly Mock<IUserRepository> _userRepositoryMock = new();
+    private readonly DirectMessagesController _controller;
+
+    public DirectMessagesControllerTests()
+    {
+        var hubClientsMock = new Mock<IHubClients>();
+        hubClientsMock.Setup(x => x.Groups(It.IsAny<IReadOnlyList<string>>()))
+            .Returns(Mock.Of<IClientProxy>());
+
+        var hubContextMock = new Mock<IHubContext<ChatHub>>();
+        hubContextMock.Setup(x => x.Clients).Returns(hubClientsMock.Object);
+
+        _controller = new DirectMessagesController(
+            _chatRoomRepositoryMock.Object,
+            _banRepositoryMock.Object,
+            _userRepositoryMock.Object,
+            hubContextMock.Object,
+            Mock.Of<ILogger<DirectMessagesController>>())
+        {
+            ControllerContext = new ControllerContext
+            {
+                HttpContext = new DefaultHttpContext
+                {
+                    User = new ClaimsPrincipal(new ClaimsIdentity(new[] { new Claim("sub", _userId.ToString()) }, "TestAuth"))
+                }
+            }
+        };
+
+        foreach (var id in new[] { _userId, _otherUserId })
+        {
+            _userRepositoryMock.Setup(x => x.GetByIdAsync(id))
+                .ReturnsAsync(new User { Id = id, Email = $"{id}@example.com" });
+        }
+
+        _chatRoomRepositoryMock.Setup(x => x.SharesChatRoomAsync(_userId, _otherUserId))
+            .ReturnsAsync(true);
+        _chatRoomRepositoryMock.Setup(x => x.AddAsync(It.IsAny<ChatRoom>()))
+            .ReturnsAsync((ChatRoom room) => room);
+    }
+
+    [Fact]
+    public async Task StartDirectMessage_ReturnsBadRequest_WhenParticipantIsNotTenantMember()
+    {
+        // Arrange
+        var tenantId = Guid.NewGuid();
+
+        _userRepositoryMock.Setup(x => x.IsMemberOfTenantAsync(_userId, tenantId)).ReturnsAsync(true);
+        _userRepositoryMock.Setup(x => x.IsMemberOfTenantAsync(_otherUserId, tenantId)).ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.StartDirectMessage(CreateRequest(tenantId));
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _chatRoomRepositoryMock.Verify(x => x.AddAsync(It.IsAny<ChatRoom>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task StartDirectMessage_ReturnsBadRequest_WithoutTenantWhenNoRoomIsShared()
+    {
+        // Arrange
+        _chatRoomRepositoryMock.Setup(x => x.SharesChatRoomAsync(_userId, _otherUserId))
+            .ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.StartDirectMessage(CreateRequest(null));
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _chatRoomRepositoryMock.Verify(x => x.AddAsync(It.IsAny<ChatRoom>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task StartDirectMessage_ReturnsBadRequest_WhenCallerIsBannedFromConversation()
+    {
+        // Arrange
+        var room = CreateDirectRoom();
+
+        _chatRoomRepositoryMock.Setup(x => x.GetDirectChatRoomAsync(room.DirectKey!, null))
+            .ReturnsAsync(room);
+        _banRepositoryMock.Setup(x => x.IsBannedAsync(room.Id, _userId))
+            .ReturnsAsync(true);
+
+        // Act
+        var result = await _controller.StartDirectMessage(CreateRequest(null));
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _chatRoomRepositoryMock.Verify(
+            x => x.AddMemberAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task StartDirectMessage_RejoinsCaller_WhenNotBanned()
+    {
+        // Arrange
+        var room = CreateDirectRoom();
+
+        _chatRoomRepositoryMock.Setup(x => x.GetDirectChatRoomAsync(room.DirectKey!, null))
+            .ReturnsAsync(room);
+
+        // Act
+        var result = await _controller.StartDirectMessage(CreateRequest(null));
+
+        // Assert
+        result.Should().BeOfType<OkObjectResult>();
+        _chatRoomRepositoryMock.Verify(x => x.AddMemberAsync(room.Id, _userId, "member"), Times.Once);
+        _chatRoomRepositoryMock.Verify(x => x.AddAsync(It.IsAny<ChatRoom>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task StartDirectMessage_StartsNewConversation_WhenExistingOneIsArchived()
+    {
+        // Arrange
+        var archived = CreateDirectRoom();
+        archived.IsActive = false;
+        var directKey = archived.DirectKey!;
+
+        _chatRoomRepositoryMock.Setup(x => x.GetDirectChatRoomAsync(directKey, null))
+            .ReturnsAsync(archived);
+
+        // Act
+        var result = await _controller.StartDirectMessage(CreateRequest(null));
+
+        // Assert
+        result.Should().BeOfType<OkObjectResult>();
+        archived.DirectKey.Should().BeNull();
+        _chatRoomRepositoryMock.Verify(x => x.UpdateAsync(archived), Times.Once);
+        _chatRoomRepositoryMock.Verify(
+            x => x.AddAsync(It.Is<ChatRoom>(r => r.Id != archived.Id && r.DirectKey == directKey)), Times.Once);
+        _chatRoomRepositoryMock.Verify(x => x.AddMemberAsync(archived.Id, It.IsAny<Guid>(), It.IsAny<string>()), Times.Never);
+    }
+
+    private StartDirectMessageRequest CreateRequest(Guid? tenantId)
+    {
+        return new StartDirectMessageRequest
+        {
+            UserIds = new List<Guid> { _otherUserId },
+            TenantId = tenantId
+        };
+    }
+
+    // The conversation between the two users, which the caller has left
+    private ChatRoom CreateDirectRoom()
+    {
+        var room = new ChatRoom
+        {
+            Id = Guid.NewGuid(),
+            Name = "Direct message",
+            IsPublic = false,
+            IsDirect = true,
+            DirectKey = string.Join(",", new[] { _userId, _otherUserId }.OrderBy(id => id)),
+            CreatedAt = DateTime.UtcNow
+        };
+
+        room.Members.Add(new ChatRoomMember
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = room.Id,
+            UserId = _otherUserId
+        });
+
+        return room;
+    }
+}
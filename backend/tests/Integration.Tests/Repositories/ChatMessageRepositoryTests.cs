@@ -0,0 +1,195 @@
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Api.Extensions;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Enums;
+using OnlineCommunities.Infrastructure.Data;
+using OnlineCommunities.Infrastructure.Repositories;
+
+namespace OnlineCommunities.Integration.Tests.Repositories;
+
+public class ChatMessageRepositoryTests : IDisposable
+{
+    // The longest message the chat hub accepts
+    private const int MaxMessageLength = 4000;
+
+    private readonly ApplicationDbContext _context;
+    private readonly ChatMessageRepository _repository;
+
+    public ChatMessageRepositoryTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(databaseName: Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _repository = new ChatMessageRepository(_context);
+    }
+
+    public void Dispose()
+    {
+        _context.Database.EnsureDeleted();
+        _context.Dispose();
+    }
+
+    [Fact]
+    public void Metadata_HasNoMaxLength()
+    {
+        // Arrange
+        var entityType = _context.Model.FindEntityType(typeof(ChatMessage))!;
+
+        // Act
+        var maxLength = entityType.FindProperty(nameof(ChatMessage.Metadata))!.GetMaxLength();
+
+        // Assert
+        maxLength.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task EditAsync_KeepsFullEditHistory_WhenMessageIsAtLengthLimit()
+    {
+        // Arrange
+        var message = await CreateTestMessageAsync(new string('a', MaxMessageLength));
+
+        // Act
+        foreach (var content in new[] { new string('b', MaxMessageLength), new string('c', MaxMessageLength) })
+        {
+            await _repository.EditAsync(message, m =>
+            {
+                m.RecordEdit(DateTime.UtcNow);
+                m.Content = content;
+                return true;
+            });
+        }
+
+        // Assert
+        _context.ChangeTracker.Clear();
+        var saved = await _repository.GetByIdAsync(message.Id);
+
+        saved!.Content.Should().Be(new string('c', MaxMessageLength));
+        saved.IsEdited.Should().BeTrue();
+        saved.GetEditHistory().Select(e => e.Content).Should().Equal(
+            new string('a', MaxMessageLength),
+            new string('b', MaxMessageLength));
+    }
+
+    [Fact]
+    public async Task UpdateMetadataAsync_KeepsEveryReaction_WhenManyUsersReact()
+    {
+        // Arrange
+        var message = await CreateTestMessageAsync("Hello");
+        var emojis = Enumerable.Range(0, 20).Select(i => char.ConvertFromUtf32(0x1F600 + i)).ToList();
+        var userIds = Enumerable.Range(0, 50).Select(_ => Guid.NewGuid()).ToList();
+
+        // Act
+        foreach (var emoji in emojis)
+        {
+            await _repository.UpdateMetadataAsync(message, m =>
+            {
+                userIds.ForEach(userId => m.AddReaction(emoji, userId));
+                return true;
+            });
+        }
+
+        // Assert
+        _context.ChangeTracker.Clear();
+        var saved = await _repository.GetByIdAsync(message.Id);
+        var reactions = saved!.GetReactions();
+
+        saved.Metadata!.Length.Should().BeGreaterThan(MaxMessageLength);
+        reactions.Keys.Should().BeEquivalentTo(emojis);
+        reactions.Values.Should().AllSatisfy(reacted => reacted.Should().Equal(userIds));
+    }
+
+    [Fact]
+    public async Task CountNewerMessagesAsync_CountsNewerTopLevelMessages_ForEachMessage()
+    {
+        // Arrange
+        var user = CreateTestUser();
+        var room = CreateTestRoom();
+        var otherRoom = CreateTestRoom();
+        var start = DateTime.UtcNow.AddHours(-1);
+
+        var oldest = CreateTestMessage(room.Id, user.Id, "First", start);
+        var middle = CreateTestMessage(room.Id, user.Id, "Second", start.AddMinutes(1));
+        var newest = CreateTestMessage(room.Id, user.Id, "Third", start.AddMinutes(2));
+        var reply = CreateTestMessage(room.Id, user.Id, "Reply", start.AddMinutes(3), oldest.Id);
+        var elsewhere = CreateTestMessage(otherRoom.Id, user.Id, "Elsewhere", start.AddMinutes(4));
+
+        _context.Users.Add(user);
+        _context.ChatRooms.AddRange(room, otherRoom);
+        _context.ChatMessages.AddRange(oldest, middle, newest, reply, elsewhere);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _repository.CountNewerMessagesAsync(
+            room.Id,
+            new[] { oldest.Id, middle.Id, newest.Id, reply.Id, elsewhere.Id });
+
+        // Assert
+        result.Should().BeEquivalentTo(new Dictionary<Guid, int>
+        {
+            [oldest.Id] = 2,
+            [middle.Id] = 1,
+            [newest.Id] = 0
+        });
+    }
+
+    private async Task<ChatMessage> CreateTestMessageAsync(string content)
+    {
+        var user = CreateTestUser();
+        var room = CreateTestRoom();
+        var message = CreateTestMessage(room.Id, user.Id, content, DateTime.UtcNow);
+
+        _context.Users.Add(user);
+        _context.ChatRooms.Add(room);
+        _context.ChatMessages.Add(message);
+        await _context.SaveChangesAsync();
+
+        return message;
+    }
+
+    private static User CreateTestUser()
+    {
+        return new User
+        {
+            Id = Guid.NewGuid(),
+            Email = "test@example.com",
+            FirstName = "Test",
+            LastName = "User",
+            AuthMethod = AuthenticationMethod.EntraExternalId,
+            EmailVerified = true,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    private static ChatRoom CreateTestRoom()
+    {
+        return new ChatRoom
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Room",
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    private static ChatMessage CreateTestMessage(
+        Guid chatRoomId,
+        Guid userId,
+        string content,
+        DateTime createdAt,
+        Guid? parentMessageId = null)
+    {
+        return new ChatMessage
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = chatRoomId,
+            UserId = userId,
+            Content = content,
+            ParentMessageId = parentMessageId,
+            CreatedAt = createdAt
+        };
+    }
+}
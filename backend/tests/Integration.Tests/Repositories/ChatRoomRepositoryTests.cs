@@ -0,0 +1,209 @@
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using OnlineCommunities.Core.Entities.Community;
+using OnlineCommunities.Core.Entities.Identity;
+using OnlineCommunities.Core.Entities.Tenants;
+using OnlineCommunities.Core.Enums;
+using OnlineCommunities.Infrastructure.Data;
+using OnlineCommunities.Infrastructure.Repositories;
+
+namespace OnlineCommunities.Integration.Tests.Repositories;
+
+public class ChatRoomRepositoryTests : IDisposable
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ChatRoomRepository _repository;
+
+    public ChatRoomRepositoryTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(databaseName: Guid.NewGuid().ToString())
+            .Options;
+
+        _context = new ApplicationDbContext(options);
+        _repository = new ChatRoomRepository(_context);
+    }
+
+    public void Dispose()
+    {
+        _context.Database.EnsureDeleted();
+        _context.Dispose();
+    }
+
+    [Fact]
+    public async Task GetPublicChatRoomsAsync_ReturnsGlobalRoomsAndRoomsOfOwnTenants_WithoutTenant()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var ownTenantId = Guid.NewGuid();
+        var otherTenantId = Guid.NewGuid();
+
+        _context.Users.Add(CreateTestUser(userId, "test@example.com"));
+        _context.Tenants.AddRange(
+            CreateTestTenant(ownTenantId, "Own Tenant", "own"),
+            CreateTestTenant(otherTenantId, "Other Tenant", "other"));
+        _context.TenantMemberships.Add(CreateTestMembership(userId, ownTenantId, "Member"));
+
+        var globalRoom = CreateTestRoom("Global", null);
+        var ownRoom = CreateTestRoom("Own", ownTenantId);
+        var otherRoom = CreateTestRoom("Other", otherTenantId);
+        var privateRoom = CreateTestRoom("Private", null, isPublic: false);
+        _context.ChatRooms.AddRange(globalRoom, ownRoom, otherRoom, privateRoom);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _repository.GetPublicChatRoomsAsync(userId);
+
+        // Assert
+        result.Select(r => r.Id).Should().BeEquivalentTo(new[] { globalRoom.Id, ownRoom.Id });
+    }
+
+    [Fact]
+    public async Task GetPublicChatRoomsAsync_ReturnsOnlyTenantRooms_WithTenant()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var tenantId = Guid.NewGuid();
+
+        _context.Users.Add(CreateTestUser(userId, "test@example.com"));
+        _context.Tenants.Add(CreateTestTenant(tenantId, "Test Tenant", "test"));
+        _context.TenantMemberships.Add(CreateTestMembership(userId, tenantId, "Member"));
+
+        var globalRoom = CreateTestRoom("Global", null);
+        var tenantRoom = CreateTestRoom("Tenant", tenantId);
+        var archivedRoom = CreateTestRoom("Archived", tenantId);
+        archivedRoom.IsActive = false;
+        _context.ChatRooms.AddRange(globalRoom, tenantRoom, archivedRoom);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _repository.GetPublicChatRoomsAsync(userId, tenantId);
+
+        // Assert
+        result.Select(r => r.Id).Should().Equal(tenantRoom.Id);
+    }
+
+    [Fact]
+    public async Task SharesChatRoomAsync_ReturnsTrue_OnlyForUsersInACommonRoom()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var roommateId = Guid.NewGuid();
+        var strangerId = Guid.NewGuid();
+
+        _context.Users.AddRange(
+            CreateTestUser(userId, "user@example.com"),
+            CreateTestUser(roommateId, "roommate@example.com"),
+            CreateTestUser(strangerId, "stranger@example.com"));
+
+        var sharedRoom = CreateTestRoom("Shared", null);
+        var otherRoom = CreateTestRoom("Other", null);
+        _context.ChatRooms.AddRange(sharedRoom, otherRoom);
+        _context.ChatRoomMembers.AddRange(
+            CreateTestMember(sharedRoom.Id, userId),
+            CreateTestMember(sharedRoom.Id, roommateId),
+            CreateTestMember(otherRoom.Id, strangerId));
+        await _context.SaveChangesAsync();
+
+        // Act
+        var sharesWithRoommate = await _repository.SharesChatRoomAsync(userId, roommateId);
+        var sharesWithStranger = await _repository.SharesChatRoomAsync(userId, strangerId);
+
+        // Assert
+        sharesWithRoommate.Should().BeTrue();
+        sharesWithStranger.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task GetDirectChatRoomAsync_MatchesKeyWithinTenant()
+    {
+        // Arrange
+        var tenantId = Guid.NewGuid();
+        _context.Tenants.Add(CreateTestTenant(tenantId, "Test Tenant", "test"));
+
+        var globalDirect = CreateTestRoom("Direct message", null, isPublic: false);
+        globalDirect.IsDirect = true;
+        globalDirect.DirectKey = "a,b";
+        var tenantDirect = CreateTestRoom("Direct message", tenantId, isPublic: false);
+        tenantDirect.IsDirect = true;
+        tenantDirect.DirectKey = "a,b";
+        _context.ChatRooms.AddRange(globalDirect, tenantDirect);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var global = await _repository.GetDirectChatRoomAsync("a,b", null);
+        var inTenant = await _repository.GetDirectChatRoomAsync("a,b", tenantId);
+        var missing = await _repository.GetDirectChatRoomAsync("a,c", tenantId);
+
+        // Assert
+        global!.Id.Should().Be(globalDirect.Id);
+        inTenant!.Id.Should().Be(tenantDirect.Id);
+        missing.Should().BeNull();
+    }
+
+    private static User CreateTestUser(Guid userId, string email)
+    {
+        return new User
+        {
+            Id = userId,
+            Email = email,
+            FirstName = "Test",
+            LastName = "User",
+            AuthMethod = AuthenticationMethod.EntraExternalId,
+            EmailVerified = true,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    private static Tenant CreateTestTenant(Guid tenantId, string name, string subdomain)
+    {
+        return new Tenant
+        {
+            Id = tenantId,
+            Name = name,
+            Subdomain = subdomain,
+            IsActive = true,
+            SubscriptionTier = "Free",
+            SubscriptionExpiresAt = DateTime.UtcNow.AddYears(1),
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    private static TenantMembership CreateTestMembership(Guid userId, Guid tenantId, string roleName)
+    {
+        return new TenantMembership
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            TenantId = tenantId,
+            RoleName = roleName,
+            JoinedAt = DateTime.UtcNow,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    private static ChatRoom CreateTestRoom(string name, Guid? tenantId, bool isPublic = true)
+    {
+        return new ChatRoom
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            TenantId = tenantId,
+            IsPublic = isPublic,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    private static ChatRoomMember CreateTestMember(Guid chatRoomId, Guid userId)
+    {
+        return new ChatRoomMember
+        {
+            Id = Guid.NewGuid(),
+            ChatRoomId = chatRoomId,
+            UserId = userId,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+}
@@ -1,76 +1,131 @@
-import React, { useState } from 'react';
-import { ChatRoom } from './components/ChatRoom';
+import React from 'react';
+import { Navigate, Route, Routes, useLocation, useMatch, useNavigate } from 'react-router-dom';
+import { useAuth } from './auth/AuthContext';
 import { ChatRoomList } from './components/ChatRoomList';
+import { LoginPage } from './components/LoginPage';
+import { LogoutPage } from './components/LogoutPage';
+import { ModerationLogPage, ReportQueuePage, RoomPage, RoomSettingsPage } from './components/RoomPage';
+import { RoomUnavailable } from './components/RoomUnavailable';
+import { TenantSwitcher } from './components/TenantSwitcher';
+import { useTenant } from './tenants/TenantContext';
 
 function App() {
-  // For demo purposes, using a mock token. In production, get this from your auth flow
-  const [token] = useState<string>('demo-token-replace-with-real-jwt');
-  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
-  const [selectedRoomName, setSelectedRoomName] = useState<string>('');
+  const { user, status, logout } = useAuth();
+  const { tenants, activeTenant, status: tenantStatus, switchTenant } = useTenant();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const roomMatch = useMatch('/rooms/:roomId/*');
+  const selectedRoomId = roomMatch?.params.roomId ?? null;
 
-  const handleSelectRoom = (roomId: string, roomName: string) => {
-    setSelectedRoomId(roomId);
-    setSelectedRoomName(roomName);
+  const handleSelectRoom = (roomId: string) => {
+    // Keep the room list's search and filters while moving between rooms
+    navigate({ pathname: `/rooms/${roomId}`, search: location.search });
   };
 
-  return (
-    <div style={styles.app}>
-      <header style={styles.header}>
-        <h1 style={styles.appTitle}>Online Communities - Real-time Chat Demo</h1>
-        <p style={styles.subtitle}>
-          Built with .NET 9, SignalR, React, and Vite
-        </p>
-      </header>
+  // Rooms belong to one community, so switching starts over from the room list
+  const handleSwitchTenant = (tenantId: string) => {
+    switchTenant(tenantId);
+    navigate('/rooms');
+  };
+
+  const handleLogout = async () => {
+    navigate('/rooms');
+    await logout();
+  };
 
-      <div style={styles.content}>
+  const welcome = (
+    <div style={styles.placeholder}>
+      <h2 style={styles.placeholderTitle}>Welcome to Real-time Chat</h2>
+      <p style={styles.placeholderText}>
+        Select a chat room from the list or create a new one to start chatting
+      </p>
+      <div style={styles.features}>
+        <div style={styles.feature}>
+          <div style={styles.featureIcon}>⚡</div>
+          <h3 style={styles.featureTitle}>Real-time Messaging</h3>
+          <p style={styles.featureDescription}>
+            Messages are instantly delivered via WebSocket/SignalR
+          </p>
+        </div>
+        <div style={styles.feature}>
+          <div style={styles.featureIcon}>👥</div>
+          <h3 style={styles.featureTitle}>Multi-user Support</h3>
+          <p style={styles.featureDescription}>
+            Multiple users can chat in the same room simultaneously
+          </p>
+        </div>
+        <div style={styles.feature}>
+          <div style={styles.featureIcon}>✏️</div>
+          <h3 style={styles.featureTitle}>Typing Indicators</h3>
+          <p style={styles.featureDescription}>
+            See when other users are typing a message
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    switch (status) {
+      case 'loading':
+        return <div style={styles.status}>Checking your session...</div>;
+      case 'unauthenticated':
+        return <LoginPage />;
+      case 'signedOut':
+        return <LogoutPage />;
+    }
+
+    if (tenantStatus === 'loading') {
+      return <div style={styles.status}>Loading your communities...</div>;
+    }
+
+    // Remounted per community so every list and hub join starts out scoped to it
+    return (
+      <div key={activeTenant?.id ?? 'global'} style={styles.content}>
         <div style={styles.sidebar}>
           <ChatRoomList 
-            token={token}
             onSelectRoom={handleSelectRoom}
             selectedRoomId={selectedRoomId}
           />
         </div>
 
         <div style={styles.main}>
-          {selectedRoomId ? (
-            <ChatRoom 
-              token={token}
-              roomId={selectedRoomId}
-              roomName={selectedRoomName}
-            />
-          ) : (
-            <div style={styles.placeholder}>
-              <h2 style={styles.placeholderTitle}>Welcome to Real-time Chat</h2>
-              <p style={styles.placeholderText}>
-                Select a chat room from the list or create a new one to start chatting
-              </p>
-              <div style={styles.features}>
-                <div style={styles.feature}>
-                  <div style={styles.featureIcon}>⚡</div>
-                  <h3 style={styles.featureTitle}>Real-time Messaging</h3>
-                  <p style={styles.featureDescription}>
-                    Messages are instantly delivered via WebSocket/SignalR
-                  </p>
-                </div>
-                <div style={styles.feature}>
-                  <div style={styles.featureIcon}>👥</div>
-                  <h3 style={styles.featureTitle}>Multi-user Support</h3>
-                  <p style={styles.featureDescription}>
-                    Multiple users can chat in the same room simultaneously
-                  </p>
-                </div>
-                <div style={styles.feature}>
-                  <div style={styles.featureIcon}>✏️</div>
-                  <h3 style={styles.featureTitle}>Typing Indicators</h3>
-                  <p style={styles.featureDescription}>
-                    See when other users are typing a message
-                  </p>
-                </div>
-              </div>
-            </div>
-          )}
+          <Routes>
+            <Route path="/" element={<Navigate to="/rooms" replace />} />
+            <Route path="/rooms" element={welcome} />
+            <Route path="/rooms/:roomId" element={<RoomPage />} />
+            <Route path="/rooms/:roomId/messages/:messageId" element={<RoomPage />} />
+            <Route path="/rooms/:roomId/settings" element={<RoomSettingsPage />} />
+            <Route path="/rooms/:roomId/moderation" element={<ModerationLogPage />} />
+            <Route path="/rooms/:roomId/reports" element={<ReportQueuePage />} />
+            <Route path="*" element={<RoomUnavailable reason="notFound" />} />
+          </Routes>
         </div>
       </div>
+    );
+  };
+
+  return (
+    <div style={styles.app}>
+      <header style={styles.header}>
+        <h1 style={styles.appTitle}>Online Communities - Real-time Chat Demo</h1>
+        <p style={styles.subtitle}>
+          Built with .NET 9, SignalR, React, and Vite
+        </p>
+        {status === 'authenticated' && (
+          <div style={styles.userBar}>
+            {activeTenant && (
+              <TenantSwitcher tenants={tenants} activeTenant={activeTenant} onSwitch={handleSwitchTenant} />
+            )}
+            <span>{user?.email ?? 'Signed in'}</span>
+            <button onClick={handleLogout} style={styles.signOutButton}>
+              Sign out
+            </button>
+          </div>
+        )}
+      </header>
+
+      {renderContent()}
 
       <footer style={styles.footer}>
         <p style={styles.footerText}>
@@ -104,6 +159,30 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '16px',
     color: '#9ca3af'
   },
+  userBar: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: '12px',
+    marginTop: '12px',
+    fontSize: '14px',
+    color: '#d1d5db'
+  },
+  signOutButton: {
+    padding: '6px 12px',
+    backgroundColor: 'transparent',
+    color: '#ffffff',
+    border: '1px solid #4b5563',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer'
+  },
+  status: {
+    flex: 1,
+    padding: '40px',
+    textAlign: 'center',
+    color: '#6b7280'
+  },
   content: {
     flex: 1,
     display: 'flex',
@@ -0,0 +1,169 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { clearAttachmentUrls } from '../hooks/useAttachmentUrl';
+import { authApiService, AuthUser } from '../services/authApiService';
+import { chatCache } from '../services/chatCache';
+import { chatOutbox } from '../services/chatOutbox';
+import { chatService } from '../services/chatService';
+import { chatStore } from '../services/chatStore';
+import { draftStorage } from '../services/draftStorage';
+import { oidcConfig } from './authConfig';
+import { OidcTokenSource } from './oidcTokenSource';
+import { tokenProvider } from './tokenProvider';
+import { TokenSource } from './tokenSource';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated' | 'signedOut';
+
+interface AuthContextType {
+  user: AuthUser | null;
+  status: AuthStatus;
+  isAuthenticated: boolean;
+  error: string | null;
+  login: () => Promise<void>;
+  logout: () => Promise<void>;
+  getAccessToken: () => Promise<string>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+/**
+ * Ends the local session, on sign-out and when the session expires alike.
+ * Drafts, unsent and cached messages may be sensitive; nothing is left for the next user.
+ */
+const endLocalSession = async (source: TokenSource) => {
+  await chatService.disconnect();
+  await source.signOut();
+  tokenProvider.reset();
+  draftStorage.clear();
+  chatStore.reset();
+  chatOutbox.clear();
+  clearAttachmentUrls();
+  try {
+    await chatCache.clear();
+  } catch (err) {
+    console.error('Clearing the chat cache failed:', err);
+  }
+};
+
+interface AuthProviderProps {
+  /** Defaults to OIDC/PKCE against the configured authority. */
+  tokenSource?: TokenSource;
+  children: React.ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ tokenSource, children }) => {
+  const source = useMemo(() => tokenSource ?? new OidcTokenSource(oidcConfig), [tokenSource]);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const initializedSourceRef = useRef<TokenSource | null>(null);
+
+  useEffect(() => {
+    // Redirect callbacks can only be redeemed once, so guard against StrictMode re-running this
+    if (initializedSourceRef.current === source) return;
+    initializedSourceRef.current = source;
+
+    tokenProvider.setSource(source);
+
+    const initializeAuth = async () => {
+      try {
+        const redirectTokens = await source.handleRedirectCallback(window.location.href);
+
+        if (redirectTokens) {
+          window.history.replaceState(null, '', window.location.pathname);
+
+          if (!await authApiService.validateToken()) {
+            await source.signOut();
+            setError('The server did not accept your sign-in');
+            setStatus('unauthenticated');
+            return;
+          }
+        }
+
+        if (!await source.getTokens()) {
+          setStatus('unauthenticated');
+          return;
+        }
+
+        const authStatus = await authApiService.getStatus();
+
+        if (!authStatus.authenticated) {
+          await source.signOut();
+          setStatus('unauthenticated');
+          return;
+        }
+
+        setUser(await authApiService.getCurrentUser());
+        setStatus('authenticated');
+      } catch (err) {
+        console.error('Failed to initialize auth:', err);
+        setError(err instanceof Error ? err.message : 'Sign-in failed');
+        setStatus('unauthenticated');
+      }
+    };
+
+    initializeAuth();
+  }, [source]);
+
+  // Own messages never count as unread; cached chat data belongs to one user
+  useEffect(() => {
+    chatStore.setCurrentUser(user?.userId ?? null);
+    if (user?.userId) {
+      chatCache.open(user.userId);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    return tokenProvider.onSessionExpired(() => {
+      setUser(null);
+      setError('Your session has expired. Please sign in again.');
+      setStatus('unauthenticated');
+      endLocalSession(source).catch(err => {
+        console.error('Ending the expired session failed:', err);
+      });
+    });
+  }, [source]);
+
+  const login = useCallback(async () => {
+    setError(null);
+
+    try {
+      await source.signIn();
+    } catch (err) {
+      console.error('Login failed:', err);
+      setError('Could not reach the identity provider');
+    }
+  }, [source]);
+
+  const logout = useCallback(async () => {
+    try {
+      await authApiService.signOut();
+    } catch (err) {
+      // The local session is dropped regardless of what the server says
+      console.error('Sign out request failed:', err);
+    }
+
+    await endLocalSession(source);
+    setUser(null);
+    setStatus('signedOut');
+  }, [source]);
+
+  const value: AuthContextType = {
+    user,
+    status,
+    isAuthenticated: status === 'authenticated',
+    error,
+    login,
+    logout,
+    getAccessToken: () => tokenProvider.getAccessToken()
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
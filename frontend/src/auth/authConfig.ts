@@ -0,0 +1,15 @@
+export interface OidcConfig {
+  /** Issuer base URL; `/.well-known/openid-configuration` is resolved against it. */
+  authority: string;
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+}
+
+// Point VITE_ENTRA_AUTHORITY at a local mock identity provider to develop without Entra
+export const oidcConfig: OidcConfig = {
+  authority: import.meta.env.VITE_ENTRA_AUTHORITY ?? 'http://localhost:8080',
+  clientId: import.meta.env.VITE_ENTRA_CLIENT_ID ?? 'online-communities-frontend',
+  redirectUri: import.meta.env.VITE_ENTRA_REDIRECT_URI ?? window.location.origin,
+  scopes: (import.meta.env.VITE_ENTRA_SCOPES ?? 'openid profile email offline_access').split(' ')
+};
@@ -0,0 +1,174 @@
+import { OidcConfig } from './authConfig';
+import { createCodeChallenge, createRandomString } from './pkce';
+import { TokenSet, TokenSource } from './tokenSource';
+
+const TOKENS_KEY = 'oc.auth.tokens';
+const PENDING_SIGN_IN_KEY = 'oc.auth.pending';
+
+interface DiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+interface PendingSignIn {
+  state: string;
+  codeVerifier: string;
+}
+
+/**
+ * Authorization code flow with PKCE against any OpenID Connect provider.
+ * Tokens live in sessionStorage so they do not outlive the browser tab.
+ */
+export class OidcTokenSource implements TokenSource {
+  private discovery: Promise<DiscoveryDocument> | null = null;
+
+  constructor(private readonly config: OidcConfig) {}
+
+  async signIn(): Promise<void> {
+    const { authorization_endpoint } = await this.getDiscoveryDocument();
+    const pending: PendingSignIn = {
+      state: createRandomString(16),
+      codeVerifier: createRandomString(32)
+    };
+
+    sessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scopes.join(' '),
+      state: pending.state,
+      code_challenge: await createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256'
+    });
+
+    window.location.assign(`${authorization_endpoint}?${params}`);
+  }
+
+  async handleRedirectCallback(url: string): Promise<TokenSet | null> {
+    const params = new URL(url).searchParams;
+    const code = params.get('code');
+    const state = params.get('state');
+    const error = params.get('error');
+
+    if (!code && !error) {
+      return null;
+    }
+
+    const pendingJson = sessionStorage.getItem(PENDING_SIGN_IN_KEY);
+    sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+
+    if (error) {
+      throw new Error(params.get('error_description') ?? error);
+    }
+
+    const pending: PendingSignIn | null = pendingJson ? JSON.parse(pendingJson) : null;
+
+    if (!pending || pending.state !== state) {
+      throw new Error('Sign-in response did not match the pending request');
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code: code!,
+      redirect_uri: this.config.redirectUri,
+      code_verifier: pending.codeVerifier
+    });
+
+    this.storeTokens(tokens);
+    return tokens;
+  }
+
+  async getTokens(): Promise<TokenSet | null> {
+    const json = sessionStorage.getItem(TOKENS_KEY);
+    if (!json) {
+      return null;
+    }
+
+    return JSON.parse(json);
+  }
+
+  async refresh(): Promise<TokenSet | null> {
+    const current = await this.getTokens();
+
+    if (!current?.refreshToken) {
+      return null;
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: current.refreshToken,
+      scope: this.config.scopes.join(' ')
+    });
+
+    // Providers are not required to rotate refresh tokens or reissue ID tokens
+    const merged: TokenSet = {
+      ...tokens,
+      idToken: tokens.idToken ?? current.idToken,
+      refreshToken: tokens.refreshToken ?? current.refreshToken
+    };
+
+    this.storeTokens(merged);
+    return merged;
+  }
+
+  async signOut(): Promise<void> {
+    sessionStorage.removeItem(TOKENS_KEY);
+    sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+  }
+
+  private async requestTokens(body: Record<string, string>): Promise<TokenSet> {
+    const { token_endpoint } = await this.getDiscoveryDocument();
+    const response = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ client_id: this.config.clientId, ...body })
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to obtain tokens from the identity provider');
+    }
+
+    const data: TokenResponse = await response.json();
+
+    return {
+      accessToken: data.access_token,
+      idToken: data.id_token,
+      refreshToken: data.refresh_token,
+      expiresAt: Date.now() + data.expires_in * 1000
+    };
+  }
+
+  private storeTokens(tokens: TokenSet): void {
+    sessionStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+  }
+
+  private getDiscoveryDocument(): Promise<DiscoveryDocument> {
+    if (!this.discovery) {
+      const authority = this.config.authority.replace(/\/+$/, '');
+      this.discovery = fetch(`${authority}/.well-known/openid-configuration`)
+        .then(response => {
+          if (!response.ok) {
+            throw new Error('Failed to load identity provider configuration');
+          }
+          return response.json();
+        })
+        .catch(error => {
+          this.discovery = null;
+          throw error;
+        });
+    }
+
+    return this.discovery;
+  }
+}
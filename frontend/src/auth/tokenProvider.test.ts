@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { tokenProvider } from './tokenProvider';
+import { TokenSet, TokenSource } from './tokenSource';
+
+const MINUTE = 60_000;
+
+const tokensExpiringIn = (accessToken: string, ms: number): TokenSet => ({
+  accessToken,
+  expiresAt: Date.now() + ms,
+});
+
+/** An in-memory OIDC stand-in; refresh() hands out the queued results in order. */
+const createSource = (initial: TokenSet | null) => {
+  const refreshResults: Array<() => Promise<TokenSet | null>> = [];
+  const source: TokenSource = {
+    signIn: vi.fn(async () => undefined),
+    handleRedirectCallback: vi.fn(async () => null),
+    getTokens: vi.fn(async () => initial),
+    refresh: vi.fn(() => (refreshResults.shift() ?? (async () => null))()),
+    signOut: vi.fn(async () => undefined),
+  };
+
+  const queueRefresh = (result: () => Promise<TokenSet | null>) => {
+    refreshResults.push(result);
+  };
+
+  return { source, queueRefresh };
+};
+
+describe('tokenProvider', () => {
+  let sessionExpired: ReturnType<typeof vi.fn>;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    sessionExpired = vi.fn();
+    unsubscribe = tokenProvider.onSessionExpired(sessionExpired);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    tokenProvider.setSource(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the stored token while it is fresh', async () => {
+    const { source } = createSource(tokensExpiringIn('stored', 10 * MINUTE));
+    tokenProvider.setSource(source);
+
+    await expect(tokenProvider.getAccessToken()).resolves.toBe('stored');
+    expect(source.refresh).not.toHaveBeenCalled();
+  });
+
+  it('refreshes a minute before the access token expires', async () => {
+    const { source, queueRefresh } = createSource(tokensExpiringIn('stored', 10 * MINUTE));
+    queueRefresh(async () => tokensExpiringIn('refreshed', 10 * MINUTE));
+    tokenProvider.setSource(source);
+    await tokenProvider.getAccessToken();
+
+    await vi.advanceTimersByTimeAsync(9 * MINUTE - 1);
+    expect(source.refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+    await expect(tokenProvider.getAccessToken()).resolves.toBe('refreshed');
+  });
+
+  it('never schedules proactive refreshes closer together than five seconds', async () => {
+    const { source, queueRefresh } = createSource(tokensExpiringIn('stored', 30_000));
+    queueRefresh(async () => tokensExpiringIn('refreshed', 10 * MINUTE));
+    tokenProvider.setSource(source);
+    await tokenProvider.getAccessToken();
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+
+    // The refreshed token is good for ten minutes; nothing further is due yet
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const { source, queueRefresh } = createSource(tokensExpiringIn('stored', 30_000));
+    let resolveRefresh: (tokens: TokenSet) => void = () => undefined;
+    queueRefresh(() => new Promise<TokenSet>(resolve => {
+      resolveRefresh = resolve;
+    }));
+    tokenProvider.setSource(source);
+
+    const first = tokenProvider.getAccessToken();
+    const second = tokenProvider.getAccessToken();
+    const third = tokenProvider.handleUnauthorized('stored');
+    await vi.advanceTimersByTimeAsync(0);
+    resolveRefresh(tokensExpiringIn('refreshed', 10 * MINUTE));
+
+    await expect(Promise.all([first, second, third])).resolves.toEqual(['refreshed', 'refreshed', 'refreshed']);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps using a still-valid token when a refresh fails', async () => {
+    const { source, queueRefresh } = createSource(tokensExpiringIn('stored', 30_000));
+    queueRefresh(async () => {
+      throw new Error('network down');
+    });
+    tokenProvider.setSource(source);
+
+    await expect(tokenProvider.getAccessToken()).resolves.toBe('stored');
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('expires the session once when an expired token cannot be refreshed', async () => {
+    const { source } = createSource(tokensExpiringIn('stored', -1));
+    tokenProvider.setSource(source);
+
+    await expect(tokenProvider.getAccessToken()).rejects.toThrow('Session expired');
+    await expect(tokenProvider.getAccessToken()).rejects.toThrow('Not authenticated');
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('expires the session once the token runs out after a failed proactive refresh', async () => {
+    const { source } = createSource(tokensExpiringIn('stored', 2 * MINUTE));
+    tokenProvider.setSource(source);
+    await tokenProvider.getAccessToken();
+
+    // The scheduled refresh fails, but the token is still valid for a minute
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+    expect(sessionExpired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    await expect(tokenProvider.getAccessToken()).rejects.toThrow('Session expired');
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a fresh session after setSource', async () => {
+    const { source } = createSource(tokensExpiringIn('stored', -1));
+    tokenProvider.setSource(source);
+    await expect(tokenProvider.getAccessToken()).rejects.toThrow('Session expired');
+
+    const next = createSource(tokensExpiringIn('next', 10 * MINUTE));
+    tokenProvider.setSource(next.source);
+
+    await expect(tokenProvider.getAccessToken()).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,161 @@
+import { TokenSet, TokenSource } from './tokenSource';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60_000;
+// Never schedule proactive refreshes closer together than this
+const MIN_REFRESH_DELAY_MS = 5_000;
+
+type SessionExpiredListener = () => void;
+
+/**
+ * Hands out the current access token to code outside React (chatService,
+ * chatApiService). AuthProvider installs the active token source.
+ *
+ * Tokens are refreshed ahead of expiry and on demand after a 401. When a
+ * refresh finally fails the session-expired listeners fire once.
+ */
+class TokenProvider {
+  private source: TokenSource | null = null;
+  private tokens: TokenSet | null = null;
+  private refreshPromise: Promise<TokenSet | null> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private sessionExpired = false;
+
+  setSource(source: TokenSource | null): void {
+    this.reset();
+    this.source = source;
+  }
+
+  /** Drops cached tokens and pending refreshes, e.g. on sign-out. */
+  reset(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    this.tokens = null;
+    this.refreshPromise = null;
+    this.sessionExpired = false;
+  }
+
+  async getAccessToken(): Promise<string> {
+    const tokens = await this.getCurrentTokens();
+
+    if (!tokens || this.sessionExpired) {
+      throw new Error('Not authenticated');
+    }
+
+    if (tokens.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return tokens.accessToken;
+    }
+
+    const refreshed = await this.refresh();
+
+    if (refreshed) {
+      return refreshed.accessToken;
+    }
+
+    // Refresh failed but the token is still good for a little while
+    if (tokens.expiresAt > Date.now()) {
+      return tokens.accessToken;
+    }
+
+    this.expireSession();
+    throw new Error('Session expired');
+  }
+
+  /**
+   * Called when the server rejected `rejectedToken`. Returns a different,
+   * freshly refreshed token, or raises the session-expired event.
+   */
+  async handleUnauthorized(rejectedToken: string): Promise<string> {
+    // Another request may already have refreshed while this one was in flight
+    if (this.tokens && this.tokens.accessToken !== rejectedToken) {
+      return this.tokens.accessToken;
+    }
+
+    const refreshed = await this.refresh();
+
+    if (!refreshed) {
+      this.expireSession();
+      throw new Error('Session expired');
+    }
+
+    return refreshed.accessToken;
+  }
+
+  /** Raises the session-expired event (at most once per session). */
+  expireSession(): void {
+    if (this.sessionExpired) return;
+
+    this.sessionExpired = true;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    this.sessionExpiredListeners.forEach(listener => listener());
+  }
+
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private async getCurrentTokens(): Promise<TokenSet | null> {
+    if (!this.tokens && this.source) {
+      const tokens = await this.source.getTokens();
+      if (tokens) {
+        this.setTokens(tokens);
+      }
+    }
+
+    return this.tokens;
+  }
+
+  private refresh(): Promise<TokenSet | null> {
+    if (!this.source) {
+      return Promise.resolve(null);
+    }
+
+    // Concurrent callers share one refresh request
+    if (!this.refreshPromise) {
+      const source = this.source;
+      this.refreshPromise = source.refresh()
+        .catch(error => {
+          console.error('Token refresh failed:', error);
+          return null;
+        })
+        .then(tokens => {
+          this.refreshPromise = null;
+          if (tokens && this.source === source) {
+            this.setTokens(tokens);
+          }
+          return tokens;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  private setTokens(tokens: TokenSet): void {
+    this.tokens = tokens;
+
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+
+    const delay = Math.max(tokens.expiresAt - Date.now() - REFRESH_MARGIN_MS, MIN_REFRESH_DELAY_MS);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.getAccessToken().catch(() => {
+        // Already reported through the session-expired event
+      });
+    }, delay);
+  }
+}
+
+export const tokenProvider = new TokenProvider();
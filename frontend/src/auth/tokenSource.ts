@@ -0,0 +1,32 @@
+export interface TokenSet {
+  accessToken: string;
+  idToken?: string;
+  refreshToken?: string;
+  /** Epoch milliseconds at which the access token expires. */
+  expiresAt: number;
+}
+
+/**
+ * Where access tokens come from. The OIDC/PKCE implementation talks to Entra
+ * External ID (or any standards-compliant provider); tests and local setups can
+ * plug in their own source.
+ */
+export interface TokenSource {
+  /** Starts an interactive sign-in. Redirect based sources never resolve. */
+  signIn(): Promise<void>;
+
+  /**
+   * Completes a sign-in if the current URL is a redirect callback.
+   * Returns null when the URL is not a callback.
+   */
+  handleRedirectCallback(url: string): Promise<TokenSet | null>;
+
+  /** Returns the stored tokens (possibly expired), or null when there is no session. */
+  getTokens(): Promise<TokenSet | null>;
+
+  /** Exchanges the stored refresh token for new tokens. Returns null when that is not possible. */
+  refresh(): Promise<TokenSet | null>;
+
+  /** Forgets every token held by this source. */
+  signOut(): Promise<void>;
+}
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+import { useStartDirectMessage } from '../hooks/useStartDirectMessage';
+import { chatApiService } from '../services/chatApiService';
+import { InviteCandidate } from '../services/chatService';
+import { Avatar } from './Avatar';
+
+// Keep in sync with MaxParticipants in the backend DirectMessagesController
+const MAX_PARTICIPANTS = 10;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface AddPeopleDialogProps {
+  roomId: string;
+  /** Everyone in the conversation, the current user included. */
+  participantIds: string[];
+  onClose: () => void;
+}
+
+/**
+ * Adds people to a direct conversation by opening a group conversation with everyone,
+ * so the existing conversation keeps its history private to its participants.
+ */
+export const AddPeopleDialog: React.FC<AddPeopleDialogProps> = ({ roomId, participantIds, onClose }) => {
+  const { startDirectMessage, isStarting, error } = useStartDirectMessage();
+  const [search, setSearch] = useState('');
+  const [candidates, setCandidates] = useState<InviteCandidate[]>([]);
+  const [selected, setSelected] = useState<InviteCandidate[]>([]);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useDismiss(dialogRef, onClose);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      chatApiService.searchInviteCandidates(roomId, search.trim())
+        .then(users => {
+          if (!cancelled) setCandidates(users);
+        })
+        .catch(err => console.error('Search people error:', err));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [roomId, search]);
+
+  const isFull = participantIds.length + selected.length >= MAX_PARTICIPANTS;
+
+  const toggle = (candidate: InviteCandidate) => {
+    setSelected(prev => prev.some(c => c.userId === candidate.userId)
+      ? prev.filter(c => c.userId !== candidate.userId)
+      : [...prev, candidate]);
+  };
+
+  const handleStart = async () => {
+    if (await startDirectMessage([...participantIds, ...selected.map(c => c.userId)])) {
+      onClose();
+    }
+  };
+
+  return (
+    <div style={styles.overlay}>
+      <div ref={dialogRef} style={styles.dialog} role="dialog" aria-label="Add people">
+        <div style={styles.header}>
+          <h3 style={styles.title}>Add people</h3>
+          <button onClick={onClose} style={styles.closeButton} aria-label="Close">×</button>
+        </div>
+
+        <div style={styles.form}>
+          <input
+            type="text"
+            placeholder="Search by name or email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            style={styles.input}
+            autoFocus
+          />
+        </div>
+
+        <div style={styles.hint}>
+          {isFull
+            ? `Group conversations are limited to ${MAX_PARTICIPANTS} people.`
+            : 'This starts a new group conversation; earlier messages stay in this one.'}
+        </div>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <div style={styles.list}>
+          {candidates.length === 0 ? (
+            <div style={styles.empty}>
+              {search.trim() ? 'Nobody matches your search.' : 'People you share rooms with appear here.'}
+            </div>
+          ) : (
+            candidates.map(candidate => {
+              const name = candidate.displayName || candidate.email;
+              const isSelected = selected.some(c => c.userId === candidate.userId);
+
+              return (
+                <label key={candidate.userId} style={styles.candidate}>
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    disabled={!isSelected && isFull}
+                    onChange={() => toggle(candidate)}
+                  />
+                  <Avatar userId={candidate.userId} name={name} />
+                  <span style={styles.candidateText}>
+                    <span style={styles.candidateName}>{name}</span>
+                    {candidate.displayName && <span style={styles.candidateEmail}>{candidate.email}</span>}
+                  </span>
+                </label>
+              );
+            })
+          )}
+        </div>
+
+        <div style={styles.actions}>
+          <button onClick={onClose} style={styles.secondaryButton}>Cancel</button>
+          <button onClick={handleStart} disabled={selected.length === 0 || isStarting} style={styles.primaryButton}>
+            {isStarting ? 'Starting...' : 'Start conversation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    zIndex: 20
+  },
+  dialog: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '420px',
+    maxHeight: '520px',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#6b7280',
+    padding: '0',
+    lineHeight: '1'
+  },
+  form: {
+    display: 'flex',
+    padding: '16px 20px 8px'
+  },
+  input: {
+    flex: 1,
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px'
+  },
+  hint: {
+    padding: '0 20px 8px',
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  error: {
+    margin: '0 20px',
+    padding: '8px 12px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    borderRadius: '4px',
+    fontSize: '13px'
+  },
+  list: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px 20px'
+  },
+  empty: {
+    padding: '24px 0',
+    textAlign: 'center',
+    fontSize: '13px',
+    color: '#6b7280'
+  },
+  candidate: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '8px 0',
+    cursor: 'pointer'
+  },
+  candidateText: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    minWidth: 0
+  },
+  candidateName: {
+    fontSize: '14px',
+    color: '#111827',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  candidateEmail: {
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  actions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '8px',
+    padding: '12px 20px',
+    borderTop: '1px solid #e5e7eb'
+  },
+  primaryButton: {
+    padding: '8px 16px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  secondaryButton: {
+    padding: '8px 16px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { AttachmentUpload } from '../hooks/useAttachmentUploads';
+import { formatFileSize } from '../utils/attachments';
+
+interface AttachmentTrayProps {
+  uploads: AttachmentUpload[];
+  onRemove: (id: string) => void;
+}
+
+/** Files attached in the composer, with upload progress and cancel/remove. */
+export const AttachmentTray: React.FC<AttachmentTrayProps> = ({ uploads, onRemove }) => {
+  if (uploads.length === 0) return null;
+
+  return (
+    <ul style={styles.tray} aria-label="Attachments">
+      {uploads.map(upload => (
+        <li
+          key={upload.id}
+          style={{
+            ...styles.item,
+            ...(upload.status === 'failed' ? styles.failedItem : {})
+          }}
+        >
+          {upload.previewUrl ? (
+            <img src={upload.previewUrl} alt="" style={styles.preview} />
+          ) : (
+            <span style={styles.fileIcon} aria-hidden="true">📄</span>
+          )}
+          <div style={styles.details}>
+            <span style={styles.fileName}>{upload.file.name}</span>
+            {upload.status === 'failed' ? (
+              <span style={styles.error}>{upload.error}</span>
+            ) : upload.status === 'uploading' ? (
+              <progress value={upload.progress} max={1} style={styles.progress} aria-label={`Uploading ${upload.file.name}`} />
+            ) : (
+              <span style={styles.size}>{formatFileSize(upload.file.size)}</span>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => onRemove(upload.id)}
+            style={styles.removeButton}
+            aria-label={upload.status === 'uploading' ? `Cancel upload of ${upload.file.name}` : `Remove ${upload.file.name}`}
+          >
+            ×
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  tray: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    margin: '0 0 8px',
+    padding: 0,
+    listStyle: 'none'
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    width: '220px',
+    padding: '6px 8px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    backgroundColor: '#f9fafb'
+  },
+  failedItem: {
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2'
+  },
+  preview: {
+    width: '36px',
+    height: '36px',
+    objectFit: 'cover',
+    borderRadius: '4px'
+  },
+  fileIcon: {
+    fontSize: '24px'
+  },
+  details: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    minWidth: 0,
+    flex: 1
+  },
+  fileName: {
+    fontSize: '13px',
+    color: '#111827',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  size: {
+    fontSize: '11px',
+    color: '#6b7280'
+  },
+  error: {
+    fontSize: '11px',
+    color: '#991b1b'
+  },
+  progress: {
+    width: '100%',
+    height: '6px'
+  },
+  removeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '18px',
+    lineHeight: '1',
+    color: '#6b7280',
+    cursor: 'pointer',
+    padding: 0
+  }
+};
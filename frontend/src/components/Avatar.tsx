@@ -0,0 +1,73 @@
+import React from 'react';
+import { PresenceStatus } from '../services/chatService';
+
+const AVATAR_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#ea580c', '#059669', '#0891b2', '#4f46e5', '#b45309'];
+
+export const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  online: '#10b981',
+  away: '#f59e0b',
+  offline: '#9ca3af'
+};
+
+// The same user always gets the same color
+const colorFor = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+// "Jane Doe" and "jane.doe@example.com" both become "JD"
+const initialsOf = (name: string) =>
+  name.split('@')[0].split(/[\s._-]+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+interface AvatarProps {
+  userId: string;
+  /** Display name, or email when there is none. */
+  name: string;
+  size?: number;
+  /** Shows a presence dot when set. */
+  status?: PresenceStatus;
+}
+
+export const Avatar: React.FC<AvatarProps> = ({ userId, name, size = 32, status }) => (
+  <span
+    style={{
+      ...styles.avatar,
+      width: size,
+      height: size,
+      fontSize: Math.round(size * 0.4),
+      backgroundColor: colorFor(userId)
+    }}
+    aria-hidden="true"
+  >
+    {initialsOf(name)}
+    {status && (
+      <span style={{ ...styles.statusDot, backgroundColor: PRESENCE_COLORS[status] }} />
+    )}
+  </span>
+);
+
+const styles: { [key: string]: React.CSSProperties } = {
+  avatar: {
+    position: 'relative',
+    display: 'inline-flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexShrink: 0,
+    borderRadius: '50%',
+    color: '#ffffff',
+    fontWeight: '600',
+    userSelect: 'none'
+  },
+  statusDot: {
+    position: 'absolute',
+    right: '-1px',
+    bottom: '-1px',
+    width: '10px',
+    height: '10px',
+    borderRadius: '50%',
+    border: '2px solid #ffffff'
+  }
+};
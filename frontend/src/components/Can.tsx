@@ -0,0 +1,25 @@
+import React from 'react';
+import { usePermissions } from '../hooks/usePermissions';
+import { Permission } from '../tenants/permissions';
+
+interface CanProps {
+  permission: Permission;
+  /** Also allowed without the permission, e.g. for the author of a message or a room's own admin. */
+  unless?: boolean;
+  /** Shown instead of hidden children. */
+  fallback?: React.ReactNode;
+  /** Pass a function to render either way, e.g. to disable a control: `{allowed => <button disabled={!allowed}>}`. */
+  children: React.ReactNode | ((allowed: boolean) => React.ReactNode);
+}
+
+/** Renders its children only when the user has the permission in the active tenant. */
+export const Can: React.FC<CanProps> = ({ permission, unless = false, fallback = null, children }) => {
+  const { can } = usePermissions();
+  const allowed = unless || can(permission);
+
+  if (typeof children === 'function') {
+    return <>{children(allowed)}</>;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+};
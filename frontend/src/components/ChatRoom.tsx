@@ -1,164 +1,733 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../auth/AuthContext';
 import { useChat } from '../hooks/useChat';
+import { usePermissions } from '../hooks/usePermissions';
+import { useRoomMessages, useRoomState } from '../hooks/useChatStore';
+import { useReadReceipts } from '../hooks/useReadReceipts';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { ApiError } from '../services/apiError';
 import { chatApiService } from '../services/chatApiService';
+import { chatCache } from '../services/chatCache';
+import { chatStore } from '../services/chatStore';
+import { ChatAttachment, ChatMessage, chatService, ChatRoomDetails, ChatRoomMember } from '../services/chatService';
+import { OutboxEntry } from '../services/outbox';
+import { directRoomTitle, otherParticipants, participantName } from '../utils/directMessages';
+import { MentionCandidate } from '../utils/mentions';
+import { formatDuration, isRoomModerator, mutedUntil, SLOW_MODE_OPTIONS, slowModeWait } from '../utils/moderation';
+import { AddPeopleDialog } from './AddPeopleDialog';
+import { Avatar } from './Avatar';
+import { InviteDialog } from './InviteDialog';
+import { MemberRoster } from './MemberRoster';
+import { MessageComposer } from './MessageComposer';
+import { MessageItem } from './MessageItem';
+import { ModerationMenu } from './ModerationMenu';
+import { ReportDialog } from './ReportDialog';
+import { RichText } from './RichText';
+import { RoomUnavailable } from './RoomUnavailable';
+import { ThreadPanel } from './ThreadPanel';
+import { UserCard } from './UserCard';
+
+// Distance from the top (px) at which the next page of history is requested
+const LOAD_MORE_THRESHOLD = 80;
+// How many older pages to load while looking for a linked message
+const MAX_HIGHLIGHT_PAGES = 10;
+const HIGHLIGHT_DURATION_MS = 3000;
 
 interface ChatRoomProps {
-  token: string;
   roomId: string;
-  roomName: string;
+  /** Message to scroll to and highlight, e.g. from a /messages/:messageId link. */
+  highlightMessageId?: string;
 }
 
-export const ChatRoom: React.FC<ChatRoomProps> = ({ token, roomId, roomName }) => {
-  const [messageInput, setMessageInput] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+export const ChatRoom: React.FC<ChatRoomProps> = ({ roomId, highlightMessageId }) => {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const [room, setRoom] = useState<ChatRoomDetails | null>(null);
+  const [unavailable, setUnavailable] = useState<'notFound' | 'forbidden' | null>(null);
+  const [roomError, setRoomError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [highlightMissing, setHighlightMissing] = useState(false);
+  const [threadParentId, setThreadParentId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [newMessageCount, setNewMessageCount] = useState(0);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [showAddPeople, setShowAddPeople] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<number | null>(null);
+  const [reportingMessage, setReportingMessage] = useState<ChatMessage | null>(null);
+  const [reportNotice, setReportNotice] = useState(false);
+  const [openReportCount, setOpenReportCount] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const highlightPagesRef = useRef(0);
+  const highlightDoneRef = useRef<string | null>(null);
 
   const {
     isConnected,
-    messages,
-    typingUsers,
+    pendingMessages,
     error,
+    currentRoom,
     joinRoom,
+    loadOlderMessages,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     sendTypingIndicator,
+    markAsRead,
     clearError
-  } = useChat({ token, autoConnect: true });
+  } = useChat({ autoConnect: true });
+  const messages = useRoomMessages(roomId);
+  const { hasMoreHistory, isLoadingHistory, typingUsers, presence } = useRoomState(roomId);
+
+  useReadReceipts(roomId, messages, messagesContainerRef, markAsRead);
+
+  const messageIds = useMemo(() => messages.map(m => m.id), [messages]);
+  const messageList = useVirtualList({
+    scrollRef: messagesContainerRef,
+    listRef: messageListRef,
+    keys: messageIds
+  });
+  const { isAtBottom, scrollToKey, scrollToBottom, getScrollPosition, restoreScrollPosition } = messageList;
+
+  // Messages stay cached per room, so come back to where the user left off
+  useLayoutEffect(() => {
+    restoreScrollPosition(chatStore.getScrollPosition(roomId));
+    return () => chatStore.saveScrollPosition(roomId, getScrollPosition());
+  }, [roomId, getScrollPosition, restoreScrollPosition]);
+
+  // Messages cached by an earlier session show until the newest page arrives
+  useEffect(() => {
+    chatCache.loadMessages(roomId)
+      .then(cached => {
+        if (cached) {
+          chatStore.hydrateRoom(roomId, cached.messages, cached.hasMoreHistory);
+        }
+      })
+      .catch(err => console.error('Load cached messages error:', err));
+  }, [roomId]);
+
+  // Thread replies are shown in the thread panel, not the timeline
+  const roomPendingMessages = pendingMessages.filter(
+    entry => entry.chatRoomId === roomId && !entry.parentMessageId
+  );
+  const threadParent = threadParentId ? messages.find(m => m.id === threadParentId) ?? null : null;
+
+  const loadRoom = useCallback(async () => {
+    try {
+      const details = await chatApiService.getRoom(roomId);
+      setRoom(details);
+      setOpenReportCount(details.openReportCount ?? null);
+      setRoomError(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        setUnavailable('notFound');
+      } else if (err instanceof ApiError && err.status === 403) {
+        setUnavailable('forbidden');
+      } else {
+        console.error('Load room error:', err);
+        setRoomError('Failed to load chat room');
+      }
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    setRoom(null);
+    setUnavailable(null);
+    setRoomError(null);
+    loadRoom();
+  }, [loadRoom]);
+
+  // New members become mentionable; settings, removals and moderation change what the room shows
+  useEffect(() => {
+    const reloadIfThisRoom = (event: { chatRoomId: string }) => {
+      if (event.chatRoomId === roomId) {
+        loadRoom();
+      }
+    };
+
+    const unsubscribers = [
+      chatService.on('UserJoinedRoom', reloadIfThisRoom),
+      chatService.on('RoomUpdated', reloadIfThisRoom),
+      chatService.on('MemberRemoved', reloadIfThisRoom),
+      chatService.on('MemberMuted', reloadIfThisRoom),
+      chatService.on('MemberUnmuted', reloadIfThisRoom),
+      chatService.on('SlowModeChanged', reloadIfThisRoom)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [roomId, loadRoom]);
+
+  // Moderators hear about new and resolved reports wherever they are
+  useEffect(() => {
+    return chatService.on('ReportsChanged', event => {
+      if (event.chatRoomId === roomId) {
+        setOpenReportCount(event.openCount);
+      }
+    });
+  }, [roomId]);
+
+  // Only members receive the room's messages; others see the join prompt first
+  const isMember = room?.id === roomId && room.isMember;
+  const isArchived = room?.id === roomId && !room.isActive;
+  const myMember = isMember ? room.members.find(m => m.userId === user?.userId) : undefined;
+  const myRole = myMember?.role;
+  // Direct conversations are named after their members and take no invitations or settings
+  const isDirect = room?.id === roomId && room.isDirect;
+  const directParticipants = isDirect ? otherParticipants(room.members, user?.userId) : [];
+  const canInvite = !isArchived && !isDirect && isRoomModerator(myRole);
+  const canModerate = !isArchived && (isRoomModerator(myRole) || can('members.manage'));
+  const slowModeSeconds = room?.id === roomId ? room.slowModeSeconds : 0;
+
+  // Moderators are exempt from slow mode; the hub rejects sends from muted members
+  const myMutedUntil = mutedUntil(myMember, now);
+  const cooldown = isRoomModerator(myRole) ? 0 : slowModeWait(lastSentAt, slowModeSeconds, now);
+  const isWaiting = myMutedUntil !== null || cooldown > 0;
+
+  const mentionCandidates = useMemo<MentionCandidate[]>(
+    () => (room?.members ?? []).map(m => ({ userId: m.userId, email: m.email, displayName: m.displayName })),
+    [room]
+  );
 
   useEffect(() => {
-    if (isConnected && roomId) {
+    if (isConnected && isMember) {
       joinRoom(roomId);
     }
-  }, [isConnected, roomId, joinRoom]);
+  }, [isConnected, isMember, roomId, joinRoom]);
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    lastMessageIdRef.current = null;
+    setNewMessageCount(0);
+    setThreadParentId(null);
+    setEditingMessageId(null);
+    setShowInvite(false);
+    setShowAddPeople(false);
+    setLastSentAt(null);
+    setReportingMessage(null);
+    setReportNotice(false);
+  }, [roomId]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setMessageInput(value);
+  // Tick while muted or cooling down so the composer unlocks on time
+  useEffect(() => {
+    if (!isWaiting) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isWaiting]);
+
+  // The list follows new messages only while scrolled to the bottom; otherwise count them
+  useEffect(() => {
+    const previousId = lastMessageIdRef.current;
+    const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    lastMessageIdRef.current = lastMessageId;
 
-    if (!isTyping && value.length > 0) {
-      setIsTyping(true);
-      sendTypingIndicator(roomId, true);
+    if (isAtBottom || !previousId || previousId === lastMessageId) return;
+
+    const previousIndex = messages.findIndex(m => m.id === previousId);
+    if (previousIndex === -1) return;
+
+    const unseen = messages.slice(previousIndex + 1).filter(m => m.userId !== user?.userId).length;
+    if (unseen > 0) {
+      setNewMessageCount(count => count + unseen);
     }
+  }, [messages, isAtBottom, user]);
 
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+  useEffect(() => {
+    if (isAtBottom) {
+      setNewMessageCount(0);
     }
+  }, [isAtBottom]);
 
-    typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
-      sendTypingIndicator(roomId, false);
-    }, 1000);
-  };
+  useEffect(() => {
+    highlightPagesRef.current = 0;
+    highlightDoneRef.current = null;
+    setHighlightMissing(false);
+  }, [roomId, highlightMessageId]);
+
+  useEffect(() => {
+    if (!highlightMessageId || highlightDoneRef.current === highlightMessageId) return;
+    if (currentRoom !== roomId || isLoadingHistory || messages.length === 0) return;
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
+    if (messages.some(m => m.id === highlightMessageId)) {
+      highlightDoneRef.current = highlightMessageId;
+      scrollToKey(highlightMessageId, 'center');
+      setHighlightedId(highlightMessageId);
+      return;
+    }
 
-    if (!messageInput.trim() || !isConnected) {
+    // Not loaded yet: page further back in history, within reason
+    if (hasMoreHistory && highlightPagesRef.current < MAX_HIGHLIGHT_PAGES) {
+      highlightPagesRef.current++;
+      loadOlderMessages();
       return;
     }
 
-    await sendMessage(roomId, messageInput.trim());
-    setMessageInput('');
-    setIsTyping(false);
-    sendTypingIndicator(roomId, false);
+    highlightDoneRef.current = highlightMessageId;
+    setHighlightMissing(true);
+  }, [
+    highlightMessageId,
+    currentRoom,
+    roomId,
+    messages,
+    isLoadingHistory,
+    hasMoreHistory,
+    loadOlderMessages,
+    scrollToKey
+  ]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const handleJoinRoom = async () => {
+    setIsJoining(true);
 
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+    try {
+      await chatApiService.joinRoom(roomId);
+      await loadRoom();
+    } catch (err) {
+      console.error('Join room error:', err);
+      setRoomError(err instanceof Error ? err.message : 'Failed to join chat room');
+    } finally {
+      setIsJoining(false);
     }
   };
 
-  const formatTime = (timestamp: string) => {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
+  const handleScroll = () => {
+    messageList.onScroll();
+
+    // The virtual list keeps the visible messages in place when the older page is prepended
+    const container = messagesContainerRef.current;
+    if (!container || !hasMoreHistory || isLoadingHistory) return;
+
+    if (container.scrollTop <= LOAD_MORE_THRESHOLD) {
+      loadOlderMessages();
+    }
+  };
+
+  // Sending always jumps back to the latest messages
+  const handleSendMessage = useCallback(
+    (content: string, attachments: ChatAttachment[]) => {
+      scrollToBottom();
+      setLastSentAt(Date.now());
+      setNow(Date.now());
+      return sendMessage(roomId, content, attachments);
+    },
+    [roomId, sendMessage, scrollToBottom]
+  );
+
+  const handleSlowModeChange = async (seconds: number) => {
+    try {
+      await chatApiService.setSlowMode(roomId, seconds);
+    } catch (err) {
+      console.error('Set slow mode error:', err);
+      setRoomError(err instanceof Error ? err.message : 'Failed to change slow mode');
+    }
+  };
+
+  const members = room?.id === roomId ? room.members : undefined;
+
+  const renderModerationMenu = useCallback(
+    (message: ChatMessage) => {
+      const author = members?.find(m => m.userId === message.userId);
+
+      return (
+        <ModerationMenu
+          roomId={roomId}
+          userId={message.userId}
+          userName={author?.displayName || message.userEmail}
+          isMember={author !== undefined}
+          mutedUntil={mutedUntil(author)}
+          onDeleteMessage={() => deleteMessage(message.id)}
+          onError={setRoomError}
+        />
+      );
+    },
+    [roomId, members, deleteMessage]
+  );
+
+  const renderMemberActions = useCallback(
+    (member: ChatRoomMember) => (
+      <ModerationMenu
+        roomId={roomId}
+        userId={member.userId}
+        userName={member.displayName || member.email}
+        isMember
+        mutedUntil={mutedUntil(member)}
+        onError={setRoomError}
+      />
+    ),
+    [roomId]
+  );
+
+  const handleTypingChange = useCallback(
+    (isTyping: boolean) => sendTypingIndicator(roomId, isTyping),
+    [roomId, sendTypingIndicator]
+  );
+
+  const handleEditLastMessage = () => {
+    const lastOwn = [...messages].reverse().find(m => m.userId === user?.userId && !m.isDeleted);
+    if (!lastOwn) return;
+
+    setEditingMessageId(lastOwn.id);
+    scrollToKey(lastOwn.id, 'nearest');
   };
 
+  const composerPlaceholder = myMutedUntil
+    ? 'You are muted in this room'
+    : cooldown > 0
+      ? 'Slow mode is on...'
+      : isConnected
+        ? 'Type a message... (Shift+Enter for a new line)'
+        : 'Offline - messages will be sent when you reconnect';
+
+  const describePending = (entry: OutboxEntry) => {
+    switch (entry.status) {
+      case 'failed':
+        return 'Not sent';
+      case 'sent':
+        return 'Sent';
+      default:
+        return isConnected ? 'Sending...' : 'Waiting for connection...';
+    }
+  };
+
+  if (unavailable) {
+    return <RoomUnavailable reason={unavailable} />;
+  }
+
   return (
-    <div style={styles.container}>
-      <div style={styles.header}>
-        <h2 style={styles.title}>{roomName}</h2>
-        <div style={styles.connectionStatus}>
-          <span style={{
-            ...styles.statusDot,
-            backgroundColor: isConnected ? '#10b981' : '#ef4444'
-          }} />
-          {isConnected ? 'Connected' : 'Disconnected'}
+    <div style={styles.layout}>
+      <div style={styles.container}>
+        <div style={styles.header}>
+          {isDirect ? (
+            <div style={styles.directTitle}>
+              {directParticipants.slice(0, 3).map(participant => (
+                <UserCard
+                  key={participant.userId}
+                  userId={participant.userId}
+                  name={participantName(participant)}
+                  email={participant.email}
+                >
+                  <Avatar userId={participant.userId} name={participantName(participant)} size={28} />
+                </UserCard>
+              ))}
+              <h2 style={styles.title}>{directRoomTitle(room.members, user?.userId)}</h2>
+            </div>
+          ) : (
+            <h2 style={styles.title}>{room?.id === roomId ? room.name : ''}</h2>
+          )}
+          <div style={styles.headerActions}>
+            {isMember && (
+              <button
+                onClick={() => setShowMembers(show => !show)}
+                style={{ ...styles.membersButton, ...(showMembers ? styles.membersButtonActive : {}) }}
+                aria-pressed={showMembers}
+              >
+                👥 {Object.keys(presence).length} online
+              </button>
+            )}
+            {canInvite && (
+              <button onClick={() => setShowInvite(true)} style={styles.membersButton}>
+                Invite
+              </button>
+            )}
+            {isDirect && isMember && !isArchived && (
+              <button onClick={() => setShowAddPeople(true)} style={styles.membersButton}>
+                Add people
+              </button>
+            )}
+            {canModerate && (
+              <select
+                value={slowModeSeconds}
+                onChange={(e) => handleSlowModeChange(Number(e.target.value))}
+                style={styles.slowModeSelect}
+                aria-label="Slow mode"
+              >
+                {SLOW_MODE_OPTIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>
+                    {seconds === 0 ? 'Slow mode off' : `Slow mode: ${formatDuration(seconds)}`}
+                  </option>
+                ))}
+              </select>
+            )}
+            {canModerate && openReportCount !== null && (
+              <Link
+                to={`/rooms/${roomId}/reports`}
+                style={{ ...styles.reportsLink, ...(openReportCount > 0 ? styles.reportsLinkActive : {}) }}
+                aria-label={`Review queue, ${openReportCount} open reports`}
+              >
+                🚩 {openReportCount}
+              </Link>
+            )}
+            {canModerate && (
+              <Link to={`/rooms/${roomId}/moderation`} style={styles.settingsLink} aria-label="Moderation log">
+                🛡
+              </Link>
+            )}
+            {!isDirect && (myRole === 'admin' || can('rooms.manage') || can('members.manage')) && (
+              <Link to={`/rooms/${roomId}/settings`} style={styles.settingsLink} aria-label="Room settings">
+                ⚙
+              </Link>
+            )}
+            <div style={styles.connectionStatus}>
+              <span style={{
+                ...styles.statusDot,
+                backgroundColor: isConnected ? '#10b981' : '#ef4444'
+              }} />
+              {isConnected ? 'Connected' : 'Disconnected'}
+            </div>
+          </div>
         </div>
-      </div>
 
-      {error && (
-        <div style={styles.errorBar}>
-          <span>{error}</span>
-          <button onClick={clearError} style={styles.closeButton}>×</button>
-        </div>
-      )}
+        {error && (
+          <div style={styles.errorBar}>
+            <span>{error}</span>
+            <button onClick={clearError} style={styles.closeButton}>×</button>
+          </div>
+        )}
 
-      <div style={styles.messagesContainer}>
-        {messages.length === 0 ? (
-          <div style={styles.emptyState}>
-            No messages yet. Start the conversation!
+        {roomError && (
+          <div style={styles.errorBar}>
+            <span>{roomError}</span>
+            <button onClick={() => setRoomError(null)} style={styles.closeButton}>×</button>
           </div>
-        ) : (
-          messages.map((msg, index) => (
-            <div key={msg.id || index} style={styles.messageWrapper}>
-              <div style={styles.messageHeader}>
-                <strong style={styles.userEmail}>{msg.userEmail}</strong>
-                <span style={styles.timestamp}>{formatTime(msg.timestamp)}</span>
-              </div>
-              <div style={styles.messageContent}>{msg.content}</div>
-            </div>
-          ))
         )}
-        
-        {typingUsers.length > 0 && (
-          <div style={styles.typingIndicator}>
-            {typingUsers.map(user => user.userEmail).join(', ')} {typingUsers.length === 1 ? 'is' : 'are'} typing...
+
+        {highlightMissing && (
+          <div style={styles.noticeBar}>
+            <span>The linked message could not be found. It may have been deleted.</span>
+            <button onClick={() => setHighlightMissing(false)} style={styles.noticeCloseButton}>×</button>
           </div>
         )}
+
+        {reportNotice && (
+          <div style={styles.noticeBar}>
+            <span>Thanks for the report. The room's moderators will review it.</span>
+            <button onClick={() => setReportNotice(false)} style={styles.noticeCloseButton}>×</button>
+          </div>
+        )}
+
+        {isArchived && (
+          <div style={styles.noticeBar}>
+            <span>This room has been archived. Its history is read-only.</span>
+          </div>
+        )}
+
+        {isMember && !isArchived && myMutedUntil && (
+          <div style={styles.noticeBar}>
+            <span>You have been muted until {myMutedUntil.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}.</span>
+          </div>
+        )}
+
+        {isMember && !isArchived && !myMutedUntil && slowModeSeconds > 0 && (
+          <div style={styles.noticeBar}>
+            <span>
+              Slow mode is on: one message every {formatDuration(slowModeSeconds)}.
+              {cooldown > 0 && ` You can send again in ${Math.ceil(cooldown / 1000)}s.`}
+            </span>
+          </div>
+        )}
+
+        {room?.id === roomId && !room.isMember && !isArchived && (
+          <div style={styles.joinBanner}>
+            <span>You are not a member of this room yet.</span>
+            <button onClick={handleJoinRoom} disabled={isJoining} style={styles.joinButton}>
+              {isJoining ? 'Joining...' : 'Join room'}
+            </button>
+          </div>
+        )}
+
+        <div style={styles.messagesArea}>
+          <div
+            ref={messagesContainerRef}
+            onScroll={handleScroll}
+            style={styles.messagesContainer}
+          >
+            {isLoadingHistory && (
+              <div style={styles.historyStatus}>Loading messages...</div>
+            )}
+
+            {!isLoadingHistory && messages.length > 0 && !hasMoreHistory && (
+              <div style={styles.historyStatus}>This is the beginning of the conversation</div>
+            )}
+
+            {messages.length === 0 && roomPendingMessages.length === 0 && !isLoadingHistory ? (
+              <div style={styles.emptyState}>
+                No messages yet. Start the conversation!
+              </div>
+            ) : (
+              <div
+                ref={messageListRef}
+                style={{
+                  ...styles.messageList,
+                  paddingTop: messageList.paddingTop,
+                  paddingBottom: messageList.paddingBottom
+                }}
+              >
+                {messageList.rows.map(({ key, index }) => {
+                  const msg = messages[index];
+
+                  return (
+                    <div key={key} ref={messageList.measureRef(key)} style={styles.messageRow}>
+                      <MessageItem
+                        message={msg}
+                        currentUserId={user?.userId ?? null}
+                        mentionCandidates={mentionCandidates}
+                        highlighted={msg.id === highlightedId}
+                        onOpenThread={setThreadParentId}
+                        canReply={isMember}
+                        isEditing={msg.id === editingMessageId}
+                        onEditingChange={setEditingMessageId}
+                        onEdit={editMessage}
+                        onDelete={deleteMessage}
+                        onToggleReaction={isMember ? toggleReaction : undefined}
+                        onReport={isMember ? setReportingMessage : undefined}
+                        renderModerationMenu={canModerate ? renderModerationMenu : undefined}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {roomPendingMessages.map(entry => (
+              <div
+                key={entry.clientMessageId}
+                style={{
+                  ...styles.messageWrapper,
+                  ...styles.pendingMessage,
+                  ...(entry.status === 'failed' ? styles.failedMessage : {})
+                }}
+              >
+                <div style={styles.messageHeader}>
+                  <strong style={styles.userEmail}>You</strong>
+                  <span style={styles.timestamp}>{describePending(entry)}</span>
+                </div>
+                {entry.attachment && (
+                  <div style={styles.pendingAttachment}>📎 {entry.attachment.fileName}</div>
+                )}
+                {entry.content && (
+                  <div style={styles.messageContent}>
+                    <RichText content={entry.content} mentionCandidates={mentionCandidates} currentUserId={user?.userId} />
+                  </div>
+                )}
+                {entry.status === 'failed' && (
+                  <div style={styles.pendingActions}>
+                    <span style={styles.pendingError}>{entry.error}</span>
+                    <button onClick={() => retryMessage(entry.clientMessageId)} style={styles.linkButton}>
+                      Retry
+                    </button>
+                    <button onClick={() => discardMessage(entry.clientMessageId)} style={styles.linkButton}>
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
         
-        <div ref={messagesEndRef} />
+            {typingUsers.length > 0 && (
+              <div style={styles.typingIndicator}>
+                {typingUsers.map(typingUser => typingUser.userEmail).join(', ')} {typingUsers.length === 1 ? 'is' : 'are'} typing...
+              </div>
+            )}
+          </div>
+
+          {!isAtBottom && (
+            <button onClick={scrollToBottom} style={styles.jumpPill}>
+              {newMessageCount > 0
+                ? `${newMessageCount} new message${newMessageCount === 1 ? '' : 's'} ↓`
+                : 'Jump to latest ↓'}
+            </button>
+          )}
+        </div>
+
+        <MessageComposer
+          roomId={roomId}
+          draftKey={roomId}
+          disabled={!isMember || isArchived || isWaiting}
+          placeholder={composerPlaceholder}
+          mentionCandidates={mentionCandidates}
+          onSend={handleSendMessage}
+          onTypingChange={handleTypingChange}
+          onEditLastMessage={handleEditLastMessage}
+        />
       </div>
 
-      <form onSubmit={handleSendMessage} style={styles.inputForm}>
-        <input
-          type="text"
-          value={messageInput}
-          onChange={handleInputChange}
-          placeholder="Type a message..."
-          disabled={!isConnected}
-          style={{
-            ...styles.input,
-            opacity: isConnected ? 1 : 0.5
-          }}
+      {threadParent && (
+        <ThreadPanel
+          key={threadParent.id}
+          roomId={roomId}
+          parent={threadParent}
+          isConnected={isConnected}
+          canReply={isMember}
+          currentUserId={user?.userId ?? null}
+          mentionCandidates={mentionCandidates}
+          onEditMessage={editMessage}
+          onDeleteMessage={deleteMessage}
+          onToggleReaction={isMember ? toggleReaction : undefined}
+          onReport={isMember ? setReportingMessage : undefined}
+          onClose={() => setThreadParentId(null)}
         />
-        <button 
-          type="submit" 
-          disabled={!isConnected || !messageInput.trim()}
-          style={{
-            ...styles.sendButton,
-            opacity: (isConnected && messageInput.trim()) ? 1 : 0.5
+      )}
+
+      {showInvite && room && (
+        <InviteDialog roomId={roomId} roomName={room.name} onClose={() => setShowInvite(false)} />
+      )}
+
+      {showAddPeople && room && (
+        <AddPeopleDialog
+          roomId={roomId}
+          participantIds={room.members.map(m => m.userId)}
+          onClose={() => setShowAddPeople(false)}
+        />
+      )}
+
+      {reportingMessage && (
+        <ReportDialog
+          message={reportingMessage}
+          onClose={() => setReportingMessage(null)}
+          onReported={() => {
+            setReportingMessage(null);
+            setReportNotice(true);
           }}
-        >
-          Send
-        </button>
-      </form>
+        />
+      )}
+
+      {showMembers && isMember && room && (
+        <MemberRoster
+          members={room.members}
+          presence={presence}
+          currentUserId={user?.userId ?? null}
+          renderMemberActions={canModerate ? renderMemberActions : undefined}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
     </div>
   );
 };
 
 const styles: { [key: string]: React.CSSProperties } = {
+  layout: {
+    display: 'flex',
+    justifyContent: 'center',
+    gap: '16px'
+  },
   container: {
     display: 'flex',
     flexDirection: 'column',
+    flex: 1,
     height: '600px',
     maxWidth: '800px',
-    margin: '0 auto',
     border: '1px solid #e5e7eb',
     borderRadius: '8px',
     backgroundColor: '#ffffff',
@@ -173,12 +742,62 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderBottom: '1px solid #e5e7eb',
     backgroundColor: '#f9fafb'
   },
+  directTitle: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    minWidth: 0
+  },
   title: {
     margin: 0,
     fontSize: '20px',
     fontWeight: '600',
     color: '#111827'
   },
+  headerActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '16px'
+  },
+  membersButton: {
+    padding: '4px 10px',
+    border: '1px solid #d1d5db',
+    borderRadius: '14px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    fontSize: '13px',
+    cursor: 'pointer'
+  },
+  settingsLink: {
+    fontSize: '18px',
+    color: '#6b7280',
+    textDecoration: 'none'
+  },
+  reportsLink: {
+    padding: '2px 8px',
+    borderRadius: '12px',
+    fontSize: '13px',
+    color: '#6b7280',
+    textDecoration: 'none'
+  },
+  reportsLinkActive: {
+    backgroundColor: '#fee2e2',
+    color: '#b91c1c',
+    fontWeight: '600'
+  },
+  slowModeSelect: {
+    padding: '4px 6px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    fontSize: '13px'
+  },
+  membersButtonActive: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#eff6ff',
+    color: '#1d4ed8'
+  },
   connectionStatus: {
     display: 'flex',
     alignItems: 'center',
@@ -200,6 +819,43 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: '#991b1b',
     fontSize: '14px'
   },
+  noticeBar: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '12px 20px',
+    backgroundColor: '#fef3c7',
+    color: '#92400e',
+    fontSize: '14px'
+  },
+  noticeCloseButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#92400e',
+    padding: '0',
+    lineHeight: '1'
+  },
+  joinBanner: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '12px 20px',
+    backgroundColor: '#eff6ff',
+    color: '#1e40af',
+    fontSize: '14px'
+  },
+  joinButton: {
+    padding: '6px 14px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '13px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
   closeButton: {
     background: 'none',
     border: 'none',
@@ -209,6 +865,13 @@ const styles: { [key: string]: React.CSSProperties } = {
     padding: '0',
     lineHeight: '1'
   },
+  messagesArea: {
+    position: 'relative',
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    minHeight: 0
+  },
   messagesContainer: {
     flex: 1,
     overflowY: 'auto',
@@ -218,12 +881,39 @@ const styles: { [key: string]: React.CSSProperties } = {
     gap: '16px',
     backgroundColor: '#f9fafb'
   },
+  messageList: {
+    margin: '-8px 0'
+  },
+  messageRow: {
+    padding: '8px 0'
+  },
+  jumpPill: {
+    position: 'absolute',
+    bottom: '16px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    padding: '6px 14px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '9999px',
+    fontSize: '13px',
+    fontWeight: '600',
+    cursor: 'pointer',
+    boxShadow: '0 2px 6px rgba(0, 0, 0, 0.15)'
+  },
   emptyState: {
     textAlign: 'center',
     color: '#9ca3af',
     padding: '40px',
     fontSize: '14px'
   },
+  historyStatus: {
+    textAlign: 'center',
+    color: '#9ca3af',
+    fontSize: '12px',
+    padding: '4px 0'
+  },
   messageWrapper: {
     display: 'flex',
     flexDirection: 'column',
@@ -254,38 +944,43 @@ const styles: { [key: string]: React.CSSProperties } = {
     lineHeight: '1.5',
     wordBreak: 'break-word'
   },
-  typingIndicator: {
+  pendingMessage: {
+    opacity: 0.7
+  },
+  pendingAttachment: {
     fontSize: '13px',
-    color: '#6b7280',
-    fontStyle: 'italic',
-    padding: '8px 0'
+    color: '#374151'
+  },
+  failedMessage: {
+    opacity: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2'
   },
-  inputForm: {
+  pendingActions: {
     display: 'flex',
+    alignItems: 'center',
     gap: '12px',
-    padding: '16px 20px',
-    borderTop: '1px solid #e5e7eb',
-    backgroundColor: '#ffffff'
+    marginTop: '4px',
+    fontSize: '12px'
   },
-  input: {
+  pendingError: {
     flex: 1,
-    padding: '12px 16px',
-    border: '1px solid #d1d5db',
-    borderRadius: '6px',
-    fontSize: '14px',
-    outline: 'none',
-    transition: 'border-color 0.2s'
+    color: '#991b1b'
   },
-  sendButton: {
-    padding: '12px 24px',
-    backgroundColor: '#3b82f6',
-    color: '#ffffff',
+  linkButton: {
+    background: 'none',
     border: 'none',
-    borderRadius: '6px',
-    fontSize: '14px',
+    padding: 0,
+    color: '#3b82f6',
+    fontSize: '12px',
     fontWeight: '600',
-    cursor: 'pointer',
-    transition: 'background-color 0.2s'
+    cursor: 'pointer'
+  },
+  typingIndicator: {
+    fontSize: '13px',
+    color: '#6b7280',
+    fontStyle: 'italic',
+    padding: '8px 0'
   }
 };
 
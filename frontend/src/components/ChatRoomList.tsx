@@ -1,15 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import { useOnlineCounts, useRoomActivity } from '../hooks/useChatStore';
+import { useInvitations } from '../hooks/useInvitations';
+import { usePermissions } from '../hooks/usePermissions';
+import { useRoomListQuery } from '../hooks/useRoomListQuery';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
 import { chatApiService } from '../services/chatApiService';
-import { ChatRoom } from '../services/chatService';
+import { chatCache } from '../services/chatCache';
+import { ChatRoom, ChatRoomInvitation, chatService } from '../services/chatService';
+import { useTenant } from '../tenants/TenantContext';
+import { directRoomTitle, otherParticipants, participantName } from '../utils/directMessages';
+import { applyRoomListQuery, listRoomTenants, RoomListTab } from '../utils/roomListQuery';
+import { Avatar } from './Avatar';
+import { Can } from './Can';
+
+// Group conversations show the first few participants
+const MAX_STACKED_AVATARS = 3;
+
+// Combines joined rooms (which may be private) with the public directory
+const mergeRoomLists = (myRooms: ChatRoom[], publicRooms: ChatRoom[]): ChatRoom[] => {
+  const memberIds = new Set(myRooms.map(room => room.id));
+  const byId = new Map<string, ChatRoom>();
+
+  publicRooms.forEach(room => byId.set(room.id, { ...room, isMember: memberIds.has(room.id) }));
+  myRooms.forEach(room => byId.set(room.id, { ...byId.get(room.id), ...room, isMember: true }));
+
+  return Array.from(byId.values());
+};
 
 interface ChatRoomListProps {
-  token: string;
   onSelectRoom: (roomId: string, roomName: string) => void;
   selectedRoomId: string | null;
 }
 
 export const ChatRoomList: React.FC<ChatRoomListProps> = ({ 
-  token, 
   onSelectRoom,
   selectedRoomId 
 }) => {
@@ -19,16 +43,101 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newRoomName, setNewRoomName] = useState('');
   const [newRoomDescription, setNewRoomDescription] = useState('');
+  const [newRoomPrivate, setNewRoomPrivate] = useState(false);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { activeTenant } = useTenant();
+  const { can } = usePermissions();
+  const tenantId = activeTenant?.id;
+  const { invitations, accept, decline } = useInvitations();
+  const [query, setQuery] = useRoomListQuery();
+  const loadedFromServerRef = useRef(false);
+  const unreadCounts = useUnreadCounts(
+    rooms.filter(room => room.isMember).map(room => room.id),
+    selectedRoomId
+  );
+
+  const roomActivity = useRoomActivity();
+  // Known for joined rooms only
+  const onlineCounts = useOnlineCounts();
 
+  // Activity is tracked by the chat store from live messages; the API does not report it
+  const roomsWithActivity = useMemo(
+    () => rooms.map(room => (roomActivity[room.id] ? { ...room, lastActivityAt: roomActivity[room.id] } : room)),
+    [rooms, roomActivity]
+  );
+
+  // Direct conversations get their own section, most recently active first
+  const directRooms = useMemo(
+    () => roomsWithActivity
+      .filter(room => room.isDirect)
+      .sort((a, b) => (b.lastActivityAt ?? b.createdAt).localeCompare(a.lastActivityAt ?? a.createdAt)),
+    [roomsWithActivity]
+  );
+
+  const namedRooms = useMemo(() => roomsWithActivity.filter(room => !room.isDirect), [roomsWithActivity]);
+
+  // Within a community every room is its own, so the community filter does not apply
+  const visibleRooms = useMemo(
+    () => applyRoomListQuery(namedRooms, tenantId ? { ...query, tenant: 'all' } : query),
+    [namedRooms, query, tenantId]
+  );
+
+  const roomTenants = useMemo(() => listRoomTenants(rooms), [rooms]);
+
+  // Show the rooms cached by the last session until the server answers
   useEffect(() => {
+    chatCache.loadRooms()
+      .then(cached => {
+        const scoped = tenantId ? cached.filter(room => room.tenantId === tenantId) : cached;
+        if (!loadedFromServerRef.current && scoped.length > 0) {
+          setRooms(scoped);
+          setLoading(false);
+        }
+      })
+      .catch(err => console.error('Load cached rooms error:', err));
+
     loadRooms();
-  }, [token]);
+  }, []);
+
+  // Follow admins' changes to joined rooms; archived rooms leave the lists
+  useEffect(() => {
+    const unsubscribers = [
+      chatService.on('RoomUpdated', event => {
+        setRooms(prev => event.isActive
+          ? prev.map(room => room.id === event.chatRoomId
+              ? { ...room, name: event.name, description: event.description ?? undefined }
+              : room)
+          : prev.filter(room => room.id !== event.chatRoomId));
+      }),
+      chatService.on('MemberRemoved', event => {
+        if (event.userId === user?.userId) {
+          loadRooms();
+        }
+      }),
+      // Someone started (or reopened) a conversation with us
+      chatService.on('DirectRoomStarted', () => {
+        loadRooms();
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [user?.userId]);
+
+  useEffect(() => {
+    if (loadedFromServerRef.current) {
+      chatCache.saveRooms(rooms).catch(err => console.error('Cache rooms error:', err));
+    }
+  }, [rooms]);
 
   const loadRooms = async () => {
     try {
-      setLoading(true);
-      const publicRooms = await chatApiService.getPublicRooms(token);
-      setRooms(publicRooms);
+      const [myRooms, publicRooms] = await Promise.all([
+        chatApiService.getMyRooms(tenantId),
+        chatApiService.getPublicRooms(tenantId)
+      ]);
+      loadedFromServerRef.current = true;
+      setRooms(mergeRoomLists(myRooms, publicRooms));
       setError(null);
     } catch (err) {
       setError('Failed to load chat rooms');
@@ -47,22 +156,23 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
 
     try {
       const newRoom = await chatApiService.createRoom(
-        token, 
         newRoomName.trim(), 
         newRoomDescription.trim() || undefined,
-        true
+        !newRoomPrivate,
+        tenantId
       );
       
-      setRooms(prev => [newRoom, ...prev]);
+      setRooms(prev => [{ ...newRoom, isMember: true, memberCount: 1 }, ...prev]);
       setNewRoomName('');
       setNewRoomDescription('');
+      setNewRoomPrivate(false);
       setShowCreateForm(false);
       setError(null);
       
       // Auto-select the newly created room
       onSelectRoom(newRoom.id, newRoom.name);
     } catch (err) {
-      setError('Failed to create room');
+      setError(err instanceof Error ? err.message : 'Failed to create room');
       console.error('Create room error:', err);
     }
   };
@@ -70,7 +180,7 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
   const handleJoinRoom = async (room: ChatRoom) => {
     if (!room.isMember) {
       try {
-        await chatApiService.joinRoom(token, room.id);
+        await chatApiService.joinRoom(room.id);
         // Reload rooms to update membership status
         await loadRooms();
       } catch (err) {
@@ -83,6 +193,26 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
     onSelectRoom(room.id, room.name);
   };
 
+  const handleInvitation = async (invitation: ChatRoomInvitation, response: 'accept' | 'decline') => {
+    setRespondingTo(invitation.id);
+
+    try {
+      if (response === 'accept') {
+        await accept(invitation);
+        await loadRooms();
+        onSelectRoom(invitation.chatRoomId, invitation.chatRoomName);
+      } else {
+        await decline(invitation);
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${response} invitation`);
+      console.error('Invitation response error:', err);
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
   if (loading) {
     return (
       <div style={styles.container}>
@@ -95,18 +225,95 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
     <div style={styles.container}>
       <div style={styles.header}>
         <h2 style={styles.title}>Chat Rooms</h2>
-        <button 
-          onClick={() => setShowCreateForm(!showCreateForm)}
-          style={styles.createButton}
-        >
-          {showCreateForm ? 'Cancel' : '+ New Room'}
-        </button>
+        <Can permission="rooms.create">
+          <button 
+            onClick={() => setShowCreateForm(!showCreateForm)}
+            style={styles.createButton}
+          >
+            {showCreateForm ? 'Cancel' : '+ New Room'}
+          </button>
+        </Can>
       </div>
 
       {error && (
         <div style={styles.error}>{error}</div>
       )}
 
+      <div style={styles.tabs}>
+        {(['mine', 'discover'] as RoomListTab[]).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setQuery({ tab })}
+            style={{
+              ...styles.tab,
+              ...(query.tab === tab ? styles.tabActive : {})
+            }}
+          >
+            {tab === 'mine' ? 'My rooms' : 'Discover'}
+          </button>
+        ))}
+      </div>
+
+      <div style={styles.filters}>
+        <input
+          type="search"
+          placeholder="Search rooms"
+          value={query.search}
+          onChange={(e) => setQuery({ search: e.target.value })}
+          style={styles.input}
+        />
+        <div style={styles.filterRow}>
+          <select
+            value={query.visibility}
+            onChange={(e) => setQuery({ visibility: e.target.value as typeof query.visibility })}
+            style={styles.select}
+            aria-label="Visibility"
+          >
+            <option value="all">Any visibility</option>
+            <option value="public">Public</option>
+            <option value="private">Private</option>
+          </select>
+          {query.tab === 'discover' && (
+            <select
+              value={query.membership}
+              onChange={(e) => setQuery({ membership: e.target.value as typeof query.membership })}
+              style={styles.select}
+              aria-label="Membership"
+            >
+              <option value="all">Joined or not</option>
+              <option value="member">Joined</option>
+              <option value="nonmember">Not joined</option>
+            </select>
+          )}
+        </div>
+        <div style={styles.filterRow}>
+          {!tenantId && (
+            <select
+              value={query.tenant}
+              onChange={(e) => setQuery({ tenant: e.target.value })}
+              style={styles.select}
+              aria-label="Community"
+            >
+              <option value="all">All communities</option>
+              <option value="global">Global rooms</option>
+              {roomTenants.map(tenant => (
+                <option key={tenant.id} value={tenant.id}>{tenant.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={query.sort}
+            onChange={(e) => setQuery({ sort: e.target.value as typeof query.sort })}
+            style={styles.select}
+            aria-label="Sort by"
+          >
+            <option value="activity">Recent activity</option>
+            <option value="members">Member count</option>
+            <option value="created">Newest</option>
+          </select>
+        </div>
+      </div>
+
       {showCreateForm && (
         <form onSubmit={handleCreateRoom} style={styles.createForm}>
           <input
@@ -124,19 +331,100 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
             onChange={(e) => setNewRoomDescription(e.target.value)}
             style={styles.input}
           />
+          <label style={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={newRoomPrivate}
+              onChange={(e) => setNewRoomPrivate(e.target.checked)}
+            />
+            Private (invite only)
+          </label>
           <button type="submit" style={styles.submitButton}>
             Create Room
           </button>
         </form>
       )}
 
+      {invitations.length > 0 && (
+        <div style={styles.invitations}>
+          <h3 style={styles.invitationsTitle}>Invitations ({invitations.length})</h3>
+          {invitations.map(invitation => (
+            <div key={invitation.id} style={styles.invitation}>
+              <div style={styles.invitationText}>
+                <strong>{invitation.chatRoomName}</strong>
+                <span style={styles.invitationFrom}>from {invitation.invitedByEmail}</span>
+              </div>
+              <div style={styles.invitationActions}>
+                <button
+                  onClick={() => handleInvitation(invitation, 'accept')}
+                  disabled={respondingTo === invitation.id}
+                  style={styles.acceptButton}
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => handleInvitation(invitation, 'decline')}
+                  disabled={respondingTo === invitation.id}
+                  style={styles.declineButton}
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {directRooms.length > 0 && (
+        <div style={styles.directMessages}>
+          <h3 style={styles.directMessagesTitle}>Direct messages</h3>
+          {directRooms.map(room => {
+            const others = otherParticipants(room.participants ?? [], user?.userId);
+            const title = directRoomTitle(room.participants ?? [], user?.userId);
+
+            return (
+              <div
+                key={room.id}
+                onClick={() => onSelectRoom(room.id, title)}
+                style={{
+                  ...styles.directRoom,
+                  ...(selectedRoomId === room.id ? styles.roomItemSelected : {})
+                }}
+              >
+                <span style={styles.avatarStack}>
+                  {others.slice(0, MAX_STACKED_AVATARS).map((participant, index) => (
+                    <span key={participant.userId} style={index > 0 ? styles.stackedAvatar : undefined}>
+                      <Avatar userId={participant.userId} name={participantName(participant)} size={24} />
+                    </span>
+                  ))}
+                </span>
+                <span style={styles.directRoomTitle}>{title}</span>
+                {(unreadCounts[room.id] ?? 0) > 0 && (
+                  <span style={styles.unreadBadge}>
+                    {unreadCounts[room.id] > 99 ? '99+' : unreadCounts[room.id]}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <div style={styles.roomList}>
-        {rooms.length === 0 ? (
+        {namedRooms.length === 0 ? (
+          <div style={styles.emptyState}>
+            {can('rooms.create')
+              ? 'No chat rooms available. Create one to get started!'
+              : 'No chat rooms available yet.'}
+          </div>
+        ) : visibleRooms.length === 0 ? (
           <div style={styles.emptyState}>
-            No chat rooms available. Create one to get started!
+            {query.tab === 'mine' && !query.search
+              ? 'You have not joined any rooms yet. Find some under Discover.'
+              : 'No rooms match your search.'}
           </div>
         ) : (
-          rooms.map(room => (
+          visibleRooms.map(room => (
             <div
               key={room.id}
               onClick={() => handleJoinRoom(room)}
@@ -150,6 +438,11 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
                 {!room.isMember && (
                   <span style={styles.badge}>Join</span>
                 )}
+                {room.isMember && (unreadCounts[room.id] ?? 0) > 0 && (
+                  <span style={styles.unreadBadge}>
+                    {unreadCounts[room.id] > 99 ? '99+' : unreadCounts[room.id]}
+                  </span>
+                )}
               </div>
               {room.description && (
                 <p style={styles.roomDescription}>{room.description}</p>
@@ -158,8 +451,16 @@ export const ChatRoomList: React.FC<ChatRoomListProps> = ({
                 <span style={styles.memberCount}>
                   {room.memberCount} {room.memberCount === 1 ? 'member' : 'members'}
                 </span>
-                {room.isPublic && (
+                {room.isMember && (onlineCounts[room.id] ?? 0) > 0 && (
+                  <span style={styles.onlineCount}>
+                    <span style={styles.onlineDot} />
+                    {onlineCounts[room.id]} online
+                  </span>
+                )}
+                {room.isPublic ? (
                   <span style={styles.publicBadge}>Public</span>
+                ) : (
+                  <span style={styles.privateBadge}>Private</span>
                 )}
               </div>
             </div>
@@ -222,6 +523,45 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '14px',
     borderBottom: '1px solid #fecaca'
   },
+  tabs: {
+    display: 'flex',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  tab: {
+    flex: 1,
+    padding: '10px',
+    background: 'none',
+    border: 'none',
+    borderBottom: '2px solid transparent',
+    fontSize: '13px',
+    fontWeight: '600',
+    color: '#6b7280',
+    cursor: 'pointer'
+  },
+  tabActive: {
+    color: '#3b82f6',
+    borderBottomColor: '#3b82f6'
+  },
+  filters: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '12px 16px',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  filterRow: {
+    display: 'flex',
+    gap: '8px'
+  },
+  select: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '12px',
+    backgroundColor: '#ffffff'
+  },
   createForm: {
     display: 'flex',
     flexDirection: 'column',
@@ -237,6 +577,13 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '14px',
     outline: 'none'
   },
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '13px',
+    color: '#374151'
+  },
   submitButton: {
     padding: '8px 12px',
     backgroundColor: '#10b981',
@@ -247,6 +594,106 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontWeight: '600',
     cursor: 'pointer'
   },
+  invitations: {
+    padding: '12px 16px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#fffbeb'
+  },
+  invitationsTitle: {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    color: '#92400e'
+  },
+  invitation: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 0',
+    fontSize: '13px',
+    color: '#111827'
+  },
+  invitationText: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0
+  },
+  invitationFrom: {
+    fontSize: '12px',
+    color: '#6b7280',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  invitationActions: {
+    display: 'flex',
+    gap: '4px',
+    flexShrink: 0
+  },
+  acceptButton: {
+    padding: '4px 8px',
+    backgroundColor: '#10b981',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  declineButton: {
+    padding: '4px 8px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '12px',
+    cursor: 'pointer'
+  },
+  directMessages: {
+    maxHeight: '200px',
+    overflowY: 'auto',
+    padding: '12px 16px',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  directMessagesTitle: {
+    margin: '0 0 8px 0',
+    fontSize: '12px',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    color: '#6b7280'
+  },
+  directRoom: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 8px',
+    border: '1px solid transparent',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  },
+  avatarStack: {
+    display: 'flex',
+    flexShrink: 0
+  },
+  stackedAvatar: {
+    display: 'flex',
+    marginLeft: '-8px',
+    borderRadius: '50%',
+    boxShadow: '0 0 0 2px #ffffff'
+  },
+  directRoomTitle: {
+    flex: 1,
+    minWidth: 0,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    fontSize: '14px',
+    color: '#111827'
+  },
   roomList: {
     flex: 1,
     overflowY: 'auto',
@@ -291,6 +738,16 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '11px',
     fontWeight: '600'
   },
+  unreadBadge: {
+    minWidth: '20px',
+    padding: '2px 6px',
+    backgroundColor: '#ef4444',
+    color: '#ffffff',
+    borderRadius: '10px',
+    fontSize: '11px',
+    fontWeight: '700',
+    textAlign: 'center'
+  },
   roomDescription: {
     margin: '4px 0',
     fontSize: '13px',
@@ -306,6 +763,18 @@ const styles: { [key: string]: React.CSSProperties } = {
   memberCount: {
     color: '#6b7280'
   },
+  onlineCount: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    color: '#047857'
+  },
+  onlineDot: {
+    width: '6px',
+    height: '6px',
+    borderRadius: '50%',
+    backgroundColor: '#10b981'
+  },
   publicBadge: {
     padding: '2px 6px',
     backgroundColor: '#dcfce7',
@@ -314,6 +783,14 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '11px',
     fontWeight: '600'
   },
+  privateBadge: {
+    padding: '2px 6px',
+    backgroundColor: '#f3f4f6',
+    color: '#374151',
+    borderRadius: '10px',
+    fontSize: '11px',
+    fontWeight: '600'
+  },
   refreshButton: {
     padding: '12px',
     backgroundColor: '#f9fafb',
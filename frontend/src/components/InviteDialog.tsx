@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+import { chatApiService, InviteTarget } from '../services/chatApiService';
+import { InviteCandidate } from '../services/chatService';
+import { Avatar } from './Avatar';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface InviteDialogProps {
+  roomId: string;
+  roomName: string;
+  onClose: () => void;
+  /** Called after each invitation that was sent. */
+  onInvited?: () => void;
+}
+
+const looksLikeEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+/**
+ * Invites people to a room: pick someone the user already chats with, or
+ * enter the email of any account.
+ */
+export const InviteDialog: React.FC<InviteDialogProps> = ({ roomId, roomName, onClose, onInvited }) => {
+  const [search, setSearch] = useState('');
+  const [candidates, setCandidates] = useState<InviteCandidate[]>([]);
+  const [invited, setInvited] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useDismiss(dialogRef, onClose);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      chatApiService.searchInviteCandidates(roomId, search.trim())
+        .then(users => {
+          if (!cancelled) setCandidates(users);
+        })
+        .catch(err => console.error('Search invite candidates error:', err));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [roomId, search]);
+
+  const invite = async (target: InviteTarget, label: string, key: string): Promise<boolean> => {
+    setIsSending(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await chatApiService.inviteToRoom(roomId, target);
+      setInvited(prev => [...prev, key]);
+      setNotice(`Invitation sent to ${label}`);
+      onInvited?.();
+      return true;
+    } catch (err) {
+      console.error('Invite error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = search.trim();
+
+    if (!looksLikeEmail(email)) {
+      setError('Pick someone from the list or enter an email address');
+      return;
+    }
+
+    invite({ email }, email, email.toLowerCase()).then(sent => {
+      if (sent) setSearch('');
+    });
+  };
+
+  return (
+    <div style={styles.overlay}>
+      <div ref={dialogRef} style={styles.dialog} role="dialog" aria-label={`Invite people to ${roomName}`}>
+        <div style={styles.header}>
+          <h3 style={styles.title}>Invite people to {roomName}</h3>
+          <button onClick={onClose} style={styles.closeButton} aria-label="Close">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} style={styles.form}>
+          <input
+            type="text"
+            placeholder="Search by name, or enter an email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            style={styles.input}
+            autoFocus
+          />
+          <button type="submit" disabled={isSending || !looksLikeEmail(search.trim())} style={styles.inviteButton}>
+            Invite
+          </button>
+        </form>
+
+        {error && <div style={styles.error}>{error}</div>}
+        {notice && <div style={styles.notice}>{notice}</div>}
+
+        <div style={styles.list}>
+          {candidates.length === 0 ? (
+            <div style={styles.empty}>
+              {search.trim()
+                ? 'Nobody you chat with matches. Invite them by email instead.'
+                : 'People you share rooms with appear here.'}
+            </div>
+          ) : (
+            candidates.map(candidate => {
+              const name = candidate.displayName || candidate.email;
+              const isInvited = invited.includes(candidate.userId) || invited.includes(candidate.email.toLowerCase());
+
+              return (
+                <div key={candidate.userId} style={styles.candidate}>
+                  <Avatar userId={candidate.userId} name={name} />
+                  <div style={styles.candidateText}>
+                    <span style={styles.candidateName}>{name}</span>
+                    {candidate.displayName && <span style={styles.candidateEmail}>{candidate.email}</span>}
+                  </div>
+                  <button
+                    onClick={() => invite({ userId: candidate.userId }, name, candidate.userId)}
+                    disabled={isSending || isInvited}
+                    style={styles.candidateButton}
+                  >
+                    {isInvited ? 'Invited' : 'Invite'}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    zIndex: 20
+  },
+  dialog: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '420px',
+    maxHeight: '520px',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#6b7280',
+    padding: '0',
+    lineHeight: '1'
+  },
+  form: {
+    display: 'flex',
+    gap: '8px',
+    padding: '16px 20px 8px'
+  },
+  input: {
+    flex: 1,
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px'
+  },
+  inviteButton: {
+    padding: '8px 16px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  error: {
+    margin: '0 20px',
+    padding: '8px 12px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    borderRadius: '4px',
+    fontSize: '13px'
+  },
+  notice: {
+    margin: '0 20px',
+    padding: '8px 12px',
+    backgroundColor: '#d1fae5',
+    color: '#065f46',
+    borderRadius: '4px',
+    fontSize: '13px'
+  },
+  list: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px 20px 16px'
+  },
+  empty: {
+    padding: '24px 0',
+    textAlign: 'center',
+    fontSize: '13px',
+    color: '#6b7280'
+  },
+  candidate: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '8px 0'
+  },
+  candidateText: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    minWidth: 0
+  },
+  candidateName: {
+    fontSize: '14px',
+    color: '#111827',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  candidateEmail: {
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  candidateButton: {
+    padding: '4px 12px',
+    backgroundColor: '#ffffff',
+    color: '#3b82f6',
+    border: '1px solid #3b82f6',
+    borderRadius: '4px',
+    fontSize: '13px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  }
+};
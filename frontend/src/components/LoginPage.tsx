@@ -0,0 +1,76 @@
+import React from 'react';
+import { useAuth } from '../auth/AuthContext';
+
+export const LoginPage: React.FC = () => {
+  const { login, error } = useAuth();
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h2 style={styles.title}>Sign in to continue</h2>
+        <p style={styles.text}>
+          Use your community account to join the conversation.
+        </p>
+
+        {error && (
+          <div style={styles.error}>{error}</div>
+        )}
+
+        <button onClick={login} style={styles.button}>
+          Sign in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    flex: 1,
+    padding: '40px'
+  },
+  card: {
+    width: '100%',
+    maxWidth: '400px',
+    padding: '32px',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+    textAlign: 'center'
+  },
+  title: {
+    margin: '0 0 12px 0',
+    fontSize: '22px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  text: {
+    margin: '0 0 24px 0',
+    fontSize: '14px',
+    color: '#6b7280',
+    lineHeight: '1.5'
+  },
+  error: {
+    marginBottom: '16px',
+    padding: '12px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    borderRadius: '6px',
+    fontSize: '14px'
+  },
+  button: {
+    width: '100%',
+    padding: '12px 24px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  }
+};
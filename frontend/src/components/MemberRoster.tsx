@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import { ChatRoomMember, PresenceStatus } from '../services/chatService';
+import { mutedUntil } from '../utils/moderation';
+import { Avatar } from './Avatar';
+import { UserCard } from './UserCard';
+
+const STATUS_SECTIONS: { status: PresenceStatus; label: string }[] = [
+  { status: 'online', label: 'Online' },
+  { status: 'away', label: 'Away' },
+  { status: 'offline', label: 'Offline' }
+];
+
+interface MemberRosterProps {
+  members: ChatRoomMember[];
+  /** Connected members by user id; everyone else is offline. */
+  presence: Record<string, PresenceStatus>;
+  currentUserId: string | null;
+  /** Moderators only: e.g. the moderation menu for each other member. */
+  renderMemberActions?: (member: ChatRoomMember) => React.ReactNode;
+  onClose: () => void;
+}
+
+const nameOf = (member: ChatRoomMember) => member.displayName || member.email;
+
+export const MemberRoster: React.FC<MemberRosterProps> = ({
+  members,
+  presence,
+  currentUserId,
+  renderMemberActions,
+  onClose
+}) => {
+  const sections = useMemo(() => {
+    const sorted = [...members].sort((a, b) => nameOf(a).localeCompare(nameOf(b)));
+
+    return STATUS_SECTIONS
+      .map(section => ({
+        ...section,
+        members: sorted.filter(member => (presence[member.userId] ?? 'offline') === section.status)
+      }))
+      .filter(section => section.members.length > 0);
+  }, [members, presence]);
+
+  const connectedCount = members.filter(member => presence[member.userId]).length;
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <div>
+          <h3 style={styles.title}>Members</h3>
+          <div style={styles.subtitle}>{connectedCount} of {members.length} online</div>
+        </div>
+        <button onClick={onClose} style={styles.closeButton} aria-label="Close members">×</button>
+      </div>
+
+      <div style={styles.list}>
+        {sections.map(section => (
+          <section key={section.status}>
+            <h4 style={styles.sectionTitle}>{section.label} — {section.members.length}</h4>
+            {section.members.map(member => (
+              <div
+                key={member.userId}
+                style={{ ...styles.member, ...(section.status === 'offline' ? styles.offlineMember : {}) }}
+              >
+                <UserCard userId={member.userId} name={nameOf(member)} email={member.email}>
+                  <Avatar userId={member.userId} name={nameOf(member)} status={section.status} />
+                </UserCard>
+                <div style={styles.memberText}>
+                  <span style={styles.memberName}>
+                    {nameOf(member)}
+                    {member.userId === currentUserId && <span style={styles.you}> (you)</span>}
+                  </span>
+                  {member.role !== 'member' && <span style={styles.role}>{member.role}</span>}
+                  {mutedUntil(member) && <span style={styles.muted}>Muted</span>}
+                </div>
+                {renderMemberActions && member.userId !== currentUserId && (
+                  <div style={styles.memberActions}>{renderMemberActions(member)}</div>
+                )}
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  panel: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '260px',
+    height: '600px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  subtitle: {
+    marginTop: '2px',
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#6b7280',
+    padding: '0',
+    lineHeight: '1'
+  },
+  list: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px 16px 16px'
+  },
+  sectionTitle: {
+    margin: '12px 0 8px',
+    fontSize: '11px',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    color: '#6b7280'
+  },
+  member: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '6px 0'
+  },
+  offlineMember: {
+    opacity: 0.6
+  },
+  memberText: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0
+  },
+  memberName: {
+    fontSize: '14px',
+    color: '#111827',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  you: {
+    color: '#6b7280'
+  },
+  muted: {
+    fontSize: '11px',
+    color: '#b91c1c'
+  },
+  memberActions: {
+    marginLeft: 'auto'
+  },
+  role: {
+    fontSize: '11px',
+    color: '#6b7280',
+    textTransform: 'capitalize'
+  }
+};
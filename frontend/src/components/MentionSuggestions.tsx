@@ -0,0 +1,76 @@
+import React from 'react';
+import { MentionCandidate, mentionLabel } from '../utils/mentions';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+}
+
+/** Suggestion list shown above the message input while typing an @mention. */
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ suggestions, activeIndex, onSelect }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul style={styles.list} role="listbox" aria-label="Mention suggestions">
+      {suggestions.map((candidate, index) => (
+        <li
+          key={candidate.userId}
+          role="option"
+          aria-selected={index === activeIndex}
+          // mousedown, not click: keep focus (and the caret) in the input
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(candidate);
+          }}
+          style={{
+            ...styles.item,
+            ...(index === activeIndex ? styles.activeItem : {})
+          }}
+        >
+          <span style={styles.label}>{mentionLabel(candidate)}</span>
+          {mentionLabel(candidate) !== candidate.email && (
+            <span style={styles.email}>{candidate.email}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  list: {
+    position: 'absolute',
+    bottom: '100%',
+    left: 0,
+    right: 0,
+    zIndex: 10,
+    listStyle: 'none',
+    margin: '0 0 4px 0',
+    padding: '4px',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '6px 10px',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  },
+  activeItem: {
+    backgroundColor: '#eff6ff'
+  },
+  label: {
+    fontSize: '14px',
+    color: '#111827',
+    fontWeight: '500'
+  },
+  email: {
+    fontSize: '12px',
+    color: '#6b7280'
+  }
+};
@@ -0,0 +1,216 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { downloadAttachment, useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import { useDismiss } from '../hooks/useDismiss';
+import { ChatAttachment } from '../services/chatService';
+import { formatFileSize, isImageType } from '../utils/attachments';
+
+interface MessageAttachmentProps {
+  roomId: string;
+  attachment: ChatAttachment;
+}
+
+const THUMBNAIL_MAX_WIDTH = 320;
+const THUMBNAIL_MAX_HEIGHT = 240;
+
+// Scale known dimensions down to fit the thumbnail box, so the space is reserved before loading
+const thumbnailSize = (attachment: ChatAttachment): React.CSSProperties => {
+  if (!attachment.width || !attachment.height) {
+    return { maxWidth: THUMBNAIL_MAX_WIDTH, maxHeight: THUMBNAIL_MAX_HEIGHT };
+  }
+
+  const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / attachment.width, THUMBNAIL_MAX_HEIGHT / attachment.height);
+  return { width: Math.round(attachment.width * scale), height: Math.round(attachment.height * scale) };
+};
+
+/** An image thumbnail that opens a full-size preview, or a file card with a download button. */
+export const MessageAttachment: React.FC<MessageAttachmentProps> = ({ roomId, attachment }) => {
+  const isImage = isImageType(attachment.contentType);
+  const { url, error } = useAttachmentUrl(roomId, attachment.id, isImage);
+  const [showPreview, setShowPreview] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const closePreview = useCallback(() => setShowPreview(false), []);
+
+  const handleDownload = async () => {
+    setDownloadError(null);
+
+    try {
+      await downloadAttachment(roomId, attachment.id, attachment.fileName);
+    } catch (err) {
+      console.error('Download attachment error:', err);
+      setDownloadError('Download failed');
+    }
+  };
+
+  if (isImage) {
+    const size = thumbnailSize(attachment);
+
+    return (
+      <>
+        {url ? (
+          <button onClick={() => setShowPreview(true)} style={styles.thumbnailButton} aria-label={`Open ${attachment.fileName}`}>
+            <img src={url} alt={attachment.fileName} style={{ ...styles.thumbnail, ...size }} />
+          </button>
+        ) : (
+          <div style={{ ...styles.thumbnailPlaceholder, ...size }}>
+            {error ?? 'Loading image...'}
+          </div>
+        )}
+        {showPreview && url && (
+          <ImagePreview
+            url={url}
+            fileName={attachment.fileName}
+            onDownload={handleDownload}
+            onClose={closePreview}
+          />
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div style={styles.fileCard}>
+      <span style={styles.fileIcon} aria-hidden="true">📄</span>
+      <div style={styles.fileDetails}>
+        <span style={styles.fileName}>{attachment.fileName}</span>
+        <span style={styles.fileSize}>{downloadError ?? formatFileSize(attachment.size)}</span>
+      </div>
+      <button onClick={handleDownload} style={styles.linkButton}>Download</button>
+    </div>
+  );
+};
+
+interface ImagePreviewProps {
+  url: string;
+  fileName: string;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const ImagePreview: React.FC<ImagePreviewProps> = ({ url, fileName, onDownload, onClose }) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  useDismiss(contentRef, onClose);
+
+  return (
+    <div style={styles.backdrop} role="dialog" aria-label={fileName}>
+      <div ref={contentRef} style={styles.previewContent}>
+        <div style={styles.previewToolbar}>
+          <span style={styles.previewName}>{fileName}</span>
+          <button onClick={onDownload} style={styles.previewButton}>Download</button>
+          <button onClick={onClose} style={styles.previewButton} aria-label="Close preview">×</button>
+        </div>
+        <img src={url} alt={fileName} style={styles.previewImage} />
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  thumbnailButton: {
+    alignSelf: 'flex-start',
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    cursor: 'zoom-in'
+  },
+  thumbnail: {
+    display: 'block',
+    objectFit: 'cover',
+    borderRadius: '6px',
+    border: '1px solid #e5e7eb'
+  },
+  thumbnailPlaceholder: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: '160px',
+    minHeight: '90px',
+    backgroundColor: '#f3f4f6',
+    borderRadius: '6px',
+    fontSize: '12px',
+    color: '#9ca3af'
+  },
+  fileCard: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    alignSelf: 'flex-start',
+    maxWidth: '360px',
+    padding: '8px 12px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    backgroundColor: '#f9fafb'
+  },
+  fileIcon: {
+    fontSize: '24px'
+  },
+  fileDetails: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0,
+    flex: 1
+  },
+  fileName: {
+    fontSize: '14px',
+    color: '#111827',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  fileSize: {
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: '#3b82f6',
+    fontSize: '12px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(17, 24, 39, 0.8)',
+    zIndex: 100
+  },
+  previewContent: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    maxWidth: '90vw',
+    maxHeight: '90vh'
+  },
+  previewToolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '16px',
+    color: '#ffffff'
+  },
+  previewName: {
+    flex: 1,
+    fontSize: '14px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  previewButton: {
+    background: 'none',
+    border: 'none',
+    color: '#ffffff',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  previewImage: {
+    maxWidth: '90vw',
+    maxHeight: 'calc(90vh - 40px)',
+    objectFit: 'contain',
+    borderRadius: '6px'
+  }
+};
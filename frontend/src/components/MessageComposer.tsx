@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useAttachmentUploads } from '../hooks/useAttachmentUploads';
+import { useMentionAutocomplete } from '../hooks/useMentionAutocomplete';
+import { ChatAttachment, MAX_MESSAGE_LENGTH } from '../services/chatService';
+import { draftStorage } from '../services/draftStorage';
+import { ALLOWED_ATTACHMENT_TYPES } from '../utils/attachments';
+import { MentionCandidate } from '../utils/mentions';
+import { toggleWrap } from '../utils/textFormatting';
+import { AttachmentTray } from './AttachmentTray';
+import { MentionSuggestions } from './MentionSuggestions';
+
+// Stop typing after this long without a keystroke
+const TYPING_IDLE_MS = 1000;
+// Receivers drop a typing user after 3s, so repeat the notice while typing continues
+const TYPING_REFRESH_MS = 2500;
+// Show the remaining characters once this much of the limit is used
+const LIMIT_WARNING_RATIO = 0.8;
+const MAX_INPUT_HEIGHT = 160;
+
+const FORMAT_SHORTCUTS: { [key: string]: string } = {
+  b: '**',
+  i: '_',
+  e: '`'
+};
+
+interface MessageComposerProps {
+  /** The room attachments are uploaded to. */
+  roomId: string;
+  /** Where the unsent draft is kept, e.g. the room id; changing it swaps drafts. */
+  draftKey: string;
+  disabled?: boolean;
+  placeholder?: string;
+  submitLabel?: string;
+  mentionCandidates: MentionCandidate[];
+  onSend: (content: string, attachments: ChatAttachment[]) => Promise<void>;
+  onTypingChange?: (isTyping: boolean) => void;
+  /** Up-arrow in an empty composer. */
+  onEditLastMessage?: () => void;
+}
+
+/**
+ * Multi-line message input: Enter sends, Shift+Enter adds a line, Ctrl/Cmd+B, I
+ * and E toggle bold, italics and code. Drafts survive switching rooms. Files can
+ * be attached with the button, by drag and drop or by pasting.
+ */
+export const MessageComposer: React.FC<MessageComposerProps> = ({
+  roomId,
+  draftKey,
+  disabled = false,
+  placeholder = 'Type a message...',
+  submitLabel = 'Send',
+  mentionCandidates,
+  onSend,
+  onTypingChange,
+  onEditLastMessage
+}) => {
+  const [value, setValue] = useState(() => draftStorage.load(draftKey));
+  const [isSending, setIsSending] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const typingSentAtRef = useRef<number | null>(null);
+  const onTypingChangeRef = useRef(onTypingChange);
+
+  useEffect(() => {
+    onTypingChangeRef.current = onTypingChange;
+  }, [onTypingChange]);
+
+  const stopTyping = useCallback(() => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+    }
+
+    if (typingSentAtRef.current !== null) {
+      typingSentAtRef.current = null;
+      onTypingChangeRef.current?.(false);
+    }
+  }, []);
+
+  const notifyTyping = () => {
+    const now = Date.now();
+
+    if (typingSentAtRef.current === null || now - typingSentAtRef.current >= TYPING_REFRESH_MS) {
+      typingSentAtRef.current = now;
+      onTypingChangeRef.current?.(true);
+    }
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    typingTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  // Swap in the other room's draft; the typing notice belonged to the old one
+  useEffect(() => {
+    setValue(draftStorage.load(draftKey));
+    return stopTyping;
+  }, [draftKey, stopTyping]);
+
+  // Grow with the content up to a few lines, then scroll
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    input.style.height = 'auto';
+    input.style.height = `${Math.min(input.scrollHeight, MAX_INPUT_HEIGHT)}px`;
+  }, [value]);
+
+  const updateValue = useCallback((next: string) => {
+    setValue(next);
+    draftStorage.save(draftKey, next);
+  }, [draftKey]);
+
+  const mentions = useMentionAutocomplete(inputRef, value, updateValue, mentionCandidates);
+  const attachments = useAttachmentUploads(roomId);
+
+  const trimmed = value.trim();
+  const isOverLimit = value.length > MAX_MESSAGE_LENGTH;
+  const hasContent = trimmed.length > 0 || attachments.completed.length > 0;
+  // Wait for uploads in flight rather than silently leaving them out
+  const canSend = !disabled && !isSending && hasContent && !isOverLimit && !attachments.isUploading;
+  const showLimit = value.length >= MAX_MESSAGE_LENGTH * LIMIT_WARNING_RATIO;
+
+  const send = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    try {
+      await onSend(trimmed, attachments.completed);
+      updateValue('');
+      attachments.clear();
+      stopTyping();
+    } catch {
+      // The caller reports the error; keep the text so nothing is lost
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    updateValue(e.target.value);
+    mentions.refresh();
+
+    if (e.target.value.length > 0) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
+  const addFiles = (files: File[]) => {
+    if (!disabled && files.length > 0) {
+      attachments.addFiles(files);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+
+    // Pasted text goes into the input as usual
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (disabled || !e.dataTransfer.types.includes('Files')) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between children also fires dragleave
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const applyFormat = (marker: string) => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    const result = toggleWrap(value, input.selectionStart, input.selectionEnd, marker);
+    updateValue(result.text);
+
+    // Restore the selection after React has written the new value
+    requestAnimationFrame(() => input.setSelectionRange(result.selectionStart, result.selectionEnd));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentions.handleKeyDown(e)) return;
+
+    // Let an input method editor finish composing before Enter sends
+    if (e.nativeEvent.isComposing) return;
+
+    const marker = FORMAT_SHORTCUTS[e.key.toLowerCase()];
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && marker) {
+      e.preventDefault();
+      applyFormat(marker);
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send();
+      return;
+    }
+
+    if (e.key === 'ArrowUp' && value.length === 0 && onEditLastMessage) {
+      e.preventDefault();
+      onEditLastMessage();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      style={{
+        ...styles.form,
+        ...(isDragging ? styles.formDragging : {})
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        style={{
+          ...styles.attachButton,
+          opacity: disabled ? 0.5 : 1
+        }}
+        aria-label="Attach files"
+        title="Attach files"
+      >
+        📎
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+        onChange={handleFileInputChange}
+        style={styles.fileInput}
+      />
+      <div style={styles.inputWrapper}>
+        <AttachmentTray uploads={attachments.uploads} onRemove={attachments.remove} />
+        <MentionSuggestions
+          suggestions={mentions.suggestions}
+          activeIndex={mentions.activeIndex}
+          onSelect={mentions.select}
+        />
+        <textarea
+          ref={inputRef}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onSelect={mentions.refresh}
+          onBlur={mentions.dismiss}
+          disabled={disabled}
+          placeholder={isDragging ? 'Drop files to attach' : placeholder}
+          rows={1}
+          aria-label="Message"
+          style={{
+            ...styles.input,
+            ...(isOverLimit ? styles.inputOverLimit : {})
+          }}
+        />
+        {showLimit && (
+          <span
+            style={{
+              ...styles.limit,
+              ...(isOverLimit ? styles.limitExceeded : {})
+            }}
+            aria-live="polite"
+          >
+            {MAX_MESSAGE_LENGTH - value.length}
+          </span>
+        )}
+      </div>
+      <button
+        type="submit"
+        disabled={!canSend}
+        style={{
+          ...styles.sendButton,
+          opacity: canSend ? 1 : 0.5
+        }}
+      >
+        {submitLabel}
+      </button>
+    </form>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  form: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    gap: '12px',
+    padding: '16px 20px',
+    borderTop: '1px solid #e5e7eb',
+    backgroundColor: '#ffffff'
+  },
+  formDragging: {
+    backgroundColor: '#eff6ff',
+    outline: '2px dashed #93c5fd',
+    outlineOffset: '-6px'
+  },
+  attachButton: {
+    padding: '10px 4px',
+    background: 'none',
+    border: 'none',
+    fontSize: '18px',
+    lineHeight: '1',
+    cursor: 'pointer'
+  },
+  fileInput: {
+    display: 'none'
+  },
+  inputWrapper: {
+    position: 'relative',
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column'
+  },
+  input: {
+    padding: '12px 16px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    lineHeight: '1.4',
+    resize: 'none',
+    outline: 'none',
+    transition: 'border-color 0.2s'
+  },
+  inputOverLimit: {
+    borderColor: '#f87171'
+  },
+  limit: {
+    alignSelf: 'flex-end',
+    marginTop: '4px',
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  limitExceeded: {
+    color: '#dc2626',
+    fontWeight: '600'
+  },
+  sendButton: {
+    padding: '12px 24px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer',
+    transition: 'background-color 0.2s'
+  }
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+import { chatApiService } from '../services/chatApiService';
+import { ChatMessage, MessageEdit } from '../services/chatService';
+
+interface MessageEditHistoryProps {
+  message: ChatMessage;
+  onClose: () => void;
+}
+
+/** Popover listing the previous versions of an edited message. */
+export const MessageEditHistory: React.FC<MessageEditHistoryProps> = ({ message, onClose }) => {
+  const [history, setHistory] = useState<MessageEdit[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    chatApiService.getEditHistory(message.chatRoomId, message.id)
+      .then(edits => {
+        if (!cancelled) setHistory(edits);
+      })
+      .catch(err => {
+        console.error('Load edit history error:', err);
+        if (!cancelled) setError('Failed to load edit history');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.chatRoomId, message.id, message.editedAt]);
+
+  useDismiss(popoverRef, onClose);
+
+  const formatDateTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // Each stored version was written when the one before it was replaced
+  const versions = history?.map((edit, index) => ({
+    content: edit.content,
+    writtenAt: index === 0 ? message.timestamp : history[index - 1].editedAt
+  }));
+
+  return (
+    <div ref={popoverRef} style={styles.popover} role="dialog" aria-label="Edit history">
+      <div style={styles.title}>Edit history</div>
+
+      {error && <div style={styles.error}>{error}</div>}
+      {!error && !history && <div style={styles.status}>Loading...</div>}
+
+      {history && (
+        <ol style={styles.list}>
+          {versions?.map((version, index) => (
+            <li key={index} style={styles.version}>
+              <span style={styles.versionTime}>
+                {index === 0 ? 'Original' : 'Edited'} · {formatDateTime(version.writtenAt)}
+              </span>
+              <span style={styles.versionContent}>{version.content}</span>
+            </li>
+          ))}
+          <li style={styles.version}>
+            <span style={styles.versionTime}>
+              Current{message.editedAt ? ` · ${formatDateTime(message.editedAt)}` : ''}
+            </span>
+            <span style={styles.versionContent}>{message.content}</span>
+          </li>
+        </ol>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  popover: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    zIndex: 10,
+    width: '280px',
+    maxHeight: '300px',
+    overflowY: 'auto',
+    marginTop: '4px',
+    padding: '12px',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+  },
+  title: {
+    fontSize: '12px',
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: '8px'
+  },
+  status: {
+    fontSize: '12px',
+    color: '#9ca3af'
+  },
+  error: {
+    fontSize: '12px',
+    color: '#991b1b'
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px'
+  },
+  version: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px'
+  },
+  versionTime: {
+    fontSize: '11px',
+    color: '#9ca3af'
+  },
+  versionContent: {
+    fontSize: '13px',
+    color: '#111827',
+    wordBreak: 'break-word'
+  }
+};
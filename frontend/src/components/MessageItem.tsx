@@ -0,0 +1,407 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { ChatMessage, MAX_MESSAGE_LENGTH } from '../services/chatService';
+import { MentionCandidate } from '../utils/mentions';
+import { findMentionedUserIds } from '../utils/richText';
+import { Can } from './Can';
+import { MessageAttachment } from './MessageAttachment';
+import { MessageEditHistory } from './MessageEditHistory';
+import { ReactionPicker } from './ReactionPicker';
+import { RichText } from './RichText';
+
+interface MessageItemProps {
+  message: ChatMessage;
+  /** The signed-in user: may edit or delete their own messages and toggle their reactions. */
+  currentUserId: string | null;
+  /** Room members that @mentions resolve to. */
+  mentionCandidates?: MentionCandidate[];
+  highlighted?: boolean;
+  /** Timeline only: opens the message's thread from the Reply button or the reply summary. */
+  onOpenThread?: (messageId: string) => void;
+  canReply?: boolean;
+  /** Editing is owned by the list so the composer can start it (up-arrow). */
+  isEditing?: boolean;
+  onEditingChange: (messageId: string | null) => void;
+  onEdit: (messageId: string, content: string) => Promise<void>;
+  onDelete: (messageId: string) => Promise<void>;
+  /** Omit to show reactions read-only (e.g. for non-members). */
+  onToggleReaction?: (messageId: string, emoji: string, add: boolean) => void;
+  /** Members: report other people's messages to the moderators. */
+  onReport?: (message: ChatMessage) => void;
+  /** Moderators only: actions on other people's messages, shown in place of Delete. */
+  renderModerationMenu?: (message: ChatMessage) => React.ReactNode;
+}
+
+const formatTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * One message in a timeline or thread, with inline editing for the author.
+ * Memoized so live updates to one message do not re-render the whole list.
+ */
+export const MessageItem = React.memo<MessageItemProps>(({
+  message,
+  currentUserId,
+  mentionCandidates,
+  highlighted = false,
+  onOpenThread,
+  canReply = false,
+  isEditing = false,
+  onEditingChange,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onReport,
+  renderModerationMenu
+}) => {
+  const [draft, setDraft] = useState(() => (isEditing ? message.content : ''));
+  const [wasEditing, setWasEditing] = useState(isEditing);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+
+  const closeHistory = useCallback(() => setShowHistory(false), []);
+  const closePicker = useCallback(() => setShowPicker(false), []);
+
+  const isOwn = currentUserId !== null && message.userId === currentUserId;
+  const mentionsCurrentUser = useMemo(
+    () => currentUserId !== null && !message.isDeleted &&
+      findMentionedUserIds(message.content, { mentionCandidates }).includes(currentUserId),
+    [message.content, message.isDeleted, mentionCandidates, currentUserId]
+  );
+  const reactions = Object.entries(message.reactions ?? {});
+
+  const hasReacted = (emoji: string) =>
+    currentUserId !== null && (message.reactions?.[emoji] ?? []).includes(currentUserId);
+
+  const handleReaction = (emoji: string) => {
+    onToggleReaction?.(message.id, emoji, !hasReacted(emoji));
+  };
+
+  // Start each edit from the current content
+  if (isEditing !== wasEditing) {
+    setWasEditing(isEditing);
+    if (isEditing) {
+      setDraft(message.content);
+    }
+  }
+
+  const stopEditing = () => onEditingChange(null);
+
+  const saveEdit = async () => {
+    const content = draft.trim();
+
+    if (!content || content === message.content) {
+      stopEditing();
+      return;
+    }
+
+    if (content.length > MAX_MESSAGE_LENGTH) return;
+
+    setIsSaving(true);
+    try {
+      await onEdit(message.id, content);
+      stopEditing();
+    } catch {
+      // useChat reports the error; keep the draft so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      stopEditing();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this message? This cannot be undone.')) return;
+
+    try {
+      await onDelete(message.id);
+    } catch {
+      // Reported by useChat
+    }
+  };
+
+  const canModify = isOwn && !message.isDeleted && !isEditing;
+  const showModerationMenu = renderModerationMenu !== undefined && !isOwn && !message.isDeleted;
+
+  return (
+    <div
+      data-message-id={message.id}
+      style={{
+        ...styles.messageWrapper,
+        ...(mentionsCurrentUser ? styles.mentionedMessage : {}),
+        ...(highlighted ? styles.highlightedMessage : {})
+      }}
+    >
+      <div style={styles.messageHeader}>
+        <strong style={styles.userEmail}>{message.userEmail}</strong>
+        <div style={styles.messageMeta}>
+          {onOpenThread && canReply && !message.isDeleted && (
+            <button onClick={() => onOpenThread(message.id)} style={styles.linkButton}>
+              Reply
+            </button>
+          )}
+          {onToggleReaction && !message.isDeleted && (
+            <span style={styles.popoverAnchor}>
+              <button
+                onClick={() => setShowPicker(open => !open)}
+                style={styles.linkButton}
+                aria-label="Add reaction"
+              >
+                React
+              </button>
+              {showPicker && <ReactionPicker onSelect={handleReaction} onClose={closePicker} />}
+            </span>
+          )}
+          {canModify && (
+            <button onClick={() => onEditingChange(message.id)} style={styles.linkButton}>Edit</button>
+          )}
+          {!message.isDeleted && !isEditing && !showModerationMenu && (
+            <Can permission="messages.deleteAny" unless={isOwn}>
+              <button onClick={handleDelete} style={styles.linkButton}>Delete</button>
+            </Can>
+          )}
+          {onReport && !isOwn && !message.isDeleted && (
+            <button onClick={() => onReport(message)} style={styles.linkButton}>Report</button>
+          )}
+          {showModerationMenu && renderModerationMenu(message)}
+          <span style={styles.timestamp}>{formatTime(message.timestamp)}</span>
+          {message.isEdited && !message.isDeleted && (
+            <span style={styles.popoverAnchor}>
+              <button onClick={() => setShowHistory(open => !open)} style={styles.editedLabel}>
+                (edited)
+              </button>
+              {showHistory && <MessageEditHistory message={message} onClose={closeHistory} />}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {message.isDeleted ? (
+        <div style={styles.tombstone}>This message was deleted</div>
+      ) : isEditing ? (
+        <div style={styles.editor}>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            disabled={isSaving}
+            autoFocus
+            rows={2}
+            style={styles.editInput}
+          />
+          <div style={styles.editActions}>
+            <span style={styles.editHint}>
+              {draft.length > MAX_MESSAGE_LENGTH
+                ? `${draft.length - MAX_MESSAGE_LENGTH} characters over the limit`
+                : 'Enter to save · Esc to cancel'}
+            </span>
+            <button onClick={stopEditing} disabled={isSaving} style={styles.linkButton}>
+              Cancel
+            </button>
+            <button
+              onClick={saveEdit}
+              disabled={isSaving || !draft.trim() || draft.length > MAX_MESSAGE_LENGTH}
+              style={styles.linkButton}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {message.attachment && (
+            <MessageAttachment roomId={message.chatRoomId} attachment={message.attachment} />
+          )}
+          {message.content && (
+            <div style={styles.messageContent}>
+              <RichText content={message.content} mentionCandidates={mentionCandidates} currentUserId={currentUserId} />
+            </div>
+          )}
+        </>
+      )}
+
+      {!message.isDeleted && reactions.length > 0 && (
+        <div style={styles.reactions}>
+          {reactions.map(([emoji, userIds]) => (
+            <button
+              key={emoji}
+              onClick={() => handleReaction(emoji)}
+              disabled={!onToggleReaction}
+              title={hasReacted(emoji) ? 'You reacted · click to remove' : `${userIds.length} reacted`}
+              style={{
+                ...styles.reactionChip,
+                ...(hasReacted(emoji) ? styles.reactionChipActive : {}),
+                cursor: onToggleReaction ? 'pointer' : 'default'
+              }}
+            >
+              <span>{emoji}</span>
+              <span style={styles.reactionCount}>{userIds.length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {onOpenThread && message.thread && message.thread.replyCount > 0 && (
+        <button onClick={() => onOpenThread(message.id)} style={styles.threadSummary}>
+          <span style={styles.threadReplyCount}>
+            {message.thread.replyCount === 1 ? '1 reply' : `${message.thread.replyCount} replies`}
+          </span>
+          <span>{message.thread.latestRepliers.join(', ')}</span>
+          {message.thread.lastReplyAt && (
+            <span>Last reply {formatTime(message.thread.lastReplyAt)}</span>
+          )}
+        </button>
+      )}
+    </div>
+  );
+});
+
+const styles: { [key: string]: React.CSSProperties } = {
+  messageWrapper: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '12px 16px',
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    border: '1px solid #e5e7eb'
+  },
+  mentionedMessage: {
+    borderLeft: '3px solid #f59e0b',
+    backgroundColor: '#fffdf5'
+  },
+  highlightedMessage: {
+    borderColor: '#fcd34d',
+    backgroundColor: '#fffbeb',
+    transition: 'background-color 0.3s'
+  },
+  messageHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '4px'
+  },
+  userEmail: {
+    fontSize: '14px',
+    color: '#3b82f6',
+    fontWeight: '600'
+  },
+  messageMeta: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px'
+  },
+  timestamp: {
+    fontSize: '12px',
+    color: '#9ca3af'
+  },
+  popoverAnchor: {
+    position: 'relative'
+  },
+  editedLabel: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    fontSize: '12px',
+    color: '#9ca3af',
+    cursor: 'pointer'
+  },
+  messageContent: {
+    fontSize: '14px',
+    color: '#111827',
+    lineHeight: '1.5',
+    wordBreak: 'break-word'
+  },
+  tombstone: {
+    fontSize: '14px',
+    color: '#9ca3af',
+    fontStyle: 'italic'
+  },
+  editor: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px'
+  },
+  editInput: {
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    resize: 'vertical',
+    outline: 'none'
+  },
+  editActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px'
+  },
+  editHint: {
+    flex: 1,
+    fontSize: '12px',
+    color: '#9ca3af'
+  },
+  reactions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '6px',
+    marginTop: '4px'
+  },
+  reactionChip: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 8px',
+    backgroundColor: '#f3f4f6',
+    border: '1px solid #e5e7eb',
+    borderRadius: '12px',
+    fontSize: '13px'
+  },
+  reactionChipActive: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#93c5fd'
+  },
+  reactionCount: {
+    fontSize: '12px',
+    color: '#374151',
+    fontWeight: '600'
+  },
+  threadSummary: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    alignSelf: 'flex-start',
+    marginTop: '4px',
+    padding: '4px 8px',
+    background: 'none',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    fontSize: '12px',
+    color: '#6b7280',
+    cursor: 'pointer'
+  },
+  threadReplyCount: {
+    color: '#3b82f6',
+    fontWeight: '600'
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: '#3b82f6',
+    fontSize: '12px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ApiError } from '../services/apiError';
+import { chatApiService } from '../services/chatApiService';
+import { ChatRoomBan, chatService, ModerationAction } from '../services/chatService';
+import { describeModerationAction } from '../utils/moderation';
+import { Avatar } from './Avatar';
+import { RoomUnavailable } from './RoomUnavailable';
+
+const PAGE_SIZE = 50;
+
+interface ModerationLogProps {
+  roomId: string;
+}
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+const formatDateTime = (timestamp: string) => new Date(timestamp).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+/**
+ * Audit log of a room's moderation actions, newest first, with the current bans.
+ * Follows the room's moderation events so every moderator sees the same log.
+ */
+export const ModerationLog: React.FC<ModerationLogProps> = ({ roomId }) => {
+  const [entries, setEntries] = useState<ModerationAction[]>([]);
+  const [bans, setBans] = useState<ChatRoomBan[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [unavailable, setUnavailable] = useState<'notFound' | 'forbidden' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [log, roomBans] = await Promise.all([
+        chatApiService.getModerationLog(roomId, undefined, PAGE_SIZE),
+        chatApiService.getBans(roomId)
+      ]);
+      setEntries(log);
+      setHasMore(log.length === PAGE_SIZE);
+      setBans(roomBans);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        setUnavailable('notFound');
+      } else if (err instanceof ApiError && err.status === 403) {
+        setUnavailable('forbidden');
+      } else {
+        console.error('Load moderation log error:', err);
+        setError('Failed to load the moderation log');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    setEntries([]);
+    setBans([]);
+    setUnavailable(null);
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  // Every moderation action is broadcast to the room; reload the newest page when one lands
+  useEffect(() => {
+    const reloadIfThisRoom = (event: { chatRoomId: string }) => {
+      if (event.chatRoomId === roomId) {
+        load();
+      }
+    };
+
+    const unsubscribers = [
+      chatService.on('MessageDeleted', reloadIfThisRoom),
+      chatService.on('MemberRemoved', reloadIfThisRoom),
+      chatService.on('MemberMuted', reloadIfThisRoom),
+      chatService.on('MemberUnmuted', reloadIfThisRoom),
+      chatService.on('MemberBanned', reloadIfThisRoom),
+      chatService.on('MemberUnbanned', reloadIfThisRoom),
+      chatService.on('SlowModeChanged', reloadIfThisRoom)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [roomId, load]);
+
+  const handleLoadOlder = async () => {
+    const oldest = entries[entries.length - 1];
+    if (!oldest) return;
+
+    setIsLoadingOlder(true);
+
+    try {
+      const older = await chatApiService.getModerationLog(roomId, oldest.createdAt, PAGE_SIZE);
+      setEntries(prev => [...prev, ...older]);
+      setHasMore(older.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('Load older moderation log error:', err);
+      setError(errorMessage(err, 'Failed to load older entries'));
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleUnban = async (ban: ChatRoomBan) => {
+    const name = ban.userDisplayName || ban.userEmail;
+    if (!window.confirm(`Lift the ban on ${name}? They will be able to join the room again.`)) return;
+
+    try {
+      await chatApiService.unbanMember(roomId, ban.userId);
+      setBans(prev => prev.filter(b => b.userId !== ban.userId));
+    } catch (err) {
+      console.error('Unban member error:', err);
+      setError(errorMessage(err, 'Failed to lift the ban'));
+    }
+  };
+
+  if (unavailable) {
+    return <RoomUnavailable reason={unavailable} />;
+  }
+
+  if (isLoading) {
+    return <div style={styles.status}>Loading moderation log...</div>;
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h2 style={styles.title}>Moderation log</h2>
+        <Link to={`/rooms/${roomId}`} style={styles.backLink}>Back to room</Link>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <div style={styles.body}>
+        <section style={styles.section}>
+          <h3 style={styles.sectionTitle}>Banned — {bans.length}</h3>
+          {bans.length === 0 && <div style={styles.muted}>Nobody is banned from this room.</div>}
+          {bans.map(ban => {
+            const name = ban.userDisplayName || ban.userEmail;
+
+            return (
+              <div key={ban.userId} style={styles.row}>
+                <Avatar userId={ban.userId} name={name} />
+                <div style={styles.rowText}>
+                  <span>{name}</span>
+                  <span style={styles.muted}>
+                    by {ban.bannedByEmail} · {formatDateTime(ban.createdAt)}
+                    {ban.reason && ` · ${ban.reason}`}
+                  </span>
+                </div>
+                <button onClick={() => handleUnban(ban)} style={styles.secondaryButton}>Unban</button>
+              </div>
+            );
+          })}
+        </section>
+
+        <section style={{ ...styles.section, ...styles.lastSection }}>
+          <h3 style={styles.sectionTitle}>Actions</h3>
+          {entries.length === 0 && <div style={styles.muted}>No moderation actions yet.</div>}
+          {entries.map(entry => (
+            <div key={entry.id} style={styles.entry}>
+              <div>
+                <strong>{entry.moderatorEmail}</strong> {describeModerationAction(entry)}
+              </div>
+              <div style={styles.muted}>
+                {formatDateTime(entry.createdAt)}
+                {entry.reason && ` · ${entry.reason}`}
+              </div>
+            </div>
+          ))}
+          {hasMore && (
+            <button onClick={handleLoadOlder} disabled={isLoadingOlder} style={styles.secondaryButton}>
+              {isLoadingOlder ? 'Loading...' : 'Load older'}
+            </button>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    height: '600px',
+    maxWidth: '800px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '20px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  backLink: {
+    color: '#3b82f6',
+    fontSize: '14px',
+    fontWeight: '600',
+    textDecoration: 'none'
+  },
+  status: {
+    padding: '40px',
+    textAlign: 'center',
+    color: '#6b7280'
+  },
+  error: {
+    padding: '12px 20px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    fontSize: '14px',
+    borderBottom: '1px solid #fecaca'
+  },
+  body: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px 20px 20px'
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '16px 0',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  lastSection: {
+    borderBottom: 'none'
+  },
+  sectionTitle: {
+    margin: 0,
+    fontSize: '15px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    fontSize: '14px',
+    color: '#111827'
+  },
+  rowText: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    minWidth: 0
+  },
+  entry: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    fontSize: '14px',
+    color: '#111827'
+  },
+  muted: {
+    margin: 0,
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  secondaryButton: {
+    alignSelf: 'flex-start',
+    padding: '4px 12px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,194 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+import { chatApiService } from '../services/chatApiService';
+import { MUTE_DURATIONS } from '../utils/moderation';
+
+interface ModerationMenuProps {
+  roomId: string;
+  userId: string;
+  userName: string;
+  /** Authors who have left the room can still be banned and have messages deleted. */
+  isMember: boolean;
+  /** When the user's current mute ends; null when they are not muted. */
+  mutedUntil: Date | null;
+  /** Set on a message's menu to offer deleting it. */
+  onDeleteMessage?: () => Promise<void>;
+  /** Called after an action succeeds, e.g. to resolve reports as sanctioned. */
+  onDone?: () => void;
+  onError: (message: string) => void;
+}
+
+const formatTime = (date: Date) => date.toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+/**
+ * Moderator actions for a message's author or a room member: delete the message,
+ * mute, remove or ban. Every client hears the outcome through the hub events.
+ */
+export const ModerationMenu: React.FC<ModerationMenuProps> = ({
+  roomId,
+  userId,
+  userName,
+  isMember,
+  mutedUntil,
+  onDeleteMessage,
+  onDone,
+  onError
+}) => {
+  const [open, setOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const menuRef = useRef<HTMLSpanElement>(null);
+  const close = useCallback(() => setOpen(false), []);
+
+  useDismiss(menuRef, close);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setOpen(false);
+    setIsWorking(true);
+
+    try {
+      await action();
+      onDone?.();
+    } catch (err) {
+      console.error('Moderation error:', err);
+      onError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!onDeleteMessage || !window.confirm(`Delete this message by ${userName}?`)) return;
+    run(onDeleteMessage, 'Failed to delete message');
+  };
+
+  const handleMute = (minutes: number) => {
+    run(() => chatApiService.muteMember(roomId, userId, minutes), 'Failed to mute member');
+  };
+
+  const handleUnmute = () => {
+    run(() => chatApiService.unmuteMember(roomId, userId), 'Failed to unmute member');
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(`Remove ${userName} from the room? They can join again.`)) return;
+    run(() => chatApiService.removeMember(roomId, userId), 'Failed to remove member');
+  };
+
+  const handleBan = () => {
+    const reason = window.prompt(`Ban ${userName} from the room? They will not be able to join again.\n\nReason (optional):`);
+    if (reason === null) return;
+    run(() => chatApiService.banMember(roomId, userId, reason.trim() || undefined), 'Failed to ban member');
+  };
+
+  return (
+    <span ref={menuRef} style={styles.anchor}>
+      <button
+        onClick={() => setOpen(isOpen => !isOpen)}
+        disabled={isWorking}
+        style={styles.trigger}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-label={`Moderate ${userName}`}
+        title="Moderate"
+      >
+        ⋯
+      </button>
+
+      {open && (
+        <div style={styles.menu} role="menu">
+          {onDeleteMessage && (
+            <button onClick={handleDelete} style={styles.item} role="menuitem">Delete message</button>
+          )}
+          {isMember && (mutedUntil ? (
+            <button onClick={handleUnmute} style={styles.item} role="menuitem">
+              Unmute <span style={styles.hint}>(muted until {formatTime(mutedUntil)})</span>
+            </button>
+          ) : (
+            <>
+              <div style={styles.groupLabel}>Mute for</div>
+              {MUTE_DURATIONS.map(duration => (
+                <button
+                  key={duration.minutes}
+                  onClick={() => handleMute(duration.minutes)}
+                  style={{ ...styles.item, ...styles.nestedItem }}
+                  role="menuitem"
+                >
+                  {duration.label}
+                </button>
+              ))}
+            </>
+          ))}
+          {isMember && (
+            <button onClick={handleRemove} style={styles.item} role="menuitem">Remove from room</button>
+          )}
+          <button onClick={handleBan} style={{ ...styles.item, ...styles.dangerItem }} role="menuitem">
+            Ban from room
+          </button>
+        </div>
+      )}
+    </span>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  anchor: {
+    position: 'relative'
+  },
+  trigger: {
+    background: 'none',
+    border: 'none',
+    color: '#6b7280',
+    fontSize: '14px',
+    lineHeight: '1',
+    padding: '0 4px',
+    cursor: 'pointer'
+  },
+  menu: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    zIndex: 10,
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: '180px',
+    marginTop: '4px',
+    padding: '4px',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+  },
+  groupLabel: {
+    padding: '6px 8px 2px',
+    fontSize: '11px',
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase'
+  },
+  item: {
+    padding: '6px 8px',
+    background: 'none',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '13px',
+    color: '#111827',
+    textAlign: 'left',
+    whiteSpace: 'nowrap',
+    cursor: 'pointer'
+  },
+  nestedItem: {
+    paddingLeft: '16px'
+  },
+  dangerItem: {
+    color: '#b91c1c'
+  },
+  hint: {
+    color: '#6b7280',
+    fontSize: '12px'
+  }
+};
@@ -0,0 +1,60 @@
+import React, { useRef } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+
+const REACTION_EMOJI = ['👍', '❤️', '😂', '🎉', '😮', '😢', '🙏', '👀', '🔥', '✅', '👎', '🚀'];
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({ onSelect, onClose }) => {
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useDismiss(pickerRef, onClose);
+
+  return (
+    <div ref={pickerRef} style={styles.picker} role="dialog" aria-label="Add reaction">
+      {REACTION_EMOJI.map(emoji => (
+        <button
+          key={emoji}
+          onClick={() => {
+            onSelect(emoji);
+            onClose();
+          }}
+          style={styles.emojiButton}
+          aria-label={`React with ${emoji}`}
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  picker: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    zIndex: 10,
+    display: 'grid',
+    gridTemplateColumns: 'repeat(6, 32px)',
+    gap: '4px',
+    marginTop: '4px',
+    padding: '8px',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+  },
+  emojiButton: {
+    width: '32px',
+    height: '32px',
+    background: 'none',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '18px',
+    cursor: 'pointer'
+  }
+};
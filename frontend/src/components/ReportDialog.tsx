@@ -0,0 +1,231 @@
+import React, { useRef, useState } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+import { chatApiService } from '../services/chatApiService';
+import { ChatMessage, ReportReason } from '../services/chatService';
+import { REPORT_REASONS } from '../utils/moderation';
+
+// Keep in sync with MaxNoteLength in the backend MessageReportsController
+const MAX_NOTE_LENGTH = 500;
+
+interface ReportDialogProps {
+  message: ChatMessage;
+  onClose: () => void;
+  onReported: () => void;
+}
+
+/**
+ * Reports a message to the room's moderators with a reason and an optional note.
+ */
+export const ReportDialog: React.FC<ReportDialogProps> = ({ message, onClose, onReported }) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [note, setNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useDismiss(dialogRef, onClose);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      await chatApiService.reportMessage(message.chatRoomId, message.id, reason, note.trim() || undefined);
+      onReported();
+    } catch (err) {
+      console.error('Report message error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to report message');
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div style={styles.overlay}>
+      <div ref={dialogRef} style={styles.dialog} role="dialog" aria-label="Report message">
+        <div style={styles.header}>
+          <h3 style={styles.title}>Report message</h3>
+          <button onClick={onClose} style={styles.closeButton} aria-label="Close">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} style={styles.form}>
+          <blockquote style={styles.quote}>
+            <strong>{message.userEmail}</strong>
+            <div style={styles.quoteText}>{message.content || 'Attachment'}</div>
+          </blockquote>
+
+          <fieldset style={styles.reasons}>
+            <legend style={styles.legend}>Why are you reporting it?</legend>
+            {REPORT_REASONS.map(option => (
+              <label key={option.value} style={styles.reason}>
+                <input
+                  type="radio"
+                  name="reason"
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <label style={styles.label}>
+            Anything moderators should know? (optional)
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={MAX_NOTE_LENGTH}
+              rows={3}
+              style={styles.textarea}
+            />
+          </label>
+
+          {error && <div style={styles.error}>{error}</div>}
+
+          <div style={styles.actions}>
+            <button type="button" onClick={onClose} style={styles.secondaryButton}>Cancel</button>
+            <button type="submit" disabled={!reason || isSending} style={styles.primaryButton}>
+              {isSending ? 'Reporting...' : 'Report'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    zIndex: 20
+  },
+  dialog: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '420px',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#6b7280',
+    padding: '0',
+    lineHeight: '1'
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '16px 20px'
+  },
+  quote: {
+    margin: 0,
+    padding: '8px 12px',
+    borderLeft: '3px solid #d1d5db',
+    backgroundColor: '#f9fafb',
+    fontSize: '13px',
+    color: '#374151'
+  },
+  quoteText: {
+    marginTop: '2px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  reasons: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    margin: 0,
+    padding: 0,
+    border: 'none'
+  },
+  legend: {
+    marginBottom: '6px',
+    fontSize: '13px',
+    fontWeight: '600',
+    color: '#374151'
+  },
+  reason: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '14px',
+    color: '#111827'
+  },
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    fontSize: '13px',
+    fontWeight: '600',
+    color: '#374151'
+  },
+  textarea: {
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: 'normal',
+    fontFamily: 'inherit',
+    resize: 'vertical'
+  },
+  error: {
+    padding: '8px 12px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    borderRadius: '4px',
+    fontSize: '13px'
+  },
+  actions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '8px'
+  },
+  primaryButton: {
+    padding: '8px 16px',
+    backgroundColor: '#dc2626',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  secondaryButton: {
+    padding: '8px 16px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,418 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../auth/AuthContext';
+import { useChat } from '../hooks/useChat';
+import { ApiError } from '../services/apiError';
+import { chatApiService } from '../services/chatApiService';
+import { ChatMessage, ChatRoomMember, chatService, ReportedMessage } from '../services/chatService';
+import { mutedUntil, reportContextRange, reportReasonLabel } from '../utils/moderation';
+import { ModerationMenu } from './ModerationMenu';
+import { RoomUnavailable } from './RoomUnavailable';
+
+// Messages shown before and after each reported message
+const CONTEXT_RADIUS = 2;
+
+interface ReportQueueProps {
+  roomId: string;
+}
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+const formatDateTime = (timestamp: string) => new Date(timestamp).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+/**
+ * Review queue for a room's moderators: each reported message with the messages around it
+ * and its reports. Moderators dismiss the reports, remove the message, or sanction the author.
+ */
+export const ReportQueue: React.FC<ReportQueueProps> = ({ roomId }) => {
+  const { user } = useAuth();
+  const { isConnected, deleteMessage, error: chatError, clearError } = useChat({ autoConnect: true });
+  const [reported, setReported] = useState<ReportedMessage[]>([]);
+  const [members, setMembers] = useState<ChatRoomMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState<'notFound' | 'forbidden' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [queue, room] = await Promise.all([
+        chatApiService.getReports(roomId),
+        chatApiService.getRoom(roomId)
+      ]);
+      setReported(queue);
+      setMembers(room.members);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        setUnavailable('notFound');
+      } else if (err instanceof ApiError && err.status === 403) {
+        setUnavailable('forbidden');
+      } else {
+        console.error('Load reports error:', err);
+        setError('Failed to load the review queue');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    setReported([]);
+    setUnavailable(null);
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  // New reports, resolutions by other moderators and sanctions all change the queue
+  useEffect(() => {
+    const reloadIfThisRoom = (event: { chatRoomId: string }) => {
+      if (event.chatRoomId === roomId) {
+        load();
+      }
+    };
+
+    const unsubscribers = [
+      chatService.on('ReportsChanged', reloadIfThisRoom),
+      chatService.on('MemberMuted', reloadIfThisRoom),
+      chatService.on('MemberUnmuted', reloadIfThisRoom),
+      chatService.on('MemberRemoved', reloadIfThisRoom)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [roomId, load]);
+
+  const resolve = async (item: ReportedMessage, resolution: 'dismissed' | 'sanctioned') => {
+    try {
+      await chatApiService.resolveReports(roomId, item.messageId, resolution);
+      setReported(prev => prev.filter(r => r.messageId !== item.messageId));
+    } catch (err) {
+      console.error('Resolve reports error:', err);
+      setError(errorMessage(err, 'Failed to resolve reports'));
+    }
+  };
+
+  // Deleting the message resolves its reports on the server
+  const handleRemove = async (item: ReportedMessage) => {
+    if (!window.confirm(`Delete this message by ${item.authorEmail}?`)) return;
+
+    try {
+      await deleteMessage(item.messageId);
+    } catch {
+      // Reported by useChat
+    }
+  };
+
+  if (unavailable) {
+    return <RoomUnavailable reason={unavailable} />;
+  }
+
+  if (isLoading) {
+    return <div style={styles.status}>Loading review queue...</div>;
+  }
+
+  const reportCount = reported.reduce((count, item) => count + item.reports.length, 0);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <div>
+          <h2 style={styles.title}>Review queue</h2>
+          <div style={styles.subtitle}>
+            {reportCount === 1 ? '1 open report' : `${reportCount} open reports`}
+          </div>
+        </div>
+        <Link to={`/rooms/${roomId}`} style={styles.backLink}>Back to room</Link>
+      </div>
+
+      {(error || chatError) && (
+        <div style={styles.error}>
+          <span>{error ?? chatError}</span>
+          <button
+            onClick={() => {
+              setError(null);
+              clearError();
+            }}
+            style={styles.closeButton}
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      <div style={styles.body}>
+        {reported.length === 0 && <div style={styles.empty}>No open reports. All clear!</div>}
+        {reported.map(item => {
+          const author = members.find(m => m.userId === item.authorId);
+
+          return (
+            <section key={item.messageId} style={styles.card}>
+              <ReportContext roomId={roomId} item={item} />
+
+              <ul style={styles.reports}>
+                {item.reports.map(report => (
+                  <li key={report.id} style={styles.report}>
+                    <strong>{reportReasonLabel(report.reason)}</strong>
+                    <span style={styles.muted}> · {report.reporterEmail} · {formatDateTime(report.createdAt)}</span>
+                    {report.note && <div style={styles.note}>{report.note}</div>}
+                  </li>
+                ))}
+              </ul>
+
+              <div style={styles.actions}>
+                <button onClick={() => resolve(item, 'dismissed')} style={styles.secondaryButton}>
+                  Dismiss
+                </button>
+                <button
+                  onClick={() => handleRemove(item)}
+                  disabled={!isConnected || item.isDeleted}
+                  style={styles.dangerButton}
+                >
+                  Remove message
+                </button>
+                {item.authorId !== user?.userId && (
+                  <span style={styles.sanction}>
+                    Sanction {author?.displayName || item.authorEmail}
+                    <ModerationMenu
+                      roomId={roomId}
+                      userId={item.authorId}
+                      userName={author?.displayName || item.authorEmail}
+                      isMember={author !== undefined}
+                      mutedUntil={mutedUntil(author)}
+                      onDone={() => resolve(item, 'sanctioned')}
+                      onError={setError}
+                    />
+                  </span>
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+interface ReportContextProps {
+  roomId: string;
+  item: ReportedMessage;
+}
+
+/** The reported message among its neighbours, fetched through getMessages. */
+const ReportContext: React.FC<ReportContextProps> = ({ roomId, item }) => {
+  const [context, setContext] = useState<ChatMessage[] | null>(null);
+  // Replies are not in the timeline, so they are shown below their thread's parent
+  const anchorId = item.parentMessageId ?? item.messageId;
+
+  useEffect(() => {
+    let cancelled = false;
+    const { skip, take } = reportContextRange(item.newerMessageCount, CONTEXT_RADIUS);
+
+    chatApiService.getMessages(roomId, skip, take)
+      .then(messages => {
+        if (!cancelled) setContext([...messages].reverse());
+      })
+      .catch(err => {
+        console.error('Load report context error:', err);
+        if (!cancelled) setContext([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, item.newerMessageCount]);
+
+  const reportedLine = (
+    <div style={{ ...styles.contextLine, ...styles.reportedLine }}>
+      <strong>{item.authorEmail}</strong>{' '}
+      {item.isDeleted ? <em>This message was deleted</em> : item.content || <em>Attachment</em>}
+      <span style={styles.muted}> · {formatDateTime(item.messageCreatedAt)}</span>
+    </div>
+  );
+
+  if (context === null) {
+    return <div style={styles.muted}>Loading context...</div>;
+  }
+
+  // The message may have moved if newer ones were deleted since; show it on its own then
+  if (!context.some(m => m.id === anchorId)) {
+    return <div style={styles.context}>{reportedLine}</div>;
+  }
+
+  return (
+    <div style={styles.context}>
+      {context.map(message => (
+        <React.Fragment key={message.id}>
+          {message.id === item.messageId ? reportedLine : (
+            <div style={styles.contextLine}>
+              <strong>{message.userEmail}</strong>{' '}
+              {message.isDeleted ? <em>This message was deleted</em> : message.content || <em>Attachment</em>}
+            </div>
+          )}
+          {message.id === anchorId && anchorId !== item.messageId && (
+            <div style={styles.replyIndent}>{reportedLine}</div>
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    height: '600px',
+    maxWidth: '800px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '20px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  subtitle: {
+    marginTop: '2px',
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  backLink: {
+    color: '#3b82f6',
+    fontSize: '14px',
+    fontWeight: '600',
+    textDecoration: 'none'
+  },
+  status: {
+    padding: '40px',
+    textAlign: 'center',
+    color: '#6b7280'
+  },
+  error: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '12px 20px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    fontSize: '14px',
+    borderBottom: '1px solid #fecaca'
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#991b1b',
+    padding: '0',
+    lineHeight: '1'
+  },
+  body: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px 20px 20px'
+  },
+  empty: {
+    padding: '40px',
+    textAlign: 'center',
+    color: '#9ca3af',
+    fontSize: '14px'
+  },
+  card: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '16px 0',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  context: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '8px 12px',
+    backgroundColor: '#f9fafb',
+    borderRadius: '6px'
+  },
+  contextLine: {
+    fontSize: '13px',
+    color: '#6b7280',
+    wordBreak: 'break-word'
+  },
+  reportedLine: {
+    padding: '4px 8px',
+    borderLeft: '3px solid #f87171',
+    backgroundColor: '#fef2f2',
+    color: '#111827'
+  },
+  replyIndent: {
+    paddingLeft: '16px'
+  },
+  reports: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    margin: 0,
+    padding: 0,
+    listStyle: 'none'
+  },
+  report: {
+    fontSize: '13px',
+    color: '#111827'
+  },
+  note: {
+    marginTop: '2px',
+    color: '#374151',
+    fontStyle: 'italic'
+  },
+  muted: {
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px'
+  },
+  sanction: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    marginLeft: 'auto',
+    fontSize: '13px',
+    color: '#374151'
+  },
+  secondaryButton: {
+    padding: '4px 12px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer'
+  },
+  dangerButton: {
+    padding: '4px 12px',
+    backgroundColor: '#ffffff',
+    color: '#b91c1c',
+    border: '1px solid #fca5a5',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer'
+  }
+};
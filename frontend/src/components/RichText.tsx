@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseRichText, RichTextOptions } from '../utils/richText';
+import { UserCard } from './UserCard';
+
+interface RichTextProps extends RichTextOptions {
+  content: string;
+}
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'bold':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index} style={styles.code}>{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" style={styles.link}>
+            {node.text}
+          </a>
+        );
+      case 'mention':
+        return (
+          <UserCard key={index} userId={node.userId} name={node.label}>
+            <span
+              data-user-id={node.userId}
+              style={{ ...styles.mention, ...(node.isCurrentUser ? styles.selfMention : {}) }}
+            >
+              @{node.label}
+            </span>
+          </UserCard>
+        );
+      case 'lineBreak':
+        return <br key={index} />;
+    }
+  });
+
+const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} style={styles.paragraph}>{renderInline(block.children)}</p>;
+      case 'codeBlock':
+        return <pre key={index} style={styles.codeBlock}><code>{block.text}</code></pre>;
+      case 'quote':
+        return <blockquote key={index} style={styles.quote}>{renderBlocks(block.children)}</blockquote>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start} style={styles.list}>{items}</ol>
+          : <ul key={index} style={styles.list}>{items}</ul>;
+      }
+    }
+  });
+
+/**
+ * Renders message content through the Markdown-subset parser. Only React
+ * elements are produced (never raw HTML), so content cannot inject markup.
+ */
+export const RichText: React.FC<RichTextProps> = ({ content, mentionCandidates, currentUserId }) => {
+  const blocks = useMemo(
+    () => parseRichText(content, { mentionCandidates, currentUserId }),
+    [content, mentionCandidates, currentUserId]
+  );
+
+  return <>{renderBlocks(blocks)}</>;
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  paragraph: {
+    margin: 0
+  },
+  code: {
+    padding: '1px 4px',
+    backgroundColor: '#f3f4f6',
+    borderRadius: '4px',
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+    fontSize: '13px'
+  },
+  codeBlock: {
+    margin: '4px 0',
+    padding: '8px 12px',
+    backgroundColor: '#f3f4f6',
+    borderRadius: '6px',
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+    fontSize: '13px',
+    whiteSpace: 'pre-wrap',
+    overflowX: 'auto'
+  },
+  quote: {
+    margin: '4px 0',
+    padding: '0 0 0 12px',
+    borderLeft: '3px solid #d1d5db',
+    color: '#4b5563'
+  },
+  list: {
+    margin: '4px 0',
+    paddingLeft: '20px'
+  },
+  link: {
+    color: '#2563eb',
+    textDecoration: 'underline'
+  },
+  mention: {
+    padding: '0 2px',
+    borderRadius: '4px',
+    backgroundColor: '#eff6ff',
+    color: '#1d4ed8',
+    fontWeight: '600'
+  },
+  selfMention: {
+    backgroundColor: '#fef3c7',
+    color: '#92400e'
+  }
+};
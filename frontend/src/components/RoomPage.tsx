@@ -0,0 +1,50 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { ChatRoom } from './ChatRoom';
+import { ModerationLog } from './ModerationLog';
+import { ReportQueue } from './ReportQueue';
+import { RoomSettings } from './RoomSettings';
+
+/** Route element for /rooms/:roomId and /rooms/:roomId/messages/:messageId. */
+export const RoomPage: React.FC = () => {
+  const { roomId, messageId } = useParams<{ roomId: string; messageId?: string }>();
+
+  if (!roomId) {
+    return null;
+  }
+
+  return <ChatRoom roomId={roomId} highlightMessageId={messageId} />;
+};
+
+/** Route element for /rooms/:roomId/settings. */
+export const RoomSettingsPage: React.FC = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+
+  if (!roomId) {
+    return null;
+  }
+
+  return <RoomSettings roomId={roomId} />;
+};
+
+/** Route element for /rooms/:roomId/moderation. */
+export const ModerationLogPage: React.FC = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+
+  if (!roomId) {
+    return null;
+  }
+
+  return <ModerationLog roomId={roomId} />;
+};
+
+/** Route element for /rooms/:roomId/reports. */
+export const ReportQueuePage: React.FC = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+
+  if (!roomId) {
+    return null;
+  }
+
+  return <ReportQueue roomId={roomId} />;
+};
@@ -0,0 +1,435 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../auth/AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
+import { ApiError } from '../services/apiError';
+import { chatApiService } from '../services/chatApiService';
+import { ChatRoomDetails, ChatRoomInvitation } from '../services/chatService';
+import { Avatar } from './Avatar';
+import { InviteDialog } from './InviteDialog';
+import { RoomUnavailable } from './RoomUnavailable';
+
+interface RoomSettingsProps {
+  roomId: string;
+}
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+/**
+ * Settings screen for room admins: details, members, pending invitations and archiving.
+ * Tenant members with rooms.manage or members.manage see the parts they may change.
+ */
+export const RoomSettings: React.FC<RoomSettingsProps> = ({ roomId }) => {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const navigate = useNavigate();
+  const [room, setRoom] = useState<ChatRoomDetails | null>(null);
+  const [invitations, setInvitations] = useState<ChatRoomInvitation[]>([]);
+  const [unavailable, setUnavailable] = useState<'notFound' | 'forbidden' | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [maxParticipants, setMaxParticipants] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(await chatApiService.getRoomInvitations(roomId));
+    } catch (err) {
+      console.error('Load room invitations error:', err);
+    }
+  }, [roomId]);
+
+  const loadRoom = useCallback(async () => {
+    try {
+      const details = await chatApiService.getRoom(roomId);
+      setRoom(details);
+      setName(details.name);
+      setDescription(details.description ?? '');
+      setMaxParticipants(details.maxParticipants ? String(details.maxParticipants) : '');
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        setUnavailable('notFound');
+      } else if (err instanceof ApiError && err.status === 403) {
+        setUnavailable('forbidden');
+      } else {
+        console.error('Load room error:', err);
+        setError('Failed to load chat room');
+      }
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    setRoom(null);
+    setUnavailable(null);
+    loadRoom();
+    loadInvitations();
+  }, [loadRoom, loadInvitations]);
+
+  const isAdmin = room?.members.some(m => m.userId === user?.userId && m.role === 'admin') ?? false;
+  // Tenant admins manage every room of the tenant, moderators only its members
+  const canManageRoom = isAdmin || can('rooms.manage');
+  const canManageMembers = isAdmin || can('members.manage');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const limit = maxParticipants.trim() ? Number(maxParticipants) : null;
+
+    if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+      setError('The member limit must be a whole number, or empty for no limit');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await chatApiService.updateRoom(roomId, {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        maxParticipants: limit
+      });
+      await loadRoom();
+      setNotice('Settings saved');
+    } catch (err) {
+      console.error('Update room error:', err);
+      setError(errorMessage(err, 'Failed to save settings'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (userId: string, memberName: string) => {
+    if (!window.confirm(`Remove ${memberName} from the room?`)) return;
+
+    try {
+      await chatApiService.removeMember(roomId, userId);
+      await loadRoom();
+    } catch (err) {
+      console.error('Remove member error:', err);
+      setError(errorMessage(err, 'Failed to remove member'));
+    }
+  };
+
+  const handleRevoke = async (invitation: ChatRoomInvitation) => {
+    try {
+      await chatApiService.revokeInvitation(roomId, invitation.id);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    } catch (err) {
+      console.error('Revoke invitation error:', err);
+      setError(errorMessage(err, 'Failed to revoke invitation'));
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!window.confirm('Archive this room? It will disappear from room lists and no longer accept messages.')) return;
+
+    try {
+      await chatApiService.archiveRoom(roomId);
+      navigate('/rooms');
+    } catch (err) {
+      console.error('Archive room error:', err);
+      setError(errorMessage(err, 'Failed to archive room'));
+    }
+  };
+
+  if (unavailable) {
+    return <RoomUnavailable reason={unavailable} />;
+  }
+
+  if (!room) {
+    return <div style={styles.status}>{error ?? 'Loading room settings...'}</div>;
+  }
+
+  if (!canManageRoom && !canManageMembers) {
+    return <RoomUnavailable reason="forbidden" />;
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h2 style={styles.title}>Room settings</h2>
+        <Link to={`/rooms/${roomId}`} style={styles.backLink}>Back to room</Link>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+      {notice && <div style={styles.notice}>{notice}</div>}
+
+      <div style={styles.body}>
+        {!room.isActive && (
+          <div style={styles.archivedNotice}>This room is archived. Its history is read-only.</div>
+        )}
+
+        {canManageRoom && (
+          <form onSubmit={handleSave} style={styles.section}>
+            <label style={styles.label}>
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                style={styles.input}
+                required
+              />
+            </label>
+            <label style={styles.label}>
+              Description
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                style={styles.textarea}
+                rows={3}
+              />
+            </label>
+            <label style={styles.label}>
+              Member limit
+              <input
+                type="number"
+                min={room.members.length}
+                placeholder="No limit"
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+                style={styles.input}
+              />
+            </label>
+            <button type="submit" disabled={isSaving || !room.isActive} style={styles.primaryButton}>
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </button>
+          </form>
+        )}
+
+        <section style={styles.section}>
+          <div style={styles.sectionHeader}>
+            <h3 style={styles.sectionTitle}>Members — {room.members.length}</h3>
+          </div>
+          {room.members.map(member => {
+            const memberName = member.displayName || member.email;
+
+            return (
+              <div key={member.userId} style={styles.row}>
+                <Avatar userId={member.userId} name={memberName} />
+                <div style={styles.rowText}>
+                  <span>{memberName}{member.userId === user?.userId && <span style={styles.muted}> (you)</span>}</span>
+                  <span style={styles.muted}>{member.role}</span>
+                </div>
+                {canManageMembers && member.userId !== user?.userId && (
+                  <button onClick={() => handleRemoveMember(member.userId, memberName)} style={styles.secondaryButton}>
+                    Remove
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </section>
+
+        {isAdmin && (
+          <section style={styles.section}>
+            <div style={styles.sectionHeader}>
+              <h3 style={styles.sectionTitle}>Pending invitations — {invitations.length}</h3>
+              {room.isActive && (
+                <button onClick={() => setShowInvite(true)} style={styles.secondaryButton}>
+                  Invite people
+                </button>
+              )}
+            </div>
+            {invitations.length === 0 && <div style={styles.muted}>No pending invitations.</div>}
+            {invitations.map(invitation => (
+              <div key={invitation.id} style={styles.row}>
+                <div style={styles.rowText}>
+                  <span>{invitation.invitedUserEmail}</span>
+                  <span style={styles.muted}>invited by {invitation.invitedByEmail}</span>
+                </div>
+                <button onClick={() => handleRevoke(invitation)} style={styles.secondaryButton}>
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {canManageRoom && room.isActive && (
+          <section style={{ ...styles.section, ...styles.dangerZone }}>
+            <h3 style={styles.sectionTitle}>Archive room</h3>
+            <p style={styles.muted}>
+              Archived rooms are hidden from room lists and take no new messages. Members can still read the history.
+            </p>
+            <button onClick={handleArchive} style={styles.dangerButton}>Archive room</button>
+          </section>
+        )}
+      </div>
+
+      {showInvite && (
+        <InviteDialog
+          roomId={roomId}
+          roomName={room.name}
+          onClose={() => setShowInvite(false)}
+          onInvited={loadInvitations}
+        />
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    height: '600px',
+    maxWidth: '800px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '20px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  backLink: {
+    color: '#3b82f6',
+    fontSize: '14px',
+    fontWeight: '600',
+    textDecoration: 'none'
+  },
+  status: {
+    padding: '40px',
+    textAlign: 'center',
+    color: '#6b7280'
+  },
+  error: {
+    padding: '12px 20px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    fontSize: '14px',
+    borderBottom: '1px solid #fecaca'
+  },
+  notice: {
+    padding: '12px 20px',
+    backgroundColor: '#d1fae5',
+    color: '#065f46',
+    fontSize: '14px',
+    borderBottom: '1px solid #a7f3d0'
+  },
+  body: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px 20px 20px'
+  },
+  archivedNotice: {
+    margin: '12px 0 0',
+    padding: '12px 16px',
+    backgroundColor: '#f3f4f6',
+    color: '#374151',
+    borderRadius: '6px',
+    fontSize: '14px'
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '16px 0',
+    borderBottom: '1px solid #e5e7eb'
+  },
+  sectionHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center'
+  },
+  sectionTitle: {
+    margin: 0,
+    fontSize: '15px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    fontSize: '13px',
+    fontWeight: '600',
+    color: '#374151'
+  },
+  input: {
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: 'normal'
+  },
+  textarea: {
+    padding: '8px 12px',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: 'normal',
+    fontFamily: 'inherit',
+    resize: 'vertical'
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    fontSize: '14px',
+    color: '#111827'
+  },
+  rowText: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    minWidth: 0
+  },
+  muted: {
+    margin: 0,
+    fontSize: '12px',
+    color: '#6b7280'
+  },
+  primaryButton: {
+    alignSelf: 'flex-start',
+    padding: '8px 16px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  secondaryButton: {
+    padding: '4px 12px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer'
+  },
+  dangerZone: {
+    borderBottom: 'none'
+  },
+  dangerButton: {
+    alignSelf: 'flex-start',
+    padding: '8px 16px',
+    backgroundColor: '#ffffff',
+    color: '#b91c1c',
+    border: '1px solid #fca5a5',
+    borderRadius: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+interface RoomUnavailableProps {
+  reason: 'notFound' | 'forbidden';
+}
+
+export const RoomUnavailable: React.FC<RoomUnavailableProps> = ({ reason }) => {
+  return (
+    <div style={styles.container}>
+      <div style={styles.icon}>{reason === 'forbidden' ? '🔒' : '🔍'}</div>
+      <h2 style={styles.title}>
+        {reason === 'forbidden' ? 'You do not have access to this room' : 'Room not found'}
+      </h2>
+      <p style={styles.text}>
+        {reason === 'forbidden'
+          ? 'This room is private. Ask a member of the room to invite you.'
+          : 'The room may have been removed, or the link is incorrect.'}
+      </p>
+      <Link to="/rooms" style={styles.link}>Back to rooms</Link>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '480px',
+    padding: '40px',
+    textAlign: 'center'
+  },
+  icon: {
+    fontSize: '40px',
+    marginBottom: '16px'
+  },
+  title: {
+    margin: '0 0 12px 0',
+    fontSize: '22px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  text: {
+    margin: '0 0 24px 0',
+    fontSize: '14px',
+    color: '#6b7280',
+    lineHeight: '1.5'
+  },
+  link: {
+    color: '#3b82f6',
+    fontSize: '14px',
+    fontWeight: '600',
+    textDecoration: 'none'
+  }
+};
@@ -0,0 +1,151 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useDismiss } from '../hooks/useDismiss';
+import { Tenant } from '../services/tenantApiService';
+import { Avatar } from './Avatar';
+
+interface TenantSwitcherProps {
+  tenants: Tenant[];
+  activeTenant: Tenant;
+  onSwitch: (tenantId: string) => void;
+}
+
+const TenantLogo: React.FC<{ tenant: Tenant }> = ({ tenant }) =>
+  tenant.logoUrl
+    ? <img src={tenant.logoUrl} alt="" style={styles.logo} />
+    : <Avatar userId={tenant.id} name={tenant.name} size={28} />;
+
+/** Shows the active community and, for members of several, switches between them. */
+export const TenantSwitcher: React.FC<TenantSwitcherProps> = ({ tenants, activeTenant, onSwitch }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const close = useCallback(() => setOpen(false), []);
+  const canSwitch = tenants.length > 1;
+
+  useDismiss(menuRef, close);
+
+  const handleSelect = (tenantId: string) => {
+    setOpen(false);
+    if (tenantId !== activeTenant.id) {
+      onSwitch(tenantId);
+    }
+  };
+
+  return (
+    <div ref={menuRef} style={styles.container}>
+      <button
+        onClick={() => setOpen(isOpen => !isOpen)}
+        disabled={!canSwitch}
+        style={{ ...styles.current, ...(canSwitch ? {} : styles.currentStatic) }}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+      >
+        <TenantLogo tenant={activeTenant} />
+        <span style={styles.text}>
+          <span style={styles.name}>{activeTenant.name}</span>
+          <span style={styles.subdomain}>{activeTenant.subdomain}</span>
+        </span>
+        {canSwitch && <span style={styles.caret}>▾</span>}
+      </button>
+
+      {open && (
+        <ul style={styles.menu} role="listbox" aria-label="Switch community">
+          {tenants.map(tenant => (
+            <li
+              key={tenant.id}
+              role="option"
+              aria-selected={tenant.id === activeTenant.id}
+              onClick={() => handleSelect(tenant.id)}
+              style={{ ...styles.option, ...(tenant.id === activeTenant.id ? styles.optionActive : {}) }}
+            >
+              <TenantLogo tenant={tenant} />
+              <span style={styles.text}>
+                <span style={styles.optionName}>{tenant.name}</span>
+                <span style={styles.optionSubdomain}>{tenant.subdomain} · {tenant.role}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    position: 'relative'
+  },
+  current: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '4px 10px 4px 4px',
+    backgroundColor: 'transparent',
+    color: '#ffffff',
+    border: '1px solid #4b5563',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    textAlign: 'left'
+  },
+  currentStatic: {
+    cursor: 'default'
+  },
+  logo: {
+    width: '28px',
+    height: '28px',
+    borderRadius: '4px',
+    objectFit: 'cover',
+    flexShrink: 0
+  },
+  text: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0
+  },
+  name: {
+    fontSize: '13px',
+    fontWeight: '600'
+  },
+  subdomain: {
+    fontSize: '11px',
+    color: '#9ca3af'
+  },
+  caret: {
+    fontSize: '11px',
+    color: '#9ca3af'
+  },
+  menu: {
+    position: 'absolute',
+    top: 'calc(100% + 4px)',
+    left: 0,
+    minWidth: '220px',
+    margin: 0,
+    padding: '4px',
+    listStyle: 'none',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+    zIndex: 10,
+    textAlign: 'left'
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 8px',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  },
+  optionActive: {
+    backgroundColor: '#eff6ff'
+  },
+  optionName: {
+    fontSize: '13px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  optionSubdomain: {
+    fontSize: '11px',
+    color: '#6b7280'
+  }
+};
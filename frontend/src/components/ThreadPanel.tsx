@@ -0,0 +1,337 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useThread } from '../hooks/useThread';
+import { ChatMessage } from '../services/chatService';
+import { OutboxEntry } from '../services/outbox';
+import { MentionCandidate } from '../utils/mentions';
+import { MessageComposer } from './MessageComposer';
+import { MessageItem } from './MessageItem';
+import { RichText } from './RichText';
+
+interface ThreadPanelProps {
+  roomId: string;
+  parent: ChatMessage;
+  isConnected: boolean;
+  canReply: boolean;
+  currentUserId: string | null;
+  mentionCandidates: MentionCandidate[];
+  onEditMessage: (messageId: string, content: string) => Promise<void>;
+  onDeleteMessage: (messageId: string) => Promise<void>;
+  onToggleReaction?: (messageId: string, emoji: string, add: boolean) => void;
+  onReport?: (message: ChatMessage) => void;
+  onClose: () => void;
+}
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  roomId,
+  parent,
+  isConnected,
+  canReply,
+  currentUserId,
+  mentionCandidates,
+  onEditMessage,
+  onDeleteMessage,
+  onToggleReaction,
+  onReport,
+  onClose
+}) => {
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const repliesContainerRef = useRef<HTMLDivElement>(null);
+
+  const {
+    replies,
+    pendingReplies,
+    hasMoreReplies,
+    isLoading,
+    error,
+    loadOlderReplies,
+    sendReply,
+    retryReply,
+    discardReply,
+    clearError
+  } = useThread(roomId, parent.id);
+
+  // The parent's summary also counts replies beyond the loaded pages
+  const replyCount = Math.max(parent.thread?.replyCount ?? 0, replies.length);
+
+  const lastReplyId = pendingReplies.length > 0
+    ? pendingReplies[pendingReplies.length - 1].clientMessageId
+    : replies.length > 0 ? replies[replies.length - 1].id : null;
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastReplyId]);
+
+  const handleEditLastReply = () => {
+    const lastOwn = [...replies].reverse().find(r => r.userId === currentUserId && !r.isDeleted);
+    if (!lastOwn) return;
+
+    setEditingMessageId(lastOwn.id);
+    repliesContainerRef.current
+      ?.querySelector(`[data-message-id="${CSS.escape(lastOwn.id)}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const describePending = (entry: OutboxEntry) => {
+    switch (entry.status) {
+      case 'failed':
+        return 'Not sent';
+      case 'sent':
+        return 'Sent';
+      default:
+        return isConnected ? 'Sending...' : 'Waiting for connection...';
+    }
+  };
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <h3 style={styles.title}>Thread</h3>
+        <button onClick={onClose} style={styles.closeButton} aria-label="Close thread">×</button>
+      </div>
+
+      {error && (
+        <div style={styles.errorBar}>
+          <span>{error}</span>
+          <button onClick={clearError} style={styles.errorCloseButton}>×</button>
+        </div>
+      )}
+
+      <div ref={repliesContainerRef} style={styles.replies}>
+        <MessageItem
+          message={parent}
+          currentUserId={currentUserId}
+          mentionCandidates={mentionCandidates}
+          isEditing={parent.id === editingMessageId}
+          onEditingChange={setEditingMessageId}
+          onEdit={onEditMessage}
+          onDelete={onDeleteMessage}
+          onToggleReaction={onToggleReaction}
+          onReport={onReport}
+        />
+
+        <div style={styles.replyCount}>
+          {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+        </div>
+
+        {hasMoreReplies && (
+          <button onClick={loadOlderReplies} disabled={isLoading} style={styles.loadMoreButton}>
+            {isLoading ? 'Loading...' : 'Load older replies'}
+          </button>
+        )}
+
+        {isLoading && replies.length === 0 && (
+          <div style={styles.status}>Loading replies...</div>
+        )}
+
+        {replies.map(reply => (
+          <MessageItem
+            key={reply.id}
+            message={reply}
+            currentUserId={currentUserId}
+            mentionCandidates={mentionCandidates}
+            isEditing={reply.id === editingMessageId}
+            onEditingChange={setEditingMessageId}
+            onEdit={onEditMessage}
+            onDelete={onDeleteMessage}
+            onToggleReaction={onToggleReaction}
+            onReport={onReport}
+          />
+        ))}
+
+        {pendingReplies.map(entry => (
+          <div
+            key={entry.clientMessageId}
+            style={{
+              ...styles.message,
+              ...styles.pendingMessage,
+              ...(entry.status === 'failed' ? styles.failedMessage : {})
+            }}
+          >
+            <div style={styles.messageHeader}>
+              <strong style={styles.userEmail}>You</strong>
+              <span style={styles.timestamp}>{describePending(entry)}</span>
+            </div>
+            {entry.attachment && (
+              <div style={styles.pendingAttachment}>📎 {entry.attachment.fileName}</div>
+            )}
+            {entry.content && (
+              <div style={styles.messageContent}>
+                <RichText content={entry.content} mentionCandidates={mentionCandidates} currentUserId={currentUserId} />
+              </div>
+            )}
+            {entry.status === 'failed' && (
+              <div style={styles.pendingActions}>
+                <span style={styles.pendingError}>{entry.error}</span>
+                <button onClick={() => retryReply(entry.clientMessageId)} style={styles.linkButton}>
+                  Retry
+                </button>
+                <button onClick={() => discardReply(entry.clientMessageId)} style={styles.linkButton}>
+                  Discard
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div ref={repliesEndRef} />
+      </div>
+
+      <MessageComposer
+        roomId={roomId}
+        draftKey={`${roomId}:thread:${parent.id}`}
+        disabled={!canReply}
+        placeholder="Reply in thread..."
+        submitLabel="Reply"
+        mentionCandidates={mentionCandidates}
+        onSend={sendReply}
+        onEditLastMessage={handleEditLastReply}
+      />
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  panel: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '360px',
+    height: '600px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #e5e7eb',
+    backgroundColor: '#f9fafb'
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: '600',
+    color: '#111827'
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#6b7280',
+    padding: '0',
+    lineHeight: '1'
+  },
+  errorBar: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '12px 20px',
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    fontSize: '14px'
+  },
+  errorCloseButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    cursor: 'pointer',
+    color: '#991b1b',
+    padding: '0',
+    lineHeight: '1'
+  },
+  replies: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '16px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    backgroundColor: '#f9fafb'
+  },
+  message: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '10px 14px',
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    border: '1px solid #e5e7eb'
+  },
+  replyCount: {
+    fontSize: '12px',
+    color: '#6b7280',
+    fontWeight: '600',
+    borderBottom: '1px solid #e5e7eb',
+    paddingBottom: '8px'
+  },
+  loadMoreButton: {
+    alignSelf: 'center',
+    background: 'none',
+    border: 'none',
+    color: '#3b82f6',
+    fontSize: '12px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  status: {
+    textAlign: 'center',
+    color: '#9ca3af',
+    fontSize: '12px'
+  },
+  messageHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center'
+  },
+  userEmail: {
+    fontSize: '13px',
+    color: '#3b82f6',
+    fontWeight: '600'
+  },
+  timestamp: {
+    fontSize: '11px',
+    color: '#9ca3af'
+  },
+  messageContent: {
+    fontSize: '14px',
+    color: '#111827',
+    lineHeight: '1.5',
+    wordBreak: 'break-word'
+  },
+  pendingMessage: {
+    opacity: 0.7
+  },
+  pendingAttachment: {
+    fontSize: '13px',
+    color: '#374151'
+  },
+  failedMessage: {
+    opacity: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2'
+  },
+  pendingActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    fontSize: '12px'
+  },
+  pendingError: {
+    flex: 1,
+    color: '#991b1b'
+  },
+  linkButton: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: '#3b82f6',
+    fontSize: '12px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  }
+};
@@ -0,0 +1,137 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import { useDismiss } from '../hooks/useDismiss';
+import { useStartDirectMessage } from '../hooks/useStartDirectMessage';
+import { Avatar } from './Avatar';
+
+interface UserCardProps {
+  userId: string;
+  /** Display name, or email when there is none. */
+  name: string;
+  email?: string;
+  /** The clickable name or mention that opens the card. */
+  children: React.ReactNode;
+}
+
+/**
+ * A user's name that opens their mini profile, with a button to message them directly.
+ * Rendered with inline elements only so it can sit inside message paragraphs.
+ */
+export const UserCard: React.FC<UserCardProps> = ({ userId, name, email, children }) => {
+  const { user } = useAuth();
+  const { startDirectMessage, isStarting, error } = useStartDirectMessage();
+  const [isOpen, setIsOpen] = useState(false);
+  const cardRef = useRef<HTMLSpanElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useDismiss(cardRef, close);
+
+  const handleMessage = async () => {
+    if (await startDirectMessage([userId])) {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <span ref={cardRef} style={styles.wrapper}>
+      <span
+        role="button"
+        tabIndex={0}
+        onClick={() => setIsOpen(open => !open)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            setIsOpen(open => !open);
+          }
+        }}
+        style={styles.trigger}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        {children}
+      </span>
+      {isOpen && (
+        <span style={styles.card} role="dialog" aria-label={name}>
+          <span style={styles.identity}>
+            <Avatar userId={userId} name={name} size={40} />
+            <span style={styles.names}>
+              <span style={styles.name}>{name}</span>
+              {email && email !== name && <span style={styles.email}>{email}</span>}
+            </span>
+          </span>
+          {userId !== user?.userId && (
+            <button onClick={handleMessage} disabled={isStarting} style={styles.messageButton}>
+              {isStarting ? 'Opening...' : 'Message'}
+            </button>
+          )}
+          {error && <span style={styles.error}>{error}</span>}
+        </span>
+      )}
+    </span>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  wrapper: {
+    position: 'relative',
+    display: 'inline-block'
+  },
+  trigger: {
+    cursor: 'pointer'
+  },
+  card: {
+    position: 'absolute',
+    top: '100%',
+    left: 0,
+    zIndex: 10,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+    width: '220px',
+    marginTop: '4px',
+    padding: '12px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '8px',
+    backgroundColor: '#ffffff',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+    fontSize: '14px',
+    fontWeight: 'normal',
+    color: '#111827',
+    whiteSpace: 'normal'
+  },
+  identity: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px'
+  },
+  names: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0
+  },
+  name: {
+    fontWeight: '600',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis'
+  },
+  email: {
+    fontSize: '12px',
+    color: '#6b7280',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis'
+  },
+  messageButton: {
+    padding: '6px 12px',
+    backgroundColor: '#3b82f6',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '13px',
+    fontWeight: '600',
+    cursor: 'pointer'
+  },
+  error: {
+    fontSize: '12px',
+    color: '#991b1b'
+  }
+};
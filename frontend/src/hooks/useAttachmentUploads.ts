@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { chatApiService } from '../services/chatApiService';
+import { ChatAttachment } from '../services/chatService';
+import { isImageType, MAX_ATTACHMENTS_PER_MESSAGE, validateAttachment } from '../utils/attachments';
+
+export type AttachmentUploadStatus = 'uploading' | 'done' | 'failed';
+
+export interface AttachmentUpload {
+  /** Local id, unrelated to the server's attachment id. */
+  id: string;
+  file: File;
+  status: AttachmentUploadStatus;
+  /** 0 to 1. */
+  progress: number;
+  error?: string;
+  /** Set once the upload is done. */
+  attachment?: ChatAttachment;
+  /** Object URL of the local file, for image thumbnails. */
+  previewUrl?: string;
+}
+
+const readImageSize = async (file: File): Promise<{ width?: number; height?: number }> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    // Not decodable here; the server does not need the size
+    return {};
+  }
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Files attached in the composer, uploaded as soon as they are added.
+ * Uploads that were not sent are cancelled when the room changes.
+ */
+export const useAttachmentUploads = (roomId: string) => {
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+  const uploadsRef = useRef<AttachmentUpload[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    uploadsRef.current = uploads;
+  }, [uploads]);
+
+  const updateUpload = useCallback((id: string, changes: Partial<AttachmentUpload>) => {
+    setUploads(prev => prev.map(upload => (upload.id === id ? { ...upload, ...changes } : upload)));
+  }, []);
+
+  const startUpload = useCallback(async (upload: AttachmentUpload) => {
+    const controller = new AbortController();
+    controllersRef.current.set(upload.id, controller);
+
+    try {
+      const size = isImageType(upload.file.type) ? await readImageSize(upload.file) : {};
+      const attachment = await chatApiService.uploadAttachment(roomId, upload.file, {
+        ...size,
+        signal: controller.signal,
+        onProgress: (uploaded, total) => updateUpload(upload.id, { progress: uploaded / total })
+      });
+      updateUpload(upload.id, { status: 'done', progress: 1, attachment });
+    } catch (error) {
+      // Cancelled: the entry is already gone
+      if (isAbortError(error)) return;
+
+      console.error('Attachment upload error:', error);
+      updateUpload(upload.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      });
+    } finally {
+      controllersRef.current.delete(upload.id);
+    }
+  }, [roomId, updateUpload]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const remaining = MAX_ATTACHMENTS_PER_MESSAGE - uploadsRef.current.length;
+
+    const added = files.map((file, index): AttachmentUpload => {
+      const error = index >= remaining
+        ? `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files at a time`
+        : validateAttachment(file);
+
+      return {
+        id: crypto.randomUUID(),
+        file,
+        status: error ? 'failed' : 'uploading',
+        progress: 0,
+        error: error ?? undefined,
+        previewUrl: !error && isImageType(file.type) ? URL.createObjectURL(file) : undefined
+      };
+    });
+
+    uploadsRef.current = [...uploadsRef.current, ...added];
+    setUploads(prev => [...prev, ...added]);
+    added.filter(upload => upload.status === 'uploading').forEach(startUpload);
+  }, [startUpload]);
+
+  /** Stops an upload in flight, or deletes an unsent finished one. */
+  const remove = useCallback((id: string) => {
+    const upload = uploadsRef.current.find(u => u.id === id);
+    if (!upload) return;
+
+    controllersRef.current.get(id)?.abort();
+    if (upload.attachment) {
+      chatApiService.cancelAttachmentUpload(roomId, upload.attachment.id).catch(error => {
+        console.error('Failed to delete unsent attachment:', error);
+      });
+    }
+    if (upload.previewUrl) {
+      URL.revokeObjectURL(upload.previewUrl);
+    }
+
+    setUploads(prev => prev.filter(u => u.id !== id));
+  }, [roomId]);
+
+  /** Forgets every upload after the attachments were sent. */
+  const clear = useCallback(() => {
+    uploadsRef.current.forEach(upload => {
+      if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+    });
+    uploadsRef.current = [];
+    setUploads([]);
+  }, []);
+
+  // Attachments belong to one room: drop them when leaving it
+  useEffect(() => {
+    const controllers = controllersRef.current;
+
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      uploadsRef.current.forEach(upload => {
+        if (upload.attachment) {
+          chatApiService.cancelAttachmentUpload(roomId, upload.attachment.id).catch(error => {
+            console.error('Failed to delete unsent attachment:', error);
+          });
+        }
+        if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      });
+      uploadsRef.current = [];
+      setUploads([]);
+    };
+  }, [roomId]);
+
+  const completed = uploads
+    .filter(upload => upload.status === 'done' && upload.attachment)
+    .map(upload => upload.attachment as ChatAttachment);
+
+  return {
+    uploads,
+    /** Finished uploads, ready to send. */
+    completed,
+    isUploading: uploads.some(upload => upload.status === 'uploading'),
+    addFiles,
+    remove,
+    clear
+  };
+};
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { chatApiService } from '../services/chatApiService';
+
+// Attachments need the bearer token, so they are fetched as blobs rather than
+// linked directly. Object URLs are cached so remounted messages do not refetch.
+// Each entry counts the components showing it: only unused URLs are evicted
+// past the limit, so nothing on screen is ever revoked.
+const MAX_CACHED_URLS = 100;
+
+interface CachedUrl {
+  url: Promise<string>;
+  users: number;
+}
+
+const urlCache = new Map<string, CachedUrl>();
+
+const revoke = (url: Promise<string>) => {
+  url.then(URL.revokeObjectURL, () => undefined);
+};
+
+const evictUnused = () => {
+  // Map order is least recently used first
+  for (const [attachmentId, entry] of urlCache) {
+    if (urlCache.size <= MAX_CACHED_URLS) return;
+    if (entry.users > 0) continue;
+
+    urlCache.delete(attachmentId);
+    revoke(entry.url);
+  }
+};
+
+/** Loads (or reuses) an attachment's object URL and holds it until `releaseAttachmentUrl`. */
+const acquireAttachmentUrl = (roomId: string, attachmentId: string): Promise<string> => {
+  const cached = urlCache.get(attachmentId);
+
+  if (cached) {
+    // Move to the most recently used end
+    urlCache.delete(attachmentId);
+    urlCache.set(attachmentId, { ...cached, users: cached.users + 1 });
+    return cached.url;
+  }
+
+  const url = chatApiService.downloadAttachment(roomId, attachmentId).then(blob => URL.createObjectURL(blob));
+  urlCache.set(attachmentId, { url, users: 1 });
+  // Failed downloads may be retried later
+  url.catch(() => {
+    if (urlCache.get(attachmentId)?.url === url) {
+      urlCache.delete(attachmentId);
+    }
+  });
+
+  evictUnused();
+  return url;
+};
+
+const releaseAttachmentUrl = (attachmentId: string) => {
+  const cached = urlCache.get(attachmentId);
+  if (!cached) return;
+
+  urlCache.set(attachmentId, { ...cached, users: Math.max(cached.users - 1, 0) });
+  evictUnused();
+};
+
+/** Revokes every cached attachment URL, e.g. on sign-out. */
+export const clearAttachmentUrls = () => {
+  urlCache.forEach(entry => revoke(entry.url));
+  urlCache.clear();
+};
+
+/** An object URL for an attachment's content, or null while loading. */
+export const useAttachmentUrl = (roomId: string, attachmentId: string, enabled: boolean = true) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setUrl(null);
+    setError(null);
+
+    acquireAttachmentUrl(roomId, attachmentId)
+      .then(loaded => {
+        if (!cancelled) setUrl(loaded);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Load attachment error:', err);
+        setError('Failed to load attachment');
+      });
+
+    return () => {
+      cancelled = true;
+      releaseAttachmentUrl(attachmentId);
+    };
+  }, [roomId, attachmentId, enabled]);
+
+  return { url, error };
+};
+
+/** Saves an attachment through a temporary link, as a download. */
+export const downloadAttachment = async (roomId: string, attachmentId: string, fileName: string) => {
+  try {
+    const url = await acquireAttachmentUrl(roomId, attachmentId);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+  } finally {
+    releaseAttachmentUrl(attachmentId);
+  }
+};
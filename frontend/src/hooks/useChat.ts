@@ -1,97 +1,81 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { chatService, ChatMessage, UserTyping } from '../services/chatService';
+import { ChatAttachment, chatService, ChatError } from '../services/chatService';
+import { chatApiService } from '../services/chatApiService';
+import { chatConnectionManager } from '../services/chatConnectionManager';
+import { chatOutbox, enqueueMessage } from '../services/chatOutbox';
+import { chatStore } from '../services/chatStore';
+import { Unsubscribe } from '../services/eventEmitter';
+import { OutboxEntry } from '../services/outbox';
+import { selectRoom } from '../services/store';
+
+const HISTORY_PAGE_SIZE = 50;
 
 interface UseChatOptions {
-  token: string | null;
   autoConnect?: boolean;
 }
 
-export const useChat = ({ token, autoConnect = true }: UseChatOptions) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [typingUsers, setTypingUsers] = useState<Map<string, UserTyping>>(new Map());
+/**
+ * The hub connection and the room being viewed. Messages, typing users and
+ * paging state live in the shared chat store (see useChatStore).
+ */
+export const useChat = ({ autoConnect = true }: UseChatOptions = {}) => {
+  const [isConnected, setIsConnected] = useState(() => chatService.isConnected());
   const [error, setError] = useState<string | null>(null);
   const [currentRoom, setCurrentRoom] = useState<string | null>(null);
-  const typingTimeoutRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
-
-  const handleMessage = useCallback((message: ChatMessage) => {
-    setMessages(prev => [...prev, message]);
-    setError(null);
-  }, []);
-
-  const handleTyping = useCallback((typing: UserTyping) => {
-    if (!typing.isTyping) {
-      setTypingUsers(prev => {
-        const next = new Map(prev);
-        next.delete(typing.userId);
-        return next;
-      });
-      return;
-    }
-
-    setTypingUsers(prev => {
-      const next = new Map(prev);
-      next.set(typing.userId, typing);
-      return next;
-    });
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>(() => chatOutbox.getEntries());
+  const currentRoomRef = useRef<string | null>(null);
+  const roomReleaseRef = useRef<Unsubscribe | null>(null);
 
-    // Clear existing timeout for this user
-    const existingTimeout = typingTimeoutRef.current.get(typing.userId);
-    if (existingTimeout) {
-      clearTimeout(existingTimeout);
-    }
-
-    // Set new timeout to remove typing indicator after 3 seconds
-    const timeout = setTimeout(() => {
-      setTypingUsers(prev => {
-        const next = new Map(prev);
-        next.delete(typing.userId);
-        return next;
-      });
-      typingTimeoutRef.current.delete(typing.userId);
-    }, 3000);
-
-    typingTimeoutRef.current.set(typing.userId, timeout);
-  }, []);
-
-  const handleConnectionChange = useCallback((connected: boolean) => {
+  const handleConnectionChange = useCallback(({ connected }: { connected: boolean }) => {
     setIsConnected(connected);
   }, []);
 
-  const handleError = useCallback((error: { message: string }) => {
+  const handleError = useCallback((error: ChatError) => {
     setError(error.message);
   }, []);
 
   useEffect(() => {
-    chatService.setMessageCallback(handleMessage);
-    chatService.setTypingCallback(handleTyping);
-    chatService.setConnectionCallback(handleConnectionChange);
-    chatService.setErrorCallback(handleError);
+    const subscriptions = [
+      chatService.on('ConnectionStateChanged', handleConnectionChange),
+      chatService.on('Error', handleError)
+    ];
+
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }, [handleConnectionChange, handleError]);
+
+  useEffect(() => {
+    if (!autoConnect) return;
+
+    const releaseConnection = chatConnectionManager.acquire();
 
     return () => {
-      chatService.setMessageCallback(() => {});
-      chatService.setTypingCallback(() => {});
-      chatService.setConnectionCallback(() => {});
-      chatService.setErrorCallback(() => {});
+      roomReleaseRef.current?.();
+      roomReleaseRef.current = null;
+      currentRoomRef.current = null;
+      releaseConnection();
     };
-  }, [handleMessage, handleTyping, handleConnectionChange, handleError]);
+  }, [autoConnect]);
 
   useEffect(() => {
-    if (token && autoConnect) {
-      chatService.connect(token);
-    }
+    chatOutbox.load();
+    return chatOutbox.on('changed', setOutboxEntries);
+  }, []);
 
-    return () => {
-      if (currentRoom) {
-        chatService.leaveRoom(currentRoom);
+  useEffect(() => {
+    // The connection manager rejoins the hub group; fill in anything missed while offline
+    return chatService.on('Reconnected', async () => {
+      const roomId = currentRoomRef.current;
+      if (!roomId) return;
+
+      try {
+        const latest = await chatApiService.getMessages(roomId, 0, HISTORY_PAGE_SIZE);
+        chatStore.addLatestMessages(roomId, latest, latest.length === HISTORY_PAGE_SIZE);
+        chatOutbox.clearSent(roomId);
+      } catch (err) {
+        console.error('Failed to catch up after reconnect:', err);
       }
-      chatService.disconnect();
-      
-      // Clear all typing timeouts
-      typingTimeoutRef.current.forEach(timeout => clearTimeout(timeout));
-      typingTimeoutRef.current.clear();
-    };
-  }, [token, autoConnect]);
+    });
+  }, []);
 
   const joinRoom = useCallback(async (roomId: string) => {
     if (!isConnected) {
@@ -99,11 +83,37 @@ export const useChat = ({ token, autoConnect = true }: UseChatOptions) => {
       return;
     }
 
+    if (currentRoomRef.current === roomId && roomReleaseRef.current) {
+      return;
+    }
+
     try {
-      await chatService.joinRoom(roomId);
+      roomReleaseRef.current?.();
+      roomReleaseRef.current = null;
+
+      currentRoomRef.current = roomId;
       setCurrentRoom(roomId);
-      setMessages([]); // Clear messages when joining new room
-      setTypingUsers(new Map()); // Clear typing indicators
+
+      // Join the hub group before fetching history so nothing sent in between is missed;
+      // live messages that arrive while the page loads are merged in by id.
+      // Messages cached from an earlier visit stay on screen meanwhile.
+      const release = await chatConnectionManager.joinRoom(roomId);
+
+      // Superseded by another join (or unmounted) while waiting for the hub
+      if (currentRoomRef.current !== roomId || roomReleaseRef.current) {
+        release();
+        return;
+      }
+      roomReleaseRef.current = release;
+
+      chatStore.setHistoryLoading(roomId, true);
+      try {
+        const history = await chatApiService.getMessages(roomId, 0, HISTORY_PAGE_SIZE);
+        chatStore.addLatestMessages(roomId, history, history.length === HISTORY_PAGE_SIZE);
+      } finally {
+        chatStore.setHistoryLoading(roomId, false);
+      }
+
       setError(null);
     } catch (err) {
       setError('Failed to join room');
@@ -111,35 +121,86 @@ export const useChat = ({ token, autoConnect = true }: UseChatOptions) => {
     }
   }, [isConnected]);
 
+  const loadOlderMessages = useCallback(async () => {
+    const roomId = currentRoomRef.current;
+    if (!roomId) return;
+
+    const room = selectRoom(chatStore.getState(), roomId);
+    if (room.isLoadingHistory) return;
+
+    chatStore.setHistoryLoading(roomId, true);
+
+    try {
+      // Everything loaded so far is the newest contiguous block on the server,
+      // so its length is the offset of the next older page.
+      const page = await chatApiService.getMessages(roomId, room.messageIds.length, HISTORY_PAGE_SIZE);
+      chatStore.addOlderMessages(roomId, page, page.length === HISTORY_PAGE_SIZE);
+    } catch (err) {
+      setError('Failed to load older messages');
+      console.error('Load older messages error:', err);
+    } finally {
+      chatStore.setHistoryLoading(roomId, false);
+    }
+  }, []);
+
   const leaveRoom = useCallback(async (roomId: string) => {
+    if (currentRoomRef.current !== roomId) return;
+
+    roomReleaseRef.current?.();
+    roomReleaseRef.current = null;
+    currentRoomRef.current = null;
+    setCurrentRoom(null);
+    setError(null);
+  }, []);
+
+  // Queued in the outbox: shown right away as pending and sent once connected
+  const sendMessage = useCallback(async (roomId: string, message: string, attachments: ChatAttachment[] = []) => {
+    await enqueueMessage(roomId, message, attachments);
+    setError(null);
+  }, []);
+
+  const retryMessage = useCallback((clientMessageId: string) => {
+    return chatOutbox.retry(clientMessageId);
+  }, []);
+
+  const discardMessage = useCallback((clientMessageId: string) => {
+    chatOutbox.discard(clientMessageId);
+  }, []);
+
+  // Unlike sends these are not queued: editing or deleting needs a live connection
+  const editMessage = useCallback(async (messageId: string, content: string) => {
     try {
-      await chatService.leaveRoom(roomId);
-      if (currentRoom === roomId) {
-        setCurrentRoom(null);
-        setMessages([]);
-        setTypingUsers(new Map());
-      }
-      setError(null);
+      await chatService.editMessage(messageId, content);
     } catch (err) {
-      setError('Failed to leave room');
-      console.error('Leave room error:', err);
+      setError('Failed to edit message');
+      console.error('Edit message error:', err);
+      throw err;
     }
-  }, [currentRoom]);
+  }, []);
 
-  const sendMessage = useCallback(async (roomId: string, message: string) => {
-    if (!isConnected) {
-      setError('Not connected to chat server');
-      return;
+  const deleteMessage = useCallback(async (messageId: string) => {
+    try {
+      await chatService.deleteMessage(messageId);
+    } catch (err) {
+      setError('Failed to delete message');
+      console.error('Delete message error:', err);
+      throw err;
     }
+  }, []);
 
+  // The hub echoes the change to everyone in the room, including this client
+  const toggleReaction = useCallback(async (messageId: string, emoji: string, add: boolean) => {
     try {
-      await chatService.sendMessage(roomId, message);
-      setError(null);
+      if (add) {
+        await chatService.addReaction(messageId, emoji);
+      } else {
+        await chatService.removeReaction(messageId, emoji);
+      }
     } catch (err) {
-      setError('Failed to send message');
-      console.error('Send message error:', err);
+      setError('Failed to update reaction');
+      console.error('Toggle reaction error:', err);
     }
-  }, [isConnected]);
+  }, []);
 
   const sendTypingIndicator = useCallback(async (roomId: string, isTyping: boolean) => {
     if (!isConnected) return;
@@ -161,27 +222,27 @@ export const useChat = ({ token, autoConnect = true }: UseChatOptions) => {
     }
   }, [isConnected]);
 
-  const clearMessages = useCallback(() => {
-    setMessages([]);
-  }, []);
-
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
   return {
     isConnected,
-    messages,
-    typingUsers: Array.from(typingUsers.values()),
+    pendingMessages: outboxEntries,
     error,
     currentRoom,
     connectionState: chatService.getConnectionState(),
     joinRoom,
     leaveRoom,
+    loadOlderMessages,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     sendTypingIndicator,
     markAsRead,
-    clearMessages,
     clearError
   };
 };
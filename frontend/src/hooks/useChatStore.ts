@@ -0,0 +1,39 @@
+import { useSyncExternalStore } from 'react';
+import { chatStore } from '../services/chatStore';
+import {
+  ChatState,
+  selectLastActivity,
+  selectOnlineCounts,
+  selectRoom,
+  selectRoomMessages,
+  selectThread,
+  selectThreadReplies
+} from '../services/store';
+
+/**
+ * Reads from the shared chat store and re-renders when the selected value changes.
+ * The selector must return the same object for unchanged data (see the selectors in store.ts).
+ */
+export const useChatStore = <T>(selector: (state: ChatState) => T): T =>
+  useSyncExternalStore(chatStore.subscribe, () => selector(chatStore.getState()));
+
+/** Paging state, typing users and unread count of a room. */
+export const useRoomState = (roomId: string | null) =>
+  useChatStore(state => selectRoom(state, roomId));
+
+/** A room's loaded timeline, oldest first. */
+export const useRoomMessages = (roomId: string | null) =>
+  useChatStore(state => selectRoomMessages(state, roomId));
+
+export const useThreadState = (roomId: string, parentMessageId: string) =>
+  useChatStore(state => selectThread(state, roomId, parentMessageId));
+
+/** A thread's loaded replies, oldest first. */
+export const useThreadReplies = (roomId: string, parentMessageId: string) =>
+  useChatStore(state => selectThreadReplies(state, roomId, parentMessageId));
+
+/** When each room last had a message, as seen live. */
+export const useRoomActivity = () => useChatStore(selectLastActivity);
+
+/** How many members of each room are connected. */
+export const useOnlineCounts = () => useChatStore(selectOnlineCounts);
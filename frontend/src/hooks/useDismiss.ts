@@ -0,0 +1,22 @@
+import { RefObject, useEffect } from 'react';
+
+/** Calls `onDismiss` on a mouse down outside `ref` or when Escape is pressed, e.g. to close popovers. */
+export const useDismiss = (ref: RefObject<HTMLElement>, onDismiss: () => void) => {
+  useEffect(() => {
+    const handlePointerDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        onDismiss();
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onDismiss();
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [ref, onDismiss]);
+};
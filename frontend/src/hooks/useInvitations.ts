@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { chatApiService } from '../services/chatApiService';
+import { chatConnectionManager } from '../services/chatConnectionManager';
+import { ChatRoomInvitation, chatService } from '../services/chatService';
+
+/**
+ * The current user's pending room invitations. Loaded from /invitations, then
+ * kept live from InvitationReceived and InvitationRevoked on the user's own hub group.
+ */
+export const useInvitations = () => {
+  const [invitations, setInvitations] = useState<ChatRoomInvitation[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setInvitations(await chatApiService.getMyInvitations());
+    } catch (err) {
+      console.error('Load invitations error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const releaseConnection = chatConnectionManager.acquire();
+    reload();
+
+    const unsubscribers = [
+      chatService.on('InvitationReceived', invitation => {
+        setInvitations(prev => [invitation, ...prev.filter(i => i.id !== invitation.id)]);
+      }),
+      chatService.on('InvitationRevoked', ({ invitationId }) => {
+        setInvitations(prev => prev.filter(i => i.id !== invitationId));
+      }),
+      // Invitations sent while the connection was down were missed
+      chatService.on('Reconnected', () => {
+        reload();
+      })
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      releaseConnection();
+    };
+  }, [reload]);
+
+  const remove = (invitationId: string) => {
+    setInvitations(prev => prev.filter(i => i.id !== invitationId));
+  };
+
+  /** Joins the room; rejects with the server's reason, e.g. when the room is full. */
+  const accept = async (invitation: ChatRoomInvitation) => {
+    await chatApiService.acceptInvitation(invitation.id);
+    remove(invitation.id);
+  };
+
+  const decline = async (invitation: ChatRoomInvitation) => {
+    await chatApiService.declineInvitation(invitation.id);
+    remove(invitation.id);
+  };
+
+  return { invitations, accept, decline };
+};
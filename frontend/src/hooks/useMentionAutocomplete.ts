@@ -0,0 +1,77 @@
+import React, { RefObject, useCallback, useMemo, useState } from 'react';
+import { getMentionQuery, insertMention, MentionCandidate, MentionQuery, suggestMentions } from '../utils/mentions';
+
+/**
+ * @mention autocomplete for a text field. Call `refresh` whenever the text
+ * or caret changes and give `handleKeyDown` first pick of key presses.
+ */
+export const useMentionAutocomplete = (
+  inputRef: RefObject<HTMLInputElement | HTMLTextAreaElement>,
+  value: string,
+  onChange: (value: string) => void,
+  candidates: MentionCandidate[]
+) => {
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(
+    () => (mention ? suggestMentions(mention.query, candidates) : []),
+    [mention, candidates]
+  );
+
+  const refresh = useCallback(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    const next = getMentionQuery(input.value, input.selectionStart ?? input.value.length);
+    if (next?.start === mention?.start && next?.query === mention?.query) return;
+
+    setMention(next);
+    setActiveIndex(0);
+  }, [inputRef, mention]);
+
+  const dismiss = useCallback(() => setMention(null), []);
+
+  const select = useCallback((candidate: MentionCandidate) => {
+    const input = inputRef.current;
+    if (!input || !mention) return;
+
+    const result = insertMention(value, mention, input.selectionStart ?? value.length, candidate);
+    onChange(result.text);
+    setMention(null);
+
+    // Restore the caret after React has written the new value
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(result.caret, result.caret);
+    });
+  }, [inputRef, mention, value, onChange]);
+
+  /** Returns true when the key was used by the suggestion list. */
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex(index => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        select(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        setMention(null);
+        break;
+      default:
+        return false;
+    }
+
+    e.preventDefault();
+    return true;
+  }, [suggestions, activeIndex, select]);
+
+  return { suggestions, activeIndex, refresh, select, dismiss, handleKeyDown };
+};
@@ -0,0 +1,15 @@
+import { useCallback, useMemo } from 'react';
+import { useTenant } from '../tenants/TenantContext';
+import { Permission, permissionsForTenant } from '../tenants/permissions';
+
+/**
+ * The current user's permissions in the active tenant. Only decides what the UI
+ * offers; the server checks the same permissions on every request.
+ */
+export const usePermissions = () => {
+  const { activeTenant } = useTenant();
+  const permissions = useMemo(() => permissionsForTenant(activeTenant), [activeTenant]);
+  const can = useCallback((permission: Permission) => permissions.has(permission), [permissions]);
+
+  return { permissions, can };
+};
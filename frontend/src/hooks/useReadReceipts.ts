@@ -0,0 +1,105 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { ChatMessage } from '../services/chatService';
+
+const MARK_AS_READ_DEBOUNCE_MS = 800;
+
+/**
+ * Marks the newest message the user has actually seen as read.
+ * Message elements inside `containerRef` must carry a `data-message-id` attribute.
+ */
+export const useReadReceipts = (
+  roomId: string,
+  messages: ChatMessage[],
+  containerRef: RefObject<HTMLElement>,
+  markAsRead: (roomId: string, lastMessageId: string) => Promise<void>
+) => {
+  const visibleIdsRef = useRef<Set<string>>(new Set());
+  const lastMarkedAtRef = useRef(0);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  useEffect(() => {
+    lastMarkedAtRef.current = 0;
+    visibleIdsRef.current.clear();
+  }, [roomId]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof IntersectionObserver === 'undefined') return;
+
+    const scheduleMarkAsRead = () => {
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+      }
+
+      debounceRef.current = setTimeout(() => {
+        debounceRef.current = null;
+        if (document.visibilityState !== 'visible') return;
+
+        const newestVisible = messagesRef.current
+          .filter(message => visibleIdsRef.current.has(message.id))
+          .pop();
+        const newestVisibleAt = newestVisible ? new Date(newestVisible.timestamp).getTime() : 0;
+
+        if (newestVisible && newestVisibleAt > lastMarkedAtRef.current) {
+          lastMarkedAtRef.current = newestVisibleAt;
+          markAsRead(roomId, newestVisible.id);
+        }
+      }, MARK_AS_READ_DEBOUNCE_MS);
+    };
+
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.messageId;
+        if (!id) return;
+
+        if (entry.isIntersecting) {
+          visibleIdsRef.current.add(id);
+        } else {
+          visibleIdsRef.current.delete(id);
+        }
+      });
+
+      scheduleMarkAsRead();
+    }, { root: container, threshold: 0.5 });
+
+    const messageElements = (node: Node): HTMLElement[] => {
+      if (!(node instanceof HTMLElement)) return [];
+      const nested = Array.from(node.querySelectorAll<HTMLElement>('[data-message-id]'));
+      return node.dataset.messageId ? [node, ...nested] : nested;
+    };
+
+    messageElements(container).forEach(element => observer.observe(element));
+
+    // Virtualized lists mount and unmount messages while scrolling
+    const mutationObserver = new MutationObserver(mutations => {
+      mutations.forEach(mutation => {
+        mutation.addedNodes.forEach(node => messageElements(node).forEach(element => observer.observe(element)));
+        mutation.removedNodes.forEach(node => messageElements(node).forEach(element => {
+          observer.unobserve(element);
+          visibleIdsRef.current.delete(element.dataset.messageId as string);
+        }));
+      });
+    });
+    mutationObserver.observe(container, { childList: true, subtree: true });
+
+    // Catch up on anything that scrolled into view while the tab was hidden
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        scheduleMarkAsRead();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      mutationObserver.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+        debounceRef.current = null;
+      }
+    };
+  }, [roomId, containerRef, markAsRead]);
+};
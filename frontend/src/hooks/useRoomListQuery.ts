@@ -0,0 +1,24 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseRoomListQuery, RoomListQuery, serializeRoomListQuery } from '../utils/roomListQuery';
+
+/**
+ * Room list tab, filters, search and sort, kept in the URL query string so the
+ * view survives a reload and can be shared.
+ */
+export const useRoomListQuery = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.toString();
+
+  const query = useMemo(() => parseRoomListQuery(search), [search]);
+
+  const setQuery = useCallback((changes: Partial<RoomListQuery>) => {
+    setSearchParams(
+      prev => new URLSearchParams(serializeRoomListQuery({ ...parseRoomListQuery(prev.toString()), ...changes }, prev.toString())),
+      // Typing in the search box should not flood the history stack
+      { replace: true }
+    );
+  }, [setSearchParams]);
+
+  return [query, setQuery] as const;
+};
@@ -0,0 +1,34 @@
+import { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { chatApiService } from '../services/chatApiService';
+import { useTenant } from '../tenants/TenantContext';
+
+/**
+ * Opens a direct conversation with the given users in the active tenant and navigates to it.
+ * Starting one again with the same people returns to the existing conversation.
+ */
+export const useStartDirectMessage = () => {
+  const navigate = useNavigate();
+  const { activeTenant } = useTenant();
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startDirectMessage = useCallback(async (userIds: string[]) => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const { id } = await chatApiService.startDirectMessage(userIds, activeTenant?.id);
+      navigate(`/rooms/${id}`);
+      return true;
+    } catch (err) {
+      console.error('Start direct message error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start conversation');
+      return false;
+    } finally {
+      setIsStarting(false);
+    }
+  }, [navigate, activeTenant?.id]);
+
+  return { startDirectMessage, isStarting, error };
+};
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChatAttachment, chatService } from '../services/chatService';
+import { chatApiService } from '../services/chatApiService';
+import { chatOutbox, enqueueMessage } from '../services/chatOutbox';
+import { chatStore } from '../services/chatStore';
+import { OutboxEntry } from '../services/outbox';
+import { selectThread } from '../services/store';
+import { useThreadReplies, useThreadState } from './useChatStore';
+
+const REPLIES_PAGE_SIZE = 50;
+
+/**
+ * Replies in the thread started by `parentMessageId`.
+ *
+ * Relies on the room's hub group already being joined (ChatRoom does that);
+ * live replies reach the shared chat store through the same ReceiveMessage
+ * event as the timeline. Replies loaded earlier show while the first page loads.
+ */
+export const useThread = (roomId: string, parentMessageId: string) => {
+  const replies = useThreadReplies(roomId, parentMessageId);
+  const { hasMore: hasMoreReplies, isLoading } = useThreadState(roomId, parentMessageId);
+  const [error, setError] = useState<string | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>(() => chatOutbox.getEntries());
+
+  const loadLatestReplies = useCallback(async () => {
+    const page = await chatApiService.getReplies(roomId, parentMessageId, 0, REPLIES_PAGE_SIZE);
+    chatStore.addLatestReplies(roomId, parentMessageId, page, page.length === REPLIES_PAGE_SIZE);
+  }, [roomId, parentMessageId]);
+
+  useEffect(() => {
+    setError(null);
+    chatStore.setRepliesLoading(roomId, parentMessageId, true);
+
+    loadLatestReplies()
+      .catch(err => {
+        console.error('Load thread error:', err);
+        setError('Failed to load replies');
+      })
+      .finally(() => chatStore.setRepliesLoading(roomId, parentMessageId, false));
+  }, [roomId, parentMessageId, loadLatestReplies]);
+
+  useEffect(() => {
+    // Catch up on replies sent while the connection was down
+    return chatService.on('Reconnected', () => {
+      loadLatestReplies().catch(err => {
+        console.error('Failed to catch up on thread after reconnect:', err);
+      });
+    });
+  }, [loadLatestReplies]);
+
+  useEffect(() => {
+    return chatOutbox.on('changed', setOutboxEntries);
+  }, []);
+
+  const loadOlderReplies = useCallback(async () => {
+    const thread = selectThread(chatStore.getState(), roomId, parentMessageId);
+    if (thread.isLoading) return;
+
+    chatStore.setRepliesLoading(roomId, parentMessageId, true);
+
+    try {
+      const page = await chatApiService.getReplies(roomId, parentMessageId, thread.replyIds.length, REPLIES_PAGE_SIZE);
+      chatStore.addOlderReplies(roomId, parentMessageId, page, page.length === REPLIES_PAGE_SIZE);
+    } catch (err) {
+      console.error('Load older replies error:', err);
+      setError('Failed to load older replies');
+    } finally {
+      chatStore.setRepliesLoading(roomId, parentMessageId, false);
+    }
+  }, [roomId, parentMessageId]);
+
+  const sendReply = useCallback(async (content: string, attachments: ChatAttachment[] = []) => {
+    await enqueueMessage(roomId, content, attachments, parentMessageId);
+    setError(null);
+  }, [roomId, parentMessageId]);
+
+  return {
+    replies,
+    pendingReplies: outboxEntries.filter(entry => entry.parentMessageId === parentMessageId),
+    hasMoreReplies,
+    isLoading,
+    error,
+    loadOlderReplies,
+    sendReply,
+    retryReply: (clientMessageId: string) => chatOutbox.retry(clientMessageId),
+    discardReply: (clientMessageId: string) => chatOutbox.discard(clientMessageId),
+    clearError: () => setError(null)
+  };
+};
@@ -0,0 +1,63 @@
+import { useEffect } from 'react';
+import { chatApiService } from '../services/chatApiService';
+import { chatConnectionManager } from '../services/chatConnectionManager';
+import { chatStore } from '../services/chatStore';
+import { selectUnreadCounts } from '../services/store';
+import { useChatStore } from './useChatStore';
+
+/**
+ * Live unread counts for the given rooms. Counts start from /unread-count; the
+ * chat store then follows ReceiveMessage for every room except the focused one.
+ */
+export const useUnreadCounts = (roomIds: string[], focusedRoomId: string | null) => {
+  const counts = useChatStore(selectUnreadCounts);
+
+  // Stable dependency for the room set regardless of array identity
+  const roomKey = [...roomIds].sort().join(',');
+
+  useEffect(() => {
+    const ids = roomKey ? roomKey.split(',') : [];
+    if (ids.length === 0) return;
+
+    let cancelled = false;
+    const releaseConnection = chatConnectionManager.acquire();
+    const roomReleases: (() => void)[] = [];
+
+    Promise.all(ids.map(async roomId => {
+      try {
+        return [roomId, await chatApiService.getUnreadCount(roomId)] as const;
+      } catch (err) {
+        console.error(`Failed to load unread count for room ${roomId}:`, err);
+        return [roomId, 0] as const;
+      }
+    })).then(results => {
+      if (cancelled) return;
+      results.forEach(([roomId, count]) => chatStore.setUnreadCount(roomId, count));
+    });
+
+    // ReceiveMessage only reaches connections that joined the room's hub group
+    ids.forEach(roomId => {
+      chatConnectionManager.joinRoom(roomId)
+        .then(release => {
+          if (cancelled) {
+            release();
+          } else {
+            roomReleases.push(release);
+          }
+        })
+        .catch(err => console.error(`Failed to watch room ${roomId}:`, err));
+    });
+
+    return () => {
+      cancelled = true;
+      roomReleases.forEach(release => release());
+      releaseConnection();
+    };
+  }, [roomKey]);
+
+  useEffect(() => {
+    chatStore.focusRoom(focusedRoomId);
+  }, [focusedRoomId]);
+
+  return counts;
+};
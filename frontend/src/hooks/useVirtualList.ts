@@ -0,0 +1,248 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { computeOffsets, findRowAt, findVisibleRange, ScrollPosition } from '../utils/virtualList';
+
+const DEFAULT_ESTIMATED_SIZE = 80;
+// Extra height (px) rendered above and below the viewport
+const DEFAULT_OVERSCAN = 600;
+// Within this distance (px) of the end the list counts as scrolled to the bottom
+const AT_BOTTOM_THRESHOLD = 40;
+
+type ScrollBlock = 'start' | 'center' | 'end' | 'nearest';
+
+interface UseVirtualListOptions {
+  /** The scrolling element. It may contain other content around the list. */
+  scrollRef: RefObject<HTMLElement>;
+  /** The element the rows are rendered into, between the two spacers. */
+  listRef: RefObject<HTMLElement>;
+  /** Stable, unique row keys in display order. */
+  keys: string[];
+  estimatedSize?: number;
+  overscan?: number;
+}
+
+export interface VirtualRow {
+  key: string;
+  index: number;
+}
+
+/**
+ * Renders only the rows near the viewport of a bottom-anchored list, such as a chat timeline.
+ *
+ * Rows are measured as they render, so they may have any height. While the user is at the
+ * bottom the list follows new rows; otherwise the first visible row is kept in place when
+ * rows are prepended or change size above it.
+ */
+export const useVirtualList = ({
+  scrollRef,
+  listRef,
+  keys,
+  estimatedSize = DEFAULT_ESTIMATED_SIZE,
+  overscan = DEFAULT_OVERSCAN
+}: UseVirtualListOptions) => {
+  const sizesRef = useRef(new Map<string, number>());
+  // Bumped when rows or the scrolling element change size
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const atBottomRef = useRef(true);
+  const anchorRef = useRef<ScrollPosition | null>(null);
+  const pendingScrollRef = useRef<{ key: string; block: ScrollBlock } | null>(null);
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  const measureRefsRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedScrollerRef = useRef<HTMLElement | null>(null);
+
+  const offsets = useMemo(
+    () => computeOffsets(keys, sizesRef.current, estimatedSize),
+    // Sizes live in a ref; layoutVersion says they changed
+    [keys, estimatedSize, layoutVersion]
+  );
+  const indexByKey = useMemo(() => new Map(keys.map((key, index) => [key, index])), [keys]);
+
+  const layoutRef = useRef({ keys, offsets });
+  layoutRef.current = { keys, offsets };
+
+  // Position of the list's first row within the scrolling content
+  const getListTop = useCallback(() => {
+    const scroller = scrollRef.current;
+    const list = listRef.current;
+    if (!scroller || !list) return 0;
+
+    return list.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+  }, [scrollRef, listRef]);
+
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+
+        entries.forEach(entry => {
+          const target = entry.target as HTMLElement;
+          if (target === observedScrollerRef.current) {
+            changed = true;
+            return;
+          }
+
+          const key = target.dataset.virtualKey;
+          if (!key) return;
+
+          const size = entry.borderBoxSize?.[0]?.blockSize ?? target.getBoundingClientRect().height;
+          if (sizesRef.current.get(key) !== size) {
+            sizesRef.current.set(key, size);
+            changed = true;
+          }
+        });
+
+        if (changed) {
+          setLayoutVersion(version => version + 1);
+        }
+      });
+    }
+
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => {
+    const observer = getObserver();
+    elementsRef.current.forEach(element => observer.observe(element));
+    if (observedScrollerRef.current) observer.observe(observedScrollerRef.current);
+
+    return () => observer.disconnect();
+  }, [getObserver]);
+
+  /** Reads the scroll position; call it from the scrolling element's onScroll. */
+  const syncViewport = useCallback(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    const { keys, offsets } = layoutRef.current;
+    const top = scroller.scrollTop - getListTop();
+    const height = scroller.clientHeight;
+    const atBottom = scroller.scrollHeight - scroller.scrollTop - height <= AT_BOTTOM_THRESHOLD;
+
+    atBottomRef.current = atBottom;
+    setIsAtBottom(atBottom);
+    setViewport(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+
+    const index = findRowAt(offsets, Math.max(top, 0));
+    anchorRef.current = index === -1 ? null : { key: keys[index], offset: offsets[index] - top };
+  }, [scrollRef, getListTop]);
+
+  // Runs after every render: rows may have been added, removed or measured
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    if (observedScrollerRef.current !== scroller) {
+      if (observedScrollerRef.current) getObserver().unobserve(observedScrollerRef.current);
+      observedScrollerRef.current = scroller;
+      getObserver().observe(scroller);
+    }
+
+    // A new, empty list (e.g. another room) starts at the bottom
+    if (keys.length === 0) {
+      atBottomRef.current = true;
+      anchorRef.current = null;
+    }
+
+    const pending = pendingScrollRef.current;
+    const anchor = anchorRef.current;
+
+    if (pending) {
+      const element = elementsRef.current.get(pending.key);
+      const index = indexByKey.get(pending.key);
+
+      if (element) {
+        pendingScrollRef.current = null;
+        element.scrollIntoView({ block: pending.block });
+      } else if (index !== undefined) {
+        // Not rendered yet: jump to its estimated position, then align it precisely next time
+        scroller.scrollTop = getListTop() + offsets[index] - scroller.clientHeight / 2;
+      } else {
+        pendingScrollRef.current = null;
+      }
+    } else if (atBottomRef.current) {
+      scroller.scrollTop = scroller.scrollHeight;
+    } else if (anchor && indexByKey.has(anchor.key)) {
+      const target = getListTop() + offsets[indexByKey.get(anchor.key) as number] - anchor.offset;
+      if (Math.abs(scroller.scrollTop - target) >= 1) {
+        scroller.scrollTop = target;
+      }
+    }
+
+    syncViewport();
+  });
+
+  /** Callback ref for a row's outermost element, used to measure it. */
+  const measureRef = useCallback((key: string) => {
+    let ref = measureRefsRef.current.get(key);
+
+    if (!ref) {
+      ref = (element: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous) {
+          getObserver().unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+
+        if (element) {
+          element.dataset.virtualKey = key;
+          elementsRef.current.set(key, element);
+          getObserver().observe(element);
+        } else {
+          measureRefsRef.current.delete(key);
+        }
+      };
+      measureRefsRef.current.set(key, ref);
+    }
+
+    return ref;
+  }, [getObserver]);
+
+  /** Scrolls a row into view, rendering it first if needed. */
+  const scrollToKey = useCallback((key: string, block: ScrollBlock = 'center') => {
+    pendingScrollRef.current = { key, block };
+    setLayoutVersion(version => version + 1);
+  }, []);
+
+  const scrollToBottom = useCallback(() => {
+    pendingScrollRef.current = null;
+    atBottomRef.current = true;
+    setIsAtBottom(true);
+    setLayoutVersion(version => version + 1);
+  }, []);
+
+  /** The current position, or null at the bottom. */
+  const getScrollPosition = useCallback(
+    (): ScrollPosition | null => (atBottomRef.current ? null : anchorRef.current),
+    []
+  );
+
+  /** Returns to a position from getScrollPosition once the rows are rendered. */
+  const restoreScrollPosition = useCallback((position: ScrollPosition | null) => {
+    pendingScrollRef.current = null;
+    anchorRef.current = position;
+    atBottomRef.current = position === null;
+    setIsAtBottom(position === null);
+    setLayoutVersion(version => version + 1);
+  }, []);
+
+  const range = findVisibleRange(offsets, viewport.top - overscan, viewport.top + viewport.height + overscan);
+  const rows: VirtualRow[] = range
+    ? keys.slice(range.start, range.end + 1).map((key, i) => ({ key, index: range.start + i }))
+    : [];
+
+  return {
+    rows,
+    /** Height of the rows above and below the rendered ones, for spacer elements. */
+    paddingTop: range ? offsets[range.start] : 0,
+    paddingBottom: range ? offsets[keys.length] - offsets[range.end + 1] : 0,
+    isAtBottom,
+    measureRef,
+    onScroll: syncViewport,
+    scrollToKey,
+    scrollToBottom,
+    getScrollPosition,
+    restoreScrollPosition
+  };
+};
@@ -1,11 +1,20 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import { AuthProvider } from './auth/AuthContext.tsx'
+import { TenantProvider } from './tenants/TenantContext.tsx'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <AuthProvider>
+      <TenantProvider>
+        <BrowserRouter>
+          <App />
+        </BrowserRouter>
+      </TenantProvider>
+    </AuthProvider>
   </React.StrictMode>,
 )
 
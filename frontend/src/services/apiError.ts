@@ -0,0 +1,26 @@
+/**
+ * Error thrown by the REST services for a non-success response.
+ * Carries the HTTP status so callers can tell "not found" from "forbidden".
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Builds an ApiError from a failed response, preferring the server's own
+ * `message` (e.g. "Chat room is full") over the fallback.
+ */
+export async function apiErrorFrom(response: Response, fallback: string): Promise<ApiError> {
+  try {
+    const body = await response.json();
+    if (body && typeof body.message === 'string' && body.message) {
+      return new ApiError(body.message, response.status);
+    }
+  } catch {
+    // Not JSON; use the fallback
+  }
+  return new ApiError(fallback, response.status);
+}
@@ -0,0 +1,59 @@
+import { tokenProvider } from '../auth/tokenProvider';
+import { ApiError } from './apiError';
+import { authorizedFetch } from './authorizedFetch';
+
+const API_BASE = '/api/auth';
+
+export interface AuthUser {
+  userId: string | null;
+  email: string | null;
+  claims: { type: string; value: string }[];
+}
+
+export interface AuthStatus {
+  authenticated: boolean;
+  userId?: string | null;
+  email?: string | null;
+}
+
+export const authApiService = {
+  async getCurrentUser(): Promise<AuthUser> {
+    const response = await authorizedFetch(`${API_BASE}/me`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch current user', response.status);
+    }
+
+    return response.json();
+  },
+
+  async getStatus(): Promise<AuthStatus> {
+    // Anonymous endpoint: send a token when there is one so the server can report on it
+    const token = await tokenProvider.getAccessToken().catch(() => null);
+    const response = await fetch(`${API_BASE}/status`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+    });
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch auth status', response.status);
+    }
+
+    return response.json();
+  },
+
+  async validateToken(): Promise<boolean> {
+    const response = await authorizedFetch(`${API_BASE}/validate-token`);
+
+    return response.ok;
+  },
+
+  async signOut(): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/signout`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      throw new ApiError('Failed to sign out', response.status);
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { tokenProvider } from '../auth/tokenProvider';
+import { TokenSet, TokenSource } from '../auth/tokenSource';
+import { authorizedFetch } from './authorizedFetch';
+
+const tokens = (accessToken: string): TokenSet => ({
+  accessToken,
+  expiresAt: Date.now() + 10 * 60_000,
+});
+
+const createSource = (refreshed: TokenSet | null): TokenSource => ({
+  signIn: vi.fn(async () => undefined),
+  handleRedirectCallback: vi.fn(async () => null),
+  getTokens: vi.fn(async () => tokens('first')),
+  refresh: vi.fn(async () => refreshed),
+  signOut: vi.fn(async () => undefined),
+});
+
+const bearerOf = (call: unknown[]) => new Headers((call[1] as RequestInit).headers).get('Authorization');
+
+describe('authorizedFetch', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let sessionExpired: ReturnType<typeof vi.fn>;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    sessionExpired = vi.fn();
+    unsubscribe = tokenProvider.onSessionExpired(sessionExpired);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    tokenProvider.setSource(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the access token as a bearer header', async () => {
+    tokenProvider.setSource(createSource(null));
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    const response = await authorizedFetch('/api/rooms');
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(bearerOf(fetchMock.mock.calls[0])).toBe('Bearer first');
+  });
+
+  it('refreshes once and retries after a 401', async () => {
+    const source = createSource(tokens('second'));
+    tokenProvider.setSource(source);
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 401 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    const response = await authorizedFetch('/api/rooms');
+
+    expect(response.status).toBe(200);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(bearerOf(fetchMock.mock.calls[1])).toBe('Bearer second');
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when the retry is rejected too', async () => {
+    const source = createSource(tokens('second'));
+    tokenProvider.setSource(source);
+    fetchMock.mockImplementation(async () => new Response(null, { status: 401 }));
+
+    const response = await authorizedFetch('/api/rooms');
+
+    expect(response.status).toBe(401);
+    expect(source.refresh).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the session without retrying when the refresh fails', async () => {
+    tokenProvider.setSource(createSource(null));
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+    await expect(authorizedFetch('/api/rooms')).rejects.toThrow('Session expired');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,35 @@
+import { tokenProvider } from '../auth/tokenProvider';
+import { currentTenant } from '../tenants/currentTenant';
+
+/**
+ * fetch() with a bearer token from the active token source, scoped to the
+ * current tenant with X-Tenant-Id.
+ * A 401 is retried once with a refreshed token; a second 401 ends the session.
+ */
+export const authorizedFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const send = (token: string) => {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+
+    const tenantId = currentTenant.getId();
+    if (tenantId && !headers.has('X-Tenant-Id')) {
+      headers.set('X-Tenant-Id', tenantId);
+    }
+    return fetch(input, { ...init, headers });
+  };
+
+  const token = await tokenProvider.getAccessToken();
+  const response = await send(token);
+
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const retryResponse = await send(await tokenProvider.handleUnauthorized(token));
+
+  if (retryResponse.status === 401) {
+    tokenProvider.expireSession();
+  }
+
+  return retryResponse;
+};
@@ -1,116 +1,551 @@
-import { ChatRoom } from './chatService';
+import {
+  ChatAttachment,
+  ChatMessage,
+  ChatRoom,
+  ChatRoomBan,
+  ChatRoomDetails,
+  ChatRoomInvitation,
+  InviteCandidate,
+  MessageEdit,
+  MessageType,
+  ModerationAction,
+  ReportedMessage,
+  ReportReason
+} from './chatService';
+import { ApiError, apiErrorFrom } from './apiError';
+import { authorizedFetch } from './authorizedFetch';
+import { validateAttachment } from '../utils/attachments';
 
 const API_BASE = '/api/chat';
 
+// Shape returned by GET /rooms/{roomId}/messages and .../replies (newest first)
+interface ChatMessageResponse {
+  id: string;
+  chatRoomId: string;
+  userId: string;
+  userEmail?: string;
+  content: string;
+  messageType: string;
+  attachment?: ChatAttachment | null;
+  parentMessageId?: string | null;
+  isEdited: boolean;
+  editedAt?: string | null;
+  isDeleted: boolean;
+  createdAt: string;
+  reactions?: Record<string, string[]>;
+  // Only on top-level messages
+  replyCount?: number;
+  lastReplyAt?: string | null;
+  latestRepliers?: string[];
+}
+
+/** Fields a room admin can change in the room settings. */
+export interface RoomSettingsUpdate {
+  name: string;
+  description?: string;
+  /** Null for no limit. */
+  maxParticipants: number | null;
+}
+
+/** Invite an existing user by id, or anyone with an account by email. */
+export type InviteTarget = { userId: string } | { email: string };
+
+export interface AttachmentUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  /** Pixel dimensions of an image, when known. */
+  width?: number;
+  height?: number;
+}
+
+const toChatMessage = (message: ChatMessageResponse): ChatMessage => ({
+  id: message.id,
+  chatRoomId: message.chatRoomId,
+  userId: message.userId,
+  userEmail: message.userEmail ?? '',
+  content: message.content,
+  messageType: message.messageType as MessageType,
+  attachment: message.attachment ?? null,
+  timestamp: message.createdAt,
+  isEdited: message.isEdited,
+  editedAt: message.editedAt ?? null,
+  isDeleted: message.isDeleted,
+  reactions: message.reactions ?? {},
+  parentMessageId: message.parentMessageId ?? null,
+  thread: message.replyCount !== undefined
+    ? {
+        replyCount: message.replyCount,
+        lastReplyAt: message.lastReplyAt ?? null,
+        latestRepliers: message.latestRepliers ?? []
+      }
+    : undefined
+});
+
 export const chatApiService = {
-  async getPublicRooms(token: string): Promise<ChatRoom[]> {
-    const response = await fetch(`${API_BASE}/rooms`, {
+  /** Without a tenant, the rooms of the current tenant (or of all tenants when there is none). */
+  async getPublicRooms(tenantId?: string): Promise<ChatRoom[]> {
+    const query = tenantId ? `?tenantId=${encodeURIComponent(tenantId)}` : '';
+    const response = await authorizedFetch(`${API_BASE}/rooms${query}`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch chat rooms', response.status);
+    }
+
+    return response.json();
+  },
+
+  async getMyRooms(tenantId?: string): Promise<ChatRoom[]> {
+    const query = tenantId ? `?tenantId=${encodeURIComponent(tenantId)}` : '';
+    const response = await authorizedFetch(`${API_BASE}/my-rooms${query}`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch my chat rooms', response.status);
+    }
+
+    return response.json();
+  },
+
+  async getRoom(roomId: string): Promise<ChatRoomDetails> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch chat room', response.status);
+    }
+
+    return response.json();
+  },
+
+  async createRoom(name: string, description?: string, isPublic: boolean = true, tenantId?: string): Promise<ChatRoom> {
+    const response = await authorizedFetch(`${API_BASE}/rooms`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`
-      }
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ name, description, isPublic, tenantId })
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch chat rooms');
+      throw await apiErrorFrom(response, 'Failed to create chat room');
     }
 
     return response.json();
   },
 
-  async getMyRooms(token: string): Promise<ChatRoom[]> {
-    const response = await fetch(`${API_BASE}/my-rooms`, {
+  async joinRoom(roomId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/join`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to join chat room');
+    }
+  },
+
+  async leaveRoom(roomId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/leave`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      throw new ApiError('Failed to leave chat room', response.status);
+    }
+  },
+
+  async updateRoom(roomId: string, settings: RoomSettingsUpdate): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}`, {
+      method: 'PUT',
       headers: {
-        'Authorization': `Bearer ${token}`
-      }
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(settings)
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to update chat room');
+    }
+  },
+
+  async archiveRoom(roomId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/archive`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to archive chat room');
+    }
+  },
+
+  /** Removes (kicks) a member; room admins and moderators. The user can rejoin unless banned. */
+  async removeMember(roomId: string, userId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/members/${userId}`, {
+      method: 'DELETE'
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch my chat rooms');
+      throw await apiErrorFrom(response, 'Failed to remove member');
+    }
+  },
+
+  async searchInviteCandidates(roomId: string, search: string = ''): Promise<InviteCandidate[]> {
+    const response = await authorizedFetch(
+      `${API_BASE}/rooms/${roomId}/invite-candidates?search=${encodeURIComponent(search)}`
+    );
+
+    if (!response.ok) {
+      throw new ApiError('Failed to search users', response.status);
     }
 
     return response.json();
   },
 
-  async getRoom(token: string, roomId: string): Promise<ChatRoom> {
-    const response = await fetch(`${API_BASE}/rooms/${roomId}`, {
+  async getRoomInvitations(roomId: string): Promise<ChatRoomInvitation[]> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/invitations`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch invitations', response.status);
+    }
+
+    return response.json();
+  },
+
+  async inviteToRoom(roomId: string, target: InviteTarget): Promise<ChatRoomInvitation> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/invitations`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`
-      }
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(target)
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch chat room');
+      throw await apiErrorFrom(response, 'Failed to send invitation');
     }
 
     return response.json();
   },
 
-  async createRoom(token: string, name: string, description?: string, isPublic: boolean = true): Promise<ChatRoom> {
-    const response = await fetch(`${API_BASE}/rooms`, {
+  async revokeInvitation(roomId: string, invitationId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/invitations/${invitationId}`, {
+      method: 'DELETE'
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to revoke invitation');
+    }
+  },
+
+  async getMyInvitations(): Promise<ChatRoomInvitation[]> {
+    const response = await authorizedFetch(`${API_BASE}/invitations`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch invitations', response.status);
+    }
+
+    return response.json();
+  },
+
+  async acceptInvitation(invitationId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/invitations/${invitationId}/accept`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to accept invitation');
+    }
+  },
+
+  async declineInvitation(invitationId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/invitations/${invitationId}/decline`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to decline invitation');
+    }
+  },
+
+  /** Mutes a member for the given number of minutes; returns when the mute ends. */
+  async muteMember(roomId: string, userId: string, durationMinutes: number, reason?: string): Promise<string> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/mutes`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`,
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ name, description, isPublic })
+      body: JSON.stringify({ userId, durationMinutes, reason })
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create chat room');
+      throw await apiErrorFrom(response, 'Failed to mute member');
+    }
+
+    const { mutedUntil } = await response.json();
+    return mutedUntil;
+  },
+
+  async unmuteMember(roomId: string, userId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/mutes/${userId}`, {
+      method: 'DELETE'
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to unmute member');
+    }
+  },
+
+  async getBans(roomId: string): Promise<ChatRoomBan[]> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/bans`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch bans', response.status);
     }
 
     return response.json();
   },
 
-  async joinRoom(token: string, roomId: string): Promise<void> {
-    const response = await fetch(`${API_BASE}/rooms/${roomId}/join`, {
+  /** Removes the user from the room and keeps them out until unbanned. */
+  async banMember(roomId: string, userId: string, reason?: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/bans`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`
-      }
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ userId, reason })
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to ban member');
+    }
+  },
+
+  async unbanMember(roomId: string, userId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/bans/${userId}`, {
+      method: 'DELETE'
     });
 
     if (!response.ok) {
-      throw new Error('Failed to join chat room');
+      throw await apiErrorFrom(response, 'Failed to unban member');
     }
   },
 
-  async leaveRoom(token: string, roomId: string): Promise<void> {
-    const response = await fetch(`${API_BASE}/rooms/${roomId}/leave`, {
+  /** Seconds between each member's messages; 0 turns slow mode off. */
+  async setSlowMode(roomId: string, seconds: number): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/slow-mode`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ seconds })
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to change slow mode');
+    }
+  },
+
+  /** A page of the room's moderation log, newest first; pass the oldest createdAt to page back. */
+  async getModerationLog(roomId: string, before?: string, take: number = 50): Promise<ModerationAction[]> {
+    const query = new URLSearchParams({ take: String(take) });
+    if (before) query.set('before', before);
+
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/moderation-log?${query}`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch moderation log', response.status);
+    }
+
+    return response.json();
+  },
+
+  /** Reports someone else's message to the room's moderators. */
+  async reportMessage(roomId: string, messageId: string, reason: ReportReason, note?: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/messages/${messageId}/reports`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`
-      }
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ reason, note })
     });
 
     if (!response.ok) {
-      throw new Error('Failed to leave chat room');
+      throw await apiErrorFrom(response, 'Failed to report message');
     }
   },
 
-  async getMessages(token: string, roomId: string, skip: number = 0, take: number = 50): Promise<any[]> {
-    const response = await fetch(`${API_BASE}/rooms/${roomId}/messages?skip=${skip}&take=${take}`, {
+  /** The room's review queue: reported messages with their open reports, oldest first. */
+  async getReports(roomId: string): Promise<ReportedMessage[]> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/reports`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch reports', response.status);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Closes a message's open reports. Deleting the message closes them as removed;
+   * mute or ban the author before resolving as sanctioned.
+   */
+  async resolveReports(roomId: string, messageId: string, resolution: 'dismissed' | 'sanctioned'): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/reports/${messageId}/resolve`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`
-      }
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ resolution })
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch messages');
+      throw await apiErrorFrom(response, 'Failed to resolve reports');
+    }
+  },
+
+  /**
+   * Opens a conversation with the given users, reusing the one with exactly the same
+   * people if it exists. The current user is always a participant.
+   */
+  async startDirectMessage(userIds: string[], tenantId?: string): Promise<{ id: string; created: boolean }> {
+    const response = await authorizedFetch(`${API_BASE}/direct`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ userIds, tenantId })
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFrom(response, 'Failed to start conversation');
+    }
+
+    return response.json();
+  },
+
+  async getMessages(roomId: string, skip: number = 0, take: number = 50): Promise<ChatMessage[]> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/messages?skip=${skip}&take=${take}`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch messages', response.status);
+    }
+
+    const messages: ChatMessageResponse[] = await response.json();
+    return messages.map(toChatMessage);
+  },
+
+  async getReplies(roomId: string, messageId: string, skip: number = 0, take: number = 50): Promise<ChatMessage[]> {
+    const response = await authorizedFetch(
+      `${API_BASE}/rooms/${roomId}/messages/${messageId}/replies?skip=${skip}&take=${take}`
+    );
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch thread replies', response.status);
+    }
+
+    const replies: ChatMessageResponse[] = await response.json();
+    return replies.map(toChatMessage);
+  },
+
+  async getEditHistory(roomId: string, messageId: string): Promise<MessageEdit[]> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/messages/${messageId}/history`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch edit history', response.status);
     }
 
     return response.json();
   },
 
-  async getUnreadCount(token: string, roomId: string): Promise<number> {
-    const response = await fetch(`${API_BASE}/rooms/${roomId}/unread-count`, {
+  /**
+   * Uploads a file in chunks. Send the returned attachment with
+   * chatService.sendAttachment. Aborting through `signal` cancels the upload.
+   */
+  async uploadAttachment(roomId: string, file: File, options: AttachmentUploadOptions = {}): Promise<ChatAttachment> {
+    const { signal, onProgress, width, height } = options;
+    const invalid = validateAttachment(file);
+
+    if (invalid) {
+      throw new ApiError(invalid, 400);
+    }
+
+    const beginResponse = await authorizedFetch(`${API_BASE}/rooms/${roomId}/attachments`, {
+      method: 'POST',
       headers: {
-        'Authorization': `Bearer ${token}`
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ fileName: file.name, contentType: file.type, size: file.size, width, height }),
+      signal
+    });
+
+    if (!beginResponse.ok) {
+      throw new ApiError('Failed to start upload', beginResponse.status);
+    }
+
+    const { uploadId, chunkSize }: { uploadId: string; chunkSize: number } = await beginResponse.json();
+
+    try {
+      for (let offset = 0; offset < file.size; offset += chunkSize) {
+        const response = await authorizedFetch(
+          `${API_BASE}/rooms/${roomId}/attachments/${uploadId}/chunks?offset=${offset}`,
+          {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/octet-stream'
+            },
+            body: file.slice(offset, offset + chunkSize),
+            signal
+          }
+        );
+
+        if (!response.ok) {
+          throw new ApiError('Failed to upload file', response.status);
+        }
+
+        onProgress?.(Math.min(offset + chunkSize, file.size), file.size);
+      }
+
+      const completeResponse = await authorizedFetch(
+        `${API_BASE}/rooms/${roomId}/attachments/${uploadId}/complete`,
+        { method: 'POST', signal }
+      );
+
+      if (!completeResponse.ok) {
+        throw new ApiError('Failed to finish upload', completeResponse.status);
       }
+
+      return completeResponse.json();
+    } catch (error) {
+      // Do not leave half-uploaded files behind
+      chatApiService.cancelAttachmentUpload(roomId, uploadId).catch(cancelError => {
+        console.error('Failed to clean up upload:', cancelError);
+      });
+      throw error;
+    }
+  },
+
+  async cancelAttachmentUpload(roomId: string, attachmentId: string): Promise<void> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/attachments/${attachmentId}`, {
+      method: 'DELETE'
     });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch unread count');
+      throw new ApiError('Failed to cancel upload', response.status);
+    }
+  },
+
+  async downloadAttachment(roomId: string, attachmentId: string): Promise<Blob> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/attachments/${attachmentId}`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to download attachment', response.status);
+    }
+
+    return response.blob();
+  },
+
+  async getUnreadCount(roomId: string): Promise<number> {
+    const response = await authorizedFetch(`${API_BASE}/rooms/${roomId}/unread-count`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch unread count', response.status);
     }
 
     const data = await response.json();
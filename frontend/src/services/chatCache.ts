@@ -0,0 +1,230 @@
+import { ChatMessage, ChatRoom } from './chatService';
+import {
+  clearChatDatabase,
+  MESSAGES_BY_ROOM_INDEX,
+  MESSAGES_STORE,
+  META_STORE,
+  openChatDatabase,
+  requestToPromise,
+  ROOM_CACHE_STORE,
+  ROOMS_STORE,
+  transactionToPromise
+} from './chatDatabase';
+import { draftStorage } from './draftStorage';
+
+// Newest top-level messages kept per room
+const MAX_CACHED_MESSAGES = 200;
+const MAX_CACHED_ROOMS = 30;
+// Share of the origin's storage quota above which rooms are evicted
+const QUOTA_HIGH_WATER = 0.8;
+// Share of the cached rooms dropped at once when storage runs low
+const QUOTA_EVICTION_SHARE = 0.25;
+const OWNER_KEY = 'owner';
+
+interface RoomCacheRecord {
+  roomId: string;
+  hasMoreHistory: boolean;
+  savedAt: string;
+}
+
+export interface CachedMessages {
+  /** Oldest first. */
+  messages: ChatMessage[];
+  hasMoreHistory: boolean;
+}
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+const isNearQuota = async (): Promise<boolean> => {
+  if (!navigator.storage?.estimate) return false;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 && usage / quota > QUOTA_HIGH_WATER;
+};
+
+// Deletes a room's cached messages, except the ids in `keep`
+const deleteRoomMessages = (store: IDBObjectStore, roomId: string, keep: Set<string> = new Set()) => {
+  const request = store.index(MESSAGES_BY_ROOM_INDEX).getAllKeys(roomId);
+  request.onsuccess = () => {
+    request.result.forEach(key => {
+      if (!keep.has(key as string)) store.delete(key);
+    });
+  };
+};
+
+/**
+ * IndexedDB cache of the room list and each room's recent messages, so the app
+ * renders right away on startup and then reconciles with the server.
+ *
+ * The cache belongs to one user: `open` wipes anything left by someone else, and
+ * reads and writes wait until it has been called.
+ */
+class ChatCache {
+  // Whether caching is enabled for the signed-in user; pending until `open`
+  private enabled!: Promise<boolean>;
+  private settleEnabled: ((enabled: Promise<boolean>) => void) | null = null;
+  private userId: string | null = null;
+  // Bumped by clear() so writes started before it cannot land after it
+  private generation = 0;
+
+  constructor() {
+    this.awaitOpen();
+  }
+
+  /** Binds the cache to the signed-in user, wiping data left by anyone else. */
+  open(userId: string): Promise<boolean> {
+    if (this.userId !== userId) {
+      this.userId = userId;
+      this.enabled = this.claim(userId);
+      this.settleEnabled?.(this.enabled);
+      this.settleEnabled = null;
+    }
+
+    return this.enabled;
+  }
+
+  /**
+   * Settles once the signed-in user owns the stored chat data: true when it is theirs
+   * (anything left by someone else has been wiped), false when the cache is unavailable.
+   */
+  whenOpen(): Promise<boolean> {
+    return this.enabled;
+  }
+
+  async loadRooms(): Promise<ChatRoom[]> {
+    if (!await this.enabled) return [];
+
+    const db = await openChatDatabase();
+    return requestToPromise<ChatRoom[]>(db.transaction(ROOMS_STORE).objectStore(ROOMS_STORE).getAll());
+  }
+
+  /** Replaces the cached room list. */
+  saveRooms(rooms: ChatRoom[]): Promise<void> {
+    return this.write([ROOMS_STORE], transaction => {
+      const store = transaction.objectStore(ROOMS_STORE);
+      store.clear();
+      rooms.forEach(room => store.put(room));
+    });
+  }
+
+  async loadMessages(roomId: string): Promise<CachedMessages | null> {
+    if (!await this.enabled) return null;
+
+    const db = await openChatDatabase();
+    const transaction = db.transaction([ROOM_CACHE_STORE, MESSAGES_STORE]);
+    const [record, messages] = await Promise.all([
+      requestToPromise<RoomCacheRecord | undefined>(transaction.objectStore(ROOM_CACHE_STORE).get(roomId)),
+      requestToPromise<ChatMessage[]>(transaction.objectStore(MESSAGES_STORE).index(MESSAGES_BY_ROOM_INDEX).getAll(roomId))
+    ]);
+
+    if (!record) return null;
+
+    return {
+      messages: messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+      hasMoreHistory: record.hasMoreHistory
+    };
+  }
+
+  /** Replaces a room's cached messages with the newest of `messages` (oldest first). */
+  async saveMessages(roomId: string, messages: ChatMessage[], hasMoreHistory: boolean): Promise<void> {
+    const recent = messages.slice(-MAX_CACHED_MESSAGES);
+    const record: RoomCacheRecord = {
+      roomId,
+      hasMoreHistory: hasMoreHistory || recent.length < messages.length,
+      savedAt: new Date().toISOString()
+    };
+
+    await this.write([MESSAGES_STORE, ROOM_CACHE_STORE], transaction => {
+      const store = transaction.objectStore(MESSAGES_STORE);
+      deleteRoomMessages(store, roomId, new Set(recent.map(message => message.id)));
+      recent.forEach(message => store.put(message));
+      transaction.objectStore(ROOM_CACHE_STORE).put(record);
+    });
+
+    await this.evict();
+  }
+
+  /** Wipes everything, unsent messages included, e.g. on sign-out. */
+  async clear(): Promise<void> {
+    this.generation++;
+    this.userId = null;
+    this.awaitOpen();
+    await clearChatDatabase();
+  }
+
+  private awaitOpen(): void {
+    this.enabled = new Promise(resolve => {
+      this.settleEnabled = resolve;
+    });
+  }
+
+  private async claim(userId: string): Promise<boolean> {
+    try {
+      const db = await openChatDatabase();
+      const owner = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(OWNER_KEY));
+
+      if (owner?.value !== userId) {
+        // Left by someone else, or from before owners were recorded and so of unknown origin.
+        // Their unsent messages go with the database; the outbox waits for this before reading it
+        await clearChatDatabase();
+        draftStorage.clear();
+        await requestToPromise(
+          db.transaction(META_STORE, 'readwrite').objectStore(META_STORE).put({ key: OWNER_KEY, value: userId })
+        );
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Failed to open the chat cache:', error);
+      return false;
+    }
+  }
+
+  private async write(storeNames: string[], fill: (transaction: IDBTransaction) => void): Promise<void> {
+    const generation = this.generation;
+    if (!await this.enabled) return;
+
+    const run = async () => {
+      const db = await openChatDatabase();
+      if (generation !== this.generation) return;
+
+      const transaction = db.transaction(storeNames, 'readwrite');
+      fill(transaction);
+      await transactionToPromise(transaction);
+    };
+
+    try {
+      await run();
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+
+      // Out of space: drop the least recently saved rooms and try once more
+      await this.evict(true);
+      await run();
+    }
+  }
+
+  /** Drops the least recently saved rooms while over the room limit or close to the quota. */
+  private async evict(quotaExceeded: boolean = false): Promise<void> {
+    const db = await openChatDatabase();
+    const records = await requestToPromise<RoomCacheRecord[]>(
+      db.transaction(ROOM_CACHE_STORE).objectStore(ROOM_CACHE_STORE).getAll()
+    );
+    records.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+
+    let excess = records.length - MAX_CACHED_ROOMS;
+    if (excess <= 0 && (quotaExceeded || await isNearQuota())) {
+      excess = Math.ceil(records.length * QUOTA_EVICTION_SHARE);
+    }
+    if (excess <= 0) return;
+
+    const transaction = db.transaction([MESSAGES_STORE, ROOM_CACHE_STORE], 'readwrite');
+    records.slice(0, excess).forEach(({ roomId }) => {
+      deleteRoomMessages(transaction.objectStore(MESSAGES_STORE), roomId);
+      transaction.objectStore(ROOM_CACHE_STORE).delete(roomId);
+    });
+    await transactionToPromise(transaction);
+  }
+}
+
+export const chatCache = new ChatCache();
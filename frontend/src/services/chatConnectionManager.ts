@@ -0,0 +1,211 @@
+import { currentTenant } from '../tenants/currentTenant';
+import { chatService } from './chatService';
+import { Unsubscribe } from './eventEmitter';
+import { presenceMonitor } from './presenceMonitor';
+
+// Keep the connection open briefly after the last consumer leaves so that
+// remounts (room switches, StrictMode) do not tear it down and rebuild it
+const DISCONNECT_GRACE_MS = 1000;
+
+/**
+ * Shares the single hub connection between every mounted consumer.
+ *
+ * Connections and room joins are reference counted: the hub connection is
+ * closed only when the last consumer releases it, and a room's hub group is
+ * left only when nobody is viewing it anymore. Connect, disconnect, join and
+ * leave calls are serialized so they can never race each other. While the
+ * connection is wanted, the user's away/online status is reported to the hub.
+ * A connection is made for the current tenant and re-made when it changes;
+ * every new or reconnected connection rejoins the rooms still being viewed.
+ */
+class ChatConnectionManager {
+  private consumers = 0;
+  private roomRefs = new Map<string, number>();
+  // Rooms whose hub group the current connection is in
+  private joinedRooms = new Set<string>();
+  // Hub joins still in flight, shared by every viewer that arrives meanwhile
+  private pendingJoins = new Map<string, Promise<void>>();
+  private queue: Promise<void> = Promise.resolve();
+  private disconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    // Hub group membership is per connection, so it is lost on reconnect
+    chatService.on('Reconnecting', () => this.joinedRooms.clear());
+    chatService.on('Reconnected', () => {
+      this.enqueue(() => this.rejoinRooms());
+    });
+
+    chatService.on('ConnectionStateChanged', ({ connected }) => {
+      if (!connected) {
+        this.joinedRooms.clear();
+        return;
+      }
+
+      // The hub counts every new connection as online
+      if (presenceMonitor.getStatus() === 'away') {
+        this.reportPresence();
+      }
+    });
+    presenceMonitor.on('changed', () => this.reportPresence());
+
+    // The hub scopes room joins to the tenant the connection was made for
+    currentTenant.on('changed', () => {
+      this.enqueue(async () => {
+        if (chatService.getConnectionState() === 'Disconnected') return;
+
+        await chatService.disconnect();
+        if (this.consumers > 0) {
+          await this.connect();
+        }
+      }).catch(error => {
+        console.error('Failed to reconnect for the new community:', error);
+      });
+    });
+  }
+
+  /** Registers a consumer of the connection. Call the returned handle to release it. */
+  acquire(): Unsubscribe {
+    this.consumers++;
+    presenceMonitor.start();
+
+    if (this.disconnectTimer) {
+      clearTimeout(this.disconnectTimer);
+      this.disconnectTimer = null;
+    }
+
+    this.enqueue(() => this.connect()).catch(error => {
+      console.error('Failed to connect to chat server:', error);
+    });
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.consumers--;
+
+      if (this.consumers === 0) {
+        this.disconnectTimer = setTimeout(() => {
+          this.disconnectTimer = null;
+          if (this.consumers === 0) {
+            presenceMonitor.stop();
+            this.enqueue(() => chatService.disconnect());
+          }
+        }, DISCONNECT_GRACE_MS);
+      }
+    };
+  }
+
+  /**
+   * Joins the room's hub group if nobody has yet. Call the returned handle to leave.
+   * Viewers arriving while the join is in flight wait for it, and fail with it.
+   */
+  async joinRoom(roomId: string): Promise<Unsubscribe> {
+    const refs = this.roomRefs.get(roomId) ?? 0;
+    this.roomRefs.set(roomId, refs + 1);
+
+    const join = refs === 0 ? this.startJoin(roomId) : this.pendingJoins.get(roomId);
+    if (join) {
+      await join;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.releaseRoom(roomId);
+    };
+  }
+
+  /** Rooms that currently have at least one viewer. */
+  getActiveRooms(): string[] {
+    return Array.from(this.roomRefs.keys());
+  }
+
+  private reportPresence(): void {
+    chatService.setPresence(presenceMonitor.getStatus()).catch(error => {
+      console.error('Failed to report presence:', error);
+    });
+  }
+
+  /** Connects and puts the new connection in the groups of every room still being viewed. */
+  private async connect(): Promise<void> {
+    await chatService.connect();
+    await this.rejoinRooms();
+  }
+
+  private async rejoinRooms(): Promise<void> {
+    if (!chatService.isConnected()) return;
+
+    for (const roomId of Array.from(this.roomRefs.keys())) {
+      try {
+        await this.joinOnHub(roomId);
+      } catch (error) {
+        console.error(`Failed to rejoin chat room ${roomId}:`, error);
+      }
+    }
+  }
+
+  private async joinOnHub(roomId: string): Promise<void> {
+    if (this.joinedRooms.has(roomId)) return;
+
+    if (!chatService.isConnected()) {
+      throw new Error('Not connected to chat server');
+    }
+
+    await chatService.joinRoom(roomId);
+    this.joinedRooms.add(roomId);
+  }
+
+  private startJoin(roomId: string): Promise<void> {
+    const join = this.enqueue(() => this.joinOnHub(roomId)).then(
+      () => {
+        this.pendingJoins.delete(roomId);
+      },
+      error => {
+        // Never joined, so there is nothing to leave: none of the waiting viewers holds the room
+        this.pendingJoins.delete(roomId);
+        this.roomRefs.delete(roomId);
+        throw error;
+      }
+    );
+
+    this.pendingJoins.set(roomId, join);
+    return join;
+  }
+
+  private releaseRoom(roomId: string): void {
+    if (!this.dropRoomRef(roomId)) return;
+
+    this.enqueue(async () => {
+      // Joined again while this leave was queued
+      if (this.roomRefs.has(roomId)) return;
+
+      this.joinedRooms.delete(roomId);
+      await chatService.leaveRoom(roomId);
+    }).catch(error => {
+      console.error(`Failed to leave chat room ${roomId}:`, error);
+    });
+  }
+
+  /** Returns true when that was the room's last reference. */
+  private dropRoomRef(roomId: string): boolean {
+    const refs = (this.roomRefs.get(roomId) ?? 1) - 1;
+
+    if (refs > 0) {
+      this.roomRefs.set(roomId, refs);
+      return false;
+    }
+
+    this.roomRefs.delete(roomId);
+    return true;
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(operation);
+    // A failed operation must not block the ones queued after it
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const chatConnectionManager = new ChatConnectionManager();
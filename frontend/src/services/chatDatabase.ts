@@ -0,0 +1,86 @@
+const DB_NAME = 'online-communities';
+const DB_VERSION = 2;
+
+export const OUTBOX_STORE = 'outbox';
+/** The room list as last loaded, one record per room. */
+export const ROOMS_STORE = 'rooms';
+/** Recent top-level messages of cached rooms. */
+export const MESSAGES_STORE = 'messages';
+export const MESSAGES_BY_ROOM_INDEX = 'chatRoomId';
+/** Per cached room: paging state and when it was last saved, for eviction. */
+export const ROOM_CACHE_STORE = 'roomCache';
+/** Single records such as the owner of the cached data. */
+export const META_STORE = 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the client-side chat database.
+ */
+export const openChatDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Each step upgrades from the version before it; released steps must not change
+      request.onupgradeneeded = event => {
+        const db = request.result;
+
+        if (event.oldVersion < 1) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'clientMessageId' });
+        }
+
+        if (event.oldVersion < 2) {
+          db.createObjectStore(ROOMS_STORE, { keyPath: 'id' });
+          db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' })
+            .createIndex(MESSAGES_BY_ROOM_INDEX, 'chatRoomId');
+          db.createObjectStore(ROOM_CACHE_STORE, { keyPath: 'roomId' });
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+
+        // Another tab loaded a newer version: let it upgrade, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+
+  return dbPromise;
+};
+
+/** Wraps an IDBRequest in a promise. */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Resolves once a transaction has committed. */
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+/** Empties every store, e.g. on sign-out. */
+export const clearChatDatabase = async (): Promise<void> => {
+  const db = await openChatDatabase();
+  const storeNames = Array.from(db.objectStoreNames);
+  const transaction = db.transaction(storeNames, 'readwrite');
+
+  storeNames.forEach(name => transaction.objectStore(name).clear());
+  await transactionToPromise(transaction);
+};
@@ -0,0 +1,79 @@
+import { chatCache } from './chatCache';
+import { ChatAttachment, chatService } from './chatService';
+import { OUTBOX_STORE, openChatDatabase, requestToPromise } from './chatDatabase';
+import { Outbox, OutboxEntry, OutboxStorage, OutboxTransport } from './outbox';
+
+// Stored entries may be another user's until the chat cache has checked who owns the
+// database, so nothing is read or written before then
+const indexedDbOutboxStorage: OutboxStorage = {
+  async getAll(): Promise<OutboxEntry[]> {
+    if (!await chatCache.whenOpen()) return [];
+
+    const db = await openChatDatabase();
+    return requestToPromise(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+  },
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await chatCache.whenOpen();
+    const db = await openChatDatabase();
+    await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).put(entry));
+  },
+
+  async delete(clientMessageId: string): Promise<void> {
+    await chatCache.whenOpen();
+    const db = await openChatDatabase();
+    await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(clientMessageId));
+  }
+};
+
+const hubTransport: OutboxTransport = {
+  isConnected: () => chatService.isConnected(),
+  send: entry => entry.attachment
+    ? chatService.sendAttachment(
+        entry.chatRoomId,
+        entry.attachment.id,
+        entry.content,
+        entry.clientMessageId,
+        entry.parentMessageId ?? null
+      )
+    : chatService.sendMessage(
+        entry.chatRoomId,
+        entry.content,
+        entry.clientMessageId,
+        entry.parentMessageId ?? null
+      )
+};
+
+export const chatOutbox = new Outbox(hubTransport, indexedDbOutboxStorage);
+
+/**
+ * Queues a text message, or one message per attachment with the text as the
+ * first one's caption.
+ */
+export const enqueueMessage = async (
+  chatRoomId: string,
+  content: string,
+  attachments: ChatAttachment[] = [],
+  parentMessageId: string | null = null
+): Promise<void> => {
+  if (attachments.length === 0) {
+    await chatOutbox.enqueue(chatRoomId, content, parentMessageId);
+    return;
+  }
+
+  for (const [index, attachment] of attachments.entries()) {
+    await chatOutbox.enqueue(chatRoomId, index === 0 ? content : '', parentMessageId, attachment);
+  }
+};
+
+chatService.on('ReceiveMessage', message => {
+  if (message.clientMessageId) {
+    chatOutbox.reconcile(message.clientMessageId);
+  }
+});
+
+chatService.on('ConnectionStateChanged', ({ connected }) => {
+  if (connected) {
+    chatOutbox.flush();
+  }
+});
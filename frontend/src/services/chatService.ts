@@ -1,4 +1,25 @@
 import { HubConnection, HubConnectionBuilder, LogLevel } from '@microsoft/signalr';
+import { tokenProvider } from '../auth/tokenProvider';
+import { currentTenant } from '../tenants/currentTenant';
+import { TypedEventEmitter } from './eventEmitter';
+
+// Enforced by the hub as well
+export const MAX_MESSAGE_LENGTH = 4000;
+
+/** image and file messages carry an attachment; the content is an optional caption. */
+export type MessageType = 'text' | 'image' | 'file' | 'system';
+
+/** An uploaded file, as stored in a message's metadata. */
+export interface ChatAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  /** Bytes. */
+  size: number;
+  /** Images only, so the layout can reserve space before the image loads. */
+  width?: number | null;
+  height?: number | null;
+}
 
 export interface ChatMessage {
   id: string;
@@ -6,9 +27,36 @@ export interface ChatMessage {
   userId: string;
   userEmail: string;
   content: string;
-  messageType: string;
+  messageType: MessageType;
+  attachment?: ChatAttachment | null;
   timestamp: string;
   isEdited: boolean;
+  editedAt?: string | null;
+  /** Deleted messages are kept as tombstones with empty content. */
+  isDeleted?: boolean;
+  /** Emoji to the ids of the users who reacted with it, in the order they reacted. */
+  reactions?: Record<string, string[]>;
+  /** Echo of the id the sender generated, used to reconcile optimistic messages. */
+  clientMessageId?: string | null;
+  /** Set on thread replies: the top-level message that started the thread. */
+  parentMessageId?: string | null;
+  /** Thread summary, present on top-level messages loaded from history. */
+  thread?: ThreadSummary;
+}
+
+export interface ThreadSummary {
+  replyCount: number;
+  lastReplyAt: string | null;
+  /** Most recent distinct repliers first. */
+  latestRepliers: string[];
+}
+
+/** Someone in a direct conversation, as listed with GET /my-rooms. */
+export interface RoomParticipant {
+  userId: string;
+  email: string;
+  /** First and last name; empty when the profile has none. */
+  displayName: string;
 }
 
 export interface ChatRoom {
@@ -17,9 +65,72 @@ export interface ChatRoom {
   description?: string;
   isPublic: boolean;
   tenantId?: string;
+  /** The name of the room's tenant, for labelling; null for global rooms. */
+  tenantName?: string | null;
   memberCount: number;
   isMember: boolean;
   createdAt: string;
+  /** Tracked on the client from live messages; falls back to createdAt. */
+  lastActivityAt?: string;
+  /** A one-to-one or group conversation, shown by its participants instead of its name. */
+  isDirect?: boolean;
+  /** Everyone in a direct conversation, the current user included; null for other rooms. */
+  participants?: RoomParticipant[] | null;
+}
+
+export interface ChatRoomMember {
+  userId: string;
+  email: string;
+  /** First and last name; empty when the profile has none. */
+  displayName: string;
+  role: string;
+  joinedAt: string;
+  isMuted: boolean;
+  /** Set while a moderator has muted the member; they cannot send messages until then. */
+  mutedUntil?: string | null;
+}
+
+/** A single room as returned by GET /rooms/{roomId}. */
+export interface ChatRoomDetails {
+  id: string;
+  name: string;
+  description?: string;
+  isPublic: boolean;
+  tenantId?: string;
+  maxParticipants?: number | null;
+  /** False once a room admin has archived the room. */
+  isActive: boolean;
+  /** Seconds each member must wait between messages; 0 when slow mode is off. */
+  slowModeSeconds: number;
+  members: ChatRoomMember[];
+  isMember: boolean;
+  /** A direct conversation: named after its members, with no invitations or settings. */
+  isDirect: boolean;
+  /** Open message reports; only sent to users who can moderate the room. */
+  openReportCount?: number | null;
+  createdAt: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+/** An invitation to join a room; the invitee becomes a member on accepting. */
+export interface ChatRoomInvitation {
+  id: string;
+  chatRoomId: string;
+  chatRoomName: string;
+  invitedUserId: string;
+  invitedUserEmail: string;
+  invitedById: string;
+  invitedByEmail: string;
+  status: InvitationStatus;
+  createdAt: string;
+}
+
+/** Someone who can be invited to a room. */
+export interface InviteCandidate {
+  userId: string;
+  email: string;
+  displayName: string;
 }
 
 export interface UserTyping {
@@ -30,21 +141,276 @@ export interface UserTyping {
   timestamp: string;
 }
 
-class ChatService {
+export interface ConnectedEvent {
+  connectionId: string;
+  userId: string;
+  timestamp: string;
+}
+
+/** Payload of UserJoined/UserLeft (hub group presence) and UserJoinedRoom (new membership). */
+export interface RoomUserEvent {
+  userId: string;
+  chatRoomId: string;
+  timestamp: string;
+}
+
+/** Offline is never reported by the client; it means no open connection. */
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+}
+
+/** Payload of PresenceChanged, sent once for each room the user is a member of. */
+export interface PresenceChangedEvent extends UserPresence {
+  chatRoomId: string;
+  timestamp: string;
+}
+
+/** Who is connected in the user's rooms; sent on connecting and on joining a room's hub group. */
+export interface PresenceSnapshotEvent {
+  rooms: { chatRoomId: string; users: UserPresence[] }[];
+}
+
+/** Payload of RoomUpdated, sent when a room admin changes the settings or archives the room. */
+export interface RoomUpdatedEvent {
+  chatRoomId: string;
+  name: string;
+  description?: string | null;
+  maxParticipants?: number | null;
+  isActive: boolean;
+  timestamp: string;
+}
+
+/** Payload of MemberRemoved, sent to the room and to the removed user. */
+export interface MemberRemovedEvent {
+  userId: string;
+  chatRoomId: string;
+  removedBy: string;
+  timestamp: string;
+}
+
+/** Payload of MemberMuted, sent to the room and to the muted user. */
+export interface MemberMutedEvent {
+  chatRoomId: string;
+  userId: string;
+  mutedUntil: string;
+  mutedBy: string;
+}
+
+/** Payload of MemberUnmuted and MemberUnbanned. */
+export interface MemberModerationEvent {
+  chatRoomId: string;
+  userId: string;
+}
+
+/** Payload of MemberBanned, sent to the room and to the banned user after MemberRemoved. */
+export interface MemberBannedEvent {
+  chatRoomId: string;
+  userId: string;
+  bannedBy: string;
+  timestamp: string;
+}
+
+export interface SlowModeChangedEvent {
+  chatRoomId: string;
+  /** 0 when slow mode was turned off. */
+  seconds: number;
+  changedBy: string;
+}
+
+export type ModerationActionType = 'deleteMessage' | 'mute' | 'unmute' | 'kick' | 'ban' | 'unban' | 'slowMode';
+
+/** An entry in a room's moderation log. */
+export interface ModerationAction {
+  id: string;
+  chatRoomId: string;
+  action: ModerationActionType;
+  moderatorId: string;
+  moderatorEmail: string;
+  targetUserId?: string | null;
+  targetUserEmail?: string | null;
+  targetMessageId?: string | null;
+  /** The mute duration, or the slow mode interval. */
+  durationSeconds?: number | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+/** A user banned from a room. */
+export interface ChatRoomBan {
+  userId: string;
+  userEmail: string;
+  userDisplayName: string;
+  bannedById: string;
+  bannedByEmail: string;
+  reason?: string | null;
+  createdAt: string;
+}
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'inappropriate' | 'other';
+
+/** One member's report of a message. */
+export interface MessageReport {
+  id: string;
+  reporterId: string;
+  reporterEmail: string;
+  reason: ReportReason;
+  note?: string | null;
+  createdAt: string;
+}
+
+/** A message in the review queue with its open reports. */
+export interface ReportedMessage {
+  messageId: string;
+  /** Set for thread replies; their context is the thread's parent message. */
+  parentMessageId?: string | null;
+  authorId: string;
+  authorEmail: string;
+  content: string;
+  isDeleted: boolean;
+  messageCreatedAt: string;
+  /** Top-level messages newer than the message (or its parent): its skip for getMessages. */
+  newerMessageCount: number;
+  reports: MessageReport[];
+}
+
+/** Payload of ReportsChanged, sent to the room's admins and moderators. */
+export interface ReportsChangedEvent {
+  chatRoomId: string;
+  openCount: number;
+}
+
+/** Payload of DirectRoomStarted, sent to everyone in a new or reopened direct conversation. */
+export interface DirectRoomStartedEvent {
+  chatRoomId: string;
+  startedBy: string;
+}
+
+export interface InvitationRevokedEvent {
+  invitationId: string;
+  chatRoomId: string;
+}
+
+export interface JoinedRoomEvent {
+  chatRoomId: string;
+  timestamp: string;
+}
+
+export interface MessageEditedEvent {
+  id: string;
+  chatRoomId: string;
+  parentMessageId?: string | null;
+  content: string;
+  isEdited: boolean;
+  editedAt: string;
+}
+
+export interface MessageDeletedEvent {
+  id: string;
+  chatRoomId: string;
+  parentMessageId?: string | null;
+  deletedAt: string;
+}
+
+/** Payload of ReactionAdded and ReactionRemoved. */
+export interface ReactionEvent {
+  messageId: string;
+  chatRoomId: string;
+  parentMessageId?: string | null;
+  emoji: string;
+  userId: string;
+}
+
+/** A previous version of an edited message and when it was replaced. */
+export interface MessageEdit {
+  content: string;
+  editedAt: string;
+}
+
+export interface ChatError {
+  message: string;
+  /** Set when a queued message was refused; the outbox marks it failed. */
+  clientMessageId?: string | null;
+  /** Set when sending was refused because of a mute or slow mode. */
+  chatRoomId?: string | null;
+  mutedUntil?: string | null;
+  retryAt?: string | null;
+}
+
+// A refused invocation rejects with "An unexpected error occurred invoking
+// 'SendMessage' on the server. HubException: <reason>"; keep only the reason
+const toHubError = (error: unknown): Error => {
+  if (!(error instanceof Error)) return new Error('Failed to send message');
+
+  const marker = 'HubException: ';
+  const index = error.message.indexOf(marker);
+  return index >= 0 ? new Error(error.message.slice(index + marker.length)) : error;
+};
+
+export interface ChatServiceEvents {
+  Connected: ConnectedEvent;
+  ReceiveMessage: ChatMessage;
+  MessageEdited: MessageEditedEvent;
+  MessageDeleted: MessageDeletedEvent;
+  ReactionAdded: ReactionEvent;
+  ReactionRemoved: ReactionEvent;
+  UserTyping: UserTyping;
+  UserJoined: RoomUserEvent;
+  UserLeft: RoomUserEvent;
+  JoinedRoom: JoinedRoomEvent;
+  UserJoinedRoom: RoomUserEvent;
+  PresenceChanged: PresenceChangedEvent;
+  PresenceSnapshot: PresenceSnapshotEvent;
+  RoomUpdated: RoomUpdatedEvent;
+  MemberRemoved: MemberRemovedEvent;
+  MemberMuted: MemberMutedEvent;
+  MemberUnmuted: MemberModerationEvent;
+  MemberBanned: MemberBannedEvent;
+  MemberUnbanned: MemberModerationEvent;
+  SlowModeChanged: SlowModeChangedEvent;
+  ReportsChanged: ReportsChangedEvent;
+  DirectRoomStarted: DirectRoomStartedEvent;
+  InvitationReceived: ChatRoomInvitation;
+  InvitationRevoked: InvitationRevokedEvent;
+  Error: ChatError;
+  Reconnecting: { error?: Error };
+  Reconnected: { connectionId?: string };
+  Closed: { error?: Error };
+  ConnectionStateChanged: { connected: boolean };
+}
+
+class ChatService extends TypedEventEmitter<ChatServiceEvents> {
   private connection: HubConnection | null = null;
-  private onMessageCallback?: (message: ChatMessage) => void;
-  private onTypingCallback?: (typing: UserTyping) => void;
-  private onConnectionCallback?: (connected: boolean) => void;
-  private onErrorCallback?: (error: { message: string }) => void;
+  private startPromise: Promise<void> | null = null;
 
-  async connect(token: string): Promise<void> {
-    if (this.connection?.state === 'Connected') {
-      return;
+  /** Starts the hub connection; while one is connecting or connected, that one is reused. */
+  connect(): Promise<void> {
+    if (this.startPromise) {
+      return this.startPromise;
     }
 
+    if (this.connection && this.connection.state !== 'Disconnected') {
+      return Promise.resolve();
+    }
+
+    this.startPromise = this.start().finally(() => {
+      this.startPromise = null;
+    });
+    return this.startPromise;
+  }
+
+  private async start(): Promise<void> {
+
+    // Browsers cannot send headers on WebSockets, so the tenant goes in the query string
+    const tenantId = currentTenant.getId();
+    const url = tenantId ? `/hubs/chat?tenantId=${encodeURIComponent(tenantId)}` : '/hubs/chat';
+
     this.connection = new HubConnectionBuilder()
-      .withUrl('/hubs/chat', {
-        accessTokenFactory: () => token,
+      .withUrl(url, {
+        // Asked again on every (re)connect, so the latest token is always used
+        accessTokenFactory: () => tokenProvider.getAccessToken(),
         withCredentials: true
       })
       .withAutomaticReconnect({
@@ -61,10 +427,10 @@ class ChatService {
     try {
       await this.connection.start();
       console.log('SignalR Chat connection established');
-      this.onConnectionCallback?.(true);
+      this.emit('ConnectionStateChanged', { connected: true });
     } catch (error) {
       console.error('Error establishing SignalR connection:', error);
-      this.onConnectionCallback?.(false);
+      this.emit('ConnectionStateChanged', { connected: false });
     }
   }
 
@@ -72,57 +438,131 @@ class ChatService {
     if (this.connection) {
       await this.connection.stop();
       this.connection = null;
-      this.onConnectionCallback?.(false);
+      this.emit('ConnectionStateChanged', { connected: false });
     }
   }
 
   private setupEventHandlers(): void {
     if (!this.connection) return;
 
-    this.connection.on('Connected', (data: any) => {
+    this.connection.on('Connected', (data: ConnectedEvent) => {
       console.log('Connected to ChatHub:', data);
-      this.onConnectionCallback?.(true);
+      this.emit('Connected', data);
     });
 
     this.connection.on('ReceiveMessage', (message: ChatMessage) => {
-      console.log('Received message:', message);
-      this.onMessageCallback?.(message);
+      this.emit('ReceiveMessage', message);
+    });
+
+    this.connection.on('MessageEdited', (data: MessageEditedEvent) => {
+      this.emit('MessageEdited', data);
+    });
+
+    this.connection.on('MessageDeleted', (data: MessageDeletedEvent) => {
+      this.emit('MessageDeleted', data);
+    });
+
+    this.connection.on('ReactionAdded', (data: ReactionEvent) => {
+      this.emit('ReactionAdded', data);
+    });
+
+    this.connection.on('ReactionRemoved', (data: ReactionEvent) => {
+      this.emit('ReactionRemoved', data);
     });
 
     this.connection.on('UserTyping', (typing: UserTyping) => {
-      this.onTypingCallback?.(typing);
+      this.emit('UserTyping', typing);
+    });
+
+    this.connection.on('UserJoined', (data: RoomUserEvent) => {
+      this.emit('UserJoined', data);
+    });
+
+    this.connection.on('UserLeft', (data: RoomUserEvent) => {
+      this.emit('UserLeft', data);
+    });
+
+    this.connection.on('JoinedRoom', (data: JoinedRoomEvent) => {
+      this.emit('JoinedRoom', data);
     });
 
-    this.connection.on('UserJoined', (data: any) => {
-      console.log('User joined room:', data);
+    this.connection.on('UserJoinedRoom', (data: RoomUserEvent) => {
+      this.emit('UserJoinedRoom', data);
     });
 
-    this.connection.on('UserLeft', (data: any) => {
-      console.log('User left room:', data);
+    this.connection.on('PresenceChanged', (data: PresenceChangedEvent) => {
+      this.emit('PresenceChanged', data);
     });
 
-    this.connection.on('JoinedRoom', (data: any) => {
-      console.log('Successfully joined room:', data);
+    this.connection.on('PresenceSnapshot', (data: PresenceSnapshotEvent) => {
+      this.emit('PresenceSnapshot', data);
     });
 
-    this.connection.on('Error', (error: { message: string }) => {
+    this.connection.on('RoomUpdated', (data: RoomUpdatedEvent) => {
+      this.emit('RoomUpdated', data);
+    });
+
+    this.connection.on('MemberRemoved', (data: MemberRemovedEvent) => {
+      this.emit('MemberRemoved', data);
+    });
+
+    this.connection.on('MemberMuted', (data: MemberMutedEvent) => {
+      this.emit('MemberMuted', data);
+    });
+
+    this.connection.on('MemberUnmuted', (data: MemberModerationEvent) => {
+      this.emit('MemberUnmuted', data);
+    });
+
+    this.connection.on('MemberBanned', (data: MemberBannedEvent) => {
+      this.emit('MemberBanned', data);
+    });
+
+    this.connection.on('MemberUnbanned', (data: MemberModerationEvent) => {
+      this.emit('MemberUnbanned', data);
+    });
+
+    this.connection.on('SlowModeChanged', (data: SlowModeChangedEvent) => {
+      this.emit('SlowModeChanged', data);
+    });
+
+    this.connection.on('ReportsChanged', (data: ReportsChangedEvent) => {
+      this.emit('ReportsChanged', data);
+    });
+
+    this.connection.on('DirectRoomStarted', (data: DirectRoomStartedEvent) => {
+      this.emit('DirectRoomStarted', data);
+    });
+
+    this.connection.on('InvitationReceived', (invitation: ChatRoomInvitation) => {
+      this.emit('InvitationReceived', invitation);
+    });
+
+    this.connection.on('InvitationRevoked', (data: InvitationRevokedEvent) => {
+      this.emit('InvitationRevoked', data);
+    });
+
+    this.connection.on('Error', (error: ChatError) => {
       console.error('SignalR error:', error);
-      this.onErrorCallback?.(error);
+      this.emit('Error', error);
     });
 
-    this.connection.onclose(() => {
+    this.connection.onclose(error => {
       console.log('SignalR connection closed');
-      this.onConnectionCallback?.(false);
+      this.emit('Closed', { error });
+      this.emit('ConnectionStateChanged', { connected: false });
     });
 
-    this.connection.onreconnecting(() => {
+    this.connection.onreconnecting(error => {
       console.log('SignalR reconnecting...');
-      this.onConnectionCallback?.(false);
+      this.emit('Reconnecting', { error });
+      this.emit('ConnectionStateChanged', { connected: false });
     });
 
-    this.connection.onreconnected(() => {
+    this.connection.onreconnected(connectionId => {
       console.log('SignalR reconnected');
-      this.onConnectionCallback?.(true);
+      this.emit('Reconnected', { connectionId });
+      this.emit('ConnectionStateChanged', { connected: true });
     });
   }
 
@@ -138,38 +578,89 @@ class ChatService {
     }
   }
 
-  async sendMessage(chatRoomId: string, message: string): Promise<void> {
+  /** Reports whether this tab is in use; the server combines the user's tabs. */
+  async setPresence(status: Exclude<PresenceStatus, 'offline'>): Promise<void> {
     if (this.connection?.state === 'Connected') {
-      await this.connection.invoke('SendMessage', chatRoomId, message);
+      await this.connection.invoke('SetPresence', status);
     }
   }
 
-  async sendTypingIndicator(chatRoomId: string, isTyping: boolean): Promise<void> {
-    if (this.connection?.state === 'Connected') {
-      await this.connection.invoke('SendTypingIndicator', chatRoomId, isTyping);
+  async sendMessage(
+    chatRoomId: string,
+    message: string,
+    clientMessageId: string,
+    parentMessageId: string | null = null
+  ): Promise<void> {
+    if (this.connection?.state !== 'Connected') {
+      throw new Error('Not connected to chat server');
     }
+
+    await this.connection.invoke('SendMessage', chatRoomId, message, clientMessageId, parentMessageId)
+      .catch(error => {
+        throw toHubError(error);
+      });
   }
 
-  async markAsRead(chatRoomId: string, lastMessageId: string): Promise<void> {
-    if (this.connection?.state === 'Connected') {
-      await this.connection.invoke('MarkAsRead', chatRoomId, lastMessageId);
+  async sendAttachment(
+    chatRoomId: string,
+    attachmentId: string,
+    caption: string,
+    clientMessageId: string,
+    parentMessageId: string | null = null
+  ): Promise<void> {
+    if (this.connection?.state !== 'Connected') {
+      throw new Error('Not connected to chat server');
     }
+
+    await this.connection.invoke('SendAttachment', chatRoomId, attachmentId, caption, clientMessageId, parentMessageId)
+      .catch(error => {
+        throw toHubError(error);
+      });
   }
 
-  setMessageCallback(callback: (message: ChatMessage) => void): void {
-    this.onMessageCallback = callback;
+  async editMessage(messageId: string, content: string): Promise<void> {
+    if (this.connection?.state !== 'Connected') {
+      throw new Error('Not connected to chat server');
+    }
+
+    await this.connection.invoke('EditMessage', messageId, content);
   }
 
-  setTypingCallback(callback: (typing: UserTyping) => void): void {
-    this.onTypingCallback = callback;
+  /** Deletes one of the user's own messages, or as a moderator anyone's. */
+  async deleteMessage(messageId: string): Promise<void> {
+    if (this.connection?.state !== 'Connected') {
+      throw new Error('Not connected to chat server');
+    }
+
+    await this.connection.invoke('DeleteMessage', messageId);
   }
 
-  setConnectionCallback(callback: (connected: boolean) => void): void {
-    this.onConnectionCallback = callback;
+  async addReaction(messageId: string, emoji: string): Promise<void> {
+    if (this.connection?.state !== 'Connected') {
+      throw new Error('Not connected to chat server');
+    }
+
+    await this.connection.invoke('AddReaction', messageId, emoji);
   }
 
-  setErrorCallback(callback: (error: { message: string }) => void): void {
-    this.onErrorCallback = callback;
+  async removeReaction(messageId: string, emoji: string): Promise<void> {
+    if (this.connection?.state !== 'Connected') {
+      throw new Error('Not connected to chat server');
+    }
+
+    await this.connection.invoke('RemoveReaction', messageId, emoji);
+  }
+
+  async sendTypingIndicator(chatRoomId: string, isTyping: boolean): Promise<void> {
+    if (this.connection?.state === 'Connected') {
+      await this.connection.invoke('SendTypingIndicator', chatRoomId, isTyping);
+    }
+  }
+
+  async markAsRead(chatRoomId: string, lastMessageId: string): Promise<void> {
+    if (this.connection?.state === 'Connected') {
+      await this.connection.invoke('MarkAsRead', chatRoomId, lastMessageId);
+    }
   }
 
   getConnectionState(): string {
@@ -0,0 +1,58 @@
+import { chatCache } from './chatCache';
+import { chatService } from './chatService';
+import { ChatStore, RoomState, selectRoomMessages } from './store';
+
+// Rooms are written to the cache at most this often
+const PERSIST_DELAY_MS = 1000;
+
+export const chatStore = new ChatStore();
+
+// Events reach this client for every room whose hub group it joined
+chatService.on('ReceiveMessage', message => chatStore.receiveMessage(message));
+chatService.on('MessageEdited', edit => chatStore.applyEdit(edit));
+chatService.on('MessageDeleted', deletion => chatStore.applyDelete(deletion));
+chatService.on('ReactionAdded', reaction => chatStore.applyReaction(reaction, true));
+chatService.on('ReactionRemoved', reaction => chatStore.applyReaction(reaction, false));
+chatService.on('UserTyping', typing => chatStore.setTyping(typing));
+// Presence arrives for every room the user is a member of
+chatService.on('PresenceChanged', event => chatStore.applyPresence(event));
+chatService.on('PresenceSnapshot', snapshot => {
+  snapshot.rooms.forEach(room => chatStore.setRoomPresence(room.chatRoomId, room.users));
+});
+
+// Keep each loaded room's recent messages for the next session
+const persistedRooms = new Map<string, RoomState>();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isPersisted = (roomId: string, room: RoomState) => {
+  const previous = persistedRooms.get(roomId);
+  return previous !== undefined
+    && previous.messageIds === room.messageIds
+    && previous.messagesById === room.messagesById
+    && previous.hasMoreHistory === room.hasMoreHistory;
+};
+
+const persistRooms = () => {
+  persistTimer = null;
+  const state = chatStore.getState();
+
+  Object.entries(state.rooms).forEach(([roomId, room]) => {
+    if (!room.historyLoaded || isPersisted(roomId, room)) return;
+
+    persistedRooms.set(roomId, room);
+    chatCache.saveMessages(roomId, selectRoomMessages(state, roomId), room.hasMoreHistory)
+      .catch(error => console.error('Failed to cache messages:', error));
+  });
+};
+
+chatStore.subscribe(() => {
+  // Reset on sign-out
+  if (Object.keys(chatStore.getState().rooms).length === 0) {
+    persistedRooms.clear();
+    return;
+  }
+
+  if (!persistTimer) {
+    persistTimer = setTimeout(persistRooms, PERSIST_DELAY_MS);
+  }
+});
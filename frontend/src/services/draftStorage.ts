@@ -0,0 +1,35 @@
+const DRAFT_KEY_PREFIX = 'oc.draft.';
+
+// Best effort: localStorage can be unavailable (privacy modes) or full
+export const draftStorage = {
+  load(key: string): string {
+    try {
+      return localStorage.getItem(DRAFT_KEY_PREFIX + key) ?? '';
+    } catch {
+      return '';
+    }
+  },
+
+  save(key: string, text: string): void {
+    try {
+      if (text.trim()) {
+        localStorage.setItem(DRAFT_KEY_PREFIX + key, text);
+      } else {
+        localStorage.removeItem(DRAFT_KEY_PREFIX + key);
+      }
+    } catch (error) {
+      console.error('Failed to save draft:', error);
+    }
+  },
+
+  /** Removes every saved draft, e.g. on sign-out. */
+  clear(): void {
+    try {
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(DRAFT_KEY_PREFIX))
+        .forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      console.error('Failed to clear drafts:', error);
+    }
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TypedEventEmitter } from './eventEmitter';
+
+interface TestEvents {
+  ping: number;
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  ping(value: number): void {
+    this.emit('ping', value);
+  }
+}
+
+describe('TypedEventEmitter', () => {
+  it('calls a once listener for the first event only', () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+    emitter.once('ping', listener);
+
+    emitter.ping(1);
+    emitter.ping(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('removes a once listener through off with the original listener', () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+    emitter.once('ping', listener);
+
+    emitter.off('ping', listener);
+    emitter.ping(1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('removes a once listener through its unsubscribe function', () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+    const unsubscribe = emitter.once('ping', listener);
+
+    unsubscribe();
+    emitter.ping(1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('leaves other listeners in place when one is removed', () => {
+    const emitter = new TestEmitter();
+    const kept = vi.fn();
+    const removed = vi.fn();
+    emitter.on('ping', kept);
+    emitter.once('ping', removed);
+
+    emitter.off('ping', removed);
+    emitter.ping(1);
+
+    expect(kept).toHaveBeenCalledWith(1);
+    expect(removed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+export type Unsubscribe = () => void;
+
+type Listener<T> = (payload: T) => void;
+
+// A once() wrapper remembers the listener it wraps so off() can find it
+type OnceWrapper<T> = Listener<T> & { listener: Listener<T> };
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload type.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    const wrapper: OnceWrapper<Events[K]> = Object.assign((payload: Events[K]) => {
+      this.off(event, wrapper);
+      listener(payload);
+    }, { listener });
+
+    return this.on(event, wrapper);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const set = this.listeners.get(event) as Set<Listener<Events[K]>> | undefined;
+    if (!set) return;
+
+    if (!set.delete(listener)) {
+      const wrapper = Array.from(set).find(candidate => (candidate as OnceWrapper<Events[K]>).listener === listener);
+      if (wrapper) {
+        set.delete(wrapper);
+      }
+    }
+
+    if (set.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event) as Set<Listener<Events[K]>> | undefined;
+
+    // Copy so listeners can unsubscribe while being notified
+    Array.from(set ?? []).forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    });
+  }
+}
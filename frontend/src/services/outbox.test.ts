@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Outbox, OutboxEntry, OutboxStorage, OutboxTransport } from './outbox';
+
+class FakeHub implements OutboxTransport {
+  connected = true;
+  sent: OutboxEntry[] = [];
+  failNext = 0;
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async send(entry: OutboxEntry): Promise<void> {
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error('Hub error');
+    }
+    this.sent.push(entry);
+  }
+}
+
+class MemoryStorage implements OutboxStorage {
+  entries = new Map<string, OutboxEntry>();
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.clientMessageId, entry);
+  }
+
+  async delete(clientMessageId: string): Promise<void> {
+    this.entries.delete(clientMessageId);
+  }
+}
+
+describe('Outbox', () => {
+  let hub: FakeHub;
+  let storage: MemoryStorage;
+  let nextId: number;
+
+  const createOutbox = () =>
+    new Outbox(hub, storage, { maxAttempts: 2, retryDelayMs: 0, createId: () => `client-${++nextId}` });
+
+  beforeEach(() => {
+    hub = new FakeHub();
+    storage = new MemoryStorage();
+    nextId = 0;
+  });
+
+  it('sends immediately when connected and waits for the echo', async () => {
+    const outbox = createOutbox();
+
+    const entry = await outbox.enqueue('room-1', 'hello');
+    await outbox.flush();
+
+    expect(hub.sent.map(e => e.content)).toEqual(['hello']);
+    expect(outbox.getEntries()[0].status).toBe('sent');
+    expect(storage.entries.size).toBe(0);
+
+    expect(outbox.reconcile(entry.clientMessageId)).toBe(true);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('keeps messages composed offline and flushes them in order after reconnect', async () => {
+    hub.connected = false;
+    const outbox = createOutbox();
+
+    await outbox.enqueue('room-1', 'first');
+    await outbox.enqueue('room-1', 'second');
+    await outbox.flush();
+
+    expect(hub.sent).toEqual([]);
+    expect(outbox.getEntries().map(e => e.status)).toEqual(['pending', 'pending']);
+    expect(storage.entries.size).toBe(2);
+
+    hub.connected = true;
+    await outbox.flush();
+
+    expect(hub.sent.map(e => e.content)).toEqual(['first', 'second']);
+  });
+
+  it('restores unsent messages from storage', async () => {
+    hub.connected = false;
+    const original = createOutbox();
+    await original.enqueue('room-1', 'survives reload');
+    await original.flush();
+
+    hub.connected = true;
+    const restored = createOutbox();
+    await restored.flush();
+
+    expect(hub.sent.map(e => e.content)).toEqual(['survives reload']);
+  });
+
+  it('marks a message failed after repeated errors and lets the user retry it', async () => {
+    hub.failNext = 2;
+    const outbox = createOutbox();
+
+    const entry = await outbox.enqueue('room-1', 'flaky');
+    await outbox.flush();
+    await outbox.flush();
+
+    expect(outbox.getEntries()[0].status).toBe('failed');
+    expect(outbox.getEntries()[0].error).toBe('Hub error');
+
+    await outbox.retry(entry.clientMessageId);
+
+    expect(hub.sent.map(e => e.content)).toEqual(['flaky']);
+    expect(outbox.getEntries()[0].status).toBe('sent');
+  });
+
+  it('discards a failed message', async () => {
+    hub.failNext = 2;
+    const outbox = createOutbox();
+
+    const entry = await outbox.enqueue('room-1', 'unwanted');
+    await outbox.flush();
+    await outbox.flush();
+
+    outbox.discard(entry.clientMessageId);
+
+    expect(outbox.getEntries()).toEqual([]);
+    expect(storage.entries.size).toBe(0);
+  });
+});
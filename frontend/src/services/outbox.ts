@@ -0,0 +1,275 @@
+import { ChatAttachment } from './chatService';
+import { TypedEventEmitter } from './eventEmitter';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+/**
+ * pending: waiting to be sent
+ * sending: handed to the hub
+ * sent:    accepted by the hub, waiting for the ReceiveMessage echo
+ * failed:  gave up after repeated errors; the user can retry or discard
+ */
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  clientMessageId: string;
+  chatRoomId: string;
+  content: string;
+  /** Set when the message is a thread reply. */
+  parentMessageId?: string | null;
+  /** An already uploaded file; `content` is then its caption. */
+  attachment?: ChatAttachment | null;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+}
+
+/** How queued messages reach the server. chatService in the app, a fake hub in tests. */
+export interface OutboxTransport {
+  isConnected(): boolean;
+  send(entry: OutboxEntry): Promise<void>;
+}
+
+/** Where unsent messages survive a reload. IndexedDB in the app, memory in tests. */
+export interface OutboxStorage {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(clientMessageId: string): Promise<void>;
+}
+
+export interface OutboxEvents {
+  changed: OutboxEntry[];
+}
+
+interface OutboxOptions {
+  maxAttempts?: number;
+  /** Base delay before a failed send is retried; grows with each attempt. */
+  retryDelayMs?: number;
+  createId?: () => string;
+}
+
+/**
+ * Queue of messages composed by this client that the server has not yet
+ * echoed back. Entries are sent strictly in the order they were composed.
+ */
+export class Outbox extends TypedEventEmitter<OutboxEvents> {
+  private entries: OutboxEntry[] = [];
+  private flushing: Promise<void> | null = null;
+  private loaded: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly createId: () => string;
+
+  constructor(
+    private readonly transport: OutboxTransport,
+    private readonly storage: OutboxStorage,
+    options: OutboxOptions = {}
+  ) {
+    super();
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.createId = options.createId ?? (() => crypto.randomUUID());
+  }
+
+  /** Restores unsent messages from storage. Safe to call more than once. */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.storage.getAll()
+        .then(stored => {
+          const known = new Set(this.entries.map(e => e.clientMessageId));
+          const restored = stored
+            .filter(e => !known.has(e.clientMessageId))
+            // Anything in flight when the page closed is unconfirmed: send it again
+            .map(e => (e.status === 'sending' ? { ...e, status: 'pending' as const } : e));
+
+          this.entries = [...restored, ...this.entries].sort(
+            (a, b) => a.createdAt.localeCompare(b.createdAt)
+          );
+          this.notify();
+        })
+        .catch(error => {
+          console.error('Failed to restore outbox:', error);
+        });
+    }
+
+    return this.loaded;
+  }
+
+  getEntries(chatRoomId?: string): OutboxEntry[] {
+    return chatRoomId
+      ? this.entries.filter(e => e.chatRoomId === chatRoomId)
+      : [...this.entries];
+  }
+
+  async enqueue(
+    chatRoomId: string,
+    content: string,
+    parentMessageId: string | null = null,
+    attachment: ChatAttachment | null = null
+  ): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      clientMessageId: this.createId(),
+      chatRoomId,
+      content,
+      parentMessageId,
+      attachment,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0
+    };
+
+    this.entries.push(entry);
+    this.notify();
+    await this.persist(entry);
+
+    this.flush();
+    return entry;
+  }
+
+  /** Sends every pending entry in order. Concurrent calls share one pass. */
+  flush(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (!this.flushing) {
+      this.flushing = this.flushPending().finally(() => {
+        this.flushing = null;
+      });
+    }
+
+    return this.flushing;
+  }
+
+  /** Called with the clientMessageId echoed by ReceiveMessage. */
+  reconcile(clientMessageId: string): boolean {
+    const entry = this.entries.find(e => e.clientMessageId === clientMessageId);
+    if (!entry) return false;
+
+    this.remove(clientMessageId);
+    return true;
+  }
+
+  /**
+   * Drops entries the hub accepted but whose echo was missed (for example
+   * while rejoining after a reconnect); they are part of refetched history.
+   */
+  clearSent(chatRoomId: string): void {
+    const sent = this.entries.filter(e => e.chatRoomId === chatRoomId && e.status === 'sent');
+    sent.forEach(e => this.remove(e.clientMessageId));
+  }
+
+  async retry(clientMessageId: string): Promise<void> {
+    const entry = this.entries.find(e => e.clientMessageId === clientMessageId);
+    if (!entry || entry.status !== 'failed') return;
+
+    await this.update(entry, { status: 'pending', attempts: 0, error: undefined });
+    await this.flush();
+  }
+
+  discard(clientMessageId: string): void {
+    this.remove(clientMessageId);
+  }
+
+  /** Drops every entry without sending it, e.g. on sign-out. */
+  clear(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    this.entries.forEach(e => this.remove(e.clientMessageId));
+  }
+
+  private async flushPending(): Promise<void> {
+    await this.load();
+
+    for (;;) {
+      if (!this.transport.isConnected()) return;
+
+      const next = this.entries.find(e => e.status === 'pending');
+      if (!next) return;
+
+      await this.update(next, { status: 'sending', attempts: next.attempts + 1 });
+
+      try {
+        await this.transport.send(next);
+        // Accepted by the hub: nothing left to resend after a reload
+        this.setEntry(next.clientMessageId, { status: 'sent' });
+        await this.storage.delete(next.clientMessageId).catch(error => {
+          console.error('Failed to update outbox storage:', error);
+        });
+      } catch (error) {
+        const current = this.entries.find(e => e.clientMessageId === next.clientMessageId);
+        if (!current) continue;
+
+        // Lost the connection: not the message's fault, resend after reconnect
+        if (!this.transport.isConnected()) {
+          await this.update(current, { status: 'pending', attempts: current.attempts - 1 });
+          return;
+        }
+
+        const failed = current.attempts >= this.maxAttempts;
+        await this.update(current, {
+          status: failed ? 'failed' : 'pending',
+          error: error instanceof Error ? error.message : 'Failed to send message'
+        });
+
+        // Keep the order: stop here and try the same entry again shortly
+        if (!failed) {
+          this.scheduleRetry(current.attempts);
+          return;
+        }
+      }
+    }
+  }
+
+  private scheduleRetry(attempts: number): void {
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelayMs * attempts);
+  }
+
+  private async update(entry: OutboxEntry, changes: Partial<OutboxEntry>): Promise<void> {
+    const updated = this.setEntry(entry.clientMessageId, changes);
+    if (updated) {
+      await this.persist(updated);
+    }
+  }
+
+  private setEntry(clientMessageId: string, changes: Partial<OutboxEntry>): OutboxEntry | null {
+    const index = this.entries.findIndex(e => e.clientMessageId === clientMessageId);
+    if (index === -1) return null;
+
+    const updated = { ...this.entries[index], ...changes };
+    this.entries = [...this.entries.slice(0, index), updated, ...this.entries.slice(index + 1)];
+    this.notify();
+    return updated;
+  }
+
+  private remove(clientMessageId: string): void {
+    this.entries = this.entries.filter(e => e.clientMessageId !== clientMessageId);
+    this.notify();
+    this.storage.delete(clientMessageId).catch(error => {
+      console.error('Failed to update outbox storage:', error);
+    });
+  }
+
+  private async persist(entry: OutboxEntry): Promise<void> {
+    try {
+      await this.storage.put(entry);
+    } catch (error) {
+      // The message still goes out while the page stays open
+      console.error('Failed to persist outbox entry:', error);
+    }
+  }
+
+  private notify(): void {
+    this.emit('changed', this.getEntries());
+  }
+}
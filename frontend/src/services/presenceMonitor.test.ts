@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalPresence, PresenceMonitor } from './presenceMonitor';
+
+const IDLE_TIMEOUT_MS = 60_000;
+
+const createMonitor = () => {
+  const page = Object.assign(new EventTarget(), { visibilityState: 'visible' as DocumentVisibilityState });
+  const input = new EventTarget();
+  const monitor = new PresenceMonitor({ idleTimeoutMs: IDLE_TIMEOUT_MS, document: page, activityTarget: input });
+  const changes: LocalPresence[] = [];
+  monitor.on('changed', status => changes.push(status));
+
+  const setVisibility = (visibilityState: DocumentVisibilityState) => {
+    page.visibilityState = visibilityState;
+    page.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  return { monitor, input, changes, setVisibility };
+};
+
+describe('PresenceMonitor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is away while the tab is hidden', () => {
+    const { monitor, changes, setVisibility } = createMonitor();
+    monitor.start();
+
+    setVisibility('hidden');
+    expect(monitor.getStatus()).toBe('away');
+
+    setVisibility('visible');
+    expect(changes).toEqual(['away', 'online']);
+  });
+
+  it('goes away after the idle timeout, counted from the last input', () => {
+    const { monitor, input, changes } = createMonitor();
+    monitor.start();
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT_MS / 2);
+    input.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(IDLE_TIMEOUT_MS / 2);
+    expect(monitor.getStatus()).toBe('online');
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT_MS / 2);
+    expect(monitor.getStatus()).toBe('away');
+
+    input.dispatchEvent(new Event('pointermove'));
+    expect(changes).toEqual(['away', 'online']);
+  });
+
+  it('stops listening when stopped', () => {
+    const { monitor, changes, setVisibility } = createMonitor();
+    monitor.start();
+    monitor.stop();
+
+    setVisibility('hidden');
+    vi.advanceTimersByTime(IDLE_TIMEOUT_MS * 2);
+    expect(changes).toEqual([]);
+    expect(monitor.getStatus()).toBe('online');
+  });
+});
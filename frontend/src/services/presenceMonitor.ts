@@ -0,0 +1,119 @@
+import { PresenceStatus } from './chatService';
+import { TypedEventEmitter } from './eventEmitter';
+
+// Without input for this long the user counts as away
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+export type LocalPresence = Exclude<PresenceStatus, 'offline'>;
+
+export interface PresenceMonitorEvents {
+  changed: LocalPresence;
+}
+
+type VisibilitySource = EventTarget & Pick<Document, 'visibilityState'>;
+
+interface PresenceMonitorOptions {
+  idleTimeoutMs?: number;
+  /** Defaults to the page's document. */
+  document?: VisibilitySource;
+  /** Where user input is listened for; defaults to the window. */
+  activityTarget?: EventTarget;
+}
+
+/**
+ * Tells whether the local user is at the app: away while the tab is hidden or
+ * after a while without input, online otherwise.
+ */
+export class PresenceMonitor extends TypedEventEmitter<PresenceMonitorEvents> {
+  private status: LocalPresence = 'online';
+  private lastActivityAt = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private readonly idleTimeoutMs: number;
+  private readonly options: PresenceMonitorOptions;
+
+  constructor(options: PresenceMonitorOptions = {}) {
+    super();
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.options = options;
+  }
+
+  getStatus = (): LocalPresence => this.status;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.lastActivityAt = Date.now();
+
+    this.getDocument().addEventListener('visibilitychange', this.handleVisibilityChange);
+    ACTIVITY_EVENTS.forEach(type => {
+      this.getActivityTarget().addEventListener(type, this.handleActivity, { passive: true });
+    });
+    this.update();
+  }
+
+  /** Stops listening; the status goes back to online without notifying. */
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    this.getDocument().removeEventListener('visibilitychange', this.handleVisibilityChange);
+    ACTIVITY_EVENTS.forEach(type => {
+      this.getActivityTarget().removeEventListener(type, this.handleActivity);
+    });
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.status = 'online';
+  }
+
+  private getDocument(): VisibilitySource {
+    return this.options.document ?? document;
+  }
+
+  private getActivityTarget(): EventTarget {
+    return this.options.activityTarget ?? window;
+  }
+
+  private handleActivity = () => {
+    this.lastActivityAt = Date.now();
+
+    // While online the idle timer picks the new time up when it fires
+    if (this.status === 'away') {
+      this.update();
+    }
+  };
+
+  private handleVisibilityChange = () => {
+    // Coming back to the tab counts as activity
+    if (this.getDocument().visibilityState === 'visible') {
+      this.lastActivityAt = Date.now();
+    }
+    this.update();
+  };
+
+  private update = () => {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    const idleFor = Date.now() - this.lastActivityAt;
+    const status: LocalPresence = this.getDocument().visibilityState === 'hidden' || idleFor >= this.idleTimeoutMs
+      ? 'away'
+      : 'online';
+
+    if (status === 'online') {
+      this.idleTimer = setTimeout(this.update, this.idleTimeoutMs - idleFor);
+    }
+
+    if (status !== this.status) {
+      this.status = status;
+      this.emit('changed', status);
+    }
+  };
+}
+
+export const presenceMonitor = new PresenceMonitor();
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from './chatService';
+import {
+  ChatStore,
+  selectOnlineCounts,
+  selectRoom,
+  selectRoomMessages,
+  selectThreadReplies,
+  selectUnreadCounts
+} from './store';
+
+let nextMinute = 0;
+
+const message = (id: string, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  chatRoomId: 'room-1',
+  userId: 'other',
+  userEmail: 'other@example.com',
+  content: id,
+  messageType: 'text',
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, nextMinute++)).toISOString(),
+  isEdited: false,
+  ...overrides
+});
+
+const ids = (store: ChatStore, roomId = 'room-1') =>
+  selectRoomMessages(store.getState(), roomId).map(m => m.id);
+
+describe('ChatStore', () => {
+  it('keeps each room\'s timeline in order and only after its history was loaded', () => {
+    const store = new ChatStore();
+    const [a, b, c] = [message('a'), message('b'), message('c')];
+
+    store.receiveMessage(c);
+    expect(ids(store)).toEqual([]);
+
+    store.addLatestMessages('room-1', [b, c], true);
+    store.addOlderMessages('room-1', [a], false);
+    store.receiveMessage(message('d'));
+
+    expect(ids(store)).toEqual(['a', 'b', 'c', 'd']);
+    expect(selectRoom(store.getState(), 'room-1').hasMoreHistory).toBe(false);
+    expect(ids(store, 'room-2')).toEqual([]);
+  });
+
+  it('replaces a cached timeline when the newest page leaves a gap', () => {
+    const store = new ChatStore();
+    const old = message('old');
+    store.addLatestMessages('room-1', [old], false);
+
+    const latest = [message('new-1'), message('new-2')];
+    store.addLatestMessages('room-1', latest, true);
+    expect(ids(store)).toEqual(['new-1', 'new-2']);
+    expect(selectRoom(store.getState(), 'room-1').hasMoreHistory).toBe(true);
+
+    store.addLatestMessages('room-1', [latest[1], message('new-3')], true);
+    expect(ids(store)).toEqual(['new-1', 'new-2', 'new-3']);
+  });
+
+  it('shows cached messages until the newest page arrives, but never over it', () => {
+    const store = new ChatStore();
+    const [a, b] = [message('a'), message('b')];
+
+    store.hydrateRoom('room-1', [a, b], true);
+    expect(ids(store)).toEqual(['a', 'b']);
+
+    store.addLatestMessages('room-1', [{ ...b, content: 'edited', isEdited: true }, message('c')], true);
+    expect(ids(store)).toEqual(['a', 'b', 'c']);
+    expect(selectRoomMessages(store.getState(), 'room-1')[1].content).toBe('edited');
+
+    store.hydrateRoom('room-1', [a], false);
+    expect(ids(store)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('counts unread messages outside the focused room, except the user\'s own', () => {
+    const store = new ChatStore();
+    store.setCurrentUser('me');
+    store.setUnreadCount('room-1', 2);
+    store.focusRoom('room-2');
+
+    store.receiveMessage(message('a'));
+    store.receiveMessage(message('b', { userId: 'me' }));
+    store.receiveMessage(message('c', { chatRoomId: 'room-2' }));
+    expect(selectUnreadCounts(store.getState())).toEqual({ 'room-1': 3, 'room-2': 0 });
+
+    store.focusRoom('room-1');
+    expect(selectUnreadCounts(store.getState())['room-1']).toBe(0);
+  });
+
+  it('tracks who is connected per room from snapshots and changes', () => {
+    const store = new ChatStore();
+    const timestamp = new Date().toISOString();
+    store.setRoomPresence('room-1', [{ userId: 'a', status: 'online' }, { userId: 'b', status: 'away' }]);
+
+    store.applyPresence({ userId: 'a', chatRoomId: 'room-1', status: 'offline', timestamp });
+    store.applyPresence({ userId: 'c', chatRoomId: 'room-1', status: 'online', timestamp });
+    store.applyPresence({ userId: 'c', chatRoomId: 'room-2', status: 'away', timestamp });
+
+    expect(selectRoom(store.getState(), 'room-1').presence).toEqual({ b: 'away', c: 'online' });
+    expect(selectOnlineCounts(store.getState())).toEqual({ 'room-1': 2, 'room-2': 1 });
+
+    const before = store.getState();
+    store.applyPresence({ userId: 'c', chatRoomId: 'room-1', status: 'online', timestamp });
+    expect(store.getState()).toBe(before);
+  });
+
+  it('updates a thread and its parent from one message entity', () => {
+    const store = new ChatStore();
+    const parent = message('parent');
+    store.addLatestMessages('room-1', [parent], false);
+    store.addLatestReplies('room-1', 'parent', [], false);
+
+    const reply = message('reply', { parentMessageId: 'parent' });
+    store.receiveMessage(reply);
+    store.applyReaction({ messageId: 'reply', chatRoomId: 'room-1', parentMessageId: 'parent', emoji: '👍', userId: 'me' }, true);
+
+    const [loadedReply] = selectThreadReplies(store.getState(), 'room-1', 'parent');
+    expect(loadedReply.reactions).toEqual({ '👍': ['me'] });
+    expect(selectRoomMessages(store.getState(), 'room-1')[0].thread?.replyCount).toBe(1);
+
+    store.applyDelete({ id: 'reply', chatRoomId: 'room-1', parentMessageId: 'parent', deletedAt: reply.timestamp });
+    expect(selectThreadReplies(store.getState(), 'room-1', 'parent')[0].isDeleted).toBe(true);
+    expect(selectRoomMessages(store.getState(), 'room-1')[0].thread?.replyCount).toBe(0);
+  });
+
+  it('returns the same selection until the room changes', () => {
+    const store = new ChatStore();
+    store.addLatestMessages('room-1', [message('a')], false);
+    const before = selectRoomMessages(store.getState(), 'room-1');
+
+    store.receiveMessage(message('x', { chatRoomId: 'room-2' }));
+    expect(selectRoomMessages(store.getState(), 'room-1')).toBe(before);
+
+    store.applyEdit({ id: 'a', chatRoomId: 'room-1', content: 'edited', isEdited: true, editedAt: before[0].timestamp });
+    expect(selectRoomMessages(store.getState(), 'room-1')).not.toBe(before);
+  });
+});
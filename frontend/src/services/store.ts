@@ -0,0 +1,462 @@
+import {
+  ChatMessage,
+  MessageDeletedEvent,
+  MessageEditedEvent,
+  PresenceChangedEvent,
+  PresenceStatus,
+  ReactionEvent,
+  UserPresence,
+  UserTyping
+} from './chatService';
+import { TypedEventEmitter, Unsubscribe } from './eventEmitter';
+import {
+  asDeleted,
+  mergeMessages,
+  withEdit,
+  withoutThreadReply,
+  withReaction,
+  withThreadReply
+} from '../utils/messageList';
+import { ScrollPosition } from '../utils/virtualList';
+
+// Typing indicators disappear unless the sender refreshes them
+const DEFAULT_TYPING_TIMEOUT_MS = 3000;
+
+export interface ThreadState {
+  /** Loaded replies, oldest first: the newest contiguous block on the server. */
+  replyIds: string[];
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+export interface RoomState {
+  /** Loaded top-level messages and thread replies of the room. */
+  messagesById: Record<string, ChatMessage>;
+  /** Loaded top-level messages, oldest first: the newest contiguous block on the server. */
+  messageIds: string[];
+  /** Live messages are only kept once the latest page has been loaded. */
+  historyLoaded: boolean;
+  hasMoreHistory: boolean;
+  isLoadingHistory: boolean;
+  /** Loaded threads, by parent message id. */
+  threads: Record<string, ThreadState>;
+  typingUsers: UserTyping[];
+  /** Members with an open connection, by user id; everyone else is offline. */
+  presence: Record<string, PresenceStatus>;
+  unreadCount: number;
+  /** Seen live; the API does not report it. */
+  lastActivityAt?: string;
+}
+
+export interface ChatState {
+  rooms: Record<string, RoomState>;
+  /** The room on screen: its messages do not count as unread. */
+  focusedRoomId: string | null;
+}
+
+export interface ChatStoreEvents {
+  changed: ChatState;
+}
+
+interface ChatStoreOptions {
+  typingTimeoutMs?: number;
+}
+
+export const EMPTY_ROOM: RoomState = {
+  messagesById: {},
+  messageIds: [],
+  historyLoaded: false,
+  hasMoreHistory: false,
+  isLoadingHistory: false,
+  threads: {},
+  typingUsers: [],
+  presence: {},
+  unreadCount: 0
+};
+
+const EMPTY_THREAD: ThreadState = { replyIds: [], hasMore: false, isLoading: false };
+
+const INITIAL_STATE: ChatState = { rooms: {}, focusedRoomId: null };
+
+// Replaces one loaded message; returns the same room when it is not loaded
+const updateMessage = (
+  room: RoomState,
+  messageId: string | null | undefined,
+  update: (message: ChatMessage) => ChatMessage
+): RoomState => {
+  const message = messageId ? room.messagesById[messageId] : undefined;
+  if (!message) return room;
+
+  return { ...room, messagesById: { ...room.messagesById, [message.id]: update(message) } };
+};
+
+// Merges messages into one of the room's ordered id lists
+const mergeIds = (room: RoomState, ids: string[], incoming: ChatMessage[]) => {
+  const merged = mergeMessages(ids.map(id => room.messagesById[id]), incoming);
+  const messagesById = { ...room.messagesById };
+  incoming.forEach(message => {
+    messagesById[message.id] = message;
+  });
+
+  return { messagesById, ids: merged.map(message => message.id) };
+};
+
+// A newest page that does not overlap what is cached would leave a gap: start over from it
+const overlaps = (ids: string[], latest: ChatMessage[]) =>
+  ids.length > 0 && latest.some(message => ids.includes(message.id));
+
+/**
+ * Normalized client-side chat state shared by every view: per room, messages
+ * by id, the ordered timeline and thread ids, paging state, typing users,
+ * presence and unread counts. Immutable, so selectors can compare by reference.
+ */
+export class ChatStore extends TypedEventEmitter<ChatStoreEvents> {
+  private state: ChatState = INITIAL_STATE;
+  private currentUserId: string | null = null;
+  private typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Not part of the state: nothing renders from it
+  private scrollPositions = new Map<string, ScrollPosition | null>();
+  private readonly typingTimeoutMs: number;
+
+  constructor(options: ChatStoreOptions = {}) {
+    super();
+    this.typingTimeoutMs = options.typingTimeoutMs ?? DEFAULT_TYPING_TIMEOUT_MS;
+  }
+
+  getState = (): ChatState => this.state;
+
+  /** For useSyncExternalStore. */
+  subscribe = (listener: () => void): Unsubscribe => this.on('changed', listener);
+
+  /** Own messages never count as unread. */
+  setCurrentUser(userId: string | null): void {
+    this.currentUserId = userId;
+  }
+
+  focusRoom(roomId: string | null): void {
+    const room = roomId ? this.state.rooms[roomId] : undefined;
+    const rooms = roomId && room?.unreadCount
+      ? { ...this.state.rooms, [roomId]: { ...room, unreadCount: 0 } }
+      : this.state.rooms;
+
+    this.setState({ rooms, focusedRoomId: roomId });
+  }
+
+  setUnreadCount(roomId: string, count: number): void {
+    const unreadCount = roomId === this.state.focusedRoomId ? 0 : count;
+    this.updateRoom(roomId, room => (room.unreadCount === unreadCount ? room : { ...room, unreadCount }));
+  }
+
+  setHistoryLoading(roomId: string, isLoadingHistory: boolean): void {
+    this.updateRoom(roomId, room => (
+      room.isLoadingHistory === isLoadingHistory ? room : { ...room, isLoadingHistory }
+    ));
+  }
+
+  /** The newest page of history, on opening a room or after reconnecting. */
+  addLatestMessages(roomId: string, page: ChatMessage[], hasMore: boolean): void {
+    this.updateRoom(roomId, room => {
+      const contiguous = room.historyLoaded && overlaps(room.messageIds, page);
+      const { messagesById, ids } = mergeIds(room, contiguous ? room.messageIds : [], page);
+
+      return {
+        ...room,
+        messagesById,
+        messageIds: ids,
+        historyLoaded: true,
+        hasMoreHistory: contiguous ? room.hasMoreHistory : hasMore
+      };
+    });
+  }
+
+  /**
+   * Messages cached by an earlier session, shown until the newest page arrives.
+   * Ignored once the room has history from the server.
+   */
+  hydrateRoom(roomId: string, messages: ChatMessage[], hasMore: boolean): void {
+    this.updateRoom(roomId, room => {
+      if (room.historyLoaded) return room;
+
+      const { messagesById, ids } = mergeIds(room, [], messages);
+      return { ...room, messagesById, messageIds: ids, historyLoaded: true, hasMoreHistory: hasMore };
+    });
+  }
+
+  /** The next older page of history. */
+  addOlderMessages(roomId: string, page: ChatMessage[], hasMore: boolean): void {
+    this.updateRoom(roomId, room => {
+      const { messagesById, ids } = mergeIds(room, room.messageIds, page);
+      return { ...room, messagesById, messageIds: ids, hasMoreHistory: hasMore };
+    });
+  }
+
+  setRepliesLoading(roomId: string, parentMessageId: string, isLoading: boolean): void {
+    this.updateThread(roomId, parentMessageId, thread => (
+      thread.isLoading === isLoading ? thread : { ...thread, isLoading }
+    ));
+  }
+
+  /** The newest page of a thread's replies. */
+  addLatestReplies(roomId: string, parentMessageId: string, page: ChatMessage[], hasMore: boolean): void {
+    this.updateRoom(roomId, room => {
+      const thread = room.threads[parentMessageId] ?? EMPTY_THREAD;
+      const contiguous = overlaps(thread.replyIds, page);
+      const { messagesById, ids } = mergeIds(room, contiguous ? thread.replyIds : [], page);
+
+      return {
+        ...room,
+        messagesById,
+        threads: {
+          ...room.threads,
+          [parentMessageId]: { ...thread, replyIds: ids, hasMore: contiguous ? thread.hasMore : hasMore }
+        }
+      };
+    });
+  }
+
+  /** The next older page of a thread's replies. */
+  addOlderReplies(roomId: string, parentMessageId: string, page: ChatMessage[], hasMore: boolean): void {
+    this.updateRoom(roomId, room => {
+      const thread = room.threads[parentMessageId] ?? EMPTY_THREAD;
+      const { messagesById, ids } = mergeIds(room, thread.replyIds, page);
+
+      return {
+        ...room,
+        messagesById,
+        threads: { ...room.threads, [parentMessageId]: { ...thread, replyIds: ids, hasMore } }
+      };
+    });
+  }
+
+  receiveMessage(message: ChatMessage): void {
+    this.updateRoom(message.chatRoomId, room => {
+      let next: RoomState = { ...room, lastActivityAt: message.timestamp };
+
+      if (message.chatRoomId !== this.state.focusedRoomId && message.userId !== this.currentUserId) {
+        next.unreadCount = room.unreadCount + 1;
+      }
+
+      // Replies only show in a loaded thread; the timeline keeps the parent's summary
+      if (message.parentMessageId) {
+        next = updateMessage(next, message.parentMessageId, parent => withThreadReply(parent, message));
+
+        const thread = next.threads[message.parentMessageId];
+        if (!thread) return next;
+
+        const { messagesById, ids } = mergeIds(next, thread.replyIds, [message]);
+        return {
+          ...next,
+          messagesById,
+          threads: { ...next.threads, [message.parentMessageId]: { ...thread, replyIds: ids } }
+        };
+      }
+
+      if (!next.historyLoaded) return next;
+
+      const { messagesById, ids } = mergeIds(next, next.messageIds, [message]);
+      return { ...next, messagesById, messageIds: ids };
+    });
+  }
+
+  applyEdit(edit: MessageEditedEvent): void {
+    this.updateRoom(edit.chatRoomId, room => updateMessage(room, edit.id, message => withEdit(message, edit)));
+  }
+
+  applyDelete(deletion: MessageDeletedEvent): void {
+    this.updateRoom(deletion.chatRoomId, room => {
+      const updated = updateMessage(room, deletion.id, asDeleted);
+      return deletion.parentMessageId
+        ? updateMessage(updated, deletion.parentMessageId, withoutThreadReply)
+        : updated;
+    });
+  }
+
+  applyReaction(reaction: ReactionEvent, added: boolean): void {
+    this.updateRoom(reaction.chatRoomId, room => (
+      updateMessage(room, reaction.messageId, message => withReaction(message, reaction, added))
+    ));
+  }
+
+  setTyping(typing: UserTyping): void {
+    const timerKey = `${typing.chatRoomId}:${typing.userId}`;
+    const existingTimer = this.typingTimers.get(timerKey);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+      this.typingTimers.delete(timerKey);
+    }
+
+    const removeTyping = () => this.updateRoom(typing.chatRoomId, room => (
+      room.typingUsers.some(user => user.userId === typing.userId)
+        ? { ...room, typingUsers: room.typingUsers.filter(user => user.userId !== typing.userId) }
+        : room
+    ));
+
+    if (!typing.isTyping) {
+      removeTyping();
+      return;
+    }
+
+    this.updateRoom(typing.chatRoomId, room => ({
+      ...room,
+      typingUsers: [...room.typingUsers.filter(user => user.userId !== typing.userId), typing]
+    }));
+
+    this.typingTimers.set(timerKey, setTimeout(() => {
+      this.typingTimers.delete(timerKey);
+      removeTyping();
+    }, this.typingTimeoutMs));
+  }
+
+  /** Replaces who is connected in a room. */
+  setRoomPresence(roomId: string, users: UserPresence[]): void {
+    const presence: Record<string, PresenceStatus> = {};
+    users.forEach(user => {
+      if (user.status !== 'offline') presence[user.userId] = user.status;
+    });
+
+    this.updateRoom(roomId, room => ({ ...room, presence }));
+  }
+
+  applyPresence(event: PresenceChangedEvent): void {
+    this.updateRoom(event.chatRoomId, room => {
+      if ((room.presence[event.userId] ?? 'offline') === event.status) return room;
+
+      const presence = { ...room.presence };
+      if (event.status === 'offline') {
+        delete presence[event.userId];
+      } else {
+        presence[event.userId] = event.status;
+      }
+
+      return { ...room, presence };
+    });
+  }
+
+  getScrollPosition(roomId: string): ScrollPosition | null {
+    return this.scrollPositions.get(roomId) ?? null;
+  }
+
+  /** Where the user left a room, to return there; null means at the bottom. */
+  saveScrollPosition(roomId: string, position: ScrollPosition | null): void {
+    this.scrollPositions.set(roomId, position);
+  }
+
+  /** Forgets everything, e.g. on sign-out. */
+  reset(): void {
+    this.typingTimers.forEach(timer => clearTimeout(timer));
+    this.typingTimers.clear();
+    this.scrollPositions.clear();
+    this.currentUserId = null;
+    this.setState(INITIAL_STATE);
+  }
+
+  private updateThread(roomId: string, parentMessageId: string, update: (thread: ThreadState) => ThreadState): void {
+    this.updateRoom(roomId, room => {
+      const thread = room.threads[parentMessageId] ?? EMPTY_THREAD;
+      const next = update(thread);
+      return next === thread && room.threads[parentMessageId]
+        ? room
+        : { ...room, threads: { ...room.threads, [parentMessageId]: next } };
+    });
+  }
+
+  private updateRoom(roomId: string, update: (room: RoomState) => RoomState): void {
+    const room = this.state.rooms[roomId] ?? EMPTY_ROOM;
+    const next = update(room);
+    if (next === room) return;
+
+    this.setState({ ...this.state, rooms: { ...this.state.rooms, [roomId]: next } });
+  }
+
+  private setState(state: ChatState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.emit('changed', state);
+  }
+}
+
+// Selectors return the same object until the data they read changes
+
+const EMPTY_MESSAGES: ChatMessage[] = [];
+const roomMessagesCache = new WeakMap<RoomState, ChatMessage[]>();
+const threadRepliesCache = new WeakMap<RoomState, Map<string, ChatMessage[]>>();
+const unreadCountsCache = new WeakMap<ChatState['rooms'], Record<string, number>>();
+const lastActivityCache = new WeakMap<ChatState['rooms'], Record<string, string>>();
+const onlineCountsCache = new WeakMap<ChatState['rooms'], Record<string, number>>();
+
+export const selectRoom = (state: ChatState, roomId: string | null): RoomState =>
+  (roomId ? state.rooms[roomId] : undefined) ?? EMPTY_ROOM;
+
+/** The room's timeline, oldest first. */
+export const selectRoomMessages = (state: ChatState, roomId: string | null): ChatMessage[] => {
+  const room = selectRoom(state, roomId);
+  if (room.messageIds.length === 0) return EMPTY_MESSAGES;
+
+  let messages = roomMessagesCache.get(room);
+  if (!messages) {
+    messages = room.messageIds.map(id => room.messagesById[id]);
+    roomMessagesCache.set(room, messages);
+  }
+
+  return messages;
+};
+
+export const selectThread = (state: ChatState, roomId: string, parentMessageId: string): ThreadState =>
+  selectRoom(state, roomId).threads[parentMessageId] ?? EMPTY_THREAD;
+
+/** A thread's loaded replies, oldest first. */
+export const selectThreadReplies = (state: ChatState, roomId: string, parentMessageId: string): ChatMessage[] => {
+  const room = selectRoom(state, roomId);
+  const thread = room.threads[parentMessageId];
+  if (!thread || thread.replyIds.length === 0) return EMPTY_MESSAGES;
+
+  let byParent = threadRepliesCache.get(room);
+  if (!byParent) {
+    byParent = new Map();
+    threadRepliesCache.set(room, byParent);
+  }
+
+  let replies = byParent.get(parentMessageId);
+  if (!replies) {
+    replies = thread.replyIds.map(id => room.messagesById[id]);
+    byParent.set(parentMessageId, replies);
+  }
+
+  return replies;
+};
+
+export const selectUnreadCounts = (state: ChatState): Record<string, number> => {
+  let counts = unreadCountsCache.get(state.rooms);
+  if (!counts) {
+    counts = Object.fromEntries(Object.entries(state.rooms).map(([roomId, room]) => [roomId, room.unreadCount]));
+    unreadCountsCache.set(state.rooms, counts);
+  }
+
+  return counts;
+};
+
+export const selectLastActivity = (state: ChatState): Record<string, string> => {
+  let activity = lastActivityCache.get(state.rooms);
+  if (!activity) {
+    activity = {};
+    for (const [roomId, room] of Object.entries(state.rooms)) {
+      if (room.lastActivityAt) activity[roomId] = room.lastActivityAt;
+    }
+    lastActivityCache.set(state.rooms, activity);
+  }
+
+  return activity;
+};
+
+/** Members online or away per room, for rooms whose presence is known. */
+export const selectOnlineCounts = (state: ChatState): Record<string, number> => {
+  let counts = onlineCountsCache.get(state.rooms);
+  if (!counts) {
+    counts = Object.fromEntries(
+      Object.entries(state.rooms).map(([roomId, room]) => [roomId, Object.keys(room.presence).length])
+    );
+    onlineCountsCache.set(state.rooms, counts);
+  }
+
+  return counts;
+};
@@ -0,0 +1,29 @@
+import { ApiError } from './apiError';
+import { authorizedFetch } from './authorizedFetch';
+
+const API_BASE = '/api/tenants';
+
+/** A community the user belongs to. */
+export interface Tenant {
+  id: string;
+  name: string;
+  /** e.g. "acmecorp" for acmecorp.yoursaas.com */
+  subdomain: string;
+  logoUrl?: string | null;
+  /** The user's role in the tenant: "Admin", "Moderator" or "Member". */
+  role: string;
+  /** Permissions granted beyond the role; see tenants/permissions.ts. */
+  additionalPermissions: string[];
+}
+
+export const tenantApiService = {
+  async getMyTenants(): Promise<Tenant[]> {
+    const response = await authorizedFetch(`${API_BASE}/mine`);
+
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch communities', response.status);
+    }
+
+    return response.json();
+  }
+};
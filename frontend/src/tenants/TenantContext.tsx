@@ -0,0 +1,95 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import { Tenant, tenantApiService } from '../services/tenantApiService';
+import { currentTenant } from './currentTenant';
+import { resolveActiveTenant } from './tenantResolution';
+
+export type TenantStatus = 'loading' | 'ready';
+
+interface TenantContextType {
+  /** The communities the user belongs to. */
+  tenants: Tenant[];
+  /** Null when the user belongs to none; the app is then not tenant scoped. */
+  activeTenant: Tenant | null;
+  status: TenantStatus;
+  error: string | null;
+  switchTenant: (tenantId: string) => void;
+}
+
+const TenantContext = createContext<TenantContextType | undefined>(undefined);
+
+export const useTenant = () => {
+  const context = useContext(TenantContext);
+  if (!context) {
+    throw new Error('useTenant must be used within a TenantProvider');
+  }
+  return context;
+};
+
+/**
+ * Loads the user's tenants once signed in and picks the active one (see
+ * resolveActiveTenant). Room lists, room creation and hub joins follow it
+ * through currentTenant.
+ */
+export const TenantProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { status: authStatus } = useAuth();
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [activeTenantId, setActiveTenantId] = useState<string | null>(null);
+  const [status, setStatus] = useState<TenantStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authStatus !== 'authenticated') {
+      currentTenant.set(null);
+      setTenants([]);
+      setActiveTenantId(null);
+      setStatus(authStatus === 'loading' ? 'loading' : 'ready');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+
+    tenantApiService.getMyTenants()
+      .then(list => {
+        if (cancelled) return;
+
+        const active = resolveActiveTenant(list, window.location.hostname, currentTenant.getStoredId());
+        // Set before rendering so the first requests are already scoped
+        currentTenant.set(active?.id ?? null);
+        setTenants(list);
+        setActiveTenantId(active?.id ?? null);
+        setError(null);
+      })
+      .catch(err => {
+        // Carry on unscoped rather than locking the user out of chat
+        console.error('Load tenants error:', err);
+        if (!cancelled) setError('Failed to load your communities');
+      })
+      .finally(() => {
+        if (!cancelled) setStatus('ready');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authStatus]);
+
+  const switchTenant = useCallback((tenantId: string) => {
+    if (!tenants.some(t => t.id === tenantId)) return;
+
+    // Synchronously, so the hub reconnects before the new tenant's rooms are joined
+    currentTenant.set(tenantId);
+    setActiveTenantId(tenantId);
+  }, [tenants]);
+
+  const value = useMemo<TenantContextType>(() => ({
+    tenants,
+    activeTenant: tenants.find(t => t.id === activeTenantId) ?? null,
+    status,
+    error,
+    switchTenant
+  }), [tenants, activeTenantId, status, error, switchTenant]);
+
+  return <TenantContext.Provider value={value}>{children}</TenantContext.Provider>;
+};
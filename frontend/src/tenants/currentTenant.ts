@@ -0,0 +1,45 @@
+import { TypedEventEmitter } from '../services/eventEmitter';
+
+const STORAGE_KEY = 'oc.tenant';
+
+export interface CurrentTenantEvents {
+  changed: string | null;
+}
+
+/**
+ * The tenant the app is scoped to, for code outside React: authorizedFetch
+ * sends it as X-Tenant-Id and the hub connection is made for it.
+ * TenantProvider keeps it current; the last choice is remembered across reloads.
+ */
+class CurrentTenant extends TypedEventEmitter<CurrentTenantEvents> {
+  private tenantId: string | null = null;
+
+  getId = (): string | null => this.tenantId;
+
+  set(tenantId: string | null): void {
+    if (tenantId === this.tenantId) return;
+    this.tenantId = tenantId;
+
+    if (tenantId) {
+      // Best effort: localStorage can be unavailable (privacy modes)
+      try {
+        localStorage.setItem(STORAGE_KEY, tenantId);
+      } catch {
+        // Only the remembered choice is lost
+      }
+    }
+
+    this.emit('changed', tenantId);
+  }
+
+  /** The tenant chosen in an earlier session, if any. */
+  getStoredId(): string | null {
+    try {
+      return localStorage.getItem(STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const currentTenant = new CurrentTenant();
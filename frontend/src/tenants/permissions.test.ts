@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Tenant } from '../services/tenantApiService';
+import { ALL_PERMISSIONS, Permission, permissionsFor, permissionsForTenant, TenantRole, toTenantRole } from './permissions';
+
+const matrix: Record<TenantRole, Record<Permission, boolean>> = {
+  Admin: { 'rooms.create': true, 'rooms.manage': true, 'members.manage': true, 'messages.deleteAny': true },
+  Moderator: { 'rooms.create': true, 'rooms.manage': false, 'members.manage': true, 'messages.deleteAny': true },
+  Member: { 'rooms.create': false, 'rooms.manage': false, 'members.manage': false, 'messages.deleteAny': false }
+};
+
+describe('permissionsFor', () => {
+  (Object.keys(matrix) as TenantRole[]).forEach(role => {
+    it(`grants ${role} exactly its permissions`, () => {
+      const permissions = permissionsFor(role);
+      ALL_PERMISSIONS.forEach(permission => {
+        expect(permissions.has(permission), permission).toBe(matrix[role][permission]);
+      });
+    });
+  });
+
+  it('adds additional permissions to the role and ignores unknown ones', () => {
+    const permissions = permissionsFor('Member', ['rooms.create', 'tenant.delete']);
+    expect([...permissions]).toEqual(['rooms.create']);
+  });
+
+  it('treats role names case-insensitively and unknown roles as Member', () => {
+    expect(toTenantRole('moderator')).toBe('Moderator');
+    expect(toTenantRole('Owner')).toBe('Member');
+    expect(permissionsFor('Owner').size).toBe(0);
+  });
+});
+
+describe('permissionsForTenant', () => {
+  it('uses the membership of the active tenant', () => {
+    const tenant: Tenant = { id: 't', name: 'Acme', subdomain: 'acme', role: 'Member', additionalPermissions: ['members.manage'] };
+    expect([...permissionsForTenant(tenant)]).toEqual(['members.manage']);
+  });
+
+  it('only allows creating global rooms without a tenant', () => {
+    expect([...permissionsForTenant(null)]).toEqual(['rooms.create']);
+  });
+});
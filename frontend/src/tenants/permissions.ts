@@ -0,0 +1,38 @@
+import { Tenant } from '../services/tenantApiService';
+
+/**
+ * What a user may do in a tenant. Mirrors TenantPermissions on the server, which
+ * enforces the same matrix; keep the two in sync.
+ */
+export type Permission =
+  | 'rooms.create'
+  | 'rooms.manage'
+  | 'members.manage'
+  | 'messages.deleteAny';
+
+export type TenantRole = 'Admin' | 'Moderator' | 'Member';
+
+export const ALL_PERMISSIONS: readonly Permission[] = ['rooms.create', 'rooms.manage', 'members.manage', 'messages.deleteAny'];
+
+export const ROLE_PERMISSIONS: Record<TenantRole, readonly Permission[]> = {
+  Admin: ALL_PERMISSIONS,
+  Moderator: ['rooms.create', 'members.manage', 'messages.deleteAny'],
+  Member: []
+};
+
+// Without a tenant only global rooms exist, and anyone may create those
+const UNSCOPED_PERMISSIONS: readonly Permission[] = ['rooms.create'];
+
+const isPermission = (value: string): value is Permission => (ALL_PERMISSIONS as readonly string[]).includes(value);
+
+/** The role's name as the server spells it; unknown roles count as Member, like on the server. */
+export const toTenantRole = (role: string): TenantRole =>
+  (Object.keys(ROLE_PERMISSIONS) as TenantRole[]).find(r => r.toLowerCase() === role.toLowerCase()) ?? 'Member';
+
+/** The role's permissions plus any additional ones granted to the membership; unknown names are ignored. */
+export const permissionsFor = (role: string, additionalPermissions: readonly string[] = []): ReadonlySet<Permission> =>
+  new Set([...ROLE_PERMISSIONS[toTenantRole(role)], ...additionalPermissions.filter(isPermission)]);
+
+/** The user's permissions in the active tenant, or outside any tenant when there is none. */
+export const permissionsForTenant = (tenant: Tenant | null): ReadonlySet<Permission> =>
+  tenant ? permissionsFor(tenant.role, tenant.additionalPermissions) : new Set(UNSCOPED_PERMISSIONS);
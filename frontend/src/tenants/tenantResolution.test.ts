@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Tenant } from '../services/tenantApiService';
+import { resolveActiveTenant, subdomainOf } from './tenantResolution';
+
+const tenant = (id: string, subdomain: string): Tenant => ({ id, name: id, subdomain, role: 'Member', additionalPermissions: [] });
+const tenants = [tenant('acme', 'acmecorp'), tenant('globex', 'globex')];
+
+describe('subdomainOf', () => {
+  it('reads the tenant label in front of the site domain', () => {
+    expect(subdomainOf('acmecorp.yoursaas.com')).toBe('acmecorp');
+    expect(subdomainOf('AcmeCorp.localhost')).toBe('acmecorp');
+  });
+
+  it('ignores bare domains, reserved labels and IP addresses', () => {
+    expect(subdomainOf('yoursaas.com')).toBeNull();
+    expect(subdomainOf('localhost')).toBeNull();
+    expect(subdomainOf('www.yoursaas.com')).toBeNull();
+    expect(subdomainOf('127.0.0.1')).toBeNull();
+  });
+});
+
+describe('resolveActiveTenant', () => {
+  it('prefers the subdomain, then the stored choice, then the first tenant', () => {
+    expect(resolveActiveTenant(tenants, 'globex.yoursaas.com', 'acme')?.id).toBe('globex');
+    expect(resolveActiveTenant(tenants, 'yoursaas.com', 'globex')?.id).toBe('globex');
+    expect(resolveActiveTenant(tenants, 'unknown.yoursaas.com', 'gone')?.id).toBe('acme');
+    expect(resolveActiveTenant([], 'acmecorp.yoursaas.com', null)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { Tenant } from '../services/tenantApiService';
+
+// Host labels that never name a tenant; keep in sync with TenantContextMiddleware
+const RESERVED_SUBDOMAINS = new Set(['www', 'api', 'app']);
+
+/**
+ * The tenant subdomain of a hostname: "acmecorp" for acmecorp.yoursaas.com
+ * and acmecorp.localhost, null for yoursaas.com, localhost and IP addresses.
+ */
+export const subdomainOf = (hostname: string): string | null => {
+  if (!hostname || /^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+    return null;
+  }
+
+  const labels = hostname.toLowerCase().split('.');
+  const minimumLabels = labels[labels.length - 1] === 'localhost' ? 2 : 3;
+
+  if (labels.length < minimumLabels || RESERVED_SUBDOMAINS.has(labels[0])) {
+    return null;
+  }
+
+  return labels[0];
+};
+
+/**
+ * Picks the tenant to start in: the one named by the subdomain, else the one
+ * last chosen in the switcher, else the first. Null when the user has none.
+ */
+export const resolveActiveTenant = (
+  tenants: Tenant[],
+  hostname: string,
+  storedTenantId: string | null
+): Tenant | null => {
+  const subdomain = subdomainOf(hostname);
+
+  return (subdomain ? tenants.find(t => t.subdomain.toLowerCase() === subdomain) : undefined)
+    ?? tenants.find(t => t.id === storedTenantId)
+    ?? tenants[0]
+    ?? null;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileSize, MAX_ATTACHMENT_SIZE, validateAttachment } from './attachments';
+
+describe('validateAttachment', () => {
+  it('accepts supported files within the size limit', () => {
+    expect(validateAttachment({ name: 'photo.JPG', type: 'image/jpeg', size: 2048 })).toBeNull();
+    expect(validateAttachment({ name: 'notes.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_SIZE })).toBeNull();
+  });
+
+  it('rejects empty, oversized and unsupported files', () => {
+    expect(validateAttachment({ name: 'empty.txt', type: 'text/plain', size: 0 })).toBe('empty.txt is empty');
+    expect(validateAttachment({ name: 'big.zip', type: 'application/zip', size: MAX_ATTACHMENT_SIZE + 1 }))
+      .toBe('big.zip is larger than 25.0 MB');
+    expect(validateAttachment({ name: 'run.exe', type: 'application/x-msdownload', size: 10 }))
+      .toBe('run.exe: this file type is not supported');
+    // Browsers report an empty type for files they do not recognise
+    expect(validateAttachment({ name: 'data.bin', type: '', size: 10 })).not.toBeNull();
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses the largest sensible unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Attachment rules shared by the composer (to reject files before uploading)
+ * and chatApiService (which never starts an upload the server would refuse).
+ * Keep in sync with ChatController on the backend.
+ */
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_FILE_NAME_LENGTH = 255;
+/** At most this many files per message batch. */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  ...IMAGE_TYPES,
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+
+/** The parts of a File the rules look at. */
+export interface AttachmentCandidate {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export const isImageType = (contentType: string) => IMAGE_TYPES.includes(contentType.toLowerCase());
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Returns why the file cannot be attached, or null when it can. */
+export const validateAttachment = (file: AttachmentCandidate): string | null => {
+  if (!file.name.trim() || file.name.length > MAX_FILE_NAME_LENGTH) {
+    return `File names must be 1 to ${MAX_FILE_NAME_LENGTH} characters`;
+  }
+
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type.toLowerCase())) {
+    return `${file.name}: this file type is not supported`;
+  }
+
+  return null;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { RoomParticipant } from '../services/chatService';
+import { directRoomTitle, otherParticipants } from './directMessages';
+
+const participant = (userId: string, displayName: string): RoomParticipant => ({
+  userId,
+  email: `${userId}@example.com`,
+  displayName
+});
+
+const me = participant('me', 'Alice');
+const bob = participant('bob', 'Bob');
+const carol = participant('carol', 'Carol');
+const dave = participant('dave', '');
+const erin = participant('erin', 'Erin');
+
+describe('directMessages', () => {
+  it('leaves out the current user and sorts the others by name', () => {
+    expect(otherParticipants([me, carol, bob], 'me').map(p => p.userId)).toEqual(['bob', 'carol']);
+  });
+
+  it('names conversations after the other participants', () => {
+    expect(directRoomTitle([me, bob], 'me')).toBe('Bob');
+    expect(directRoomTitle([carol, me, bob], 'me')).toBe('Bob and Carol');
+    expect(directRoomTitle([me, bob, carol, erin], 'me')).toBe('Bob, Carol and 1 other');
+    expect(directRoomTitle([me, bob, carol, dave, erin], 'me')).toBe('Bob, Carol and 2 others');
+  });
+
+  it('falls back to the email for participants without a display name', () => {
+    expect(directRoomTitle([me, dave], 'me')).toBe('dave@example.com');
+  });
+
+  it('names a conversation everyone else left after the current user', () => {
+    expect(directRoomTitle([me], 'me')).toBe('Alice');
+  });
+});
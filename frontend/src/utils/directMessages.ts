@@ -0,0 +1,31 @@
+import { RoomParticipant } from '../services/chatService';
+
+/** Display name, or email when the profile has none. */
+export const participantName = (participant: RoomParticipant): string =>
+  participant.displayName || participant.email;
+
+/** Everyone in the conversation except the current user, sorted by name. */
+export const otherParticipants = (participants: RoomParticipant[], currentUserId: string | null | undefined): RoomParticipant[] =>
+  participants
+    .filter(p => p.userId !== currentUserId)
+    .sort((a, b) => participantName(a).localeCompare(participantName(b)));
+
+/**
+ * A direct conversation's title from its participants: "Bob", "Bob and Carol", or
+ * "Bob, Carol and 2 others". A conversation with only the current user left is named after them.
+ */
+export const directRoomTitle = (participants: RoomParticipant[], currentUserId: string | null | undefined): string => {
+  const others = otherParticipants(participants, currentUserId);
+
+  if (others.length === 0) {
+    return participants.length > 0 ? participantName(participants[0]) : 'Direct message';
+  }
+
+  const names = others.map(participantName);
+
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+
+  const rest = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${rest === 1 ? '1 other' : `${rest} others`}`;
+};
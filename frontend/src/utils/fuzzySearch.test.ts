@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyScore, fuzzyScoreFields } from './fuzzySearch';
+
+describe('fuzzyScore', () => {
+  it('matches characters in order, ignoring case', () => {
+    expect(fuzzyScore('gnrl', 'General')).not.toBeNull();
+    expect(fuzzyScore('GEN', 'general')).not.toBeNull();
+    expect(fuzzyScore('lrng', 'General')).toBeNull();
+    expect(fuzzyScore('xyz', 'General')).toBeNull();
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(fuzzyScore('', 'General')).toBe(0);
+    expect(fuzzyScore('   ', 'General')).toBe(0);
+  });
+
+  it('ranks substrings above scattered matches, earlier ones first', () => {
+    const substring = fuzzyScore('dev', 'frontend devs')!;
+    const earlierSubstring = fuzzyScore('dev', 'devs')!;
+    const scattered = fuzzyScore('dev', 'design review')!;
+
+    expect(earlierSubstring).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(scattered);
+  });
+
+  it('prefers contiguous runs and word starts', () => {
+    const wordStarts = fuzzyScore('fd', 'front desk')!;
+    const midWord = fuzzyScore('fd', 'offside')!;
+    const contiguous = fuzzyScore('ran', 'random-talk')!;
+    const split = fuzzyScore('rak', 'random-talk')!;
+
+    expect(wordStarts).toBeGreaterThan(midWord);
+    expect(contiguous).toBeGreaterThan(split);
+  });
+});
+
+describe('fuzzyScoreFields', () => {
+  it('takes the best field and skips missing ones', () => {
+    expect(fuzzyScoreFields('ops', ['Operations', undefined, 'ops team'])).toBe(fuzzyScore('ops', 'ops team'));
+    expect(fuzzyScoreFields('ops', ['General', undefined])).toBeNull();
+  });
+});
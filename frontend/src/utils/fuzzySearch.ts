@@ -0,0 +1,51 @@
+/**
+ * Scores how well `query` matches `text` as a case-insensitive subsequence.
+ * Returns null when not every query character can be found in order.
+ * Higher is better: contiguous runs, word starts and plain substrings score more.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+
+  const t = text.toLowerCase();
+  const substringIndex = t.indexOf(q);
+  if (substringIndex !== -1) {
+    // Exact substrings beat any scattered match; earlier is better
+    return 1000 - substringIndex;
+  }
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of q) {
+    if (char === ' ') continue;
+
+    const found = t.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    score += 1;
+    if (found === previousMatch + 1) score += 5;
+    if (found === 0 || /[\s\-_.]/.test(t[found - 1])) score += 3;
+
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+
+  return score;
+};
+
+/** Best score of `query` across several fields, or null if none match. */
+export const fuzzyScoreFields = (query: string, fields: (string | undefined)[]): number | null => {
+  let best: number | null = null;
+
+  fields.forEach(field => {
+    if (!field) return;
+    const score = fuzzyScore(query, field);
+    if (score !== null && (best === null || score > best)) {
+      best = score;
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getMentionQuery, insertMention, MentionCandidate, suggestMentions } from './mentions';
+
+const alice: MentionCandidate = { userId: 'u-alice', email: 'alice@example.com', displayName: 'Alice Smith' };
+const bob: MentionCandidate = { userId: 'u-bob', email: 'bob@example.com', displayName: 'Bob Jones' };
+
+describe('mentions', () => {
+  it('finds the mention being typed at the caret', () => {
+    expect(getMentionQuery('hi @al', 6)).toEqual({ start: 3, query: 'al' });
+    expect(getMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    expect(getMentionQuery('mail me@ex', 10)).toBeNull();
+    expect(getMentionQuery('hi @al there', 12)).toBeNull();
+  });
+
+  it('suggests candidates by name or email', () => {
+    expect(suggestMentions('jon', [alice, bob])).toEqual([bob]);
+    expect(suggestMentions('', [alice, bob])).toEqual([alice, bob]);
+  });
+
+  it('replaces the typed query with the full handle', () => {
+    const text = 'hi @al and more';
+    const mention = getMentionQuery(text, 6)!;
+
+    expect(insertMention(text, mention, 6, alice)).toEqual({
+      text: 'hi @alice@example.com and more',
+      caret: 22
+    });
+  });
+});
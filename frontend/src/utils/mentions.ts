@@ -0,0 +1,77 @@
+import { fuzzyScoreFields } from './fuzzySearch';
+
+/** Someone who can be @mentioned, typically a room member. */
+export interface MentionCandidate {
+  userId: string;
+  email: string;
+  displayName?: string;
+}
+
+/** The `@query` being typed at the caret, if any. */
+export interface MentionQuery {
+  /** Index of the `@`. */
+  start: number;
+  query: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const mentionLabel = (candidate: MentionCandidate): string =>
+  candidate.displayName?.trim() || candidate.email;
+
+/**
+ * Resolves the text after `@` to a candidate: a full email address, or the
+ * part before the `@` of exactly one candidate's email. Case-insensitive.
+ */
+export const resolveMention = (handle: string, candidates: MentionCandidate[]): MentionCandidate | null => {
+  const normalized = handle.toLowerCase();
+
+  if (normalized.includes('@')) {
+    return candidates.find(c => c.email.toLowerCase() === normalized) ?? null;
+  }
+
+  const matches = candidates.filter(c => c.email.toLowerCase().split('@')[0] === normalized);
+  return matches.length === 1 ? matches[0] : null;
+};
+
+/** Finds a mention being typed just before `caret`, e.g. "hi @al|". */
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const beforeCaret = text.slice(0, caret);
+  const match = /(^|[^A-Za-z0-9._%+-])@([A-Za-z0-9._%+-]*)$/.exec(beforeCaret);
+
+  if (!match) return null;
+
+  return {
+    start: beforeCaret.length - match[2].length - 1,
+    query: match[2]
+  };
+};
+
+/** Best candidates for a partially typed mention, most relevant first. */
+export const suggestMentions = (query: string, candidates: MentionCandidate[]): MentionCandidate[] => {
+  return candidates
+    .map(candidate => ({
+      candidate,
+      score: fuzzyScoreFields(query, [candidate.displayName, candidate.email])
+    }))
+    .filter((entry): entry is { candidate: MentionCandidate; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(entry => entry.candidate);
+};
+
+/** Replaces the mention being typed with the candidate's full `@email` and a trailing space. */
+export const insertMention = (
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  candidate: MentionCandidate
+): { text: string; caret: number } => {
+  const token = `@${candidate.email} `;
+  const after = text.slice(caret).replace(/^\S*/, '');
+
+  return {
+    text: text.slice(0, mention.start) + token + after.replace(/^ /, ''),
+    caret: mention.start + token.length
+  };
+};
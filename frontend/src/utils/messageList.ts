@@ -0,0 +1,93 @@
+import { ChatMessage, MessageEditedEvent, ReactionEvent, ThreadSummary } from '../services/chatService';
+
+// Avatars/names shown next to a thread's reply count
+const MAX_LATEST_REPLIERS = 3;
+
+const isNewestUnseen = (existing: ChatMessage[], message: ChatMessage): boolean => {
+  const last = existing[existing.length - 1];
+  if (last && new Date(message.timestamp).getTime() < new Date(last.timestamp).getTime()) return false;
+
+  return !existing.some(m =>
+    m.id === message.id || (message.clientMessageId && m.clientMessageId === message.clientMessageId)
+  );
+};
+
+// Merge messages by id and keep them in chronological order so history pages
+// and live ReceiveMessage events can arrive in any order without duplicates.
+export const mergeMessages = (existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  // Live messages almost always arrive newest-last: append without re-sorting the whole list
+  if (incoming.length === 1 && isNewestUnseen(existing, incoming[0])) {
+    return [...existing, incoming[0]];
+  }
+
+  const byId = new Map(existing.map(m => [m.id, m]));
+  const clientIds = new Set(existing.map(m => m.clientMessageId).filter(Boolean));
+
+  incoming.forEach(m => {
+    // An outbox resend after a lost acknowledgement is stored twice on the server
+    if (m.clientMessageId && clientIds.has(m.clientMessageId) && !byId.has(m.id)) return;
+    byId.set(m.id, m);
+  });
+
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+};
+
+const EMPTY_THREAD: ThreadSummary = { replyCount: 0, lastReplyAt: null, latestRepliers: [] };
+
+/** Folds a live thread reply into its parent's reply count and latest repliers. */
+export const withThreadReply = (parent: ChatMessage, reply: ChatMessage): ChatMessage => {
+  const thread = parent.thread ?? EMPTY_THREAD;
+
+  return {
+    ...parent,
+    thread: {
+      replyCount: thread.replyCount + 1,
+      lastReplyAt: reply.timestamp,
+      latestRepliers: [
+        reply.userEmail,
+        ...thread.latestRepliers.filter(email => email !== reply.userEmail)
+      ].slice(0, MAX_LATEST_REPLIERS)
+    }
+  };
+};
+
+/** A deleted reply leaves its parent's count. */
+export const withoutThreadReply = (parent: ChatMessage): ChatMessage => {
+  const thread = parent.thread ?? EMPTY_THREAD;
+  return { ...parent, thread: { ...thread, replyCount: Math.max(thread.replyCount - 1, 0) } };
+};
+
+export const withEdit = (message: ChatMessage, edit: MessageEditedEvent): ChatMessage => ({
+  ...message,
+  content: edit.content,
+  isEdited: true,
+  editedAt: edit.editedAt
+});
+
+/** Turns the message into a tombstone. */
+export const asDeleted = (message: ChatMessage): ChatMessage => ({
+  ...message,
+  content: '',
+  attachment: null,
+  isDeleted: true
+});
+
+/** Adds or removes one user's reaction. */
+export const withReaction = (message: ChatMessage, reaction: ReactionEvent, added: boolean): ChatMessage => {
+  const reactions = { ...message.reactions };
+  const userIds = (reactions[reaction.emoji] ?? []).filter(id => id !== reaction.userId);
+
+  if (added) {
+    userIds.push(reaction.userId);
+  }
+
+  if (userIds.length > 0) {
+    reactions[reaction.emoji] = userIds;
+  } else {
+    delete reactions[reaction.emoji];
+  }
+
+  return { ...message, reactions };
+};
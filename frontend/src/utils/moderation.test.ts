@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ChatRoomMember, ModerationAction } from '../services/chatService';
+import { describeModerationAction, formatDuration, mutedUntil, reportContextRange, slowModeWait } from './moderation';
+
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+const member = (until: string | null): ChatRoomMember => ({
+  userId: 'u-bob',
+  email: 'bob@example.com',
+  displayName: 'Bob',
+  role: 'member',
+  joinedAt: '2024-01-01T00:00:00Z',
+  isMuted: false,
+  mutedUntil: until
+});
+
+const entry = (action: ModerationAction['action'], durationSeconds: number | null = null): ModerationAction => ({
+  id: 'a1',
+  chatRoomId: 'r1',
+  action,
+  moderatorId: 'u-mod',
+  moderatorEmail: 'mod@example.com',
+  targetUserEmail: 'bob@example.com',
+  durationSeconds,
+  createdAt: '2024-05-01T12:00:00Z'
+});
+
+describe('moderation', () => {
+  it('treats a member as muted only until the mute ends', () => {
+    expect(mutedUntil(member('2024-05-01T12:10:00Z'), NOW)?.toISOString()).toBe('2024-05-01T12:10:00.000Z');
+    expect(mutedUntil(member('2024-05-01T11:59:59Z'), NOW)).toBeNull();
+    expect(mutedUntil(member(null), NOW)).toBeNull();
+    expect(mutedUntil(undefined, NOW)).toBeNull();
+  });
+
+  it('counts down the slow mode interval from the last message', () => {
+    expect(slowModeWait(NOW - 10_000, 30, NOW)).toBe(20_000);
+    expect(slowModeWait(NOW - 40_000, 30, NOW)).toBe(0);
+    expect(slowModeWait(NOW, 0, NOW)).toBe(0);
+    expect(slowModeWait(null, 30, NOW)).toBe(0);
+  });
+
+  it('formats durations in the largest whole unit', () => {
+    expect(formatDuration(30)).toBe('30 seconds');
+    expect(formatDuration(300)).toBe('5 minutes');
+    expect(formatDuration(3600)).toBe('1 hour');
+    expect(formatDuration(7 * 24 * 3600)).toBe('7 days');
+    expect(formatDuration(90)).toBe('90 seconds');
+  });
+
+  it('describes audit log entries', () => {
+    expect(describeModerationAction(entry('mute', 600))).toBe('muted bob@example.com for 10 minutes');
+    expect(describeModerationAction(entry('slowMode', 30))).toBe('turned on slow mode (30 seconds)');
+    expect(describeModerationAction(entry('slowMode', 0))).toBe('turned off slow mode');
+    expect(describeModerationAction({ ...entry('ban'), targetUserEmail: null })).toBe('banned a former user');
+  });
+
+  it('pages around a reported message, clamped at the newest message', () => {
+    expect(reportContextRange(10, 3)).toEqual({ skip: 7, take: 7 });
+    expect(reportContextRange(1, 3)).toEqual({ skip: 0, take: 5 });
+    expect(reportContextRange(0, 3)).toEqual({ skip: 0, take: 4 });
+  });
+});
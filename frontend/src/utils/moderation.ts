@@ -0,0 +1,82 @@
+import { ChatRoomMember, ModerationAction, ReportReason } from '../services/chatService';
+
+// Keep in sync with MaxMuteMinutes and MaxSlowModeSeconds in the backend ModerationController
+export const MUTE_DURATIONS: { label: string; minutes: number }[] = [
+  { label: '10 minutes', minutes: 10 },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 }
+];
+
+export const SLOW_MODE_OPTIONS: number[] = [0, 10, 30, 60, 5 * 60, 15 * 60, 60 * 60];
+
+// Keep in sync with MessageReport.Reasons in the backend
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'hate', label: 'Hate speech' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'other', label: 'Something else' }
+];
+
+export const reportReasonLabel = (reason: ReportReason): string =>
+  REPORT_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+/**
+ * The getMessages page around a reported message: up to `radius` messages on each side.
+ * `newerMessageCount` is the message's own skip, as returned with the review queue.
+ */
+export const reportContextRange = (newerMessageCount: number, radius: number): { skip: number; take: number } => {
+  const skip = Math.max(0, newerMessageCount - radius);
+  return { skip, take: newerMessageCount - skip + 1 + radius };
+};
+
+/** Room admins and moderators; tenant staff moderate too, see usePermissions. */
+export const isRoomModerator = (role: string | undefined) => role === 'admin' || role === 'moderator';
+
+/** When the member's mute ends, or null when they are not muted at `now`. */
+export const mutedUntil = (member: ChatRoomMember | undefined, now: number = Date.now()): Date | null => {
+  if (!member?.mutedUntil) return null;
+
+  const until = new Date(member.mutedUntil);
+  return until.getTime() > now ? until : null;
+};
+
+/** Milliseconds until slow mode lets the user send again; 0 when they can send now. */
+export const slowModeWait = (lastSentAt: number | null, slowModeSeconds: number, now: number = Date.now()): number => {
+  if (!lastSentAt || slowModeSeconds <= 0) return 0;
+  return Math.max(0, lastSentAt + slowModeSeconds * 1000 - now);
+};
+
+/** "30 seconds", "5 minutes", "1 hour", "7 days"; whole units only. */
+export const formatDuration = (seconds: number): string => {
+  const units: [number, string][] = [[24 * 60 * 60, 'day'], [60 * 60, 'hour'], [60, 'minute'], [1, 'second']];
+  const [size, unit] = units.find(([unitSeconds]) => seconds >= unitSeconds && seconds % unitSeconds === 0) ?? [1, 'second'];
+  const count = seconds / size;
+
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
+
+/** One line for the audit log, e.g. "muted bob@example.com for 1 hour". */
+export const describeModerationAction = (entry: ModerationAction): string => {
+  const target = entry.targetUserEmail ?? 'a former user';
+
+  switch (entry.action) {
+    case 'deleteMessage':
+      return `deleted a message by ${target}`;
+    case 'mute':
+      return `muted ${target}${entry.durationSeconds ? ` for ${formatDuration(entry.durationSeconds)}` : ''}`;
+    case 'unmute':
+      return `unmuted ${target}`;
+    case 'kick':
+      return `removed ${target} from the room`;
+    case 'ban':
+      return `banned ${target}`;
+    case 'unban':
+      return `lifted the ban on ${target}`;
+    case 'slowMode':
+      return entry.durationSeconds
+        ? `turned on slow mode (${formatDuration(entry.durationSeconds)})`
+        : 'turned off slow mode';
+  }
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { MentionCandidate } from './mentions';
+import { findMentionedUserIds, parseInline, parseRichText } from './richText';
+
+const members: MentionCandidate[] = [
+  { userId: 'u-alice', email: 'alice@example.com', displayName: 'Alice Smith' },
+  { userId: 'u-bob', email: 'bob@example.com', displayName: '' },
+  { userId: 'u-bob2', email: 'bob@other.org' }
+];
+
+describe('parseInline', () => {
+  it('parses bold, italics and code spans', () => {
+    expect(parseInline('a **bold** and *it* or _it_ with `x*y*`')).toEqual([
+      { type: 'text', text: 'a ' },
+      { type: 'bold', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'italic', children: [{ type: 'text', text: 'it' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'italic', children: [{ type: 'text', text: 'it' }] },
+      { type: 'text', text: ' with ' },
+      { type: 'code', text: 'x*y*' }
+    ]);
+  });
+
+  it('nests emphasis inside bold', () => {
+    expect(parseInline('**very _important_**')).toEqual([
+      {
+        type: 'bold',
+        children: [
+          { type: 'text', text: 'very ' },
+          { type: 'italic', children: [{ type: 'text', text: 'important' }] }
+        ]
+      }
+    ]);
+  });
+
+  it('leaves intra-word and unbalanced markers alone', () => {
+    expect(parseInline('snake_case_name 2*3*4 **open')).toEqual([
+      { type: 'text', text: 'snake_case_name 2*3*4 **open' }
+    ]);
+  });
+
+  it('never produces markup from HTML', () => {
+    expect(parseInline('<img src=x onerror=alert(1)> <b>hi</b>')).toEqual([
+      { type: 'text', text: '<img src=x onerror=alert(1)> <b>hi</b>' }
+    ]);
+  });
+
+  it('autolinks http(s) URLs without trailing punctuation', () => {
+    expect(parseInline('see https://example.com/a?b=1, (https://x.org/y).')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com/a?b=1', text: 'https://example.com/a?b=1' },
+      { type: 'text', text: ', (' },
+      { type: 'link', href: 'https://x.org/y', text: 'https://x.org/y' },
+      { type: 'text', text: ').' }
+    ]);
+  });
+
+  it('does not link other schemes', () => {
+    expect(parseInline('javascript:alert(1) ftp://x.org')).toEqual([
+      { type: 'text', text: 'javascript:alert(1) ftp://x.org' }
+    ]);
+  });
+
+  it('resolves mentions by email or unique local part', () => {
+    const nodes = parseInline('hi @alice, @bob@other.org and @bob', {
+      mentionCandidates: members,
+      currentUserId: 'u-alice'
+    });
+
+    expect(nodes).toEqual([
+      { type: 'text', text: 'hi ' },
+      { type: 'mention', userId: 'u-alice', label: 'Alice Smith', isCurrentUser: true },
+      { type: 'text', text: ', ' },
+      { type: 'mention', userId: 'u-bob2', label: 'bob@other.org', isCurrentUser: false },
+      // Ambiguous between two members
+      { type: 'text', text: ' and @bob' }
+    ]);
+  });
+
+  it('ignores unknown handles and email addresses in text', () => {
+    expect(parseInline('mail carol@example.com or @carol', { mentionCandidates: members })).toEqual([
+      { type: 'text', text: 'mail carol@example.com or @carol' }
+    ]);
+  });
+});
+
+describe('parseRichText', () => {
+  it('splits paragraphs and keeps line breaks', () => {
+    expect(parseRichText('one\ntwo\n\nthree')).toEqual([
+      {
+        type: 'paragraph',
+        children: [{ type: 'text', text: 'one' }, { type: 'lineBreak' }, { type: 'text', text: 'two' }]
+      },
+      { type: 'paragraph', children: [{ type: 'text', text: 'three' }] }
+    ]);
+  });
+
+  it('keeps fenced code verbatim', () => {
+    expect(parseRichText('```\n**not bold** @alice\n  indented\n```\nafter')).toEqual([
+      { type: 'codeBlock', text: '**not bold** @alice\n  indented' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'after' }] }
+    ]);
+  });
+
+  it('parses quotes and lists', () => {
+    expect(parseRichText('> quoted *text*\n- one\n- two\n3. three\n4. four')).toEqual([
+      {
+        type: 'quote',
+        children: [
+          {
+            type: 'paragraph',
+            children: [
+              { type: 'text', text: 'quoted ' },
+              { type: 'italic', children: [{ type: 'text', text: 'text' }] }
+            ]
+          }
+        ]
+      },
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [[{ type: 'text', text: 'one' }], [{ type: 'text', text: 'two' }]]
+      },
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [[{ type: 'text', text: 'three' }], [{ type: 'text', text: 'four' }]]
+      }
+    ]);
+  });
+
+  it('finds mentioned users outside code', () => {
+    const options = { mentionCandidates: members };
+
+    expect(findMentionedUserIds('> @alice\n- @bob@example.com\n`@bob@other.org`', options)).toEqual([
+      'u-alice',
+      'u-bob'
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { MentionCandidate, mentionLabel, resolveMention } from './mentions';
+
+/**
+ * Parser for the small Markdown subset used in chat messages.
+ *
+ * Supported: **bold**, *italic* / _italic_, `code`, ``` fenced code blocks,
+ * > quotes, - / * bullet lists, 1. numbered lists, http(s) autolinks and
+ * @mentions of known users. Everything else, HTML included, is plain text:
+ * the output is a tree of typed nodes that the renderer turns into React
+ * elements, so message content can never inject markup.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: InlineNode[] }
+  | { type: 'italic'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; userId: string; label: string; isCurrentUser: boolean }
+  | { type: 'lineBreak' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'codeBlock'; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+export interface RichTextOptions {
+  /** Users that @mentions can resolve to; unknown handles stay plain text. */
+  mentionCandidates?: MentionCandidate[];
+  currentUserId?: string | null;
+}
+
+const FENCE = /^\s*```/;
+const QUOTE = /^\s*>\s?/;
+const BULLET_ITEM = /^\s*[-*]\s+/;
+const ORDERED_ITEM = /^\s*(\d+)[.)]\s+/;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/y;
+const MENTION_PATTERN = /@([A-Za-z0-9._%+-]+(?:@[A-Za-z0-9.-]+\.[A-Za-z]{2,})?)/y;
+// Characters after which a link or mention may start
+const TOKEN_BOUNDARY = /[\s([{>"'*_]/;
+const WORD_CHAR = /[A-Za-z0-9]/;
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) || QUOTE.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line);
+
+const matchAt = (pattern: RegExp, text: string, index: number): RegExpExecArray | null => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+// Sentence punctuation right after a URL is almost never part of it
+const trimUrl = (url: string): string => {
+  let trimmed = url.replace(/[.,!?;:'"]+$/, '');
+
+  if (trimmed.endsWith(')') && !trimmed.includes('(')) {
+    trimmed = trimmed.slice(0, -1);
+  }
+
+  return trimmed;
+};
+
+const findClosingDelimiter = (text: string, delimiter: string, from: number): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text.startsWith(delimiter, i)) {
+      const isWordAfter = WORD_CHAR.test(text[i + delimiter.length] ?? '');
+      // Emphasis cannot end after whitespace or inside a word (snake_case, 2*3*4)
+      if (!/\s/.test(text[i - 1]) && !isWordAfter) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+};
+
+export const parseInline = (text: string, options: RichTextOptions = {}): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const previous = text[i - 1];
+    const atBoundary = i === 0 || TOKEN_BOUNDARY.test(previous);
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (text.startsWith('**', i) && !/\s/.test(text[i + 2] ?? ' ')) {
+      const end = findClosingDelimiter(text, '**', i + 3);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'bold', children: parseInline(text.slice(i + 2, end), options) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && atBoundary && !/\s/.test(text[i + 1] ?? ' ')) {
+      const end = findClosingDelimiter(text, char, i + 2);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'italic', children: parseInline(text.slice(i + 1, end), options) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === 'h' && atBoundary) {
+      const match = matchAt(URL_PATTERN, text, i);
+      if (match) {
+        const url = trimUrl(match[0]);
+        flush();
+        nodes.push({ type: 'link', href: url, text: url });
+        i += url.length;
+        continue;
+      }
+    }
+
+    if (char === '@' && (i === 0 || !WORD_CHAR.test(previous))) {
+      const match = matchAt(MENTION_PATTERN, text, i);
+      const handle = match?.[1].replace(/\.+$/, '');
+      const candidate = handle ? resolveMention(handle, options.mentionCandidates ?? []) : null;
+
+      if (handle && candidate) {
+        flush();
+        nodes.push({
+          type: 'mention',
+          userId: candidate.userId,
+          label: mentionLabel(candidate),
+          isCurrentUser: candidate.userId === options.currentUserId
+        });
+        i += handle.length + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+const parseLines = (lines: string[], options: RichTextOptions): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'codeBlock', text: code.join('\n') });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseLines(quoted, options) });
+      continue;
+    }
+
+    const orderedMatch = ORDERED_ITEM.exec(line);
+    if (BULLET_ITEM.test(line) || orderedMatch) {
+      const ordered = orderedMatch !== null;
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: InlineNode[][] = [];
+
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        items.push(parseInline(lines[i].replace(itemPattern, ''), options));
+        i++;
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: orderedMatch ? Number(orderedMatch[1]) : 1,
+        items
+      });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const children: InlineNode[] = [];
+    while (i < lines.length && lines[i].trim() && (children.length === 0 || !isBlockStart(lines[i]))) {
+      if (children.length > 0) {
+        children.push({ type: 'lineBreak' });
+      }
+      children.push(...parseInline(lines[i], options));
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children });
+  }
+
+  return blocks;
+};
+
+export const parseRichText = (content: string, options: RichTextOptions = {}): BlockNode[] =>
+  parseLines(content.replace(/\r\n?/g, '\n').split('\n'), options);
+
+/** Ids of the known users @mentioned in `content`, outside code. */
+export const findMentionedUserIds = (content: string, options: RichTextOptions): string[] => {
+  const ids = new Set<string>();
+
+  const visitInline = (nodes: InlineNode[]) => nodes.forEach(node => {
+    if (node.type === 'mention') ids.add(node.userId);
+    if (node.type === 'bold' || node.type === 'italic') visitInline(node.children);
+  });
+
+  const visitBlocks = (blocks: BlockNode[]) => blocks.forEach(block => {
+    if (block.type === 'paragraph') visitInline(block.children);
+    if (block.type === 'quote') visitBlocks(block.children);
+    if (block.type === 'list') block.items.forEach(visitInline);
+  });
+
+  visitBlocks(parseRichText(content, options));
+  return Array.from(ids);
+};
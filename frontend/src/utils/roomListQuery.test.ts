@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ChatRoom } from '../services/chatService';
+import {
+  applyRoomListQuery,
+  DEFAULT_ROOM_LIST_QUERY,
+  listRoomTenants,
+  parseRoomListQuery,
+  RoomListQuery,
+  serializeRoomListQuery
+} from './roomListQuery';
+
+const room = (id: string, overrides: Partial<ChatRoom> = {}): ChatRoom => ({
+  id,
+  name: id,
+  isPublic: true,
+  memberCount: 1,
+  isMember: true,
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+const query = (changes: Partial<RoomListQuery>): RoomListQuery => ({ ...DEFAULT_ROOM_LIST_QUERY, ...changes });
+const ids = (rooms: ChatRoom[]) => rooms.map(r => r.id);
+
+describe('roomListQuery', () => {
+  it('round-trips through the query string, leaving defaults and other parameters alone', () => {
+    const changed = query({ tab: 'discover', search: 'dev ops', sort: 'members' });
+    const search = serializeRoomListQuery(changed, '?room=abc');
+
+    expect(new URLSearchParams(search).get('room')).toBe('abc');
+    expect(new URLSearchParams(search).has('visibility')).toBe(false);
+    expect(parseRoomListQuery(search)).toEqual(changed);
+    expect(serializeRoomListQuery(DEFAULT_ROOM_LIST_QUERY)).toBe('');
+  });
+
+  it('falls back to defaults for unknown values', () => {
+    expect(parseRoomListQuery('?tab=secret&sort=random')).toEqual(DEFAULT_ROOM_LIST_QUERY);
+  });
+
+  it('filters by tab, visibility and membership', () => {
+    const rooms = [
+      room('joined-public'),
+      room('joined-private', { isPublic: false }),
+      room('open', { isMember: false })
+    ];
+
+    expect(ids(applyRoomListQuery(rooms, query({ tab: 'mine' })))).toEqual(['joined-public', 'joined-private']);
+    expect(ids(applyRoomListQuery(rooms, query({ tab: 'discover' })))).toEqual(['joined-public', 'open']);
+    expect(ids(applyRoomListQuery(rooms, query({ tab: 'mine', visibility: 'private' })))).toEqual(['joined-private']);
+    expect(ids(applyRoomListQuery(rooms, query({ tab: 'discover', membership: 'nonmember' })))).toEqual(['open']);
+  });
+
+  it('filters by tenant, with global for rooms without one', () => {
+    const rooms = [room('global'), room('acme', { tenantId: 't-acme' }), room('globex', { tenantId: 't-globex' })];
+
+    expect(ids(applyRoomListQuery(rooms, query({ tenant: 'global' })))).toEqual(['global']);
+    expect(ids(applyRoomListQuery(rooms, query({ tenant: 't-acme' })))).toEqual(['acme']);
+  });
+
+  it('sorts by the chosen order', () => {
+    const rooms = [
+      room('old-busy', { memberCount: 9, createdAt: '2025-01-01T00:00:00Z', lastActivityAt: '2025-03-01T00:00:00Z' }),
+      room('new-quiet', { memberCount: 2, createdAt: '2025-02-01T00:00:00Z' })
+    ];
+
+    expect(ids(applyRoomListQuery(rooms, query({ sort: 'activity' })))).toEqual(['old-busy', 'new-quiet']);
+    expect(ids(applyRoomListQuery(rooms, query({ sort: 'created' })))).toEqual(['new-quiet', 'old-busy']);
+    expect(ids(applyRoomListQuery(rooms, query({ sort: 'members' })))).toEqual(['old-busy', 'new-quiet']);
+  });
+
+  it('ranks search results by relevance, then by the chosen order', () => {
+    const rooms = [
+      room('scattered', { name: 'Design review', memberCount: 50 }),
+      room('described', { name: 'Lounge', description: 'dev chatter', memberCount: 1 }),
+      room('named', { name: 'dev', memberCount: 2 }),
+      room('no-match', { name: 'General' })
+    ];
+
+    expect(ids(applyRoomListQuery(rooms, query({ search: 'dev', sort: 'members' }))))
+      .toEqual(['named', 'described', 'scattered']);
+  });
+
+  it('lists the tenants of the rooms by name', () => {
+    const rooms = [
+      room('a', { tenantId: 't-2', tenantName: 'Globex' }),
+      room('b', { tenantId: 't-1', tenantName: 'Acme' }),
+      room('c', { tenantId: 't-1', tenantName: 'Acme' }),
+      room('d', { tenantId: 't-3' }),
+      room('e')
+    ];
+
+    expect(listRoomTenants(rooms)).toEqual([
+      { id: 't-1', name: 'Acme' },
+      { id: 't-2', name: 'Globex' },
+      { id: 't-3', name: 'Unnamed community' }
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { ChatRoom } from '../services/chatService';
+import { fuzzyScoreFields } from './fuzzySearch';
+
+export type RoomListTab = 'mine' | 'discover';
+export type VisibilityFilter = 'all' | 'public' | 'private';
+export type MembershipFilter = 'all' | 'member' | 'nonmember';
+export type RoomSort = 'activity' | 'members' | 'created';
+
+export interface RoomListQuery {
+  tab: RoomListTab;
+  search: string;
+  visibility: VisibilityFilter;
+  membership: MembershipFilter;
+  /** Tenant id, 'global' for rooms without a tenant, or 'all'. */
+  tenant: string;
+  sort: RoomSort;
+}
+
+export const DEFAULT_ROOM_LIST_QUERY: RoomListQuery = {
+  tab: 'mine',
+  search: '',
+  visibility: 'all',
+  membership: 'all',
+  tenant: 'all',
+  sort: 'activity'
+};
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const parseRoomListQuery = (search: string): RoomListQuery => {
+  const params = new URLSearchParams(search);
+
+  return {
+    tab: pick(params.get('tab'), ['mine', 'discover'], DEFAULT_ROOM_LIST_QUERY.tab),
+    search: params.get('q') ?? '',
+    visibility: pick(params.get('visibility'), ['all', 'public', 'private'], DEFAULT_ROOM_LIST_QUERY.visibility),
+    membership: pick(params.get('membership'), ['all', 'member', 'nonmember'], DEFAULT_ROOM_LIST_QUERY.membership),
+    tenant: params.get('tenant') ?? DEFAULT_ROOM_LIST_QUERY.tenant,
+    sort: pick(params.get('sort'), ['activity', 'members', 'created'], DEFAULT_ROOM_LIST_QUERY.sort)
+  };
+};
+
+/** Writes the non-default parts of `query` into `search`, leaving unrelated parameters alone. */
+export const serializeRoomListQuery = (query: RoomListQuery, search: string = ''): string => {
+  const params = new URLSearchParams(search);
+  const entries: [string, string, string][] = [
+    ['tab', query.tab, DEFAULT_ROOM_LIST_QUERY.tab],
+    ['q', query.search, DEFAULT_ROOM_LIST_QUERY.search],
+    ['visibility', query.visibility, DEFAULT_ROOM_LIST_QUERY.visibility],
+    ['membership', query.membership, DEFAULT_ROOM_LIST_QUERY.membership],
+    ['tenant', query.tenant, DEFAULT_ROOM_LIST_QUERY.tenant],
+    ['sort', query.sort, DEFAULT_ROOM_LIST_QUERY.sort]
+  ];
+
+  entries.forEach(([key, value, fallback]) => {
+    if (value === fallback) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  });
+
+  const result = params.toString();
+  return result ? `?${result}` : '';
+};
+
+export interface RoomTenant {
+  id: string;
+  name: string;
+}
+
+/** The tenants `rooms` belong to, by name, for the community filter. */
+export const listRoomTenants = (rooms: ChatRoom[]): RoomTenant[] => {
+  const tenants = new Map<string, string | null | undefined>();
+
+  rooms.forEach(room => {
+    if (room.tenantId && !tenants.get(room.tenantId)) {
+      tenants.set(room.tenantId, room.tenantName);
+    }
+  });
+
+  return Array.from(tenants, ([id, name]) => ({ id, name: name || 'Unnamed community' }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const lastActivity = (room: ChatRoom) => new Date(room.lastActivityAt ?? room.createdAt).getTime();
+
+const comparators: Record<RoomSort, (a: ChatRoom, b: ChatRoom) => number> = {
+  activity: (a, b) => lastActivity(b) - lastActivity(a),
+  members: (a, b) => b.memberCount - a.memberCount,
+  created: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+};
+
+/** Applies the tab, filters, fuzzy search and sort order of `query` to `rooms`. */
+export const applyRoomListQuery = (rooms: ChatRoom[], query: RoomListQuery): ChatRoom[] => {
+  const filtered = rooms.filter(room => {
+    if (query.tab === 'mine' && !room.isMember) return false;
+    if (query.tab === 'discover' && !room.isPublic) return false;
+    if (query.visibility === 'public' && !room.isPublic) return false;
+    if (query.visibility === 'private' && room.isPublic) return false;
+    if (query.tab === 'discover' && query.membership === 'member' && !room.isMember) return false;
+    if (query.tab === 'discover' && query.membership === 'nonmember' && room.isMember) return false;
+    if (query.tenant === 'global' && room.tenantId) return false;
+    if (query.tenant !== 'all' && query.tenant !== 'global' && room.tenantId !== query.tenant) return false;
+    return true;
+  });
+
+  if (!query.search.trim()) {
+    return filtered.sort(comparators[query.sort]);
+  }
+
+  // With a search term, relevance comes first and the chosen sort breaks ties
+  return filtered
+    .map(room => ({ room, score: fuzzyScoreFields(query.search, [room.name, room.description]) }))
+    .filter((result): result is { room: ChatRoom; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score || comparators[query.sort](a.room, b.room))
+    .map(result => result.room);
+};
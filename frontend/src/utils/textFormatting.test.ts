@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toggleWrap } from './textFormatting';
+
+describe('toggleWrap', () => {
+  it('wraps the selection and keeps it selected', () => {
+    expect(toggleWrap('make this bold', 5, 9, '**')).toEqual({
+      text: 'make **this** bold',
+      selectionStart: 7,
+      selectionEnd: 11
+    });
+  });
+
+  it('unwraps an already wrapped selection', () => {
+    expect(toggleWrap('make **this** bold', 7, 11, '**')).toEqual({
+      text: 'make this bold',
+      selectionStart: 5,
+      selectionEnd: 9
+    });
+  });
+
+  it('puts the caret between the markers when nothing is selected', () => {
+    expect(toggleWrap('code: ', 6, 6, '`')).toEqual({ text: 'code: ``', selectionStart: 7, selectionEnd: 7 });
+  });
+});
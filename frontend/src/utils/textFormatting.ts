@@ -0,0 +1,34 @@
+export interface TextSelection {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in `marker` (e.g. `**` for bold), or unwraps it when it
+ * is already wrapped. With nothing selected the caret ends up between the markers.
+ */
+export const toggleWrap = (
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  marker: string
+): TextSelection => {
+  const before = text.slice(0, selectionStart);
+  const selected = text.slice(selectionStart, selectionEnd);
+  const after = text.slice(selectionEnd);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length
+    };
+  }
+
+  return {
+    text: before + marker + selected + marker + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { computeOffsets, findRowAt, findVisibleRange } from './virtualList';
+
+describe('computeOffsets', () => {
+  it('uses measured sizes and the estimate for the rest', () => {
+    const sizes = new Map([['a', 40], ['c', 120]]);
+    expect(computeOffsets(['a', 'b', 'c'], sizes, 80)).toEqual([0, 40, 120, 240]);
+    expect(computeOffsets([], sizes, 80)).toEqual([0]);
+  });
+});
+
+describe('findRowAt', () => {
+  const offsets = [0, 40, 120, 240];
+
+  it('finds the row containing a position', () => {
+    expect(findRowAt(offsets, 0)).toBe(0);
+    expect(findRowAt(offsets, 39)).toBe(0);
+    expect(findRowAt(offsets, 40)).toBe(1);
+    expect(findRowAt(offsets, 200)).toBe(2);
+  });
+
+  it('clamps positions outside the list', () => {
+    expect(findRowAt(offsets, -50)).toBe(0);
+    expect(findRowAt(offsets, 1000)).toBe(2);
+    expect(findRowAt([0], 10)).toBe(-1);
+  });
+});
+
+describe('findVisibleRange', () => {
+  it('returns the rows overlapping the window', () => {
+    expect(findVisibleRange([0, 40, 120, 240, 300], 100, 250)).toEqual({ start: 1, end: 3 });
+    expect(findVisibleRange([0], 0, 100)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+/** Where a list was scrolled to: a row and its distance from the top of the viewport. */
+export interface ScrollPosition {
+  key: string;
+  offset: number;
+}
+
+/**
+ * Start offset of every row, plus the total height as the last entry.
+ * Rows that have not been measured yet use `estimatedSize`.
+ */
+export const computeOffsets = (
+  keys: string[],
+  sizes: ReadonlyMap<string, number>,
+  estimatedSize: number
+): number[] => {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (sizes.get(keys[i]) ?? estimatedSize);
+  }
+
+  return offsets;
+};
+
+/** Index of the row that contains `position`, clamped to the list. */
+export const findRowAt = (offsets: number[], position: number): number => {
+  const rowCount = offsets.length - 1;
+  if (rowCount <= 0) return -1;
+
+  // Last row whose start is at or above the position
+  let low = 0;
+  let high = rowCount - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+};
+
+/** Inclusive range of rows overlapping [top, bottom], or null for an empty list. */
+export const findVisibleRange = (
+  offsets: number[],
+  top: number,
+  bottom: number
+): { start: number; end: number } | null => {
+  if (offsets.length <= 1) return null;
+
+  return { start: findRowAt(offsets, top), end: findRowAt(offsets, bottom) };
+};
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ENTRA_CLIENT_ID?: string;
+  readonly VITE_ENTRA_AUTHORITY?: string;
+  readonly VITE_ENTRA_REDIRECT_URI?: string;
+  readonly VITE_ENTRA_SCOPES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}